@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS refunds (
+  id              UUID PRIMARY KEY,
+  transaction_id  UUID NOT NULL REFERENCES transactions(id),
+  amount          INTEGER NOT NULL CHECK (amount > 0),
+  status          VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  psp_refund_id   VARCHAR(255),
+  created_at      TIMESTAMPTZ DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for summing refunds against a transaction (over-refund checks)
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction_id ON refunds(transaction_id);
@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  key                  VARCHAR(255) PRIMARY KEY,
+  request_fingerprint  VARCHAR(64) NOT NULL,
+  status               VARCHAR(20) NOT NULL DEFAULT 'IN_PROGRESS',
+  response_body        JSONB,
+  -- An IN_PROGRESS key whose request died is taken over by a retry once its lease has expired
+  lease_expires_at     TIMESTAMPTZ(3),
+  created_at           TIMESTAMPTZ DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,8 @@
+DROP INDEX IF EXISTS idx_transactions_order_id;
+DROP INDEX IF EXISTS idx_transactions_status_created_at;
+DROP INDEX IF EXISTS idx_transactions_amount_id;
+DROP INDEX IF EXISTS idx_transactions_updated_at_id;
+DROP INDEX IF EXISTS idx_transactions_created_at_id;
+
+ALTER TABLE transactions ALTER COLUMN updated_at TYPE TIMESTAMPTZ;
+ALTER TABLE transactions ALTER COLUMN created_at TYPE TIMESTAMPTZ;
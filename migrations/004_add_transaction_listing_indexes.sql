@@ -0,0 +1,13 @@
+-- Store timestamps at millisecond precision so keyset cursors built from
+-- JavaScript Dates match stored values exactly
+ALTER TABLE transactions ALTER COLUMN created_at TYPE TIMESTAMPTZ(3);
+ALTER TABLE transactions ALTER COLUMN updated_at TYPE TIMESTAMPTZ(3);
+
+-- Keyset pagination for each sortable field (ties broken by id)
+CREATE INDEX IF NOT EXISTS idx_transactions_created_at_id ON transactions(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_transactions_updated_at_id ON transactions(updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_transactions_amount_id ON transactions(amount, id);
+
+-- Filtered listings (ops dashboards filter by status or look up an order)
+CREATE INDEX IF NOT EXISTS idx_transactions_status_created_at ON transactions(status, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_transactions_order_id ON transactions(order_id);
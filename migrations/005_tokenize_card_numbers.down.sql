@@ -0,0 +1,15 @@
+-- Masked PANs cannot be unmasked: card_number comes back holding the masked values
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'masked_card_number'
+  ) THEN
+    ALTER TABLE transactions RENAME COLUMN masked_card_number TO card_number;
+  END IF;
+END $$;
+
+ALTER TABLE transactions DROP COLUMN IF EXISTS card_brand;
+ALTER TABLE transactions DROP COLUMN IF EXISTS card_last4;
+ALTER TABLE transactions DROP COLUMN IF EXISTS card_bin;
+ALTER TABLE transactions DROP COLUMN IF EXISTS card_token;
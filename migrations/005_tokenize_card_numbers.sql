@@ -0,0 +1,39 @@
+-- Stop storing raw PANs: keep a token, the BIN, the last four digits, the brand
+-- and a masked PAN instead of card_number
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS card_token VARCHAR(64);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS card_bin VARCHAR(6);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS card_last4 VARCHAR(4);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS card_brand VARCHAR(20);
+
+-- Backfill existing rows and mask their PAN in place. The token needs the
+-- application's secret, so pre-existing rows keep a NULL token.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'card_number'
+  ) THEN
+    UPDATE transactions SET
+      card_bin = LEFT(card_number, 6),
+      card_last4 = RIGHT(card_number, 4),
+      card_brand = CASE
+        WHEN card_number ~ '^3[47]' THEN 'AMEX'
+        WHEN card_number ~ '^35(2[89]|[3-8][0-9])' THEN 'JCB'
+        WHEN card_number ~ '^3(0[0-5]|[689])' THEN 'DINERS'
+        WHEN card_number ~ '^4' THEN 'VISA'
+        WHEN card_number ~ '^(5[1-5]|2(22[1-9]|2[3-9][0-9]|[3-6][0-9]{2}|7[01][0-9]|720))' THEN 'MASTERCARD'
+        WHEN card_number ~ '^(6011|64[4-9]|65)' THEN 'DISCOVER'
+        WHEN card_number ~ '^62' THEN 'UNIONPAY'
+        ELSE 'UNKNOWN'
+      END,
+      card_number = LEFT(card_number, 6)
+        || REPEAT('*', GREATEST(LENGTH(card_number) - 10, 0))
+        || RIGHT(card_number, 4);
+
+    ALTER TABLE transactions RENAME COLUMN card_number TO masked_card_number;
+  END IF;
+END $$;
+
+ALTER TABLE transactions ALTER COLUMN card_bin SET NOT NULL;
+ALTER TABLE transactions ALTER COLUMN card_last4 SET NOT NULL;
+ALTER TABLE transactions ALTER COLUMN card_brand SET NOT NULL;
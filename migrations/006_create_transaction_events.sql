@@ -0,0 +1,14 @@
+-- Append-only history of every transaction status change. Rows are written in
+-- the same database transaction as the change they describe.
+CREATE TABLE IF NOT EXISTS transaction_events (
+  id              BIGSERIAL PRIMARY KEY,
+  transaction_id  UUID NOT NULL REFERENCES transactions(id),
+  from_status     VARCHAR(20),
+  to_status       VARCHAR(20) NOT NULL,
+  source          VARCHAR(20) NOT NULL,
+  actor           VARCHAR(255),
+  payload         JSONB,
+  created_at      TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_events_transaction_id ON transaction_events(transaction_id, id);
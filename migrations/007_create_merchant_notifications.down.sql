@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS merchant_notifications;
+
+ALTER TABLE transactions DROP COLUMN IF EXISTS notification_url;
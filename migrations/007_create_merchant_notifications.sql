@@ -0,0 +1,21 @@
+-- Merchant URL for our transaction.* notifications (replaces passing callbackUrl to the PSP)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS notification_url TEXT;
+
+-- Outgoing merchant notifications with their delivery log
+CREATE TABLE IF NOT EXISTS merchant_notifications (
+  id               UUID PRIMARY KEY,
+  transaction_id   UUID NOT NULL REFERENCES transactions(id),
+  event_type       VARCHAR(50) NOT NULL,
+  url              TEXT NOT NULL,
+  payload          JSONB NOT NULL,
+  status           VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts         JSONB NOT NULL DEFAULT '[]',
+  next_attempt_at  TIMESTAMPTZ(3),
+  created_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_notifications_transaction_id ON merchant_notifications(transaction_id, created_at);
+
+-- Resuming retries after a restart only needs the undelivered rows
+CREATE INDEX IF NOT EXISTS idx_merchant_notifications_pending ON merchant_notifications(created_at) WHERE status = 'PENDING';
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS psp_webhook_deliveries;
+DROP TABLE IF EXISTS psp_pending_authorizations;
+DROP TABLE IF EXISTS psp_pending_3ds_sessions;
@@ -0,0 +1,35 @@
+-- PSP simulator state, so pending 3DS sessions, authorizations and undelivered webhooks survive a restart
+CREATE TABLE IF NOT EXISTS psp_pending_3ds_sessions (
+  psp_transaction_id      VARCHAR(255) PRIMARY KEY,
+  callback_url            TEXT NOT NULL,
+  amount                  INTEGER NOT NULL,
+  capture_mode            VARCHAR(20) NOT NULL,
+  return_url              TEXT,
+  failure_url             TEXT,
+  otp_attempts_remaining  INTEGER NOT NULL,
+  scenario                JSONB,
+  expires_at              TIMESTAMPTZ(3) NOT NULL,
+  created_at              TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS psp_pending_authorizations (
+  psp_transaction_id  VARCHAR(255) PRIMARY KEY,
+  amount              INTEGER NOT NULL,
+  created_at          TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+-- The PSP simulator's webhook outbox, so undelivered webhooks are retried after a restart
+CREATE TABLE IF NOT EXISTS psp_webhook_deliveries (
+  id               VARCHAR(255) PRIMARY KEY,
+  callback_url     TEXT NOT NULL,
+  payload          JSONB NOT NULL,
+  status           VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts         JSONB NOT NULL DEFAULT '[]',
+  next_attempt_at  TIMESTAMPTZ(3),
+  created_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+-- Resuming after a restart only needs the undelivered rows
+CREATE INDEX IF NOT EXISTS idx_psp_webhook_deliveries_pending ON psp_webhook_deliveries(next_attempt_at) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_psp_webhook_deliveries_transaction_id ON psp_webhook_deliveries((payload->>'transactionId'));
@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_transactions_status_last_reconciled_at;
+ALTER TABLE transactions DROP COLUMN IF EXISTS last_reconciled_at;
+
+DROP INDEX IF EXISTS idx_transactions_status_updated_at;
+
+DROP TABLE IF EXISTS psp_transactions;
@@ -0,0 +1,22 @@
+-- The PSP simulator's own record of each payment, queried by the reconciler
+CREATE TABLE IF NOT EXISTS psp_transactions (
+  psp_transaction_id  VARCHAR(255) PRIMARY KEY,
+  order_id            VARCHAR(255),
+  amount              INTEGER NOT NULL,
+  currency            VARCHAR(3) NOT NULL,
+  status              VARCHAR(20) NOT NULL,
+  final_amount        INTEGER NOT NULL,
+  decline_code        VARCHAR(100),
+  created_at          TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),
+  updated_at          TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+-- The reconciler looks for transactions stuck in an intermediate status since before a cutoff
+CREATE INDEX IF NOT EXISTS idx_transactions_status_updated_at ON transactions(status, updated_at);
+
+-- When the reconciler last checked a transaction: it checks the ones it has not looked at for the longest first,
+-- so transactions it cannot resolve never keep newer ones out of a batch
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS last_reconciled_at TIMESTAMPTZ(3);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_status_last_reconciled_at
+  ON transactions(status, last_reconciled_at NULLS FIRST, updated_at);
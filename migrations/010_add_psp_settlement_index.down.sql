@@ -0,0 +1 @@
+DROP INDEX IF EXISTS idx_psp_transactions_created_at;
@@ -0,0 +1,2 @@
+-- Settlement files list the PSP's payments by creation day
+CREATE INDEX IF NOT EXISTS idx_psp_transactions_created_at ON psp_transactions(created_at);
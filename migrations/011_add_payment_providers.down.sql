@@ -0,0 +1,7 @@
+DROP TABLE IF EXISTS psp_refunds;
+
+ALTER TABLE psp_transactions DROP COLUMN IF EXISTS refunded_amount;
+
+ALTER TABLE psp_transactions DROP COLUMN IF EXISTS instance;
+
+ALTER TABLE transactions DROP COLUMN IF EXISTS provider;
@@ -0,0 +1,20 @@
+-- Transactions remember the payment provider they were routed to; existing ones went to the only PSP
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS provider VARCHAR(50) NOT NULL DEFAULT 'psp';
+
+-- Several PSP simulator instances can share the simulator tables
+ALTER TABLE psp_transactions ADD COLUMN IF NOT EXISTS instance VARCHAR(50) NOT NULL DEFAULT 'psp';
+
+-- The simulator only accepts refunds up to what is left of a payment's final amount
+ALTER TABLE psp_transactions ADD COLUMN IF NOT EXISTS refunded_amount INTEGER NOT NULL DEFAULT 0;
+
+-- Refunds the PSP simulator accepted, so a retried refund with the same Idempotency-Key
+-- gets the first refund back instead of refunding the payment again
+CREATE TABLE IF NOT EXISTS psp_refunds (
+  psp_refund_id       VARCHAR(255) PRIMARY KEY,
+  instance            VARCHAR(50) NOT NULL,
+  psp_transaction_id  VARCHAR(255) NOT NULL REFERENCES psp_transactions(psp_transaction_id),
+  amount              INTEGER NOT NULL,
+  idempotency_key     VARCHAR(255),
+  created_at          TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),
+  UNIQUE (instance, idempotency_key)
+);
@@ -0,0 +1,9 @@
+-- Idempotency keys become global again: fails if two merchants used the same key
+ALTER TABLE idempotency_keys DROP CONSTRAINT IF EXISTS idempotency_keys_pkey;
+ALTER TABLE idempotency_keys DROP COLUMN IF EXISTS merchant_id;
+ALTER TABLE idempotency_keys ADD PRIMARY KEY (key);
+
+DROP INDEX IF EXISTS idx_transactions_merchant_created_at_id;
+ALTER TABLE transactions DROP COLUMN IF EXISTS merchant_id;
+
+DROP TABLE IF EXISTS merchants;
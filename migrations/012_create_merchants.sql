@@ -0,0 +1,29 @@
+-- Merchants calling the API. Only the SHA-256 of each API key is stored; callback_url and
+-- webhook_secret fall back to MERCHANT_WEBHOOK_URL and MERCHANT_WEBHOOK_SECRET when NULL
+CREATE TABLE IF NOT EXISTS merchants (
+  id              UUID PRIMARY KEY,
+  name            VARCHAR(255) NOT NULL,
+  api_key_hash    CHAR(64) UNIQUE,
+  callback_url    TEXT,
+  webhook_secret  VARCHAR(255),
+  created_at      TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+-- Transactions and idempotency keys created before merchants existed belong to a legacy
+-- merchant without an API key, so they stay stored but can no longer be read through the API
+INSERT INTO merchants (id, name) VALUES ('00000000-0000-0000-0000-000000000000', 'Legacy')
+  ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS merchant_id UUID REFERENCES merchants(id);
+UPDATE transactions SET merchant_id = '00000000-0000-0000-0000-000000000000' WHERE merchant_id IS NULL;
+ALTER TABLE transactions ALTER COLUMN merchant_id SET NOT NULL;
+
+-- Every listing is now scoped to one merchant
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_created_at_id ON transactions(merchant_id, created_at, id);
+
+-- Idempotency keys are unique per merchant, not globally
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS merchant_id UUID REFERENCES merchants(id);
+UPDATE idempotency_keys SET merchant_id = '00000000-0000-0000-0000-000000000000' WHERE merchant_id IS NULL;
+ALTER TABLE idempotency_keys ALTER COLUMN merchant_id SET NOT NULL;
+ALTER TABLE idempotency_keys DROP CONSTRAINT IF EXISTS idempotency_keys_pkey;
+ALTER TABLE idempotency_keys ADD PRIMARY KEY (merchant_id, key);
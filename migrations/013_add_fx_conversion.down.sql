@@ -0,0 +1,5 @@
+ALTER TABLE transactions DROP COLUMN IF EXISTS final_settlement_amount;
+ALTER TABLE transactions DROP COLUMN IF EXISTS fx_rate_timestamp;
+ALTER TABLE transactions DROP COLUMN IF EXISTS fx_rate;
+ALTER TABLE transactions DROP COLUMN IF EXISTS settlement_amount;
+ALTER TABLE transactions DROP COLUMN IF EXISTS settlement_currency;
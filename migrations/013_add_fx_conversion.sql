@@ -0,0 +1,7 @@
+-- Transactions charged to the PSP in another currency lock the FX rate at creation.
+-- The rate is stored unconstrained so it comes back exactly as quoted.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS settlement_currency VARCHAR(3);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS settlement_amount INTEGER;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fx_rate NUMERIC;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fx_rate_timestamp TIMESTAMPTZ;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS final_settlement_amount INTEGER;
@@ -0,0 +1,2 @@
+ALTER TABLE transactions DROP COLUMN IF EXISTS decline_message;
+ALTER TABLE transactions DROP COLUMN IF EXISTS decline_code;
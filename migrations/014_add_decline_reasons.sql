@@ -0,0 +1,3 @@
+-- Failed payments keep the provider's decline code and message, so soft and hard declines can be told apart.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS decline_code VARCHAR(64);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS decline_message TEXT;
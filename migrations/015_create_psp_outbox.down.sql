@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_psp_transactions_idempotency_key;
+ALTER TABLE psp_transactions DROP COLUMN IF EXISTS idempotency_key;
+
+ALTER TABLE transactions DROP COLUMN IF EXISTS three_ds_redirect_url;
+
+DROP TABLE IF EXISTS psp_outbox;
@@ -0,0 +1,33 @@
+-- PSP payment requests, written in the same database transaction as the transaction they charge
+-- and sent by a worker. The ID doubles as the PSP-side Idempotency-Key, so a resend never charges twice.
+-- Card details are kept encrypted only until the request is SENT or FAILED.
+-- A worker claims an entry (IN_FLIGHT) until lease_expires_at before sending it, so two workers never send it
+-- at once. sent_to is the provider that may have received the request: retries only ever go to it, so a payment
+-- is never created at two providers.
+CREATE TABLE IF NOT EXISTS psp_outbox (
+  id               UUID PRIMARY KEY,
+  transaction_id   UUID NOT NULL REFERENCES transactions(id),
+  request          JSONB NOT NULL,
+  encrypted_card   TEXT,
+  status           VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+  attempts         INTEGER NOT NULL DEFAULT 0,
+  last_error       TEXT,
+  next_attempt_at  TIMESTAMPTZ(3),
+  lease_expires_at TIMESTAMPTZ(3),
+  sent_to          VARCHAR(50),
+  created_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_psp_outbox_transaction_id ON psp_outbox(transaction_id);
+
+-- Resuming after a restart only needs the unsent rows
+CREATE INDEX IF NOT EXISTS idx_psp_outbox_unsent ON psp_outbox(created_at) WHERE status IN ('PENDING', 'IN_FLIGHT');
+
+-- The 3DS redirect URL is only known once the PSP has answered, possibly after the API responded
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS three_ds_redirect_url TEXT;
+
+-- The simulator answers a repeated Idempotency-Key with the payment it already created
+ALTER TABLE psp_transactions ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(255);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_psp_transactions_idempotency_key
+  ON psp_transactions(instance, idempotency_key) WHERE idempotency_key IS NOT NULL;
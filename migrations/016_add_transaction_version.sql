@@ -0,0 +1,3 @@
+-- Every update bumps the version, so a writer that read an older copy of the transaction
+-- (e.g. the create response racing a webhook) is detected instead of overwriting newer data.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
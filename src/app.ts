@@ -1,25 +1,60 @@
 import Fastify, { FastifyInstance } from 'fastify';
 import { ITransactionRepository } from './types/transaction';
+import { IMerchantRepository } from './types/merchant';
 import { TransactionService } from './services/transactionService';
 import { WebhookService } from './services/webhookService';
+import { NotificationService } from './services/notificationService';
+import { PspOutboxService } from './services/pspOutboxService';
+import { ReconciliationService } from './services/reconciliationService';
+import { MerchantService } from './services/merchantService';
 import { TransactionRepository } from './repositories/transactionRepository';
+import { MerchantRepository } from './repositories/merchantRepository';
 import swaggerPlugin from './plugins/swagger';
 import databasePlugin from './plugins/database';
+import merchantAuthPlugin from './plugins/merchantAuth';
+import adminAuthPlugin from './plugins/adminAuth';
 import transactionRoutes from './routes/transactions';
 import webhookRoutes from './routes/webhooks';
+import notificationRoutes from './routes/notifications';
+import reconciliationRoutes from './routes/reconciliation';
+import providerRoutes from './routes/providers';
 import pspRoutes from './psp-simulator/pspRoutes';
+import {
+    DEFAULT_SIMULATOR_INSTANCE,
+    SimulatorInstance,
+    restoreExpiryTimers,
+    stopExpiryTimers,
+    useSimulatorStore,
+} from './psp-simulator/pspService';
+import { resumeWebhookDeliveries, stopWebhookDeliveries, useWebhookOutbox } from './psp-simulator/webhookOutbox';
+import { ISimulatorStore } from './psp-simulator/simulatorStore';
+import { PostgresSimulatorStore } from './psp-simulator/postgresSimulatorStore';
+import { PaymentProviderConfig, ProviderRoutingRule } from './providers/paymentProvider';
+import { PspSimulatorProvider } from './providers/pspSimulatorProvider';
+import { ProviderRouter } from './providers/providerRouter';
+import { FxRateProvider, loadFxRateFile, TableFxRateProvider } from './providers/fxRateProvider';
 import config from './config';
 
 /**
  * Options for building the Fastify application.
- * `repository` can be provided to override the default Postgres repository (useful for testing).
+ * `repository`, `merchantRepository` and `simulatorStore` can be provided to override
+ * the default Postgres implementations (useful for testing).
  */
 export interface BuildAppOptions {
     logger?: boolean | object;
     repository?: ITransactionRepository;
+    merchantRepository?: IMerchantRepository;
+    simulatorStore?: ISimulatorStore;
     skipDatabase?: boolean;
-    pspBaseUrl?: string;
     appBaseUrl?: string;
+    webhookSecrets?: string[];
+    merchantWebhookUrl?: string | null;
+    paymentProviders?: PaymentProviderConfig[];
+    providerRoutingRules?: ProviderRoutingRule[];
+    defaultProvider?: string;
+    pspSimulatorInstances?: SimulatorInstance[];
+    fxRateProvider?: FxRateProvider;
+    adminApiKey?: string;
 }
 
 /**
@@ -30,7 +65,7 @@ export interface BuildAppOptions {
  * @returns Configured Fastify instance
  */
 export async function buildApp(options: BuildAppOptions = {}): Promise<FastifyInstance> {
-    const { logger = true, repository, skipDatabase = false } = options;
+    const { logger = true, repository, merchantRepository, simulatorStore, skipDatabase = false } = options;
 
     const app = Fastify({ logger });
 
@@ -44,25 +79,126 @@ export async function buildApp(options: BuildAppOptions = {}): Promise<FastifyIn
 
     // Create repository (use provided one or default to Postgres)
     const transactionRepository: ITransactionRepository =
-        repository || new TransactionRepository(app.pg);
+        repository || new TransactionRepository(app.pg, {
+            lockTimeoutMs: config.transactionLockTimeoutMs,
+            unitTimeoutMs: config.transactionUnitTimeoutMs,
+        });
+    const merchants: IMerchantRepository = merchantRepository || new MerchantRepository(app.pg);
+
+    // The PSP simulator keeps its pending 3DS sessions, authorizations and webhook outbox in the same database
+    const pspSimulatorStore = simulatorStore || new PostgresSimulatorStore(app.pg);
+    useSimulatorStore(pspSimulatorStore);
+    useWebhookOutbox(pspSimulatorStore, app.log);
+
+    // Every configured provider speaks the PSP simulator's API and reports back to /webhooks/<name>
+    const paymentProviders = options.paymentProviders || config.paymentProviders;
+    const providerRouter = new ProviderRouter(
+        paymentProviders.map((provider) => new PspSimulatorProvider({
+            name: provider.name,
+            baseUrl: provider.baseUrl,
+            appBaseUrl: options.appBaseUrl || config.appBaseUrl,
+            webhookSecrets: options.webhookSecrets || config.webhookSecrets,
+            webhookToleranceSeconds: config.webhookToleranceSeconds,
+            retryAttempts: config.pspRetryAttempts,
+            retryDelayMs: config.pspRetryDelayMs,
+            requestTimeoutMs: config.pspRequestTimeoutMs,
+            circuitBreakerFailureThreshold: config.circuitBreakerFailureThreshold,
+            circuitBreakerResetTimeoutMs: config.circuitBreakerResetTimeoutMs,
+            logger: app.log,
+        })),
+        {
+            rules: options.providerRoutingRules || config.providerRoutingRules,
+            defaultProvider: options.defaultProvider || config.defaultProvider,
+            failover: Object.fromEntries(paymentProviders
+                .filter((provider) => provider.failoverProvider)
+                .map((provider) => [provider.name, provider.failoverProvider!])),
+        },
+    );
+
+    // Exchange rates locked onto transactions that settle in another currency
+    const fxRateProvider = options.fxRateProvider
+        || new TableFxRateProvider(config.fxRatesFile ? loadFxRateFile(config.fxRatesFile) : config.fxRates);
 
     // Register services as decorators for route access
+    const notificationService = new NotificationService(transactionRepository, {
+        merchantRepository: merchants,
+        secret: config.merchantWebhookSecret,
+        defaultUrl: options.merchantWebhookUrl !== undefined ? options.merchantWebhookUrl : config.merchantWebhookUrl,
+        maxAttempts: config.merchantWebhookMaxAttempts,
+        retryBaseDelayMs: config.merchantWebhookRetryBaseDelayMs,
+        logger: app.log,
+    });
+
+    const pspOutboxService = new PspOutboxService(transactionRepository, {
+        providerRouter,
+        cardEncryptionKey: config.cardEncryptionKey,
+        notificationService,
+        maxAttempts: config.pspOutboxMaxAttempts,
+        retryBaseDelayMs: config.pspOutboxRetryBaseDelayMs,
+        leaseMs: config.pspOutboxLeaseMs,
+        logger: app.log,
+    });
+
     const transactionService = new TransactionService(transactionRepository, {
-        pspBaseUrl: options.pspBaseUrl || config.pspBaseUrl,
-        appBaseUrl: options.appBaseUrl || config.appBaseUrl,
-        retryAttempts: config.pspRetryAttempts,
-        retryDelayMs: config.pspRetryDelayMs,
+        providerRouter,
+        cardTokenSecret: config.cardTokenSecret,
+        idempotencyKeyLeaseMs: config.idempotencyKeyLeaseMs,
+        fxRateProvider,
+        pspOutboxService,
+        notificationService,
     });
 
-    const webhookService = new WebhookService(transactionRepository);
+    const webhookService = new WebhookService(transactionRepository, notificationService, app.log);
 
+    const reconciliationService = new ReconciliationService(transactionRepository, webhookService, {
+        providerRouter,
+        transactionService,
+        pspOutboxService,
+        thresholdMs: config.reconciliationThresholdMs,
+        intervalMs: config.reconciliationIntervalMs,
+        batchSize: config.reconciliationBatchSize,
+        logger: app.log,
+    });
+
+    app.decorate('providerRouter', providerRouter);
     app.decorate('transactionService', transactionService);
     app.decorate('webhookService', webhookService);
+    app.decorate('notificationService', notificationService);
+    app.decorate('pspOutboxService', pspOutboxService);
+    app.decorate('reconciliationService', reconciliationService);
+
+    // Pick up PSP requests, notification retries, simulator webhooks and 3DS expiries left pending by a previous run
+    // and start the reconciler; stop the timers on shutdown
+    app.addHook('onReady', async () => {
+        await pspOutboxService.resumePendingRequests();
+        await notificationService.resumePendingDeliveries();
+        await resumeWebhookDeliveries();
+        await restoreExpiryTimers();
+        reconciliationService.start();
+    });
+    app.addHook('onClose', async () => {
+        pspOutboxService.stop();
+        notificationService.stop();
+        stopWebhookDeliveries();
+        stopExpiryTimers();
+        reconciliationService.stop();
+    });
+
+    // Merchant-facing routes authenticate with an API key
+    await app.register(merchantAuthPlugin, { merchantService: new MerchantService(merchants) });
+    // Operator routes authenticate with the admin API key
+    await app.register(adminAuthPlugin, { apiKey: options.adminApiKey || config.adminApiKey });
 
     // Register routes
     await app.register(transactionRoutes);
     await app.register(webhookRoutes);
-    await app.register(pspRoutes);
+    await app.register(notificationRoutes);
+    await app.register(reconciliationRoutes);
+    await app.register(providerRoutes);
+    await app.register(pspRoutes, { prefix: '/psp', instance: DEFAULT_SIMULATOR_INSTANCE });
+    for (const instance of options.pspSimulatorInstances || config.pspSimulatorInstances) {
+        await app.register(pspRoutes, { prefix: `/${instance.name}`, instance });
+    }
 
     return app;
 }
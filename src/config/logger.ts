@@ -14,6 +14,11 @@ export const prettyLoggerConfig = {
         },
     },
     level: 'info',
+    // Belt and braces: card data must never reach the logs, even if a body gets logged
+    redact: {
+        paths: ['cardNumber', 'cvv', '*.cardNumber', '*.cvv', 'req.body.cardNumber', 'req.body.cvv'],
+        censor: '[REDACTED]',
+    },
 };
 
 /**
@@ -0,0 +1,40 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/** Prefix identifying merchant API keys (secret keys) */
+const API_KEY_PREFIX = 'sk_';
+
+/** Prefix identifying generated merchant webhook secrets */
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+/**
+ * Generates a new merchant API key with 192 bits of randomness.
+ * @returns Key such as `sk_3f9a…`, to be shown to the merchant once and never stored
+ */
+export function generateApiKey(): string {
+    return `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Generates a new secret for signing a merchant's notifications.
+ */
+export function generateWebhookSecret(): string {
+    return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Hashes an API key for storage and lookup. Keys are long random strings, so a fast
+ * unsalted hash is enough: there is nothing to brute-force, and lookups stay indexable.
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashApiKey(apiKey: string): string {
+    return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Extracts the API key from an `Authorization: Bearer <key>` header.
+ * @returns The key, or null if the header is missing or uses another scheme
+ */
+export function parseBearerToken(authorization: string | undefined): string | null {
+    const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+    return match ? match[1] : null;
+}
@@ -0,0 +1,47 @@
+import crypto from 'node:crypto';
+import { CardDetails } from './cardValidation';
+
+/**
+ * Cipher for card details waiting in the PSP outbox: authenticated, so a tampered
+ * ciphertext fails to decrypt instead of yielding another card.
+ */
+const ALGORITHM = 'aes-256-gcm';
+
+/** Format version, so the scheme can change without breaking stored ciphertexts */
+const VERSION = 'v1';
+
+/**
+ * Derives the 256-bit AES key from the configured secret.
+ */
+function deriveKey(secret: string): Buffer {
+    return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypts card details for temporary storage as `v1.<iv>.<auth tag>.<ciphertext>` (base64url).
+ * Unlike the card token, this is reversible: only use it for data that must be sent on later.
+ */
+export function encryptCardDetails(card: CardDetails, secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret), iv);
+    const plaintext = JSON.stringify({ cardNumber: card.cardNumber, cardExpiry: card.cardExpiry, cvv: card.cvv });
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [VERSION, iv, cipher.getAuthTag(), ciphertext].map((part) =>
+        (typeof part === 'string' ? part : part.toString('base64url'))).join('.');
+}
+
+/**
+ * Decrypts card details encrypted with `encryptCardDetails`.
+ * @throws Error if the value is malformed, was encrypted with another secret or has been tampered with
+ */
+export function decryptCardDetails(encrypted: string, secret: string): CardDetails {
+    const [version, iv, authTag, ciphertext] = encrypted.split('.');
+    if (version !== VERSION || !iv || !authTag || !ciphertext) {
+        throw new Error('Malformed encrypted card details');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, deriveKey(secret), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8')) as CardDetails;
+}
@@ -0,0 +1,81 @@
+import crypto from 'node:crypto';
+import { CARD_BRANDS, CardBrand } from '../enums/cardBrand';
+
+/**
+ * Card data that is safe to persist and return: everything except the PAN itself.
+ */
+export interface TokenizedCard {
+    cardToken: string;
+    cardBin: string;
+    cardLast4: string;
+    cardBrand: CardBrand;
+    maskedCardNumber: string;
+}
+
+/** Number of leading digits kept as the BIN (issuer identification number) */
+const BIN_LENGTH = 6;
+
+/** Number of trailing digits kept for display */
+const LAST4_LENGTH = 4;
+
+/**
+ * Number prefixes identifying each card network, checked in order.
+ */
+const BRAND_PATTERNS: { brand: CardBrand; pattern: RegExp }[] = [
+    { brand: CARD_BRANDS.AMEX, pattern: /^3[47]/ },
+    { brand: CARD_BRANDS.JCB, pattern: /^35(2[89]|[3-8]\d)/ },
+    { brand: CARD_BRANDS.DINERS, pattern: /^3(0[0-5]|[689])/ },
+    { brand: CARD_BRANDS.VISA, pattern: /^4/ },
+    { brand: CARD_BRANDS.MASTERCARD, pattern: /^(5[1-5]|2(22[1-9]|2[3-9]\d|[3-6]\d{2}|7[01]\d|720))/ },
+    { brand: CARD_BRANDS.DISCOVER, pattern: /^(6011|64[4-9]|65)/ },
+    { brand: CARD_BRANDS.UNIONPAY, pattern: /^62/ },
+];
+
+/**
+ * Detects the card network from the card number prefix.
+ */
+export function detectCardBrand(cardNumber: string): CardBrand {
+    const match = BRAND_PATTERNS.find(({ pattern }) => pattern.test(cardNumber));
+    return match ? match.brand : CARD_BRANDS.UNKNOWN;
+}
+
+/**
+ * Masks a card number, keeping only the BIN and the last four digits
+ * (e.g. 5555111111111111 → 555511******1111).
+ */
+export function maskCardNumber(cardNumber: string): string {
+    const hiddenLength = Math.max(cardNumber.length - BIN_LENGTH - LAST4_LENGTH, 0);
+    return cardNumber.slice(0, BIN_LENGTH) + '*'.repeat(hiddenLength) + cardNumber.slice(-LAST4_LENGTH);
+}
+
+/**
+ * Replaces a PAN with a token and the non-sensitive card details.
+ *
+ * The token is a keyed HMAC of the PAN, so the same card always yields the same
+ * token without the PAN being recoverable from it (unlike a plain hash, which can
+ * be brute-forced from the BIN and last four digits).
+ */
+export function tokenizeCard(cardNumber: string, secret: string): TokenizedCard {
+    const digest = crypto.createHmac('sha256', secret).update(cardNumber).digest('hex');
+
+    return {
+        cardToken: `tok_${digest.slice(0, 32)}`,
+        cardBin: cardNumber.slice(0, BIN_LENGTH),
+        cardLast4: cardNumber.slice(-LAST4_LENGTH),
+        cardBrand: detectCardBrand(cardNumber),
+        maskedCardNumber: maskCardNumber(cardNumber),
+    };
+}
+
+/**
+ * Returns a copy of a request body with the PAN replaced by its token and the CVV
+ * dropped, for anything derived from the body that gets stored (e.g. idempotency
+ * fingerprints).
+ */
+export function replaceCardWithToken<T extends { cardNumber: string; cvv: string }>(
+    payload: T,
+    secret: string,
+): Omit<T, 'cardNumber' | 'cvv'> & { cardToken: string } {
+    const { cardNumber, cvv: _cvv, ...rest } = payload;
+    return { ...rest, cardToken: tokenizeCard(cardNumber, secret).cardToken };
+}
@@ -0,0 +1,127 @@
+import { CARD_BRANDS, CardBrand } from '../enums/cardBrand';
+import { detectCardBrand } from './cardTokenization';
+
+/**
+ * Card fields a validation error can point at.
+ */
+export type CardField = 'cardNumber' | 'cardExpiry' | 'cvv';
+
+/**
+ * Why a card field was rejected: a machine-readable code and a message for humans.
+ */
+export interface CardFieldError {
+    field: CardField;
+    code: 'invalid_format' | 'failed_luhn_check' | 'card_expired' | 'expiry_too_far' | 'invalid_cvv_length';
+    message: string;
+}
+
+/**
+ * Card details as submitted with a payment.
+ */
+export interface CardDetails {
+    cardNumber: string;
+    /** MM/YY */
+    cardExpiry: string;
+    cvv: string;
+}
+
+/**
+ * How far ahead an expiry date may be; issuers do not print cards valid for longer.
+ */
+const MAX_EXPIRY_YEARS_AHEAD = 20;
+
+/**
+ * CVV lengths accepted per brand. Amex prints a 4-digit code on the front, the other
+ * networks a 3-digit one on the back; cards we cannot identify may have either.
+ */
+const CVV_LENGTHS: Record<CardBrand, number[]> = {
+    [CARD_BRANDS.VISA]: [3],
+    [CARD_BRANDS.MASTERCARD]: [3],
+    [CARD_BRANDS.AMEX]: [4],
+    [CARD_BRANDS.DISCOVER]: [3],
+    [CARD_BRANDS.JCB]: [3],
+    [CARD_BRANDS.DINERS]: [3],
+    [CARD_BRANDS.UNIONPAY]: [3],
+    [CARD_BRANDS.UNKNOWN]: [3, 4],
+};
+
+/**
+ * Whether a digit string passes the Luhn (mod 10) checksum that every card number carries.
+ */
+export function passesLuhnCheck(cardNumber: string): boolean {
+    let sum = 0;
+    for (let index = 0; index < cardNumber.length; index++) {
+        let digit = Number(cardNumber[cardNumber.length - 1 - index]);
+        // Every second digit from the right is doubled, subtracting 9 when it overflows
+        if (index % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * Checks an MM/YY expiry against the current date. A card is valid until the end of
+ * its expiry month, and may not expire more than 20 years from now.
+ */
+function validateExpiry(cardExpiry: string, now: Date): CardFieldError | null {
+    const match = /^(\d{2})\/(\d{2})$/.exec(cardExpiry);
+    const month = match ? Number(match[1]) : 0;
+    if (!match || month < 1 || month > 12) {
+        return { field: 'cardExpiry', code: 'invalid_format', message: 'Expiry must be a valid MM/YY date' };
+    }
+
+    // Compare in whole months since year 0, in UTC like every other date we store
+    const expiryMonths = (2000 + Number(match[2])) * 12 + (month - 1);
+    const currentMonths = now.getUTCFullYear() * 12 + now.getUTCMonth();
+    if (expiryMonths < currentMonths) {
+        return { field: 'cardExpiry', code: 'card_expired', message: 'Card has expired' };
+    }
+    if (expiryMonths > currentMonths + MAX_EXPIRY_YEARS_AHEAD * 12) {
+        return {
+            field: 'cardExpiry',
+            code: 'expiry_too_far',
+            message: `Expiry is more than ${MAX_EXPIRY_YEARS_AHEAD} years in the future`,
+        };
+    }
+    return null;
+}
+
+/**
+ * Validates card details before anything is stored or sent to a PSP: the number must be
+ * digits passing the Luhn check, the expiry must lie between now and 20 years ahead, and
+ * the CVV must have the length the card's brand uses.
+ *
+ * @returns Every field error found, empty if the card is valid
+ */
+export function validateCard(card: CardDetails, now: Date = new Date()): CardFieldError[] {
+    const errors: CardFieldError[] = [];
+
+    if (!/^\d+$/.test(card.cardNumber)) {
+        errors.push({ field: 'cardNumber', code: 'invalid_format', message: 'Card number must contain only digits' });
+    } else if (!passesLuhnCheck(card.cardNumber)) {
+        errors.push({ field: 'cardNumber', code: 'failed_luhn_check', message: 'Card number is invalid' });
+    }
+
+    const expiryError = validateExpiry(card.cardExpiry, now);
+    if (expiryError) {
+        errors.push(expiryError);
+    }
+
+    const cvvLengths = CVV_LENGTHS[detectCardBrand(card.cardNumber)];
+    if (!/^\d+$/.test(card.cvv)) {
+        errors.push({ field: 'cvv', code: 'invalid_format', message: 'CVV must contain only digits' });
+    } else if (!cvvLengths.includes(card.cvv.length)) {
+        errors.push({
+            field: 'cvv',
+            code: 'invalid_cvv_length',
+            message: `CVV must be ${cvvLengths.join(' or ')} digits for this card`,
+        });
+    }
+
+    return errors;
+}
@@ -0,0 +1,73 @@
+/**
+ * Active ISO 4217 currencies that have a minor unit exponent other than 2.
+ * Fund codes and precious metals are not listed because they cannot be charged to a card.
+ */
+const NON_DECIMAL_EXPONENTS: Record<string, number> = {
+    // No minor unit
+    BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+    RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+    // Thousandths
+    BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+    // Ten-thousandths
+    CLF: 4, UYW: 4,
+};
+
+/**
+ * Active ISO 4217 currencies with two decimal places.
+ */
+const TWO_DECIMAL_CODES = [
+    'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN', 'BMD', 'BND',
+    'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CNY', 'COP', 'CRC', 'CUP', 'CVE', 'CZK',
+    'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD', 'GTQ', 'GYD',
+    'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IRR', 'JMD', 'KES', 'KGS', 'KHR', 'KPW', 'KYD', 'KZT', 'LAK',
+    'LBP', 'LKR', 'LRD', 'LSL', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN',
+    'MYR', 'MZN', 'NAD', 'NGN', 'NIO', 'NOK', 'NPR', 'NZD', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'QAR', 'RON',
+    'RSD', 'RUB', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP',
+    'SZL', 'THB', 'TJS', 'TMT', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'USD', 'UYU', 'UZS', 'VES', 'WST', 'XCD',
+    'YER', 'ZAR', 'ZMW', 'ZWG',
+];
+
+/**
+ * Minor unit exponent of every supported currency: amounts are integers in 10^-exponent of the major unit.
+ */
+const MINOR_UNIT_EXPONENTS: ReadonlyMap<string, number> = new Map([
+    ...TWO_DECIMAL_CODES.map((code): [string, number] => [code, 2]),
+    ...Object.entries(NON_DECIMAL_EXPONENTS),
+]);
+
+/**
+ * Whether a code is a supported ISO 4217 currency. Codes are case-sensitive (`EUR`, not `eur`).
+ */
+export function isSupportedCurrency(currency: string): boolean {
+    return MINOR_UNIT_EXPONENTS.has(currency);
+}
+
+/**
+ * Number of decimal places of a currency's minor unit (e.g. 2 for EUR, 0 for JPY, 3 for KWD).
+ * @throws Error if the currency is not supported
+ */
+export function getMinorUnitExponent(currency: string): number {
+    const exponent = MINOR_UNIT_EXPONENTS.get(currency);
+    if (exponent === undefined) {
+        throw new Error(`Unsupported currency: ${currency}`);
+    }
+    return exponent;
+}
+
+/**
+ * Formats an amount in minor units as a decimal string in the major unit,
+ * e.g. 2500 EUR → "25.00", 2500 JPY → "2500", 2500 KWD → "2.500".
+ * Uses integer arithmetic only, so no floating-point rounding can creep in.
+ * @throws Error if the currency is not supported
+ */
+export function formatAmount(amount: number, currency: string): string {
+    const exponent = getMinorUnitExponent(currency);
+    const sign = amount < 0 ? '-' : '';
+    const digits = String(Math.abs(amount));
+    if (exponent === 0) {
+        return `${sign}${digits}`;
+    }
+
+    const padded = digits.padStart(exponent + 1, '0');
+    return `${sign}${padded.slice(0, -exponent)}.${padded.slice(-exponent)}`;
+}
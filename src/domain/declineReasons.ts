@@ -0,0 +1,74 @@
+import { DECLINE_CODES, DeclineCode } from '../enums/declineCode';
+import { UpdateExtraFields } from '../types/transaction';
+
+/**
+ * What a decline code means: a message support and merchants can read, and whether the
+ * decline is soft (retrying later, or after asking the customer, may succeed) or hard.
+ */
+export interface DeclineReason {
+    message: string;
+    retryable: boolean;
+}
+
+/**
+ * The decline catalogue shared by our API and the PSP simulator.
+ */
+export const DECLINE_REASONS: Record<DeclineCode, DeclineReason> = {
+    [DECLINE_CODES.INSUFFICIENT_FUNDS]: { message: 'The card has insufficient funds', retryable: true },
+    [DECLINE_CODES.DO_NOT_HONOR]: { message: 'The issuer declined the payment without giving a reason', retryable: true },
+    [DECLINE_CODES.EXCEEDS_LIMIT]: { message: 'The payment exceeds the card\'s spending limit', retryable: true },
+    [DECLINE_CODES.ISSUER_UNAVAILABLE]: { message: 'The issuer could not be reached', retryable: true },
+    [DECLINE_CODES.TRY_AGAIN_LATER]: { message: 'The issuer asked for the payment to be retried later', retryable: true },
+    [DECLINE_CODES.AUTHENTICATION_EXPIRED]: { message: 'The customer did not complete 3DS authentication in time', retryable: true },
+    [DECLINE_CODES.PROVIDER_UNAVAILABLE]: { message: 'The payment provider could not be reached', retryable: true },
+    [DECLINE_CODES.PROVIDER_REJECTED]: { message: 'The payment provider rejected the payment request', retryable: false },
+    [DECLINE_CODES.CARD_EXPIRED]: { message: 'The card has expired', retryable: false },
+    [DECLINE_CODES.INCORRECT_CVV]: { message: 'The CVV is incorrect', retryable: false },
+    [DECLINE_CODES.INVALID_CARD_NUMBER]: { message: 'The card number is not valid at the issuer', retryable: false },
+    [DECLINE_CODES.LOST_CARD]: { message: 'The card has been reported lost', retryable: false },
+    [DECLINE_CODES.STOLEN_CARD]: { message: 'The card has been reported stolen', retryable: false },
+    [DECLINE_CODES.SUSPECTED_FRAUD]: { message: 'The issuer suspects the payment is fraudulent', retryable: false },
+    [DECLINE_CODES.RESTRICTED_CARD]: { message: 'The card cannot be used for this payment', retryable: false },
+    [DECLINE_CODES.TRANSACTION_NOT_PERMITTED]: { message: 'The issuer does not permit this type of payment', retryable: false },
+    [DECLINE_CODES.AUTHENTICATION_REJECTED]: { message: 'The customer rejected 3DS authentication', retryable: false },
+    [DECLINE_CODES.AUTHENTICATION_FAILED]: { message: 'The customer failed 3DS authentication', retryable: false },
+    [DECLINE_CODES.INTERNAL_ERROR]: { message: 'The payment request could not be sent to the payment provider', retryable: false },
+};
+
+/**
+ * Whether a string is a code from the decline catalogue.
+ */
+export function isDeclineCode(code: string): code is DeclineCode {
+    return Object.prototype.hasOwnProperty.call(DECLINE_REASONS, code);
+}
+
+/**
+ * Looks up a decline code reported by a provider. Codes outside the catalogue are
+ * treated as hard declines, so a merchant never retries a decline we cannot interpret.
+ */
+export function describeDecline(code: string): DeclineReason {
+    return isDeclineCode(code) ? DECLINE_REASONS[code] : { message: 'The payment was declined', retryable: false };
+}
+
+/**
+ * Whether a transaction's decline may be retried, or null if it was not declined with a code.
+ */
+export function isRetryableDecline(declineCode: string | null): boolean | null {
+    return declineCode === null ? null : describeDecline(declineCode).retryable;
+}
+
+/**
+ * Decline fields to store for a payment a provider reported as FAILED: its decline code and
+ * message, falling back to the catalogue's message when the provider sent a code without one.
+ */
+export function declineFields(decline: {
+    declineCode?: string;
+    declineMessage?: string;
+}): Pick<UpdateExtraFields, 'declineCode' | 'declineMessage'> {
+    const declineMessage = decline.declineMessage
+        ?? (decline.declineCode !== undefined ? describeDecline(decline.declineCode).message : undefined);
+    return {
+        ...(decline.declineCode !== undefined && { declineCode: decline.declineCode }),
+        ...(declineMessage !== undefined && { declineMessage }),
+    };
+}
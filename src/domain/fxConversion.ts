@@ -0,0 +1,97 @@
+import { getMinorUnitExponent } from './currencies';
+
+/**
+ * A locked conversion between a transaction's currency and the currency the PSP settles it in.
+ * `rate` is a decimal string: one unit of `currency` is worth `rate` units of `settlementCurrency`.
+ */
+export interface FxConversion {
+    currency: string;
+    settlementCurrency: string;
+    rate: string;
+}
+
+/**
+ * Positive decimal rate with up to 12 decimal places, e.g. "1.0852".
+ */
+const RATE_PATTERN = /^\d+(\.\d{1,12})?$/;
+
+/**
+ * Whether a string is a usable FX rate: a positive decimal number.
+ */
+export function isValidFxRate(rate: string): boolean {
+    return RATE_PATTERN.test(rate) && /[1-9]/.test(rate);
+}
+
+/**
+ * Splits a decimal rate into an integer numerator and a power-of-ten denominator,
+ * so conversions can run on BigInts without floating-point rounding.
+ */
+function parseRate(rate: string): { numerator: bigint; denominator: bigint } {
+    if (!isValidFxRate(rate)) {
+        throw new Error(`Invalid FX rate: ${rate}`);
+    }
+    const [integerPart, fractionPart = ''] = rate.split('.');
+    return {
+        numerator: BigInt(integerPart + fractionPart),
+        denominator: 10n ** BigInt(fractionPart.length),
+    };
+}
+
+/**
+ * Divides two non-negative BigInts, rounding half up.
+ */
+function divideRounded(dividend: bigint, divisor: bigint): number {
+    return Number((dividend * 2n + divisor) / (divisor * 2n));
+}
+
+/**
+ * Converts an amount in minor units of the transaction currency into minor units of the
+ * settlement currency, rounding half up. Minor unit sizes are taken into account,
+ * e.g. 1000 EUR (10.00) at 160.5 is 1605 JPY.
+ * @throws Error if a currency is not supported or the rate is invalid
+ */
+export function convertToSettlement(amount: number, conversion: FxConversion): number {
+    const { numerator, denominator } = parseRate(conversion.rate);
+    const fromScale = 10n ** BigInt(getMinorUnitExponent(conversion.currency));
+    const toScale = 10n ** BigInt(getMinorUnitExponent(conversion.settlementCurrency));
+    return divideRounded(BigInt(amount) * numerator * toScale, denominator * fromScale);
+}
+
+/**
+ * Converts an amount in minor units of the settlement currency back into minor units of the
+ * transaction currency at the same rate, rounding half up.
+ * @throws Error if a currency is not supported or the rate is invalid
+ */
+export function convertFromSettlement(settlementAmount: number, conversion: FxConversion): number {
+    const { numerator, denominator } = parseRate(conversion.rate);
+    const fromScale = 10n ** BigInt(getMinorUnitExponent(conversion.currency));
+    const toScale = 10n ** BigInt(getMinorUnitExponent(conversion.settlementCurrency));
+    return divideRounded(BigInt(settlementAmount) * denominator * fromScale, numerator * toScale);
+}
+
+/**
+ * The conversion locked onto a transaction, or null if the PSP is charged in the transaction's own currency.
+ */
+export function lockedConversion(transaction: {
+    currency: string;
+    settlementCurrency: string | null;
+    fxRate: string | null;
+}): FxConversion | null {
+    if (!transaction.settlementCurrency || !transaction.fxRate) {
+        return null;
+    }
+    return { currency: transaction.currency, settlementCurrency: transaction.settlementCurrency, rate: transaction.fxRate };
+}
+
+/**
+ * Converts an amount the PSP reported in the settlement currency back into the transaction
+ * currency. When the PSP reports exactly the converted amount it was sent, the original
+ * amount is returned as is, so the round trip through the rate cannot drift by a minor unit.
+ */
+export function reconcileSettlementAmount(
+    reportedAmount: number,
+    sent: { amount: number; settlementAmount: number },
+    conversion: FxConversion,
+): number {
+    return reportedAmount === sent.settlementAmount ? sent.amount : convertFromSettlement(reportedAmount, conversion);
+}
@@ -0,0 +1,90 @@
+import { computeWebhookSignature } from './webhookSignature';
+import { isRetryableDecline } from './declineReasons';
+import { STATUSES, TransactionStatus } from '../enums/transactionStatus';
+import { MerchantEvent, MerchantEventType, TransactionRecord } from '../types/transaction';
+
+/**
+ * Header carrying the event ID, so merchants can de-duplicate redeliveries.
+ */
+export const MERCHANT_EVENT_ID_HEADER = 'x-webhook-id';
+
+/**
+ * Header carrying the Unix timestamp (seconds) at which the event was signed.
+ */
+export const MERCHANT_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+/**
+ * Header carrying the `v1=<hex>` HMAC-SHA256 signature of `<timestamp>.<raw body>`.
+ */
+export const MERCHANT_SIGNATURE_HEADER = 'x-webhook-signature';
+
+/**
+ * Event sent for each status a merchant is notified about.
+ * CREATED and PENDING_3DS are intermediate and produce no event.
+ */
+const STATUS_EVENT_TYPES: Partial<Record<TransactionStatus, MerchantEventType>> = {
+    [STATUSES.AUTHORIZED]: 'transaction.authorized',
+    [STATUSES.SUCCESS]: 'transaction.succeeded',
+    [STATUSES.FAILED]: 'transaction.failed',
+    [STATUSES.VOIDED]: 'transaction.voided',
+    [STATUSES.PARTIALLY_REFUNDED]: 'transaction.partially_refunded',
+    [STATUSES.REFUNDED]: 'transaction.refunded',
+};
+
+/**
+ * Returns the merchant event for a status, or null if merchants are not notified of it.
+ */
+export function eventTypeForStatus(status: TransactionStatus): MerchantEventType | null {
+    return STATUS_EVENT_TYPES[status] ?? null;
+}
+
+/**
+ * Builds the event body for a transaction. Only the masked card number is included;
+ * failed payments carry their decline code and whether it may be retried.
+ */
+export function buildMerchantEvent(
+    eventId: string,
+    eventType: MerchantEventType,
+    transaction: TransactionRecord,
+    now: Date = new Date(),
+): MerchantEvent {
+    return {
+        id: eventId,
+        type: eventType,
+        createdAt: now.toISOString(),
+        data: {
+            id: transaction.id,
+            orderId: transaction.orderId,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            status: transaction.status,
+            finalAmount: transaction.finalAmount,
+            cardBrand: transaction.cardBrand,
+            maskedCardNumber: transaction.maskedCardNumber,
+            declineCode: transaction.declineCode,
+            declineMessage: transaction.declineMessage,
+            declineRetryable: isRetryableDecline(transaction.declineCode),
+        },
+    };
+}
+
+/**
+ * Builds the headers for an outgoing merchant event, signed the same way as PSP webhooks.
+ * @param secret - Secret shared with the merchant
+ * @param eventId - ID of the event being sent
+ * @param rawBody - Exact request body that will be sent
+ * @param now - Current time in milliseconds (defaults to Date.now())
+ */
+export function buildMerchantEventHeaders(
+    secret: string,
+    eventId: string,
+    rawBody: string,
+    now: number = Date.now(),
+): Record<string, string> {
+    const timestamp = Math.floor(now / 1000);
+    return {
+        [MERCHANT_EVENT_ID_HEADER]: eventId,
+        [MERCHANT_TIMESTAMP_HEADER]: String(timestamp),
+        [MERCHANT_SIGNATURE_HEADER]: `v1=${computeWebhookSignature(secret, timestamp, rawBody)}`,
+    };
+}
@@ -0,0 +1,88 @@
+import crypto from 'node:crypto';
+import { AppliedMigration, Migration, MigrationStatusEntry } from '../types/migration';
+
+/**
+ * `001_create_transactions.sql` (up) or `001_create_transactions.down.sql` (down).
+ */
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+?)(\.down)?\.sql$/;
+
+/**
+ * SHA-256 of a migration's up SQL, as recorded in `schema_migrations`.
+ */
+export function checksumMigration(sql: string): string {
+    return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+/**
+ * Pairs the files of the migrations directory into migrations, sorted by version.
+ * Files that are not SQL are ignored.
+ * @throws Error if a file name does not follow `NNN_name[.down].sql`, two migrations share
+ *         a version, or a down file has no up file
+ */
+export function collectMigrations(files: { fileName: string; content: string }[]): Migration[] {
+    const ups = new Map<string, { name: string; content: string }>();
+    const downs = new Map<string, { name: string; content: string }>();
+
+    for (const { fileName, content } of files) {
+        if (!fileName.endsWith('.sql')) {
+            continue;
+        }
+        const match = MIGRATION_FILE_PATTERN.exec(fileName);
+        if (!match) {
+            throw new Error(`Invalid migration file name: ${fileName} (expected NNN_name.sql or NNN_name.down.sql)`);
+        }
+
+        const [, version, name, down] = match;
+        const files = down ? downs : ups;
+        const existing = files.get(version);
+        if (existing) {
+            throw new Error(`Duplicate migration version ${version}: ${existing.name} and ${name}`);
+        }
+        files.set(version, { name, content });
+    }
+
+    for (const [version, down] of downs) {
+        const up = ups.get(version);
+        if (!up || up.name !== down.name) {
+            throw new Error(`Down migration ${version}_${down.name}.down.sql has no matching up migration`);
+        }
+    }
+
+    return [...ups.entries()]
+        .sort(([left], [right]) => Number(left) - Number(right))
+        .map(([version, up]) => ({
+            version,
+            name: up.name,
+            upSql: up.content,
+            downSql: downs.get(version)?.content ?? null,
+            checksum: checksumMigration(up.content),
+        }));
+}
+
+/**
+ * Compares the migrations on disk with the ones recorded as applied, in version order.
+ */
+export function compareMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationStatusEntry[] {
+    const appliedByVersion = new Map(applied.map((migration) => [migration.version, migration]));
+    const entries: MigrationStatusEntry[] = migrations.map((migration) => {
+        const record = appliedByVersion.get(migration.version);
+        if (!record) {
+            return { version: migration.version, name: migration.name, state: 'pending', appliedAt: null };
+        }
+        return {
+            version: migration.version,
+            name: migration.name,
+            state: record.checksum === migration.checksum ? 'applied' : 'changed',
+            appliedAt: record.appliedAt,
+        };
+    });
+
+    const versionsOnDisk = new Set(migrations.map((migration) => migration.version));
+    for (const record of applied) {
+        if (!versionsOnDisk.has(record.version)) {
+            entries.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+        }
+    }
+
+    return entries.sort((left, right) => Number(left.version) - Number(right.version));
+}
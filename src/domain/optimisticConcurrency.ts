@@ -0,0 +1,93 @@
+import { TransactionStatus } from '../enums/transactionStatus';
+import { canTransition } from './transactionStateMachine';
+import {
+    ITransactionRepository,
+    TransactionEventInput,
+    TransactionRecord,
+    UpdateExtraFields,
+} from '../types/transaction';
+import { Logger } from '../types/logger';
+
+/**
+ * How often a status change is attempted when other writers keep changing the transaction first.
+ */
+export const MAX_CONFLICT_ATTEMPTS = 3;
+
+/**
+ * Thrown by the repository when a transaction is updated with the version it was read at,
+ * but another writer (a webhook, the reconciler, another outbox attempt) has changed it since.
+ * The caller must reload the transaction and run the state machine again on what it finds.
+ */
+export class TransactionConflictError extends Error {
+    public transactionId: string;
+    public expectedVersion: number;
+    public actualVersion: number;
+
+    constructor(transactionId: string, expectedVersion: number, actualVersion: number) {
+        super(`Transaction ${transactionId} was changed concurrently (expected version ${expectedVersion}, found ${actualVersion})`);
+        this.name = 'TransactionConflictError';
+        this.transactionId = transactionId;
+        this.expectedVersion = expectedVersion;
+        this.actualVersion = actualVersion;
+    }
+}
+
+/**
+ * Runs `work` again while it fails with a TransactionConflictError, up to MAX_CONFLICT_ATTEMPTS
+ * times. `work` must reload the transaction itself, so every attempt decides on fresh data.
+ * Each conflict is reported to `logger` as a warning.
+ */
+export async function retryOnConflict<T>(work: () => Promise<T>, logger: Pick<Logger, 'warn'>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await work();
+        } catch (error) {
+            if (!(error instanceof TransactionConflictError) || attempt >= MAX_CONFLICT_ATTEMPTS) {
+                throw error;
+            }
+            logger.warn(`${error.message}, retrying (attempt ${attempt + 1}/${MAX_CONFLICT_ATTEMPTS})`);
+        }
+    }
+}
+
+/**
+ * Moves a transaction to `status` with a compare-and-set on the version it was read at.
+ *
+ * When another writer got there first, the transaction is reloaded and the state machine
+ * run again on what it holds now: a status it already has, or cannot reach any more (e.g. a
+ * webhook reported FAILED before the create response said SUCCESS), is left alone, so the
+ * newer information is never overwritten. Otherwise the update is retried on the new version.
+ * Each conflict is reported to `logger` as a warning.
+ *
+ * @returns The transaction as it stands, and whether this change was applied to it
+ */
+export async function applyStatusChange(
+    repository: ITransactionRepository,
+    transaction: TransactionRecord,
+    status: TransactionStatus,
+    extraFields: UpdateExtraFields,
+    event: TransactionEventInput,
+    logger: Pick<Logger, 'warn'>,
+): Promise<{ transaction: TransactionRecord; applied: boolean }> {
+    let current = transaction;
+    for (let attempt = 1; ; attempt++) {
+        if (attempt > 1 && (current.status === status || !canTransition(current.status, status))) {
+            return { transaction: current, applied: false };
+        }
+
+        try {
+            const updated = await repository.updateStatus(current.id, status, extraFields, event, current.version);
+            return { transaction: updated, applied: true };
+        } catch (error) {
+            if (!(error instanceof TransactionConflictError) || attempt >= MAX_CONFLICT_ATTEMPTS) {
+                throw error;
+            }
+            const reloaded = await repository.findById(current.id);
+            if (!reloaded) {
+                throw error;
+            }
+            logger.warn(`${error.message}, reapplying '${status}' on status '${reloaded.status}'`);
+            current = reloaded;
+        }
+    }
+}
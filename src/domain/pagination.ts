@@ -0,0 +1,63 @@
+import { SortOrder, TransactionCursor, TransactionRecord, TransactionSortField } from '../types/transaction';
+
+/**
+ * Opaque cursor contents. The sort is embedded so a cursor cannot be replayed
+ * against a differently sorted listing.
+ */
+interface EncodedCursor {
+    sortBy: TransactionSortField;
+    sortOrder: SortOrder;
+    value: string | number;
+    id: string;
+}
+
+/**
+ * Returns the value a transaction is sorted by, in cursor form
+ * (ISO string for timestamps, number for amounts).
+ * @param record - Transaction record
+ * @param sortBy - Sort field
+ */
+export function getSortValue(record: TransactionRecord, sortBy: TransactionSortField): string | number {
+    if (sortBy === 'amount') {
+        return record.amount;
+    }
+    return record[sortBy].toISOString();
+}
+
+/**
+ * Encodes the position after `record` as an opaque, URL-safe cursor.
+ * @param record - Last item of the current page
+ * @param sortBy - Sort field of the listing
+ * @param sortOrder - Sort direction of the listing
+ */
+export function encodeCursor(record: TransactionRecord, sortBy: TransactionSortField, sortOrder: SortOrder): string {
+    const cursor: EncodedCursor = { sortBy, sortOrder, value: getSortValue(record, sortBy), id: record.id };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor` for the same sort.
+ * @returns The keyset position, or null if the cursor is malformed or was issued for a different sort
+ */
+export function decodeCursor(cursor: string, sortBy: TransactionSortField, sortOrder: SortOrder): TransactionCursor | null {
+    let decoded: Partial<EncodedCursor>;
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    } catch {
+        return null;
+    }
+
+    if (!decoded || decoded.sortBy !== sortBy || decoded.sortOrder !== sortOrder || typeof decoded.id !== 'string') {
+        return null;
+    }
+
+    const expectedType = sortBy === 'amount' ? 'number' : 'string';
+    if (typeof decoded.value !== expectedType) {
+        return null;
+    }
+    if (expectedType === 'string' && Number.isNaN(Date.parse(decoded.value as string))) {
+        return null;
+    }
+
+    return { value: decoded.value as string | number, id: decoded.id };
+}
@@ -0,0 +1,32 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Serializes a JSON-compatible value with object keys sorted at every level,
+ * so that semantically equal request bodies produce identical strings.
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON string
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        const entries = Object.keys(record)
+            .filter((key) => record[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Computes a stable SHA-256 fingerprint of a request body.
+ * Used to detect an Idempotency-Key being reused with a different request.
+ * @param payload - Request body
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function fingerprintRequest(payload: unknown): string {
+    return createHash('sha256').update(canonicalJson(payload)).digest('hex');
+}
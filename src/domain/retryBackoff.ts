@@ -0,0 +1,16 @@
+/**
+ * Upper bound for a single retry delay, however many attempts have failed.
+ */
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with
+ * "equal jitter": half of the backoff is fixed, the other half is random.
+ * @param failedAttempts - Number of attempts that have failed so far (>= 1)
+ * @param baseDelayMs - Delay after the first failure, before jitter
+ * @param random - Random source in [0, 1), injectable for tests
+ */
+export function computeRetryDelay(failedAttempts: number, baseDelayMs: number, random: () => number = Math.random): number {
+    const backoff = Math.min(baseDelayMs * Math.pow(2, failedAttempts - 1), MAX_RETRY_DELAY_MS);
+    return Math.round(backoff / 2 + random() * (backoff / 2));
+}
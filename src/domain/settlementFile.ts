@@ -0,0 +1,153 @@
+import { SettlementFile, SettlementFormat, SettlementRecord } from '../types/transaction';
+
+/**
+ * Columns of a settlement CSV, in order. Each row repeats the settlement date
+ * so a CSV file is self-describing like its JSON counterpart.
+ */
+export const SETTLEMENT_CSV_COLUMNS = [
+    'settlement_date',
+    'psp_transaction_id',
+    'status',
+    'amount',
+    'final_amount',
+    'fee',
+    'currency',
+] as const;
+
+const SETTLEMENT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Returns the [start, end) UTC range of a settlement day.
+ * @throws Error if the date is not a valid YYYY-MM-DD date
+ */
+export function settlementDayRange(date: string): { from: Date; to: Date } {
+    const from = new Date(`${date}T00:00:00.000Z`);
+    if (!SETTLEMENT_DATE_PATTERN.test(date) || Number.isNaN(from.getTime()) || from.toISOString().slice(0, 10) !== date) {
+        throw new Error(`Invalid settlement date: ${date}`);
+    }
+    return { from, to: new Date(from.getTime() + 24 * 60 * 60 * 1000) };
+}
+
+/**
+ * Serializes a settlement file in the given format.
+ */
+export function formatSettlementFile(file: SettlementFile, format: SettlementFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(file, null, 2);
+    }
+
+    const rows = file.records.map((record) => [
+        file.date,
+        record.pspTransactionId,
+        record.status,
+        record.amount,
+        record.finalAmount,
+        record.fee,
+        record.currency,
+    ].join(','));
+    return [SETTLEMENT_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Parses a settlement file, detecting JSON or CSV from its content.
+ * @param content - File content
+ * @param date - Settlement day to assume for a CSV without rows (e.g. taken from its file name)
+ * @throws Error describing the first problem found
+ */
+export function parseSettlementFile(content: string, date?: string): SettlementFile {
+    const trimmed = content.trim();
+    const file = trimmed.startsWith('{') ? parseJson(trimmed) : parseCsv(trimmed, date);
+
+    settlementDayRange(file.date);
+    return file;
+}
+
+function parseJson(content: string): SettlementFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('Settlement file is not valid JSON');
+    }
+
+    const { date, records } = (parsed ?? {}) as { date?: unknown; records?: unknown };
+    if (typeof date !== 'string' || !Array.isArray(records)) {
+        throw new Error('Settlement file must have a "date" and a "records" array');
+    }
+
+    return {
+        date,
+        records: records.map((record: Record<string, unknown>, index) => toRecord({
+            pspTransactionId: record?.pspTransactionId,
+            status: record?.status,
+            amount: record?.amount,
+            finalAmount: record?.finalAmount,
+            fee: record?.fee,
+            currency: record?.currency,
+        }, `record ${index + 1}`)),
+    };
+}
+
+function parseCsv(content: string, fallbackDate?: string): SettlementFile {
+    const [header, ...lines] = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (header?.trim() !== SETTLEMENT_CSV_COLUMNS.join(',')) {
+        throw new Error(`Settlement CSV must start with the header ${SETTLEMENT_CSV_COLUMNS.join(',')}`);
+    }
+    if (lines.length === 0) {
+        if (!fallbackDate) {
+            throw new Error('Settlement CSV has no rows, so its date is unknown');
+        }
+        return { date: fallbackDate, records: [] };
+    }
+
+    const dates = new Set<string>();
+    const records = lines.map((line, index) => {
+        const values = line.split(',').map((value) => value.trim());
+        const location = `line ${index + 2}`;
+        if (values.length !== SETTLEMENT_CSV_COLUMNS.length) {
+            throw new Error(`Expected ${SETTLEMENT_CSV_COLUMNS.length} columns on ${location}, got ${values.length}`);
+        }
+
+        const [date, pspTransactionId, status, amount, finalAmount, fee, currency] = values;
+        dates.add(date);
+        return toRecord({
+            pspTransactionId,
+            status,
+            amount: Number(amount),
+            finalAmount: Number(finalAmount),
+            fee: Number(fee),
+            currency,
+        }, location);
+    });
+
+    if (dates.size !== 1) {
+        throw new Error(`Settlement CSV mixes several dates: ${[...dates].join(', ')}`);
+    }
+    if (fallbackDate && !dates.has(fallbackDate)) {
+        throw new Error(`Settlement CSV is for ${[...dates][0]}, expected ${fallbackDate}`);
+    }
+
+    return { date: [...dates][0], records };
+}
+
+function toRecord(values: Record<keyof SettlementRecord, unknown>, location: string): SettlementRecord {
+    for (const field of ['pspTransactionId', 'status', 'currency'] as const) {
+        if (typeof values[field] !== 'string' || values[field] === '') {
+            throw new Error(`Missing ${field} on ${location}`);
+        }
+    }
+    for (const field of ['amount', 'finalAmount', 'fee'] as const) {
+        if (typeof values[field] !== 'number' || !Number.isInteger(values[field]) || (values[field] as number) < 0) {
+            throw new Error(`Invalid ${field} on ${location}`);
+        }
+    }
+
+    return {
+        pspTransactionId: values.pspTransactionId as string,
+        status: values.status as string,
+        amount: values.amount as number,
+        finalAmount: values.finalAmount as number,
+        fee: values.fee as number,
+        currency: values.currency as string,
+    };
+}
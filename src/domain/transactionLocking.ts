@@ -0,0 +1,36 @@
+import { TransactionLockKey } from '../types/transaction';
+
+/**
+ * Thrown when a transaction's row lock cannot be taken within the lock timeout, because
+ * another unit of work holds it. Nothing has been changed; the caller may try again later.
+ */
+export class TransactionLockTimeoutError extends Error {
+    public timeoutMs: number;
+
+    constructor(key: TransactionLockKey, timeoutMs: number) {
+        super(`Timed out after ${timeoutMs}ms waiting for the lock on transaction ${describeLockKey(key)}`);
+        this.name = 'TransactionLockTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Thrown when a unit of work holding a transaction's row lock runs for longer than the unit
+ * timeout. Its writes have been rolled back and the lock released; the caller may try again.
+ */
+export class TransactionUnitTimeoutError extends Error {
+    public timeoutMs: number;
+
+    constructor(key: TransactionLockKey, timeoutMs: number) {
+        super(`Unit of work on transaction ${describeLockKey(key)} took longer than ${timeoutMs}ms and was rolled back`);
+        this.name = 'TransactionUnitTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Names the locked transaction in messages, e.g. "with PSP ID tx_a1b2c3d4".
+ */
+export function describeLockKey(key: TransactionLockKey): string {
+    return 'id' in key ? key.id : `with PSP ID ${key.pspTransactionId}`;
+}
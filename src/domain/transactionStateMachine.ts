@@ -2,13 +2,19 @@ import { TransactionStatus, STATUSES } from '../enums/transactionStatus';
 
 /**
  * Valid state transitions for transactions.
- * Terminal states (SUCCESS, FAILED) have no outgoing transitions.
+ * Terminal states (FAILED, VOIDED, REFUNDED) have no outgoing transitions.
+ * AUTHORIZED is only reached with manual capture and is left by capturing (SUCCESS) or voiding.
+ * PARTIALLY_REFUNDED may transition to itself as further partial refunds settle.
  */
 const VALID_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
-    [STATUSES.CREATED]: [STATUSES.PENDING_3DS, STATUSES.SUCCESS, STATUSES.FAILED],
-    [STATUSES.PENDING_3DS]: [STATUSES.SUCCESS, STATUSES.FAILED],
-    [STATUSES.SUCCESS]: [],
+    [STATUSES.CREATED]: [STATUSES.PENDING_3DS, STATUSES.AUTHORIZED, STATUSES.SUCCESS, STATUSES.FAILED],
+    [STATUSES.PENDING_3DS]: [STATUSES.AUTHORIZED, STATUSES.SUCCESS, STATUSES.FAILED],
+    [STATUSES.AUTHORIZED]: [STATUSES.SUCCESS, STATUSES.VOIDED],
+    [STATUSES.SUCCESS]: [STATUSES.PARTIALLY_REFUNDED, STATUSES.REFUNDED],
     [STATUSES.FAILED]: [],
+    [STATUSES.VOIDED]: [],
+    [STATUSES.PARTIALLY_REFUNDED]: [STATUSES.PARTIALLY_REFUNDED, STATUSES.REFUNDED],
+    [STATUSES.REFUNDED]: [],
 };
 
 /**
@@ -43,5 +49,14 @@ export function assertTransition(fromStatus: TransactionStatus, toStatus: Transa
  * @returns True if the status is terminal
  */
 export function isTerminalStatus(status: TransactionStatus): boolean {
-    return status === STATUSES.SUCCESS || status === STATUSES.FAILED;
+    return VALID_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Checks whether a transaction in the given status can still be refunded.
+ * @param status - Transaction status to check
+ * @returns True if the transaction has captured funds that are not yet fully refunded
+ */
+export function isRefundable(status: TransactionStatus): boolean {
+    return status === STATUSES.SUCCESS || status === STATUSES.PARTIALLY_REFUNDED;
 }
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Header carrying the Unix timestamp (seconds) at which the webhook was signed.
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-psp-timestamp';
+
+/**
+ * Header carrying one or more comma-separated `v1=<hex>` HMAC-SHA256 signatures.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-psp-signature';
+
+/**
+ * Result of verifying a webhook signature.
+ */
+export type SignatureVerificationResult = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Computes the HMAC-SHA256 signature of a webhook.
+ * The signed content is `<timestamp>.<raw body>`, binding the timestamp to the payload.
+ * @param secret - Shared webhook secret
+ * @param timestamp - Unix timestamp in seconds
+ * @param rawBody - Exact request body as sent over the wire
+ * @returns Hex-encoded signature
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, rawBody: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Builds the signature and timestamp headers for an outgoing webhook.
+ * @param secret - Shared webhook secret
+ * @param rawBody - Exact request body that will be sent
+ * @param now - Current time in milliseconds (defaults to Date.now())
+ * @returns Headers to add to the webhook request
+ */
+export function buildWebhookSignatureHeaders(secret: string, rawBody: string, now: number = Date.now()): Record<string, string> {
+    const timestamp = Math.floor(now / 1000);
+    return {
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: `v1=${computeWebhookSignature(secret, timestamp, rawBody)}`,
+    };
+}
+
+/**
+ * Verifies an incoming webhook against every active secret.
+ * Rejects missing headers, timestamps outside the tolerance window (replays),
+ * and signatures that match none of the secrets. Comparison is constant-time.
+ */
+export function verifyWebhookSignature(options: {
+    rawBody: string;
+    timestampHeader: string | undefined;
+    signatureHeader: string | undefined;
+    secrets: string[];
+    toleranceSeconds: number;
+    now?: number;
+}): SignatureVerificationResult {
+    const { rawBody, timestampHeader, signatureHeader, secrets, toleranceSeconds, now = Date.now() } = options;
+
+    if (!timestampHeader || !signatureHeader) {
+        return { valid: false, reason: 'missing signature headers' };
+    }
+
+    const timestamp = Number(timestampHeader);
+    if (!Number.isInteger(timestamp)) {
+        return { valid: false, reason: 'malformed timestamp' };
+    }
+    if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+        return { valid: false, reason: 'timestamp outside tolerance window' };
+    }
+
+    const providedSignatures = signatureHeader
+        .split(',')
+        .map((part) => part.trim())
+        .filter((part) => part.startsWith('v1='))
+        .map((part) => Buffer.from(part.slice(3), 'hex'));
+
+    for (const secret of secrets) {
+        const expected = Buffer.from(computeWebhookSignature(secret, timestamp, rawBody), 'hex');
+        const matches = providedSignatures.some(
+            (provided) => provided.length === expected.length && timingSafeEqual(provided, expected),
+        );
+        if (matches) {
+            return { valid: true };
+        }
+    }
+
+    return { valid: false, reason: 'signature mismatch' };
+}
@@ -0,0 +1,16 @@
+/**
+ * Card networks recognised from the card number.
+ * UNKNOWN covers test cards and networks we don't identify.
+ */
+export const CARD_BRANDS = {
+    VISA: 'VISA',
+    MASTERCARD: 'MASTERCARD',
+    AMEX: 'AMEX',
+    DISCOVER: 'DISCOVER',
+    JCB: 'JCB',
+    DINERS: 'DINERS',
+    UNIONPAY: 'UNIONPAY',
+    UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type CardBrand = (typeof CARD_BRANDS)[keyof typeof CARD_BRANDS];
@@ -0,0 +1,28 @@
+/**
+ * Standard decline codes reported for FAILED payments, whichever provider declined them.
+ */
+export const DECLINE_CODES = {
+    // Soft declines: the same card may succeed later
+    INSUFFICIENT_FUNDS: 'insufficient_funds',
+    DO_NOT_HONOR: 'do_not_honor',
+    EXCEEDS_LIMIT: 'exceeds_limit',
+    ISSUER_UNAVAILABLE: 'issuer_unavailable',
+    TRY_AGAIN_LATER: 'try_again_later',
+    AUTHENTICATION_EXPIRED: 'authentication_expired',
+    PROVIDER_UNAVAILABLE: 'provider_unavailable',
+    // Hard declines: retrying the same card will fail again
+    PROVIDER_REJECTED: 'provider_rejected',
+    CARD_EXPIRED: 'card_expired',
+    INCORRECT_CVV: 'incorrect_cvv',
+    INVALID_CARD_NUMBER: 'invalid_card_number',
+    LOST_CARD: 'lost_card',
+    STOLEN_CARD: 'stolen_card',
+    SUSPECTED_FRAUD: 'suspected_fraud',
+    RESTRICTED_CARD: 'restricted_card',
+    TRANSACTION_NOT_PERMITTED: 'transaction_not_permitted',
+    AUTHENTICATION_REJECTED: 'authentication_rejected',
+    AUTHENTICATION_FAILED: 'authentication_failed',
+    INTERNAL_ERROR: 'internal_error',
+} as const;
+
+export type DeclineCode = (typeof DECLINE_CODES)[keyof typeof DECLINE_CODES];
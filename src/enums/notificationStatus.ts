@@ -0,0 +1,11 @@
+/**
+ * Merchant notification delivery statuses: PENDING until the merchant
+ * acknowledges with a 2xx (DELIVERED) or every attempt has failed (FAILED).
+ */
+export const NOTIFICATION_STATUSES = {
+    PENDING: 'PENDING',
+    DELIVERED: 'DELIVERED',
+    FAILED: 'FAILED',
+} as const;
+
+export type NotificationStatus = (typeof NOTIFICATION_STATUSES)[keyof typeof NOTIFICATION_STATUSES];
@@ -0,0 +1,13 @@
+/**
+ * Statuses of a PSP request in the outbox: PENDING until a worker claims it to send it
+ * (IN_FLIGHT), then SENT once the provider has answered it, back to PENDING while it is
+ * retried, or FAILED once every attempt has failed.
+ */
+export const PSP_OUTBOX_STATUSES = {
+    PENDING: 'PENDING',
+    IN_FLIGHT: 'IN_FLIGHT',
+    SENT: 'SENT',
+    FAILED: 'FAILED',
+} as const;
+
+export type PspOutboxStatus = (typeof PSP_OUTBOX_STATUSES)[keyof typeof PSP_OUTBOX_STATUSES];
@@ -0,0 +1,11 @@
+/**
+ * Refund statuses used by the application.
+ * A refund stays PENDING until the PSP confirms it via webhook.
+ */
+export const REFUND_STATUSES = {
+    PENDING: 'PENDING',
+    SUCCESS: 'SUCCESS',
+    FAILED: 'FAILED',
+} as const;
+
+export type RefundStatus = (typeof REFUND_STATUSES)[keyof typeof REFUND_STATUSES];
@@ -0,0 +1,15 @@
+/**
+ * What triggered a transaction status change, as recorded in its event history.
+ */
+export const EVENT_SOURCES = {
+    /** A call to the public API (create, capture, void) */
+    API: 'API',
+    /** A PSP webhook */
+    WEBHOOK: 'WEBHOOK',
+    /** The PSP expiring an abandoned 3DS session */
+    EXPIRY_JOB: 'EXPIRY_JOB',
+    /** The reconciler repairing a transaction whose webhook was lost */
+    RECONCILIATION: 'RECONCILIATION',
+} as const;
+
+export type TransactionEventSource = (typeof EVENT_SOURCES)[keyof typeof EVENT_SOURCES];
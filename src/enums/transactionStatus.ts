@@ -5,8 +5,12 @@
 export const STATUSES = {
     CREATED: 'CREATED',
     PENDING_3DS: 'PENDING_3DS',
+    AUTHORIZED: 'AUTHORIZED',
     SUCCESS: 'SUCCESS',
     FAILED: 'FAILED',
+    VOIDED: 'VOIDED',
+    PARTIALLY_REFUNDED: 'PARTIALLY_REFUNDED',
+    REFUNDED: 'REFUNDED',
 } as const;
 
 export type TransactionStatus = (typeof STATUSES)[keyof typeof STATUSES];
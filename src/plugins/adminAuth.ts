@@ -0,0 +1,30 @@
+import fp from 'fastify-plugin';
+import { timingSafeEqual } from 'node:crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { hashApiKey, parseBearerToken } from '../domain/apiKeys';
+
+/**
+ * OpenAPI security requirement for routes using `authenticateAdmin` (scheme defined in plugins/swagger).
+ */
+export const ADMIN_SECURITY = [{ adminApiKey: [] }];
+
+/**
+ * Fastify plugin that decorates the instance with `authenticateAdmin`, an onRequest hook
+ * for operator routes that see every merchant's data. It checks the
+ * `Authorization: Bearer <admin API key>` header against the configured key, or answers 401.
+ */
+async function adminAuthPlugin(fastify: FastifyInstance, options: { apiKey: string }) {
+    // Comparing digests keeps the comparison constant-time whatever the key's length
+    const expectedHash = Buffer.from(hashApiKey(options.apiKey), 'hex');
+
+    fastify.decorate('authenticateAdmin', async (request: FastifyRequest, reply: FastifyReply) => {
+        const apiKey = parseBearerToken(request.headers.authorization);
+        if (!apiKey || !timingSafeEqual(Buffer.from(hashApiKey(apiKey), 'hex'), expectedHash)) {
+            return reply.code(401).header('www-authenticate', 'Bearer').send({ error: 'Missing or invalid admin API key' });
+        }
+    });
+}
+
+export default fp(adminAuthPlugin, {
+    name: 'adminAuth',
+});
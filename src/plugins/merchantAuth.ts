@@ -0,0 +1,31 @@
+import fp from 'fastify-plugin';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { parseBearerToken } from '../domain/apiKeys';
+import { MerchantService } from '../services/merchantService';
+
+/**
+ * OpenAPI security requirement for routes using `authenticateMerchant` (scheme defined in plugins/swagger).
+ */
+export const MERCHANT_SECURITY = [{ merchantApiKey: [] }];
+
+/**
+ * Fastify plugin that decorates the instance with `authenticateMerchant`, an onRequest
+ * hook for merchant-facing routes. It resolves the `Authorization: Bearer <API key>`
+ * header to a merchant and stores it on `request.merchant`, or answers 401.
+ */
+async function merchantAuthPlugin(fastify: FastifyInstance, options: { merchantService: MerchantService }) {
+    fastify.decorateRequest('merchant', null);
+
+    fastify.decorate('authenticateMerchant', async (request: FastifyRequest, reply: FastifyReply) => {
+        const apiKey = parseBearerToken(request.headers.authorization);
+        const merchant = apiKey ? await options.merchantService.authenticate(apiKey) : null;
+        if (!merchant) {
+            return reply.code(401).header('www-authenticate', 'Bearer').send({ error: 'Missing or invalid API key' });
+        }
+        request.merchant = merchant;
+    });
+}
+
+export default fp(merchantAuthPlugin, {
+    name: 'merchantAuth',
+});
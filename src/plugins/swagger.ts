@@ -16,30 +16,104 @@ async function swaggerPlugin(fastify: FastifyInstance) {
                 description: [
                     'Fastify-based API with PSP Simulator for payment processing, webhooks, and 3DS simulation.',
                     '',
+                    '## Authentication',
+                    'Transaction and notification endpoints require a merchant API key: `Authorization: Bearer sk_...`. Create a merchant with `npm run merchant:create -- <name> [callbackUrl]`; the key is printed once. A merchant only sees its own transactions, idempotency keys and notifications (anything else is 404), and its notifications go to its own callback URL, signed with its own webhook secret. Missing or unknown keys get 401. PSP-facing endpoints (`/webhooks/*`, `/psp/*`) do not use API keys.',
+                    '',
                     '## Card Number Prefixes',
                     '| Prefix | Outcome |',
                     '|--------|---------|',
                     '| `5555` | Direct Success → webhook fires immediately |',
-                    '| `4000` | Direct Failure → webhook fires immediately |',
+                    '| `400002` | Failure with `insufficient_funds` (`400003` `suspected_fraud`, `400004` `incorrect_cvv`, `400005` `issuer_unavailable`, `400006` `stolen_card`) |',
+                    '| `4000` | Direct Failure with `do_not_honor` → webhook fires immediately |',
                     '| `4111` | 3DS Required → redirect URL returned, client must visit it |',
                     '',
+                    '## Simulator Scenarios',
+                    '`POST /psp/scenarios` overrides these rules for requests matching a card prefix, amount and/or orderId. A scenario can force the outcome and decline code, delay the response, fail it with a 5xx status, delay or duplicate webhooks, send them out of order, or report a different `final_amount`. Manage them with `GET /psp/scenarios` and `DELETE /psp/scenarios[/:id]`.',
+                    '',
                     '## 3DS Flow',
-                    '1. Create transaction with a `4111` card → response includes `threeDsRedirectUrl`',
-                    '2. Client opens the redirect URL in browser → 3DS verification page shown',
-                    '3. After 1.5s delay, PSP sends a `SUCCESS` webhook back',
+                    '1. Create transaction with a `4111` card (optionally with `returnUrl` and `failureUrl`) → response includes `threeDsRedirectUrl`',
+                    '2. Client opens the redirect URL in browser → 3DS challenge page with an OTP field and approve/deny buttons',
+                    '3. Approving with the test OTP `123456` sends a `SUCCESS` webhook after 1.5s; denying, or three wrong OTPs, sends `FAILED`',
+                    '4. The browser is redirected to `returnUrl` (or `failureUrl` on failure) with `transactionId` and `status` query parameters',
+                    '',
+                    '**⏱ 3DS Expiry:** If the client does not complete the 3DS challenge within **5 minutes**, the PSP automatically sends a `FAILED` webhook and the transaction expires. Pending sessions are persisted, so the deadline survives a restart.',
+                    '',
+                    '## Webhook Delivery',
+                    'The simulator retries failed webhooks (non-2xx or network error) with exponential backoff and jitter. See `GET /psp/webhooks/deliveries` for the attempt log and `POST /psp/webhooks/deliveries/:id/redeliver` to resend.',
+                    '',
+                    '## Webhook Signatures',
+                    'PSP webhooks carry `x-psp-timestamp` and `x-psp-signature: v1=<hex>` headers, where the signature is HMAC-SHA256 over `<timestamp>.<raw body>`. Unsigned, forged or stale webhooks are rejected with 401.',
+                    '',
+                    '## Decline Reasons',
+                    'A `FAILED` transaction carries the provider\'s `declineCode` and `declineMessage`, plus `declineRetryable`: `true` for soft declines that may succeed later (`insufficient_funds`, `do_not_honor`, `exceeds_limit`, `issuer_unavailable`, `try_again_later`, `authentication_expired`, `provider_unavailable`), `false` for hard declines (`provider_rejected`, `card_expired`, `incorrect_cvv`, `invalid_card_number`, `lost_card`, `stolen_card`, `suspected_fraud`, `restricted_card`, `transaction_not_permitted`, `authentication_rejected`, `authentication_failed`, `internal_error`, and any unknown code). The same fields are sent in `transaction.failed` events.',
+                    '',
+                    '## Card Validation',
+                    'Card numbers must pass the Luhn check, the expiry must be between this month and 20 years ahead, and the CVV must be 4 digits for Amex and 3 for other brands. Invalid cards are rejected with 400 and a `fieldErrors` list of `{ field, code, message }` (codes: `invalid_format`, `failed_luhn_check`, `card_expired`, `expiry_too_far`, `invalid_cvv_length`).',
+                    '',
+                    '## Card Data',
+                    'Card numbers are tokenized on the way in and never stored or returned. Transactions keep a token, the BIN, the last four digits and the card brand, and every endpoint shows the PAN masked (e.g. `555511******1111`). Until the PSP has received the payment, the card details are kept encrypted in the PSP outbox; the CVV is never stored otherwise.',
+                    '',
+                    '## Currencies',
+                    '`currency` must be an uppercase ISO 4217 code; anything else is rejected with 400. `amount` is an integer in the currency\'s minor unit, whose size depends on the currency: `2500` is 25.00 EUR, 2500 JPY or 2.500 KWD. Responses include the amount in the major unit as `formattedAmount` (and `formattedFinalAmount`).',
+                    '',
+                    '## Settlement Currencies',
+                    'Set `settlementCurrency` to charge the PSP in another currency. The amount is converted at the current rate from the configured rate table; the rate, its timestamp and the converted `settlementAmount` are locked on the transaction. Captures and refunds are converted at the same rate, and the PSP\'s final amount is kept as `finalSettlementAmount` and converted back into `finalAmount`. Currency pairs without a rate are rejected with 422.',
                     '',
-                    '**⏱ 3DS Expiry:** If the client does not visit the 3DS link within **5 minutes**, the PSP automatically sends a `FAILED` webhook and the transaction expires.',
+                    '## Idempotency',
+                    'Send an `Idempotency-Key` header with `POST /transactions` to retry safely. Replays with the same body return the original response; a different body returns 422; a replay while the original is still in flight returns 409.',
+                    '',
+                    '## Authorization & Capture',
+                    'Create a transaction with `captureMode: "manual"` to only reserve funds: approved payments end in `AUTHORIZED`.',
+                    'Then `POST /transactions/:id/capture` (full or partial amount) to charge, or `POST /transactions/:id/void` to release the funds.',
+                    '',
+                    '## Refunds',
+                    '`POST /transactions/:id/refunds` refunds all or part of a `SUCCESS` transaction. Multiple partial refunds are allowed until the final amount is used up; over-refunds are rejected with 422.',
+                    'Refunds start as `PENDING` and settle asynchronously via a refund webhook from the PSP.',
+                    '',
+                    '## Merchant Notifications',
+                    'Payment providers only ever call `/webhooks/<provider>`. Once a transaction reaches an outcome (`transaction.authorized`, `transaction.succeeded`, `transaction.failed`, `transaction.voided`, `transaction.partially_refunded`, `transaction.refunded`), we POST our own event to the `callbackUrl` given at creation, or else the merchant\'s callback URL (or `MERCHANT_WEBHOOK_URL`).',
+                    'Events carry `x-webhook-id`, `x-webhook-timestamp` and `x-webhook-signature: v1=HMAC-SHA256(merchant webhook secret, "<timestamp>.<raw body>")`. Failed deliveries are retried with exponential backoff; see `GET /transactions/:id/notifications` and `POST /notifications/:id/redeliver`.',
+                    '',
+                    '## Reconciliation',
+                    'A background job asks the PSP about transactions stuck in `CREATED` or `PENDING_3DS` beyond a threshold and applies any final status it reports, as if the lost webhook had arrived. Transactions the PSP cannot account for are reported as inconsistent and left untouched. `POST /reconciliation/run` runs it on demand.',
+                    '',
+                    '## Settlement Files',
+                    '`GET /psp/settlements/:date` returns the simulated PSP\'s daily settlement file (CSV or JSON): the day\'s final payments with amount, final amount, fee and currency. Import it with `npm run settlement:reconcile -- <file>` to list missing, extra, amount-mismatched and status-mismatched records.',
+                    '',
+                    '## Payment Providers',
+                    'Each new transaction is routed to a payment provider by the configured rules (currency, card brand, amount), or to the default one; the response and the transaction show it as `provider`. Captures, voids, refunds and reconciliation go to that provider, and its webhooks arrive at `/webhooks/<provider>`. Extra PSP simulator instances with their own card prefix rules are served at `/<name>` (e.g. `/psp-eu`) and share the `/psp` API.',
+                    '',
+                    '## PSP Outbox',
+                    'A new transaction and its PSP request are stored together, and the request is sent right away. If the PSP cannot be reached, `POST /transactions` returns 202 with status `CREATED`, a null `pspTransactionId` and a `Location` header: the request is retried in the background with the same PSP idempotency key, so it is never charged twice. Poll the transaction until it leaves `CREATED`; after the last attempt it is `FAILED` with decline code `provider_unavailable`.',
+                    '',
+                    '## Circuit Breaker & Failover',
+                    'Calls to each provider go through a circuit breaker (closed → open after repeated outages → half-open trial after a timeout). While a provider\'s circuit is open, or it refuses connections, new payments go to its configured failover provider; after a timeout or 5xx they wait for the provider that may already hold them. `GET /providers/status` shows breaker states and failover counts; `POST /psp/outage` forces a simulator outage.',
+                    '',
+                    '## Transaction History',
+                    'Every status change is recorded in the same database transaction as the change itself. `GET /transactions/:id/events` returns the history with the previous and new status, the source (`API`, `WEBHOOK`, `EXPIRY_JOB` or `RECONCILIATION`), the actor and the triggering payload.',
                     '',
                     '## State Machine',
-                    '`CREATED` → `PENDING_3DS` / `SUCCESS` / `FAILED`',
-                    '`PENDING_3DS` → `SUCCESS` / `FAILED`',
-                    '`SUCCESS` and `FAILED` are terminal states.',
+                    '`CREATED` → `PENDING_3DS` / `AUTHORIZED` / `SUCCESS` / `FAILED`',
+                    '`PENDING_3DS` → `AUTHORIZED` / `SUCCESS` / `FAILED`',
+                    '`AUTHORIZED` → `SUCCESS` (capture) / `VOIDED` (void)',
+                    '`SUCCESS` → `PARTIALLY_REFUNDED` / `REFUNDED`',
+                    '`PARTIALLY_REFUNDED` → `PARTIALLY_REFUNDED` / `REFUNDED`',
+                    '`FAILED`, `VOIDED` and `REFUNDED` are terminal states.',
                 ].join('\n'),
                 version: '1.0.0',
             },
+            components: {
+                securitySchemes: {
+                    merchantApiKey: { type: 'http', scheme: 'bearer', description: 'Merchant API key (sk_...)' },
+                    adminApiKey: { type: 'http', scheme: 'bearer', description: 'Admin API key (ADMIN_API_KEY)' },
+                },
+            },
             tags: [
                 { name: 'Transactions', description: 'Transaction management endpoints' },
                 { name: 'Webhooks', description: 'Webhook handling endpoints' },
+                { name: 'Notifications', description: 'Outbound merchant notifications' },
+                { name: 'Reconciliation', description: 'Repair of transactions whose PSP webhook was lost' },
+                { name: 'Providers', description: 'Payment provider health and failover' },
                 { name: 'PSP Simulator', description: 'Mock Payment Service Provider endpoints' },
             ],
         },
@@ -0,0 +1,150 @@
+import { Logger } from '../types/logger';
+
+/**
+ * States of a circuit breaker:
+ * - CLOSED: requests flow; consecutive failures are counted
+ * - OPEN: requests are rejected without being sent until the reset timeout elapses
+ * - HALF_OPEN: a single trial request is let through; its outcome closes or reopens the circuit
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * Point-in-time view of a circuit breaker, as reported by the status endpoint.
+ */
+export interface CircuitBreakerSnapshot {
+    state: CircuitState;
+    consecutiveFailures: number;
+    /** When the circuit last opened; null while it has never opened or is closed again */
+    openedAt: Date | null;
+    /** When an open circuit lets a trial request through */
+    retryAt: Date | null;
+}
+
+/**
+ * Thrown instead of sending a request while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+    constructor(name: string) {
+        super(`Circuit breaker for '${name}' is open`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Circuit breaker guarding calls to one remote endpoint.
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and calls fail
+ * fast with CircuitOpenError. Once `resetTimeoutMs` has elapsed, the next call is
+ * let through as a trial (half-open, one at a time): success closes the circuit,
+ * failure opens it for another timeout. Only errors accepted by `isFailure` count as
+ * failures: others (e.g. 4xx responses) show the endpoint is up and count as successes.
+ */
+export class CircuitBreaker {
+    private name: string;
+    private failureThreshold: number;
+    private resetTimeoutMs: number;
+    private isFailure: (error: unknown) => boolean;
+    private now: () => number;
+    private logger: Logger;
+
+    private state: CircuitState = 'CLOSED';
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+
+    constructor(options: {
+        name: string;
+        failureThreshold?: number;
+        resetTimeoutMs?: number;
+        isFailure: (error: unknown) => boolean;
+        now?: () => number;
+        logger?: Logger;
+    }) {
+        this.name = options.name;
+        this.failureThreshold = options.failureThreshold ?? 5;
+        this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+        this.isFailure = options.isFailure;
+        this.now = options.now ?? Date.now;
+        this.logger = options.logger ?? console;
+    }
+
+    /**
+     * Runs a call through the breaker.
+     * @throws CircuitOpenError if the circuit is open (or a half-open trial is already running),
+     *         otherwise whatever the call throws
+     */
+    async execute<T>(call: () => Promise<T>): Promise<T> {
+        if (!this.isCallPermitted()) {
+            throw new CircuitOpenError(this.name);
+        }
+
+        const isTrial = this.state === 'HALF_OPEN';
+        if (isTrial) {
+            this.trialInFlight = true;
+        }
+
+        try {
+            const result = await call();
+            this.onSuccess();
+            return result;
+        } catch (error) {
+            if (this.isFailure(error)) {
+                this.onFailure();
+            } else {
+                this.onSuccess();
+            }
+            throw error;
+        } finally {
+            if (isTrial) {
+                this.trialInFlight = false;
+            }
+        }
+    }
+
+    /**
+     * Whether a call would currently be let through.
+     */
+    isCallPermitted(): boolean {
+        this.refreshState();
+        return this.state === 'CLOSED' || (this.state === 'HALF_OPEN' && !this.trialInFlight);
+    }
+
+    snapshot(): CircuitBreakerSnapshot {
+        this.refreshState();
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt !== null ? new Date(this.openedAt) : null,
+            retryAt: this.state === 'OPEN' && this.openedAt !== null ? new Date(this.openedAt + this.resetTimeoutMs) : null,
+        };
+    }
+
+    /**
+     * Moves an open circuit to half-open once its reset timeout has elapsed.
+     */
+    private refreshState(): void {
+        if (this.state === 'OPEN' && this.openedAt !== null && this.now() - this.openedAt >= this.resetTimeoutMs) {
+            this.state = 'HALF_OPEN';
+        }
+    }
+
+    private onSuccess(): void {
+        if (this.state !== 'CLOSED') {
+            this.logger.info(`Circuit breaker for '${this.name}' closed`);
+        }
+        this.state = 'CLOSED';
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+    }
+
+    private onFailure(): void {
+        this.consecutiveFailures++;
+        if (this.state === 'HALF_OPEN' || this.consecutiveFailures >= this.failureThreshold) {
+            if (this.state !== 'OPEN') {
+                this.logger.warn(`Circuit breaker for '${this.name}' opened after ${this.consecutiveFailures} consecutive failure(s)`);
+            }
+            this.state = 'OPEN';
+            this.openedAt = this.now();
+        }
+    }
+}
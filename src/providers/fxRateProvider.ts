@@ -0,0 +1,91 @@
+import { readFileSync } from 'node:fs';
+import { isSupportedCurrency } from '../domain/currencies';
+import { isValidFxRate } from '../domain/fxConversion';
+
+/**
+ * Exchange rate between two currencies: one unit of `from` is worth `rate` units of `to`.
+ */
+export interface FxRate {
+    from: string;
+    to: string;
+    /** Decimal string, e.g. "1.0852" */
+    rate: string;
+    /** When the rate was quoted */
+    timestamp: Date;
+}
+
+/**
+ * One row of a rate table, as configured in `FX_RATES` or an `FX_RATES_FILE`.
+ * `timestamp` (ISO 8601) defaults to the time the table was loaded.
+ */
+export interface FxRateEntry {
+    from: string;
+    to: string;
+    rate: string;
+    timestamp?: string;
+}
+
+/**
+ * Source of the exchange rates locked onto transactions with a settlement currency.
+ */
+export interface FxRateProvider {
+    /** Returns the current rate from one currency to another, or null if there is none */
+    getRate(from: string, to: string): Promise<FxRate | null>;
+}
+
+/**
+ * Rates used when neither `FX_RATES` nor `FX_RATES_FILE` is set.
+ */
+export const DEFAULT_FX_RATES: FxRateEntry[] = [
+    { from: 'EUR', to: 'USD', rate: '1.0852' },
+    { from: 'USD', to: 'EUR', rate: '0.9215' },
+    { from: 'EUR', to: 'GBP', rate: '0.8561' },
+    { from: 'GBP', to: 'EUR', rate: '1.1681' },
+    { from: 'GBP', to: 'USD', rate: '1.2676' },
+    { from: 'USD', to: 'GBP', rate: '0.7889' },
+    { from: 'EUR', to: 'JPY', rate: '160.47' },
+    { from: 'USD', to: 'JPY', rate: '147.87' },
+];
+
+/**
+ * Reads a rate table from a JSON file holding an array of FxRateEntry.
+ * @throws Error if the file cannot be read or is not a JSON array
+ */
+export function loadFxRateFile(path: string): FxRateEntry[] {
+    const entries: unknown = JSON.parse(readFileSync(path, 'utf8'));
+    if (!Array.isArray(entries)) {
+        throw new Error(`FX rate file ${path} must contain a JSON array`);
+    }
+    return entries as FxRateEntry[];
+}
+
+/**
+ * FX rate provider backed by a fixed rate table. Only the listed directions are
+ * available: a USD → EUR rate is not derived from the EUR → USD one.
+ */
+export class TableFxRateProvider implements FxRateProvider {
+    private rates: Map<string, FxRate> = new Map();
+
+    /**
+     * @throws Error if an entry has an unsupported currency or an invalid rate or timestamp
+     */
+    constructor(entries: FxRateEntry[], loadedAt: Date = new Date()) {
+        for (const entry of entries) {
+            if (!isSupportedCurrency(entry.from) || !isSupportedCurrency(entry.to)) {
+                throw new Error(`Unsupported currency in FX rate ${entry.from}/${entry.to}`);
+            }
+            if (!isValidFxRate(entry.rate)) {
+                throw new Error(`Invalid FX rate for ${entry.from}/${entry.to}: ${entry.rate}`);
+            }
+            const timestamp = entry.timestamp ? new Date(entry.timestamp) : loadedAt;
+            if (Number.isNaN(timestamp.getTime())) {
+                throw new Error(`Invalid FX rate timestamp for ${entry.from}/${entry.to}: ${entry.timestamp}`);
+            }
+            this.rates.set(`${entry.from}/${entry.to}`, { from: entry.from, to: entry.to, rate: entry.rate, timestamp });
+        }
+    }
+
+    async getRate(from: string, to: string): Promise<FxRate | null> {
+        return this.rates.get(`${from}/${to}`) ?? null;
+    }
+}
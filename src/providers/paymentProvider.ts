@@ -0,0 +1,128 @@
+import { IncomingHttpHeaders } from 'node:http';
+import { CardBrand } from '../enums/cardBrand';
+import { SignatureVerificationResult } from '../domain/webhookSignature';
+import { CircuitBreakerSnapshot } from './circuitBreaker';
+import {
+    PspCaptureResponse,
+    PspRefundRequest,
+    PspRefundResponse,
+    PspResponse,
+    PspTransactionRequest,
+    PspTransactionStatusResponse,
+    WebhookPayload,
+} from '../types/transaction';
+
+/**
+ * Thrown by a provider that cannot be reached: its circuit breaker is open, or it kept
+ * failing with network errors or 5xx responses after all retries.
+ *
+ * A timeout or a 5xx does not prove the provider did not act on the request, so a new payment
+ * may only fail over to another provider when `neverReceived` is set: the circuit was open, or
+ * every connection was refused before the request could be sent. Other errors (e.g. 4xx) must
+ * never fail over.
+ */
+export class ProviderUnavailableError extends Error {
+    public provider: string;
+    public neverReceived: boolean;
+
+    constructor(provider: string, message: string, neverReceived: boolean = false) {
+        super(message);
+        this.name = 'ProviderUnavailableError';
+        this.provider = provider;
+        this.neverReceived = neverReceived;
+    }
+}
+
+/**
+ * Thrown by a provider that received a request and refused it (e.g. a 4xx response): the
+ * provider is up, and sending the same request again would be refused again.
+ */
+export class ProviderRejectedError extends Error {
+    public provider: string;
+
+    constructor(provider: string, message: string) {
+        super(message);
+        this.name = 'ProviderRejectedError';
+        this.provider = provider;
+    }
+}
+
+/**
+ * A payment request as handed to a provider. The provider knows where its
+ * webhooks must go, so the callback URL is not part of it. A request repeating
+ * an earlier `idempotencyKey` must get the payment created by that one back.
+ */
+export type ProviderPaymentRequest = Omit<PspTransactionRequest, 'callbackUrl'> & { idempotencyKey: string };
+
+/**
+ * A refund request as handed to a provider.
+ */
+export type ProviderRefundRequest = Omit<PspRefundRequest, 'callbackUrl'>;
+
+/**
+ * Adapter between our services and one payment service provider.
+ *
+ * Services only talk to providers through this interface: every request, status
+ * lookup and incoming webhook for a transaction goes to the provider recorded on it.
+ */
+export interface PaymentProvider {
+    /** Name recorded on transactions and used in the webhook URL (`/webhooks/<name>`) */
+    readonly name: string;
+
+    createPayment(request: ProviderPaymentRequest): Promise<PspResponse>;
+    capturePayment(pspTransactionId: string, amount: number): Promise<PspCaptureResponse>;
+    voidPayment(pspTransactionId: string): Promise<PspResponse>;
+    refundPayment(request: ProviderRefundRequest): Promise<PspRefundResponse>;
+    /** Returns the provider's view of a payment, or null if it does not know it */
+    getPayment(pspTransactionId: string): Promise<PspTransactionStatusResponse | null>;
+
+    /** Checks that an incoming webhook really comes from this provider */
+    verifyWebhook(rawBody: string, headers: IncomingHttpHeaders): SignatureVerificationResult;
+    /** Translates a verified webhook body into our webhook payload */
+    parseWebhook(body: unknown): WebhookPayload;
+
+    /** Current state of the circuit breaker guarding calls to the provider */
+    circuitState(): CircuitBreakerSnapshot;
+}
+
+/**
+ * Connection settings of a provider speaking the PSP simulator's API.
+ */
+export interface PaymentProviderConfig {
+    name: string;
+    baseUrl: string;
+    /** Provider that takes new payments while this one is unavailable */
+    failoverProvider?: string;
+}
+
+/**
+ * Sends matching transactions to a provider. Every criterion that is set must match;
+ * amounts are inclusive bounds in minor units.
+ */
+export interface ProviderRoutingRule {
+    provider: string;
+    currencies?: string[];
+    cardBrands?: CardBrand[];
+    minAmount?: number;
+    maxAmount?: number;
+}
+
+/**
+ * Transaction attributes routing rules are evaluated against.
+ */
+export interface RoutingSubject {
+    currency: string;
+    cardBrand: CardBrand;
+    amount: number;
+}
+
+/**
+ * Health of a provider, as reported by `GET /providers/status`.
+ */
+export interface ProviderStatus {
+    name: string;
+    circuit: CircuitBreakerSnapshot;
+    failoverProvider: string | null;
+    /** New payments sent to the failover provider instead of this one since startup */
+    failovers: number;
+}
@@ -0,0 +1,108 @@
+import { PaymentProvider, ProviderRoutingRule, ProviderStatus, RoutingSubject } from './paymentProvider';
+
+/**
+ * Picks the payment provider for each new transaction and resolves the provider
+ * recorded on existing ones.
+ *
+ * Routing rules are evaluated in order and the first match wins; transactions
+ * matching no rule go to the default provider. A provider may name a failover
+ * provider that takes its new payments while it is unavailable.
+ */
+export class ProviderRouter {
+    private providers: Map<string, PaymentProvider>;
+    private rules: ProviderRoutingRule[];
+    private defaultProvider: string;
+    private failoverProviders: Map<string, string>;
+    private failoverCounts: Map<string, number> = new Map();
+
+    /**
+     * @param options.failover - Failover provider by provider name
+     * @throws Error if a rule, the default or a failover names an unknown provider
+     */
+    constructor(
+        providers: PaymentProvider[],
+        options: { rules?: ProviderRoutingRule[]; defaultProvider?: string; failover?: Record<string, string> } = {},
+    ) {
+        if (providers.length === 0) {
+            throw new Error('At least one payment provider must be configured');
+        }
+
+        this.providers = new Map(providers.map((provider) => [provider.name, provider]));
+        this.rules = options.rules ?? [];
+        this.defaultProvider = options.defaultProvider ?? providers[0].name;
+        this.failoverProviders = new Map(Object.entries(options.failover ?? {}));
+
+        const referencedNames = [
+            this.defaultProvider,
+            ...this.rules.map((rule) => rule.provider),
+            ...this.failoverProviders.keys(),
+            ...this.failoverProviders.values(),
+        ];
+        for (const name of referencedNames) {
+            if (!this.providers.has(name)) {
+                throw new Error(`Unknown payment provider in routing configuration: ${name}`);
+            }
+        }
+        for (const [name, failoverName] of this.failoverProviders) {
+            if (name === failoverName) {
+                throw new Error(`Payment provider ${name} cannot fail over to itself`);
+            }
+        }
+    }
+
+    /**
+     * Chooses the provider for a new transaction.
+     */
+    select(subject: RoutingSubject): PaymentProvider {
+        const rule = this.rules.find((candidate) =>
+            (candidate.currencies === undefined || candidate.currencies.includes(subject.currency))
+            && (candidate.cardBrands === undefined || candidate.cardBrands.includes(subject.cardBrand))
+            && (candidate.minAmount === undefined || subject.amount >= candidate.minAmount)
+            && (candidate.maxAmount === undefined || subject.amount <= candidate.maxAmount));
+
+        return this.providers.get(rule?.provider ?? this.defaultProvider)!;
+    }
+
+    /**
+     * Looks up a provider by name.
+     * @returns null if no such provider is configured
+     */
+    get(name: string): PaymentProvider | null {
+        return this.providers.get(name) ?? null;
+    }
+
+    /**
+     * Returns the provider taking a provider's new payments while it is unavailable.
+     * @returns null if none is configured
+     */
+    failoverFor(name: string): PaymentProvider | null {
+        const failoverName = this.failoverProviders.get(name);
+        return failoverName ? this.providers.get(failoverName)! : null;
+    }
+
+    /**
+     * Counts a new payment sent to the failover provider instead of the given one.
+     */
+    recordFailover(name: string): void {
+        this.failoverCounts.set(name, (this.failoverCounts.get(name) ?? 0) + 1);
+    }
+
+    /**
+     * Lists the configured providers.
+     */
+    list(): PaymentProvider[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Reports each provider's circuit breaker and failover activity.
+     */
+    status(): ProviderStatus[] {
+        return this.list().map((provider) => ({
+            name: provider.name,
+            circuit: provider.circuitState(),
+            failoverProvider: this.failoverProviders.get(provider.name) ?? null,
+            failovers: this.failoverCounts.get(provider.name) ?? 0,
+        }));
+    }
+}
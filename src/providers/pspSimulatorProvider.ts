@@ -0,0 +1,292 @@
+import { IncomingHttpHeaders } from 'node:http';
+import {
+    SignatureVerificationResult,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    verifyWebhookSignature,
+} from '../domain/webhookSignature';
+import {
+    PspCaptureResponse,
+    PspRefundResponse,
+    PspResponse,
+    PspTransactionStatusResponse,
+    WebhookPayload,
+} from '../types/transaction';
+import { Logger } from '../types/logger';
+import { CircuitBreaker, CircuitBreakerSnapshot, CircuitOpenError } from './circuitBreaker';
+import {
+    PaymentProvider,
+    ProviderPaymentRequest,
+    ProviderRefundRequest,
+    ProviderRejectedError,
+    ProviderUnavailableError,
+} from './paymentProvider';
+
+/**
+ * Network error codes of a connection that failed before the request could be sent.
+ */
+const REFUSED_CONNECTION_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Payment provider speaking the PSP simulator's HTTP API
+ * (any simulator instance, or a PSP exposing the same API).
+ *
+ * Requests time out after `requestTimeoutMs` and are retried with exponential backoff on
+ * network errors, timeouts and 5xx responses, behind a circuit breaker that counts each
+ * request whose retries all failed (rejections show the PSP is up and are not counted);
+ * webhooks are authenticated with the simulator's HMAC signature scheme.
+ */
+export class PspSimulatorProvider implements PaymentProvider {
+    readonly name: string;
+    private baseUrl: string;
+    private appBaseUrl: string;
+    private webhookSecrets: string[];
+    private webhookToleranceSeconds: number;
+    private retryAttempts: number;
+    private retryDelayMs: number;
+    private requestTimeoutMs: number;
+    private circuitBreaker: CircuitBreaker;
+    private logger: Logger;
+
+    constructor(options: {
+        name: string;
+        baseUrl: string;
+        appBaseUrl: string;
+        webhookSecrets: string[];
+        webhookToleranceSeconds?: number;
+        retryAttempts?: number;
+        retryDelayMs?: number;
+        requestTimeoutMs?: number;
+        circuitBreakerFailureThreshold?: number;
+        circuitBreakerResetTimeoutMs?: number;
+        logger?: Logger;
+    }) {
+        this.name = options.name;
+        this.baseUrl = options.baseUrl;
+        this.appBaseUrl = options.appBaseUrl;
+        this.webhookSecrets = options.webhookSecrets;
+        this.webhookToleranceSeconds = options.webhookToleranceSeconds ?? 300;
+        this.retryAttempts = options.retryAttempts ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 500;
+        this.requestTimeoutMs = options.requestTimeoutMs ?? 10000;
+        this.logger = options.logger ?? console;
+        this.circuitBreaker = new CircuitBreaker({
+            name: options.name,
+            failureThreshold: options.circuitBreakerFailureThreshold,
+            resetTimeoutMs: options.circuitBreakerResetTimeoutMs,
+            isFailure: (error) => error instanceof ProviderUnavailableError,
+            logger: this.logger,
+        });
+    }
+
+    /**
+     * Sends the idempotency key as an `Idempotency-Key` header, so a resent request never charges twice.
+     */
+    async createPayment(request: ProviderPaymentRequest): Promise<PspResponse> {
+        const { idempotencyKey, ...payment } = request;
+        return this.callPsp<PspResponse>(
+            '/transactions',
+            { ...payment, callbackUrl: this.webhookUrl() },
+            { 'Idempotency-Key': idempotencyKey },
+        );
+    }
+
+    async capturePayment(pspTransactionId: string, amount: number): Promise<PspCaptureResponse> {
+        return this.callPsp<PspCaptureResponse>(`/transactions/${pspTransactionId}/capture`, { amount });
+    }
+
+    async voidPayment(pspTransactionId: string): Promise<PspResponse> {
+        return this.callPsp<PspResponse>(`/transactions/${pspTransactionId}/void`, {});
+    }
+
+    /**
+     * Sends the refund reference as an `Idempotency-Key` header, so a retried request never refunds twice.
+     */
+    async refundPayment(request: ProviderRefundRequest): Promise<PspRefundResponse> {
+        return this.callPsp<PspRefundResponse>(
+            '/refunds',
+            { ...request, callbackUrl: this.webhookUrl() },
+            { 'Idempotency-Key': request.reference },
+        );
+    }
+
+    /**
+     * @throws ProviderUnavailableError if the circuit is open, on network errors, timeouts and 5xx responses;
+     *         ProviderRejectedError on other non-2xx responses than 404
+     */
+    async getPayment(pspTransactionId: string): Promise<PspTransactionStatusResponse | null> {
+        return this.guarded(async () => {
+            let response: Response;
+            try {
+                response = await fetch(`${this.baseUrl}/transactions/${encodeURIComponent(pspTransactionId)}`, {
+                    signal: AbortSignal.timeout(this.requestTimeoutMs),
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new ProviderUnavailableError(this.name, `PSP request failed: ${errorMessage}`);
+            }
+
+            if (response.status === 404) {
+                return null;
+            }
+            if (!response.ok) {
+                const errorBody = await response.text();
+                const message = `PSP request failed with status ${response.status}: ${errorBody}`;
+                throw response.status >= 500
+                    ? new ProviderUnavailableError(this.name, message)
+                    : new ProviderRejectedError(this.name, message);
+            }
+
+            return response.json() as Promise<PspTransactionStatusResponse>;
+        });
+    }
+
+    verifyWebhook(rawBody: string, headers: IncomingHttpHeaders): SignatureVerificationResult {
+        return verifyWebhookSignature({
+            rawBody,
+            timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER] as string | undefined,
+            signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER] as string | undefined,
+            secrets: this.webhookSecrets,
+            toleranceSeconds: this.webhookToleranceSeconds,
+        });
+    }
+
+    circuitState(): CircuitBreakerSnapshot {
+        return this.circuitBreaker.snapshot();
+    }
+
+    /**
+     * The simulator's webhooks already use our payload format.
+     */
+    parseWebhook(body: unknown): WebhookPayload {
+        return body as WebhookPayload;
+    }
+
+    /**
+     * Our endpoint for this provider's webhooks.
+     */
+    private webhookUrl(): string {
+        return `${this.appBaseUrl}/webhooks/${this.name}`;
+    }
+
+    /**
+     * Determines whether a failed PSP request should be retried.
+     * Only network errors, timeouts and server errors (5xx) are retryable.
+     * Client errors (4xx) indicate permanent failures and should not be retried.
+     */
+    private isRetryable(error: unknown): boolean {
+        if (error instanceof ProviderRejectedError) {
+            return false;
+        }
+
+        // Network errors (fetch throws TypeError on connection failure)
+        if (error instanceof TypeError) {
+            return true;
+        }
+
+        // Timeouts (AbortSignal.timeout aborts the fetch with a TimeoutError DOMException)
+        if ((error as { name?: unknown } | null)?.name === 'TimeoutError') {
+            return true;
+        }
+
+        // Server errors (5xx) — thrown by callPspWithRetry as a plain Error
+        if (error instanceof Error && error.message.includes('status 5')) {
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Determines whether a failed PSP request provably never reached the PSP: the connection
+     * was refused or the host could not be resolved. Timeouts, resets and 5xx responses may
+     * come after the PSP acted on the request.
+     */
+    private isRefusedConnection(error: unknown): boolean {
+        const code = error instanceof TypeError ? (error.cause as { code?: unknown } | undefined)?.code : undefined;
+        return typeof code === 'string' && REFUSED_CONNECTION_CODES.includes(code);
+    }
+
+    /**
+     * Sleeps for the specified number of milliseconds.
+     */
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    /**
+     * Runs a request through the circuit breaker, failing fast while it is open.
+     */
+    private async guarded<T>(call: () => Promise<T>): Promise<T> {
+        try {
+            return await this.circuitBreaker.execute(call);
+        } catch (error) {
+            if (error instanceof CircuitOpenError) {
+                throw new ProviderUnavailableError(this.name, `PSP '${this.name}' is unavailable: ${error.message}`, true);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Calls a PSP endpoint with exponential backoff retry, behind the circuit breaker.
+     * Retries on network errors, timeouts and 5xx responses. 4xx errors are not retried.
+     *
+     * @param path - Endpoint path relative to the PSP base URL (e.g. `/transactions`)
+     * @param payload - Request body to send to the PSP
+     * @param headers - Extra request headers
+     * @returns PSP response
+     * @throws ProviderUnavailableError if the circuit is open or all retry attempts are exhausted,
+     *         ProviderRejectedError on 4xx responses
+     */
+    private async callPsp<T>(path: string, payload: Record<string, unknown>, headers: Record<string, string> = {}): Promise<T> {
+        return this.guarded(() => this.callPspWithRetry<T>(path, payload, headers));
+    }
+
+    private async callPspWithRetry<T>(path: string, payload: Record<string, unknown>, headers: Record<string, string>): Promise<T> {
+        let lastError: Error | undefined;
+        let mayHaveReceived = false;
+
+        for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+            try {
+                const response = await fetch(`${this.baseUrl}${path}`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json', ...headers },
+                    body: JSON.stringify(payload),
+                    signal: AbortSignal.timeout(this.requestTimeoutMs),
+                });
+
+                if (!response.ok) {
+                    const errorBody = await response.text();
+                    const message = `PSP request failed with status ${response.status}: ${errorBody}`;
+                    throw response.status >= 500 ? new Error(message) : new ProviderRejectedError(this.name, message);
+                }
+
+                return response.json() as Promise<T>;
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+
+                // Don't retry non-retryable errors (e.g. 4xx)
+                if (!this.isRetryable(error)) {
+                    throw lastError;
+                }
+                mayHaveReceived = mayHaveReceived || !this.isRefusedConnection(error);
+
+                // Don't wait after the last attempt
+                if (attempt < this.retryAttempts) {
+                    const delay = this.retryDelayMs * Math.pow(2, attempt - 1);
+                    this.logger.warn(
+                        `PSP call attempt ${attempt}/${this.retryAttempts} failed, retrying in ${delay}ms: ${lastError.message}`,
+                    );
+                    await this.sleep(delay);
+                }
+            }
+        }
+
+        throw new ProviderUnavailableError(
+            this.name,
+            `PSP request failed after ${this.retryAttempts} attempts: ${lastError?.message}`,
+            !mayHaveReceived,
+        );
+    }
+}
@@ -0,0 +1,164 @@
+import {
+    ISimulatorStore,
+    Pending3dsSession,
+    PendingAuthorization,
+    PspRefundRecord,
+    PspTransactionRecord,
+    WebhookDelivery,
+    WebhookDeliveryFilter,
+} from './simulatorStore';
+
+/**
+ * In-memory simulator store, used by tests and when running without a database.
+ * Returns copies so callers cannot mutate stored state by accident.
+ */
+export class InMemorySimulatorStore implements ISimulatorStore {
+    private transactions: Map<string, PspTransactionRecord> = new Map();
+    private refunds: Map<string, PspRefundRecord> = new Map();
+    private sessions: Map<string, Pending3dsSession> = new Map();
+    private authorizations: Map<string, PendingAuthorization> = new Map();
+    private webhookDeliveries: Map<string, WebhookDelivery> = new Map();
+
+    async savePspTransaction(transaction: PspTransactionRecord): Promise<void> {
+        this.transactions.set(transaction.pspTransactionId, { ...transaction });
+    }
+
+    async createPspTransaction(transaction: PspTransactionRecord): Promise<PspTransactionRecord> {
+        const existing = transaction.idempotencyKey !== null
+            && await this.findPspTransactionByIdempotencyKey(transaction.instance, transaction.idempotencyKey);
+        if (existing) {
+            return existing;
+        }
+        this.transactions.set(transaction.pspTransactionId, { ...transaction });
+        return { ...transaction };
+    }
+
+    async findPspTransaction(pspTransactionId: string): Promise<PspTransactionRecord | null> {
+        const transaction = this.transactions.get(pspTransactionId);
+        return transaction ? { ...transaction } : null;
+    }
+
+    async findPspTransactionByIdempotencyKey(instance: string, idempotencyKey: string): Promise<PspTransactionRecord | null> {
+        for (const transaction of this.transactions.values()) {
+            if (transaction.instance === instance && transaction.idempotencyKey === idempotencyKey) {
+                return { ...transaction };
+            }
+        }
+        return null;
+    }
+
+    async listPspTransactions(createdFrom: Date, createdTo: Date): Promise<PspTransactionRecord[]> {
+        return [...this.transactions.values()]
+            .filter((transaction) => transaction.createdAt >= createdFrom && transaction.createdAt < createdTo)
+            .sort((left, right) => left.createdAt.getTime() - right.createdAt.getTime())
+            .map((transaction) => ({ ...transaction }));
+    }
+
+    async reserveRefund(refund: PspRefundRecord): Promise<PspRefundRecord | null> {
+        if (refund.idempotencyKey !== null) {
+            for (const existing of this.refunds.values()) {
+                if (existing.instance === refund.instance && existing.idempotencyKey === refund.idempotencyKey) {
+                    return { ...existing };
+                }
+            }
+        }
+        const transaction = this.transactions.get(refund.pspTransactionId);
+        if (!transaction || transaction.finalAmount - transaction.refundedAmount < refund.amount) {
+            return null;
+        }
+        transaction.refundedAmount += refund.amount;
+        transaction.updatedAt = new Date();
+        this.refunds.set(refund.pspRefundId, { ...refund });
+        return { ...refund };
+    }
+
+    async savePending3dsSession(session: Pending3dsSession): Promise<void> {
+        this.sessions.set(session.pspTransactionId, cloneSession(session));
+    }
+
+    async findPending3dsSession(pspTransactionId: string): Promise<Pending3dsSession | null> {
+        const session = this.sessions.get(pspTransactionId);
+        return session ? cloneSession(session) : null;
+    }
+
+    async listPending3dsSessions(): Promise<Pending3dsSession[]> {
+        return [...this.sessions.values()].map(cloneSession);
+    }
+
+    async consumeOtpAttempt(pspTransactionId: string): Promise<Pending3dsSession | null> {
+        const session = this.sessions.get(pspTransactionId);
+        if (!session || session.otpAttemptsRemaining <= 0) {
+            return null;
+        }
+        session.otpAttemptsRemaining--;
+        return cloneSession(session);
+    }
+
+    async deletePending3dsSession(pspTransactionId: string): Promise<Pending3dsSession | null> {
+        const session = this.sessions.get(pspTransactionId);
+        if (!session) {
+            return null;
+        }
+        this.sessions.delete(pspTransactionId);
+        return session;
+    }
+
+    async saveAuthorization(authorization: PendingAuthorization): Promise<void> {
+        this.authorizations.set(authorization.pspTransactionId, { ...authorization });
+    }
+
+    async findAuthorization(pspTransactionId: string): Promise<PendingAuthorization | null> {
+        const authorization = this.authorizations.get(pspTransactionId);
+        return authorization ? { ...authorization } : null;
+    }
+
+    async deleteAuthorization(pspTransactionId: string): Promise<PendingAuthorization | null> {
+        const authorization = this.authorizations.get(pspTransactionId);
+        if (!authorization) {
+            return null;
+        }
+        this.authorizations.delete(pspTransactionId);
+        return authorization;
+    }
+
+    async saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+        this.webhookDeliveries.set(delivery.id, cloneDelivery(delivery));
+    }
+
+    async findWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+        const delivery = this.webhookDeliveries.get(deliveryId);
+        return delivery ? cloneDelivery(delivery) : null;
+    }
+
+    async listWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+        return [...this.webhookDeliveries.values()]
+            .filter((delivery) => !filter.status || delivery.status === filter.status)
+            .filter((delivery) => !filter.transactionId || delivery.payload.transactionId === filter.transactionId)
+            .map(cloneDelivery);
+    }
+
+    /**
+     * Clears all stored state (useful between tests).
+     */
+    clear(): void {
+        this.transactions.clear();
+        this.sessions.clear();
+        this.authorizations.clear();
+        this.webhookDeliveries.clear();
+    }
+}
+
+function cloneSession(session: Pending3dsSession): Pending3dsSession {
+    return {
+        ...session,
+        scenario: session.scenario ? { ...session.scenario, match: { ...session.scenario.match } } : null,
+    };
+}
+
+function cloneDelivery(delivery: WebhookDelivery): WebhookDelivery {
+    return {
+        ...delivery,
+        payload: { ...delivery.payload },
+        attempts: delivery.attempts.map((attempt) => ({ ...attempt })),
+    };
+}
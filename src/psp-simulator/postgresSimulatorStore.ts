@@ -0,0 +1,343 @@
+import { Pool } from 'pg';
+import { CaptureMode, WebhookPayload } from '../types/transaction';
+import { PspScenario } from './scenarioRegistry';
+import {
+    ISimulatorStore,
+    Pending3dsSession,
+    PendingAuthorization,
+    PspRefundRecord,
+    PspTransactionRecord,
+    PspTransactionStatus,
+    WebhookDelivery,
+    WebhookDeliveryAttempt,
+    WebhookDeliveryFilter,
+    WebhookDeliveryStatus,
+} from './simulatorStore';
+
+/**
+ * PostgreSQL-backed simulator store.
+ */
+export class PostgresSimulatorStore implements ISimulatorStore {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async savePspTransaction(transaction: PspTransactionRecord): Promise<void> {
+        await this.pool.query(
+            `INSERT INTO psp_transactions
+                (psp_transaction_id, instance, order_id, amount, currency, status, final_amount, refunded_amount, decline_code,
+                 idempotency_key, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+             ON CONFLICT (psp_transaction_id) DO UPDATE SET
+                status = EXCLUDED.status,
+                final_amount = EXCLUDED.final_amount,
+                decline_code = EXCLUDED.decline_code,
+                updated_at = EXCLUDED.updated_at`,
+            [
+                transaction.pspTransactionId,
+                transaction.instance,
+                transaction.orderId,
+                transaction.amount,
+                transaction.currency,
+                transaction.status,
+                transaction.finalAmount,
+                transaction.refundedAmount,
+                transaction.declineCode,
+                transaction.idempotencyKey,
+                transaction.createdAt,
+                transaction.updatedAt,
+            ],
+        );
+    }
+
+    async createPspTransaction(transaction: PspTransactionRecord): Promise<PspTransactionRecord> {
+        const inserted = await this.pool.query(
+            `INSERT INTO psp_transactions
+                (psp_transaction_id, instance, order_id, amount, currency, status, final_amount, refunded_amount, decline_code,
+                 idempotency_key, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+             ON CONFLICT (instance, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
+             RETURNING *`,
+            [
+                transaction.pspTransactionId,
+                transaction.instance,
+                transaction.orderId,
+                transaction.amount,
+                transaction.currency,
+                transaction.status,
+                transaction.finalAmount,
+                transaction.refundedAmount,
+                transaction.declineCode,
+                transaction.idempotencyKey,
+                transaction.createdAt,
+                transaction.updatedAt,
+            ],
+        );
+        if (inserted.rows[0]) {
+            return this.mapTransactionRow(inserted.rows[0]);
+        }
+        // Only a payment with the same key can have conflicted, and it has committed by now
+        return (await this.findPspTransactionByIdempotencyKey(transaction.instance, transaction.idempotencyKey!))!;
+    }
+
+    async findPspTransaction(pspTransactionId: string): Promise<PspTransactionRecord | null> {
+        const result = await this.pool.query(
+            'SELECT * FROM psp_transactions WHERE psp_transaction_id = $1',
+            [pspTransactionId],
+        );
+        return result.rows[0] ? this.mapTransactionRow(result.rows[0]) : null;
+    }
+
+    async findPspTransactionByIdempotencyKey(instance: string, idempotencyKey: string): Promise<PspTransactionRecord | null> {
+        const result = await this.pool.query(
+            'SELECT * FROM psp_transactions WHERE instance = $1 AND idempotency_key = $2',
+            [instance, idempotencyKey],
+        );
+        return result.rows[0] ? this.mapTransactionRow(result.rows[0]) : null;
+    }
+
+    async listPspTransactions(createdFrom: Date, createdTo: Date): Promise<PspTransactionRecord[]> {
+        const result = await this.pool.query(
+            `SELECT * FROM psp_transactions
+             WHERE created_at >= $1 AND created_at < $2
+             ORDER BY created_at ASC, psp_transaction_id ASC`,
+            [createdFrom, createdTo],
+        );
+        return result.rows.map((row) => this.mapTransactionRow(row));
+    }
+
+    async reserveRefund(refund: PspRefundRecord): Promise<PspRefundRecord | null> {
+        const client = await this.pool.connect();
+        try {
+            await client.query('BEGIN');
+            // A concurrent refund with the same key makes this insert wait for it, then do nothing
+            const inserted = await client.query(
+                `INSERT INTO psp_refunds (psp_refund_id, instance, psp_transaction_id, amount, idempotency_key, created_at)
+                 VALUES ($1, $2, $3, $4, $5, $6)
+                 ON CONFLICT (instance, idempotency_key) DO NOTHING
+                 RETURNING *`,
+                [refund.pspRefundId, refund.instance, refund.pspTransactionId, refund.amount, refund.idempotencyKey, refund.createdAt],
+            );
+            if (!inserted.rows[0]) {
+                await client.query('ROLLBACK');
+                const existing = await client.query(
+                    'SELECT * FROM psp_refunds WHERE instance = $1 AND idempotency_key = $2',
+                    [refund.instance, refund.idempotencyKey],
+                );
+                return this.mapRefundRow(existing.rows[0]);
+            }
+
+            const reserved = await client.query(
+                `UPDATE psp_transactions
+                 SET refunded_amount = refunded_amount + $2, updated_at = NOW()
+                 WHERE psp_transaction_id = $1 AND final_amount - refunded_amount >= $2`,
+                [refund.pspTransactionId, refund.amount],
+            );
+            if (reserved.rowCount === 0) {
+                await client.query('ROLLBACK');
+                return null;
+            }
+            await client.query('COMMIT');
+            return this.mapRefundRow(inserted.rows[0]);
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    async savePending3dsSession(session: Pending3dsSession): Promise<void> {
+        await this.pool.query(
+            `INSERT INTO psp_pending_3ds_sessions
+                (psp_transaction_id, callback_url, amount, capture_mode, return_url, failure_url,
+                 otp_attempts_remaining, scenario, expires_at, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+             ON CONFLICT (psp_transaction_id) DO UPDATE SET
+                otp_attempts_remaining = EXCLUDED.otp_attempts_remaining,
+                expires_at = EXCLUDED.expires_at`,
+            [
+                session.pspTransactionId,
+                session.callbackUrl,
+                session.amount,
+                session.captureMode,
+                session.returnUrl,
+                session.failureUrl,
+                session.otpAttemptsRemaining,
+                session.scenario ? JSON.stringify(session.scenario) : null,
+                session.expiresAt,
+                session.createdAt,
+            ],
+        );
+    }
+
+    async findPending3dsSession(pspTransactionId: string): Promise<Pending3dsSession | null> {
+        const result = await this.pool.query(
+            'SELECT * FROM psp_pending_3ds_sessions WHERE psp_transaction_id = $1',
+            [pspTransactionId],
+        );
+        return result.rows[0] ? this.mapSessionRow(result.rows[0]) : null;
+    }
+
+    async listPending3dsSessions(): Promise<Pending3dsSession[]> {
+        const result = await this.pool.query('SELECT * FROM psp_pending_3ds_sessions ORDER BY expires_at ASC');
+        return result.rows.map((row) => this.mapSessionRow(row));
+    }
+
+    async consumeOtpAttempt(pspTransactionId: string): Promise<Pending3dsSession | null> {
+        const result = await this.pool.query(
+            `UPDATE psp_pending_3ds_sessions
+             SET otp_attempts_remaining = otp_attempts_remaining - 1
+             WHERE psp_transaction_id = $1 AND otp_attempts_remaining > 0
+             RETURNING *`,
+            [pspTransactionId],
+        );
+        return result.rows[0] ? this.mapSessionRow(result.rows[0]) : null;
+    }
+
+    async deletePending3dsSession(pspTransactionId: string): Promise<Pending3dsSession | null> {
+        const result = await this.pool.query(
+            'DELETE FROM psp_pending_3ds_sessions WHERE psp_transaction_id = $1 RETURNING *',
+            [pspTransactionId],
+        );
+        return result.rows[0] ? this.mapSessionRow(result.rows[0]) : null;
+    }
+
+    async saveAuthorization(authorization: PendingAuthorization): Promise<void> {
+        await this.pool.query(
+            `INSERT INTO psp_pending_authorizations (psp_transaction_id, amount, created_at)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (psp_transaction_id) DO UPDATE SET amount = EXCLUDED.amount`,
+            [authorization.pspTransactionId, authorization.amount, authorization.createdAt],
+        );
+    }
+
+    async findAuthorization(pspTransactionId: string): Promise<PendingAuthorization | null> {
+        const result = await this.pool.query(
+            'SELECT * FROM psp_pending_authorizations WHERE psp_transaction_id = $1',
+            [pspTransactionId],
+        );
+        return result.rows[0] ? this.mapAuthorizationRow(result.rows[0]) : null;
+    }
+
+    async deleteAuthorization(pspTransactionId: string): Promise<PendingAuthorization | null> {
+        const result = await this.pool.query(
+            'DELETE FROM psp_pending_authorizations WHERE psp_transaction_id = $1 RETURNING *',
+            [pspTransactionId],
+        );
+        return result.rows[0] ? this.mapAuthorizationRow(result.rows[0]) : null;
+    }
+
+    async saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+        await this.pool.query(
+            `INSERT INTO psp_webhook_deliveries
+                (id, callback_url, payload, status, attempts, next_attempt_at, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             ON CONFLICT (id) DO UPDATE SET
+                status = EXCLUDED.status,
+                attempts = EXCLUDED.attempts,
+                next_attempt_at = EXCLUDED.next_attempt_at,
+                updated_at = EXCLUDED.updated_at`,
+            [
+                delivery.id,
+                delivery.callbackUrl,
+                JSON.stringify(delivery.payload),
+                delivery.status,
+                JSON.stringify(delivery.attempts),
+                delivery.nextAttemptAt,
+                delivery.createdAt,
+                delivery.updatedAt,
+            ],
+        );
+    }
+
+    async findWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+        const result = await this.pool.query('SELECT * FROM psp_webhook_deliveries WHERE id = $1', [deliveryId]);
+        return result.rows[0] ? this.mapDeliveryRow(result.rows[0]) : null;
+    }
+
+    async listWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+        const result = await this.pool.query(
+            `SELECT * FROM psp_webhook_deliveries
+             WHERE ($1::VARCHAR IS NULL OR status = $1)
+               AND ($2::VARCHAR IS NULL OR payload->>'transactionId' = $2)
+             ORDER BY created_at ASC, id ASC`,
+            [filter.status ?? null, filter.transactionId ?? null],
+        );
+        return result.rows.map((row) => this.mapDeliveryRow(row));
+    }
+
+    private mapTransactionRow(row: Record<string, unknown>): PspTransactionRecord {
+        return {
+            pspTransactionId: row.psp_transaction_id as string,
+            instance: row.instance as string,
+            orderId: row.order_id as string | null,
+            amount: row.amount as number,
+            currency: row.currency as string,
+            status: row.status as PspTransactionStatus,
+            finalAmount: row.final_amount as number,
+            refundedAmount: row.refunded_amount as number,
+            declineCode: row.decline_code as string | null,
+            idempotencyKey: row.idempotency_key as string | null,
+            createdAt: row.created_at as Date,
+            updatedAt: row.updated_at as Date,
+        };
+    }
+
+    /**
+     * Maps a psp_pending_3ds_sessions row, reviving the scenario's timestamp.
+     */
+    private mapSessionRow(row: Record<string, unknown>): Pending3dsSession {
+        const scenario = row.scenario as (Omit<PspScenario, 'createdAt'> & { createdAt: string }) | null;
+        return {
+            pspTransactionId: row.psp_transaction_id as string,
+            callbackUrl: row.callback_url as string,
+            amount: row.amount as number,
+            captureMode: row.capture_mode as CaptureMode,
+            returnUrl: row.return_url as string | null,
+            failureUrl: row.failure_url as string | null,
+            otpAttemptsRemaining: row.otp_attempts_remaining as number,
+            scenario: scenario ? { ...scenario, createdAt: new Date(scenario.createdAt) } : null,
+            expiresAt: row.expires_at as Date,
+            createdAt: row.created_at as Date,
+        };
+    }
+
+    private mapRefundRow(row: Record<string, unknown>): PspRefundRecord {
+        return {
+            pspRefundId: row.psp_refund_id as string,
+            instance: row.instance as string,
+            pspTransactionId: row.psp_transaction_id as string,
+            amount: row.amount as number,
+            idempotencyKey: row.idempotency_key as string | null,
+            createdAt: row.created_at as Date,
+        };
+    }
+
+    /**
+     * Maps a psp_webhook_deliveries row, reviving the attempts' timestamps.
+     */
+    private mapDeliveryRow(row: Record<string, unknown>): WebhookDelivery {
+        const attempts = row.attempts as (Omit<WebhookDeliveryAttempt, 'attemptedAt'> & { attemptedAt: string })[];
+        return {
+            id: row.id as string,
+            callbackUrl: row.callback_url as string,
+            payload: row.payload as WebhookPayload,
+            status: row.status as WebhookDeliveryStatus,
+            attempts: attempts.map((attempt) => ({ ...attempt, attemptedAt: new Date(attempt.attemptedAt) })),
+            nextAttemptAt: row.next_attempt_at as Date | null,
+            createdAt: row.created_at as Date,
+            updatedAt: row.updated_at as Date,
+        };
+    }
+
+    private mapAuthorizationRow(row: Record<string, unknown>): PendingAuthorization {
+        return {
+            pspTransactionId: row.psp_transaction_id as string,
+            amount: row.amount as number,
+            createdAt: row.created_at as Date,
+        };
+    }
+}
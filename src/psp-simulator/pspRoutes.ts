@@ -1,21 +1,142 @@
 import { FastifyInstance } from 'fastify';
-import { processTransaction, resolve3dsTransaction } from './pspService';
-import { PspTransactionRequest } from '../types/transaction';
+import { ADMIN_SECURITY } from '../plugins/adminAuth';
+import {
+    processTransaction,
+    getPspTransaction,
+    processCapture,
+    processVoid,
+    processRefund,
+    render3dsChallenge,
+    complete3dsChallenge,
+    generateSettlementFile,
+    getOutage,
+    startOutage,
+    stopOutage,
+    SimulatorInstance,
+    ThreeDsChallengeInput,
+} from './pspService';
+import { formatSettlementFile } from '../domain/settlementFile';
+import { DECLINE_CODES } from '../enums/declineCode';
+import { listWebhookDeliveries, redeliverWebhook } from './webhookOutbox';
+import { WebhookDeliveryStatus } from './simulatorStore';
+import {
+    clearScenarios,
+    createScenario,
+    CreateScenarioInput,
+    deleteScenario,
+    listScenarios,
+} from './scenarioRegistry';
+import { PspTransactionRequest, PspRefundRequest, SettlementFormat } from '../types/transaction';
+
+/**
+ * JSON schema of a registered scenario.
+ */
+const scenarioSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', examples: ['sc_a1b2c3d4'] },
+        name: { type: 'string', examples: ['Insufficient funds on large orders'] },
+        match: {
+            type: 'object',
+            properties: {
+                cardPrefix: { type: 'string', examples: ['4242'] },
+                amount: { type: 'integer', examples: [99900] },
+                orderId: { type: 'string', examples: ['order_001'] },
+            },
+        },
+        outcome: { type: 'string', enum: ['SUCCESS', 'FAILED', '3DS_REQUIRED'], examples: ['FAILED'] },
+        declineCode: { type: 'string', enum: Object.values(DECLINE_CODES), examples: ['insufficient_funds'] },
+        latencyMs: { type: 'integer', examples: [2000] },
+        httpStatus: { type: 'integer', examples: [503] },
+        webhookDelayMs: { type: 'integer', examples: [10000] },
+        duplicateWebhook: { type: 'boolean', examples: [true] },
+        outOfOrderWebhooks: { type: 'boolean', examples: [true] },
+        finalAmount: { type: 'integer', examples: [900] },
+        instance: { type: 'string', examples: ['psp'] },
+        createdAt: { type: 'string', format: 'date-time' },
+    },
+};
+
+/**
+ * JSON schema for a forced outage as returned by the API.
+ */
+const outageSchema = {
+    type: 'object',
+    properties: {
+        instance: { type: 'string', examples: ['psp'] },
+        httpStatus: { type: 'integer', examples: [503] },
+        startedAt: { type: 'string', format: 'date-time' },
+        endsAt: { type: 'string', format: 'date-time', nullable: true },
+    },
+};
+
+/**
+ * Path of the outage control endpoint, which keeps answering during an outage.
+ */
+const OUTAGE_PATH = '/outage';
+
+/**
+ * Names a simulator instance may have; the name is also its URL prefix.
+ */
+const INSTANCE_NAME_PATTERN = /^psp(-[a-z0-9]+)*$/;
+
+/**
+ * Options for the PSP simulator routes plugin.
+ */
+export interface PspRoutesOptions {
+    /** Instance served by this registration; register with `prefix: '/' + instance.name` */
+    instance: SimulatorInstance;
+}
 
 /**
  * PSP Simulator routes - mock Payment Service Provider endpoints.
  * These simulate external PSP behavior within the same Fastify process.
+ * Registered once per simulator instance; only the default `/psp` instance is listed in the docs.
+ * The controls that change the simulator's behaviour (scenarios, outages, webhook redelivery)
+ * require the admin API key, since their state is shared by every app in the process.
  */
-export default async function pspRoutes(fastify: FastifyInstance): Promise<void> {
+export default async function pspRoutes(fastify: FastifyInstance, options: PspRoutesOptions): Promise<void> {
+    const { instance } = options;
+    if (!INSTANCE_NAME_PATTERN.test(instance.name)) {
+        throw new Error(`Invalid PSP simulator instance name '${instance.name}': use psp or psp-<name>`);
+    }
+
+    if (instance.name !== 'psp') {
+        fastify.addHook('onRoute', (route) => {
+            route.schema = { ...route.schema, hide: true };
+        });
+    }
+
+    // While the instance is down, everything but the outage control fails with the outage status
+    fastify.addHook('onRequest', async (request, reply) => {
+        const outage = getOutage(instance);
+        if (outage && !request.routeOptions.url?.endsWith(OUTAGE_PATH)) {
+            return reply.status(outage.httpStatus).send({ error: 'Simulated PSP outage' });
+        }
+    });
+
+    // The 3DS challenge page posts a plain HTML form
+    fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (_request, body, done) => {
+        done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    });
+
     /**
      * POST /psp/transactions
      * Simulates PSP transaction creation based on card number prefix rules.
      */
-    fastify.post<{ Body: PspTransactionRequest }>('/psp/transactions', {
+    fastify.post<{ Body: PspTransactionRequest; Headers: { 'idempotency-key'?: string } }>('/transactions', {
         schema: {
             tags: ['PSP Simulator'],
             summary: 'Create PSP transaction (simulator)',
-            description: 'Simulates transaction creation. Card prefix determines outcome: 4111→3DS, 5555→Success, 4000→Failed.',
+            description: 'Simulates transaction creation. Card prefix determines outcome: 4111→3DS, 5555→Success, 4000→Failed. '
+                + 'A matching scenario (see /psp/scenarios) takes precedence. '
+                + 'A repeated Idempotency-Key returns the payment created the first time, in its current status.',
+            headers: {
+                type: 'object',
+                properties: {
+                    'idempotency-key': { type: 'string', minLength: 1, maxLength: 255, description: 'Makes retries of this request safe' },
+                },
+            },
             body: {
                 type: 'object',
                 required: ['amount', 'currency', 'cardNumber', 'callbackUrl'],
@@ -27,7 +148,9 @@ export default async function pspRoutes(fastify: FastifyInstance): Promise<void>
                     cvv: { type: 'string', description: 'Card CVV', examples: ['123'] },
                     orderId: { type: 'string', description: 'Order identifier', examples: ['order_001'] },
                     callbackUrl: { type: 'string', description: 'Webhook callback URL', examples: ['http://localhost:3000/webhooks/psp'] },
-                    failureUrl: { type: 'string', description: 'Failure redirect URL', examples: ['http://localhost:3000/failure/psp'] },
+                    returnUrl: { type: 'string', format: 'uri', description: 'Where the browser is redirected after a successful 3DS challenge', examples: ['https://merchant.example.com/checkout/complete'] },
+                    failureUrl: { type: 'string', format: 'uri', description: 'Where the browser is redirected after a failed 3DS challenge (defaults to returnUrl)', examples: ['https://merchant.example.com/checkout/failed'] },
+                    captureMode: { type: 'string', enum: ['automatic', 'manual'], description: 'manual → approved payments are only AUTHORIZED until captured', examples: ['automatic'] },
                 },
             },
             response: {
@@ -35,29 +158,210 @@ export default async function pspRoutes(fastify: FastifyInstance): Promise<void>
                     type: 'object',
                     properties: {
                         transactionId: { type: 'string', examples: ['tx_a1b2c3d4'] },
-                        status: { type: 'string', enum: ['SUCCESS', 'FAILED', '3DS_REQUIRED'], examples: ['3DS_REQUIRED'] },
+                        status: { type: 'string', enum: ['SUCCESS', 'AUTHORIZED', 'FAILED', '3DS_REQUIRED'], examples: ['3DS_REQUIRED'] },
                         threeDsRedirectUrl: { type: 'string', examples: ['http://localhost:3000/psp/3ds/tx_a1b2c3d4'] },
+                        declineCode: { type: 'string', examples: ['insufficient_funds'] },
+                        declineMessage: { type: 'string', examples: ['The card has insufficient funds'] },
                     },
                 },
             },
         },
-        handler: async (request) => {
+        handler: async (request, reply) => {
             const host = request.headers.host || request.hostname;
-            const pspBaseUrl = `${request.protocol}://${host}/psp`;
-            return processTransaction(request.body, pspBaseUrl);
+            const pspBaseUrl = `${request.protocol}://${host}/${instance.name}`;
+            const result = await processTransaction(request.body, pspBaseUrl, instance, request.headers['idempotency-key']);
+
+            if (result.errorStatusCode) {
+                return reply.status(result.errorStatusCode).send({
+                    error: 'Simulated PSP error',
+                });
+            }
+
+            return result.response;
+        },
+    });
+
+    /**
+     * GET /psp/transactions/:transactionId
+     * Returns the simulator's current status for a transaction.
+     */
+    fastify.get<{ Params: { transactionId: string } }>('/transactions/:transactionId', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Get PSP transaction status (simulator)',
+            description: 'Returns the PSP\'s view of a payment. Used to reconcile transactions whose webhook was lost.',
+            params: {
+                type: 'object',
+                required: ['transactionId'],
+                properties: {
+                    transactionId: { type: 'string', description: 'PSP transaction ID', examples: ['tx_a1b2c3d4'] },
+                },
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        transactionId: { type: 'string', examples: ['tx_a1b2c3d4'] },
+                        status: { type: 'string', enum: ['3DS_REQUIRED', 'AUTHORIZED', 'SUCCESS', 'FAILED', 'VOIDED'], examples: ['SUCCESS'] },
+                        amount: { type: 'integer', examples: [2500] },
+                        currency: { type: 'string', examples: ['EUR'] },
+                        finalAmount: { type: 'integer', examples: [2500] },
+                        declineCode: { type: 'string', examples: ['insufficient_funds'] },
+                        declineMessage: { type: 'string', examples: ['The card has insufficient funds'] },
+                        updatedAt: { type: 'string', format: 'date-time' },
+                    },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { transactionId: pspTransactionId } = request.params;
+            const result = await getPspTransaction(pspTransactionId, instance);
+
+            if (!result.found) {
+                return reply.status(404).send({
+                    error: `Transaction not found: ${pspTransactionId}`,
+                });
+            }
+
+            return result.response;
+        },
+    });
+
+    /**
+     * POST /psp/transactions/:transactionId/capture
+     * Simulates capturing a manually authorized transaction.
+     */
+    fastify.post<{ Params: { transactionId: string }; Body: { amount?: number } }>('/transactions/:transactionId/capture', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Capture PSP authorization (simulator)',
+            description: 'Captures all or part of an AUTHORIZED transaction. The uncaptured remainder is released. '
+                + 'Capturing a transaction again returns the capture already made.',
+            params: {
+                type: 'object',
+                required: ['transactionId'],
+                properties: {
+                    transactionId: { type: 'string', description: 'PSP transaction ID', examples: ['tx_a1b2c3d4'] },
+                },
+            },
+            body: {
+                type: 'object',
+                properties: {
+                    amount: { type: 'integer', minimum: 1, description: 'Amount to capture (defaults to the authorized amount)', examples: [2500] },
+                },
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        transactionId: { type: 'string', examples: ['tx_a1b2c3d4'] },
+                        status: { type: 'string', enum: ['SUCCESS'], examples: ['SUCCESS'] },
+                        capturedAmount: { type: 'integer', examples: [2500] },
+                    },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { transactionId: pspTransactionId } = request.params;
+            const result = await processCapture(pspTransactionId, request.body?.amount, instance);
+
+            if (!result.found) {
+                return reply.status(404).send({
+                    error: `Authorization not found: ${pspTransactionId}`,
+                });
+            }
+            if (result.error) {
+                return reply.status(422).send({ error: result.error });
+            }
+
+            return result.response;
+        },
+    });
+
+    /**
+     * POST /psp/transactions/:transactionId/void
+     * Simulates voiding a manually authorized transaction.
+     */
+    fastify.post<{ Params: { transactionId: string } }>('/transactions/:transactionId/void', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Void PSP authorization (simulator)',
+            description: 'Voids an AUTHORIZED transaction, releasing the reserved funds. '
+                + 'Voiding a transaction again returns the void already made.',
+            params: {
+                type: 'object',
+                required: ['transactionId'],
+                properties: {
+                    transactionId: { type: 'string', description: 'PSP transaction ID', examples: ['tx_a1b2c3d4'] },
+                },
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        transactionId: { type: 'string', examples: ['tx_a1b2c3d4'] },
+                        status: { type: 'string', enum: ['VOIDED'], examples: ['VOIDED'] },
+                    },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { transactionId: pspTransactionId } = request.params;
+            const result = await processVoid(pspTransactionId, instance);
+
+            if (!result.found) {
+                return reply.status(404).send({
+                    error: `Authorization not found: ${pspTransactionId}`,
+                });
+            }
+
+            return result.response;
         },
     });
 
     /**
      * GET /psp/3ds/:transactionId
-     * Simulates the 3DS verification page.
-     * After a delay, sends a webhook to complete the transaction.
+     * Simulates the issuer's 3DS challenge page.
+     */
+    fastify.get<{ Params: { transactionId: string } }>('/3ds/:transactionId', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Simulate 3DS challenge page',
+            description: 'Returns an HTML challenge page with an OTP field and approve/deny buttons, '
+                + 'submitted to POST /psp/3ds/:transactionId/complete.',
+            params: {
+                type: 'object',
+                required: ['transactionId'],
+                properties: {
+                    transactionId: { type: 'string', description: 'PSP transaction ID', examples: ['tx_a1b2c3d4'] },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { transactionId: pspTransactionId } = request.params;
+            const result = await render3dsChallenge(pspTransactionId, instance);
+
+            if (!result.found) {
+                return reply.status(404).send({
+                    error: `3DS transaction not found: ${pspTransactionId}`,
+                });
+            }
+
+            return reply.type('text/html').send(result.html);
+        },
+    });
+
+    /**
+     * POST /psp/3ds/:transactionId/complete
+     * Submits the cardholder's answer to the 3DS challenge.
      */
-    fastify.get<{ Params: { transactionId: string } }>('/psp/3ds/:transactionId', {
+    fastify.post<{ Params: { transactionId: string }; Body: ThreeDsChallengeInput }>('/3ds/:transactionId/complete', {
         schema: {
             tags: ['PSP Simulator'],
-            summary: 'Simulate 3DS verification page',
-            description: 'Returns an HTML page simulating 3DS verification. After a delay, sends a SUCCESS webhook.',
+            summary: 'Complete 3DS challenge',
+            description: 'approve with the right OTP approves the payment; deny, or too many wrong OTPs, fails it. '
+                + 'A wrong OTP with attempts left re-renders the challenge. On completion the browser is redirected (303) '
+                + 'to returnUrl, or failureUrl on failure, with transactionId and status query parameters.',
             params: {
                 type: 'object',
                 required: ['transactionId'],
@@ -65,18 +369,363 @@ export default async function pspRoutes(fastify: FastifyInstance): Promise<void>
                     transactionId: { type: 'string', description: 'PSP transaction ID', examples: ['tx_a1b2c3d4'] },
                 },
             },
+            body: {
+                type: 'object',
+                required: ['action'],
+                properties: {
+                    action: { type: 'string', enum: ['approve', 'deny'], description: 'Cardholder decision', examples: ['approve'] },
+                    otp: { type: 'string', description: 'One-time code (the simulator accepts 123456)', examples: ['123456'] },
+                },
+            },
         },
         handler: async (request, reply) => {
             const { transactionId: pspTransactionId } = request.params;
-            const result = resolve3dsTransaction(pspTransactionId);
+            const result = await complete3dsChallenge(pspTransactionId, request.body, instance);
 
             if (!result.found) {
                 return reply.status(404).send({
                     error: `3DS transaction not found: ${pspTransactionId}`,
                 });
             }
+            if (result.redirectUrl) {
+                return reply.redirect(result.redirectUrl, 303);
+            }
 
             return reply.type('text/html').send(result.html);
         },
     });
+
+    /**
+     * POST /psp/refunds
+     * Simulates a refund request. The outcome is delivered asynchronously via webhook.
+     */
+    fastify.post<{ Body: PspRefundRequest; Headers: { 'idempotency-key'?: string } }>('/refunds', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Create PSP refund (simulator)',
+            description: 'Accepts a refund of a SUCCESS transaction, up to its final amount minus earlier refunds, '
+                + 'and sends a refund webhook with the outcome. Unknown transactions get 404, other refunds 422. '
+                + 'A repeated Idempotency-Key returns the refund accepted the first time.',
+            headers: {
+                type: 'object',
+                properties: {
+                    'idempotency-key': { type: 'string', minLength: 1, maxLength: 255, description: 'Makes retries of this request safe' },
+                },
+            },
+            body: {
+                type: 'object',
+                required: ['transactionId', 'amount', 'reference', 'callbackUrl'],
+                properties: {
+                    transactionId: { type: 'string', description: 'PSP transaction ID to refund', examples: ['tx_a1b2c3d4'] },
+                    amount: { type: 'integer', minimum: 1, description: 'Amount to refund', examples: [500] },
+                    reference: { type: 'string', description: 'Merchant refund reference, echoed in the webhook', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                    callbackUrl: { type: 'string', description: 'Webhook callback URL', examples: ['http://localhost:3000/webhooks/psp'] },
+                },
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        refundId: { type: 'string', examples: ['rf_a1b2c3d4'] },
+                        status: { type: 'string', enum: ['PENDING'], examples: ['PENDING'] },
+                    },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const result = await processRefund(request.body, instance, request.headers['idempotency-key']);
+
+            if (!result.found) {
+                return reply.status(404).send({
+                    error: `Transaction not found: ${request.body.transactionId}`,
+                });
+            }
+            if (result.error) {
+                return reply.status(422).send({ error: result.error });
+            }
+
+            return result.response;
+        },
+    });
+
+    /**
+     * GET /psp/webhooks/deliveries
+     * Lists the simulator's webhook outbox together with every delivery attempt.
+     */
+    fastify.get<{ Querystring: { status?: WebhookDeliveryStatus; transactionId?: string } }>('/webhooks/deliveries', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'List webhook deliveries (simulator)',
+            description: 'Returns queued, delivered and failed webhooks with their attempt log. Failed attempts are retried with exponential backoff and jitter.',
+            querystring: {
+                type: 'object',
+                properties: {
+                    status: { type: 'string', enum: ['PENDING', 'DELIVERED', 'FAILED'], description: 'Filter by delivery status' },
+                    transactionId: { type: 'string', description: 'Filter by PSP transaction ID', examples: ['tx_a1b2c3d4'] },
+                },
+            },
+        },
+        handler: async (request) => {
+            return listWebhookDeliveries(request.query);
+        },
+    });
+
+    /**
+     * POST /psp/webhooks/deliveries/:deliveryId/redeliver
+     * Sends a webhook delivery again immediately.
+     */
+    fastify.post<{ Params: { deliveryId: string } }>('/webhooks/deliveries/:deliveryId/redeliver', {
+        onRequest: fastify.authenticateAdmin,
+        schema: {
+            tags: ['PSP Simulator'],
+            security: ADMIN_SECURITY,
+            summary: 'Redeliver a webhook (simulator)',
+            description: 'Makes one immediate delivery attempt, cancelling any scheduled retry, and returns the updated delivery.',
+            params: {
+                type: 'object',
+                required: ['deliveryId'],
+                properties: {
+                    deliveryId: { type: 'string', description: 'Webhook delivery ID', examples: ['wh_a1b2c3d4'] },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { deliveryId } = request.params;
+            const delivery = await redeliverWebhook(deliveryId);
+
+            if (!delivery) {
+                return reply.status(404).send({
+                    error: `Webhook delivery not found: ${deliveryId}`,
+                });
+            }
+
+            return delivery;
+        },
+    });
+
+    /**
+     * GET /psp/settlements/:date
+     * Downloads the settlement file for a day.
+     */
+    fastify.get<{ Params: { date: string }; Querystring: { format?: SettlementFormat } }>('/settlements/:date', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Download a daily settlement file (simulator)',
+            description: 'Lists every payment created on the given UTC day that has reached SUCCESS, FAILED or VOIDED, '
+                + 'with its amount, final amount, fee and currency. Only SUCCESS payments settle money and carry a fee.',
+            params: {
+                type: 'object',
+                required: ['date'],
+                properties: {
+                    date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Settlement day (UTC)', examples: ['2026-10-19'] },
+                },
+            },
+            querystring: {
+                type: 'object',
+                properties: {
+                    format: { type: 'string', enum: ['csv', 'json'], default: 'json' },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { date } = request.params;
+            const format = request.query.format ?? 'json';
+            const result = await generateSettlementFile(date, instance);
+
+            if (result.error) {
+                return reply.status(400).send({ error: result.error });
+            }
+
+            return reply
+                .type(format === 'csv' ? 'text/csv' : 'application/json')
+                .header('content-disposition', `attachment; filename="settlement-${date}.${format}"`)
+                .send(formatSettlementFile(result.file!, format));
+        },
+    });
+
+    /**
+     * POST /psp/scenarios
+     * Registers a scenario overriding the simulator's behaviour for matching requests.
+     */
+    fastify.post<{ Body: CreateScenarioInput }>('/scenarios', {
+        onRequest: fastify.authenticateAdmin,
+        schema: {
+            tags: ['PSP Simulator'],
+            security: ADMIN_SECURITY,
+            summary: 'Register a scenario (simulator)',
+            description: 'Matches transaction requests on card prefix, amount and/or orderId (all given criteria must match; '
+                + 'the most recently registered matching scenario wins) and overrides the outcome, decline code, latency, '
+                + 'HTTP status or webhooks.',
+            body: {
+                type: 'object',
+                required: ['match'],
+                additionalProperties: false,
+                properties: {
+                    name: { type: 'string', description: 'Free-form label', examples: ['Insufficient funds on large orders'] },
+                    match: {
+                        type: 'object',
+                        minProperties: 1,
+                        additionalProperties: false,
+                        properties: {
+                            cardPrefix: { type: 'string', pattern: '^[0-9]{1,19}$', description: 'Card number prefix', examples: ['4242'] },
+                            amount: { type: 'integer', minimum: 1, description: 'Exact requested amount', examples: [99900] },
+                            orderId: { type: 'string', minLength: 1, description: 'Exact order identifier', examples: ['order_001'] },
+                        },
+                    },
+                    outcome: { type: 'string', enum: ['SUCCESS', 'FAILED', '3DS_REQUIRED'], description: 'Outcome instead of the card prefix rule (defaults to FAILED when declineCode is set)', examples: ['FAILED'] },
+                    declineCode: { type: 'string', enum: Object.values(DECLINE_CODES), description: 'Decline code from the catalogue reported with a FAILED outcome', examples: ['insufficient_funds'] },
+                    latencyMs: { type: 'integer', minimum: 0, maximum: 60000, description: 'Delay before responding', examples: [2000] },
+                    httpStatus: { type: 'integer', minimum: 500, maximum: 599, description: 'Respond with this error status instead of processing the request', examples: [503] },
+                    webhookDelayMs: { type: 'integer', minimum: 0, maximum: 600000, description: 'Delay before the first webhook', examples: [10000] },
+                    duplicateWebhook: { type: 'boolean', description: 'Send every webhook twice', examples: [true] },
+                    outOfOrderWebhooks: { type: 'boolean', description: 'For approved sales, send a stale AUTHORIZED webhook after the SUCCESS one', examples: [true] },
+                    finalAmount: { type: 'integer', minimum: 0, description: 'final_amount reported in the webhooks', examples: [900] },
+                },
+            },
+            response: {
+                201: scenarioSchema,
+            },
+        },
+        handler: async (request, reply) => {
+            return reply.status(201).send(createScenario(request.body, instance.name));
+        },
+    });
+
+    /**
+     * GET /psp/scenarios
+     * Lists registered scenarios.
+     */
+    fastify.get('/scenarios', {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'List scenarios (simulator)',
+            description: 'Returns registered scenarios in registration order.',
+            response: {
+                200: { type: 'array', items: scenarioSchema },
+            },
+        },
+        handler: async () => {
+            return listScenarios(instance.name);
+        },
+    });
+
+    /**
+     * DELETE /psp/scenarios
+     * Removes every scenario, restoring the card prefix rules.
+     */
+    fastify.delete('/scenarios', {
+        onRequest: fastify.authenticateAdmin,
+        schema: {
+            tags: ['PSP Simulator'],
+            security: ADMIN_SECURITY,
+            summary: 'Remove all scenarios (simulator)',
+            description: 'Removes every registered scenario, restoring the default card prefix rules.',
+        },
+        handler: async (_request, reply) => {
+            clearScenarios(instance.name);
+            return reply.status(204).send();
+        },
+    });
+
+    /**
+     * DELETE /psp/scenarios/:scenarioId
+     * Removes a single scenario.
+     */
+    fastify.delete<{ Params: { scenarioId: string } }>('/scenarios/:scenarioId', {
+        onRequest: fastify.authenticateAdmin,
+        schema: {
+            tags: ['PSP Simulator'],
+            security: ADMIN_SECURITY,
+            summary: 'Remove a scenario (simulator)',
+            description: 'Removes a registered scenario.',
+            params: {
+                type: 'object',
+                required: ['scenarioId'],
+                properties: {
+                    scenarioId: { type: 'string', description: 'Scenario ID', examples: ['sc_a1b2c3d4'] },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            const { scenarioId } = request.params;
+
+            if (!deleteScenario(scenarioId, instance.name)) {
+                return reply.status(404).send({
+                    error: `Scenario not found: ${scenarioId}`,
+                });
+            }
+
+            return reply.status(204).send();
+        },
+    });
+
+    /**
+     * POST /psp/outage
+     * Takes the simulator instance down.
+     */
+    fastify.post<{ Body: { httpStatus?: number; durationMs?: number } }>(OUTAGE_PATH, {
+        onRequest: fastify.authenticateAdmin,
+        schema: {
+            tags: ['PSP Simulator'],
+            security: ADMIN_SECURITY,
+            summary: 'Force an outage (simulator)',
+            description: 'Makes every endpoint of this simulator instance, except the outage control, respond with a 5xx status '
+                + 'until the outage is stopped or its duration elapses. Used to exercise circuit breakers and failover.',
+            body: {
+                type: 'object',
+                properties: {
+                    httpStatus: { type: 'integer', minimum: 500, maximum: 599, default: 503, description: 'Status returned during the outage', examples: [503] },
+                    durationMs: { type: 'integer', minimum: 1, description: 'Outage length; omit to stay down until stopped', examples: [60000] },
+                },
+            },
+            response: {
+                201: outageSchema,
+            },
+        },
+        handler: async (request, reply) => {
+            return reply.status(201).send(startOutage(instance, request.body ?? {}));
+        },
+    });
+
+    /**
+     * GET /psp/outage
+     * Shows the ongoing outage, if any.
+     */
+    fastify.get(OUTAGE_PATH, {
+        schema: {
+            tags: ['PSP Simulator'],
+            summary: 'Get the forced outage (simulator)',
+            description: 'Returns the ongoing forced outage of this simulator instance, or 404 if it is up.',
+            response: {
+                200: outageSchema,
+            },
+        },
+        handler: async (_request, reply) => {
+            const outage = getOutage(instance);
+            if (!outage) {
+                return reply.status(404).send({ error: 'No outage in progress' });
+            }
+            return outage;
+        },
+    });
+
+    /**
+     * DELETE /psp/outage
+     * Ends the outage.
+     */
+    fastify.delete(OUTAGE_PATH, {
+        onRequest: fastify.authenticateAdmin,
+        schema: {
+            tags: ['PSP Simulator'],
+            security: ADMIN_SECURITY,
+            summary: 'Stop the forced outage (simulator)',
+            description: 'Brings this simulator instance back up.',
+        },
+        handler: async (_request, reply) => {
+            if (!stopOutage(instance)) {
+                return reply.status(404).send({ error: 'No outage in progress' });
+            }
+            return reply.status(204).send();
+        },
+    });
 }
@@ -1,13 +1,67 @@
 import { v4 as uuidv4 } from 'uuid';
-import { PspTransactionRequest } from '../types/transaction';
+import { enqueueWebhook } from './webhookOutbox';
+import { findMatchingScenario, PspScenario } from './scenarioRegistry';
+import { InMemorySimulatorStore } from './inMemorySimulatorStore';
+import { ISimulatorStore, Pending3dsSession, PspTransactionRecord, PspTransactionStatus } from './simulatorStore';
+import {
+    CaptureMode,
+    PspCaptureResponse,
+    PspRefundRequest,
+    PspResponse,
+    PspTransactionRequest,
+    PspTransactionStatusResponse,
+    SettlementFile,
+    WebhookPayload,
+} from '../types/transaction';
+import { settlementDayRange } from '../domain/settlementFile';
+import { describeDecline } from '../domain/declineReasons';
+import { DECLINE_CODES, DeclineCode } from '../enums/declineCode';
 
 /**
- * Card number prefix rules that determine the PSP outcome.
+ * Maps a card number prefix to the outcome the simulator reports for it.
+ * FAILED outcomes can name the decline code the issuer gives.
  */
-const CARD_PREFIX_RULES: { prefix: string; status: string }[] = [
+export interface CardPrefixRule {
+    prefix: string;
+    status: string;
+    declineCode?: DeclineCode;
+}
+
+/**
+ * Outcome the simulator reports for a card.
+ */
+export type CardOutcome = Omit<CardPrefixRule, 'prefix'>;
+
+/**
+ * A simulator instance: the simulator mounted under its own URL prefix (`/<name>`),
+ * with its own card prefix rules and scenarios, standing in for a distinct PSP.
+ */
+export interface SimulatorInstance {
+    name: string;
+    /** Card prefix rules replacing the default ones */
+    cardPrefixRules?: CardPrefixRule[];
+    /** Outcome when no card prefix rule matches (defaults to FAILED) */
+    defaultStatus?: string;
+}
+
+/**
+ * The instance mounted at `/psp`.
+ */
+export const DEFAULT_SIMULATOR_INSTANCE: SimulatorInstance = { name: 'psp' };
+
+/**
+ * Card number prefix rules that determine the PSP outcome. The first matching rule wins,
+ * so the more specific decline prefixes come before the generic 4000 one.
+ */
+const CARD_PREFIX_RULES: CardPrefixRule[] = [
     { prefix: '4111', status: '3DS_REQUIRED' },
     { prefix: '5555', status: 'SUCCESS' },
-    { prefix: '4000', status: 'FAILED' },
+    { prefix: '400002', status: 'FAILED', declineCode: DECLINE_CODES.INSUFFICIENT_FUNDS },
+    { prefix: '400003', status: 'FAILED', declineCode: DECLINE_CODES.SUSPECTED_FRAUD },
+    { prefix: '400004', status: 'FAILED', declineCode: DECLINE_CODES.INCORRECT_CVV },
+    { prefix: '400005', status: 'FAILED', declineCode: DECLINE_CODES.ISSUER_UNAVAILABLE },
+    { prefix: '400006', status: 'FAILED', declineCode: DECLINE_CODES.STOLEN_CARD },
+    { prefix: '4000', status: 'FAILED', declineCode: DECLINE_CODES.DO_NOT_HONOR },
 ];
 
 /**
@@ -15,6 +69,11 @@ const CARD_PREFIX_RULES: { prefix: string; status: string }[] = [
  */
 const DEFAULT_PSP_STATUS = 'FAILED';
 
+/**
+ * Decline code reported for FAILED outcomes that do not name one.
+ */
+const DEFAULT_DECLINE_CODE: DeclineCode = DECLINE_CODES.DO_NOT_HONOR;
+
 /**
  * 3DS transaction expiry timeout in milliseconds (5 minutes).
  * If a client doesn't complete 3DS verification within this window,
@@ -23,72 +82,198 @@ const DEFAULT_PSP_STATUS = 'FAILED';
 const THREE_DS_EXPIRY_MS = 5 * 60 * 1000;
 
 /**
- * In-memory store for pending 3DS transactions within the PSP simulator.
+ * Delay before the webhook for a completed 3DS verification, simulating processing time.
+ */
+const THREE_DS_WEBHOOK_DELAY_MS = 1500;
+
+/**
+ * One-time password the simulated issuer accepts on the 3DS challenge page.
+ */
+export const THREE_DS_OTP = '123456';
+
+/**
+ * Wrong OTP entries allowed before the 3DS challenge fails.
+ */
+const THREE_DS_MAX_OTP_ATTEMPTS = 3;
+
+/**
+ * Decline codes reported when the cardholder rejects the challenge
+ * or runs out of OTP attempts.
+ */
+const THREE_DS_DECLINE_CODES = {
+    REJECTED: DECLINE_CODES.AUTHENTICATION_REJECTED,
+    OTP_ATTEMPTS_EXCEEDED: DECLINE_CODES.AUTHENTICATION_FAILED,
+    EXPIRED: DECLINE_CODES.AUTHENTICATION_EXPIRED,
+} as const;
+
+/**
+ * Spacing between the webhooks a scenario sends for one transaction,
+ * so they are delivered in the intended order.
+ */
+const WEBHOOK_SEQUENCE_GAP_MS = 100;
+
+/**
+ * Fee the PSP keeps on every settled payment: a percentage of the final amount plus a fixed part (minor units).
  */
-interface Pending3dsTransaction {
-    pspTransactionId: string;
-    callbackUrl: string;
-    amount: number;
+const SETTLEMENT_FEE_RATE = 0.014;
+const SETTLEMENT_FIXED_FEE = 25;
+
+/**
+ * PSP statuses listed in settlement files; payments still in progress are left out.
+ */
+const SETTLEMENT_STATUSES: PspTransactionStatus[] = ['SUCCESS', 'FAILED', 'VOIDED'];
+
+/**
+ * Cardholder's answer to a 3DS challenge.
+ */
+export interface ThreeDsChallengeInput {
+    action: 'approve' | 'deny';
+    otp?: string;
+}
+
+/** Where pending 3DS sessions and authorizations are kept; replaced by the app at startup */
+let store: ISimulatorStore = new InMemorySimulatorStore();
+
+/**
+ * A forced outage of a simulator instance: every API request gets the error status until it ends.
+ */
+export interface SimulatedOutage {
+    instance: string;
+    httpStatus: number;
+    startedAt: Date;
+    /** When the outage ends on its own; null to last until stopped */
+    endsAt: Date | null;
 }
 
-/** Store for pending 3DS transactions, keyed by PSP transaction ID */
-const pending3dsTransactions: Map<string, Pending3dsTransaction> = new Map();
+/** Active outages, keyed by instance name */
+const outages: Map<string, SimulatedOutage> = new Map();
 
 /** Store for 3DS expiry timers, keyed by PSP transaction ID */
 const expiryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
 /**
- * Determines the PSP outcome based on card number prefix.
+ * Sets the store holding the simulator's state. The simulator is a test double with one state
+ * per process, outages and scenarios included: the app built last owns it.
+ */
+export function useSimulatorStore(simulatorStore: ISimulatorStore): void {
+    store = simulatorStore;
+}
+
+/**
+ * Determines the PSP outcome based on card number prefix, using the instance's rules.
  */
-export function determineOutcome(cardNumber: string): string {
-    for (const rule of CARD_PREFIX_RULES) {
-        if (cardNumber.startsWith(rule.prefix)) {
-            return rule.status;
+export function determineOutcome(cardNumber: string, instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE): CardOutcome {
+    for (const { prefix, ...outcome } of instance.cardPrefixRules ?? CARD_PREFIX_RULES) {
+        if (cardNumber.startsWith(prefix)) {
+            return outcome;
         }
     }
-    return DEFAULT_PSP_STATUS;
+    return { status: instance.defaultStatus ?? DEFAULT_PSP_STATUS };
+}
+
+/**
+ * Decline code and message reported with a FAILED payment, as the simulated issuer words them.
+ */
+function declineDetails(declineCode: string | null | undefined): Pick<WebhookPayload, 'declineCode' | 'declineMessage'> {
+    return declineCode ? { declineCode, declineMessage: describeDecline(declineCode).message } : {};
+}
+
+/**
+ * Returns the status reported for an approved payment: SUCCESS for a sale,
+ * AUTHORIZED when the merchant will capture manually.
+ */
+function approvedStatus(captureMode: CaptureMode): PspTransactionStatus {
+    return captureMode === 'manual' ? 'AUTHORIZED' : 'SUCCESS';
+}
+
+/**
+ * Returns the status reported for an approved payment. Manual authorizations
+ * are remembered so they can later be captured or voided.
+ */
+async function approvePayment(pspTransactionId: string, amount: number, captureMode: CaptureMode): Promise<string> {
+    const status = approvedStatus(captureMode);
+    if (status === 'AUTHORIZED') {
+        await store.saveAuthorization({ pspTransactionId, amount, createdAt: new Date() });
+    }
+    return status;
 }
 
 /**
- * Sends a webhook callback to the specified URL.
+ * Records a payment's new status in the PSP's own record, as later reported by
+ * `GET /psp/transactions/:id`.
  */
-export async function sendWebhookCallback(
+async function updatePspTransaction(
+    pspTransactionId: string,
+    fields: Partial<Pick<PspTransactionRecord, 'status' | 'finalAmount' | 'declineCode'>>,
+): Promise<void> {
+    const transaction = await store.findPspTransaction(pspTransactionId);
+    if (transaction) {
+        await store.savePspTransaction({ ...transaction, ...fields, updatedAt: new Date() });
+    }
+}
+
+/**
+ * Queues the webhooks reporting a transaction's outcome. Without a scenario this is a
+ * single webhook; a scenario can delay it, duplicate it, report a different final amount,
+ * or follow a SUCCESS with a stale AUTHORIZED webhook.
+ */
+async function sendOutcomeWebhooks(
     callbackUrl: string,
-    payload: { transactionId: string; final_amount: number; status: string },
+    payload: WebhookPayload,
+    scenario: PspScenario | null,
+    defaultDelayMs: number = 0,
 ): Promise<void> {
-    try {
-        await fetch(callbackUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(payload),
-        });
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`Failed to send webhook to ${callbackUrl}: ${errorMessage}`);
+    const outcomePayload: WebhookPayload = {
+        ...payload,
+        final_amount: scenario?.finalAmount ?? payload.final_amount,
+    };
+
+    const sequence = [outcomePayload];
+    if (scenario?.outOfOrderWebhooks && outcomePayload.status === 'SUCCESS') {
+        sequence.push({ ...outcomePayload, status: 'AUTHORIZED' });
+    }
+
+    const webhooks = scenario?.duplicateWebhook
+        ? sequence.flatMap((webhook) => [webhook, { ...webhook }])
+        : sequence;
+    const initialDelayMs = scenario?.webhookDelayMs ?? defaultDelayMs;
+
+    for (const [index, webhook] of webhooks.entries()) {
+        await enqueueWebhook(callbackUrl, webhook, initialDelayMs + index * WEBHOOK_SEQUENCE_GAP_MS);
     }
 }
 
 /**
- * Starts a 5-minute expiry timer for a pending 3DS transaction.
- * If the client doesn't complete verification in time,
- * a FAILED webhook is sent and the transaction is cleaned up.
+ * Starts the expiry timer for a pending 3DS session. If the client doesn't
+ * complete verification before `expiresAt`, the session is removed and a
+ * FAILED webhook is sent.
  */
-function startExpiryTimer(pspTransactionId: string, callbackUrl: string, amount: number): void {
-    const timer = setTimeout(() => {
-        // Check if the transaction is still pending (not already resolved)
-        if (pending3dsTransactions.has(pspTransactionId)) {
-            pending3dsTransactions.delete(pspTransactionId);
-            expiryTimers.delete(pspTransactionId);
+function startExpiryTimer(pspTransactionId: string, expiresAt: Date): void {
+    const timer = setTimeout(async () => {
+        expiryTimers.delete(pspTransactionId);
+        try {
+            // Only expire the session if it is still pending (not already resolved)
+            const session = await store.deletePending3dsSession(pspTransactionId);
+            if (!session) {
+                return;
+            }
 
             console.warn(`3DS transaction ${pspTransactionId} expired after ${THREE_DS_EXPIRY_MS / 1000}s — sending FAILED webhook`);
 
-            sendWebhookCallback(callbackUrl, {
+            await updatePspTransaction(pspTransactionId, { status: 'FAILED', declineCode: THREE_DS_DECLINE_CODES.EXPIRED });
+
+            await enqueueWebhook(session.callbackUrl, {
                 transactionId: pspTransactionId,
-                final_amount: amount,
+                final_amount: session.amount,
                 status: 'FAILED',
+                reason: '3DS_EXPIRED',
+                ...declineDetails(THREE_DS_DECLINE_CODES.EXPIRED),
             });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            console.error(`3DS transaction ${pspTransactionId} could not be expired: ${errorMessage}`);
         }
-    }, THREE_DS_EXPIRY_MS);
+    }, Math.max(expiresAt.getTime() - Date.now(), 0));
 
     // Don't block process exit
     if (timer && typeof timer === 'object' && 'unref' in timer) {
@@ -98,6 +283,28 @@ function startExpiryTimer(pspTransactionId: string, callbackUrl: string, amount:
     expiryTimers.set(pspTransactionId, timer);
 }
 
+/**
+ * Rebuilds expiry timers for the 3DS sessions left pending by a previous process.
+ * Sessions whose deadline passed while the simulator was down expire right away.
+ */
+export async function restoreExpiryTimers(): Promise<void> {
+    const sessions = await store.listPending3dsSessions();
+    for (const session of sessions) {
+        startExpiryTimer(session.pspTransactionId, session.expiresAt);
+    }
+}
+
+/**
+ * Cancels every expiry timer (called on shutdown). Sessions stay pending
+ * in the store and their timers are rebuilt on the next start.
+ */
+export function stopExpiryTimers(): void {
+    for (const timer of expiryTimers.values()) {
+        clearTimeout(timer);
+    }
+    expiryTimers.clear();
+}
+
 /**
  * Cancels the expiry timer for a 3DS transaction (called when client resolves it).
  */
@@ -109,94 +316,526 @@ function cancelExpiryTimer(pspTransactionId: string): void {
     }
 }
 
+/**
+ * Answers a repeated request with the payment it already created, in its current status,
+ * without charging the card again or sending more webhooks.
+ */
+function replayResponse(transaction: PspTransactionRecord, pspBaseUrl: string): PspResponse {
+    return {
+        transactionId: transaction.pspTransactionId,
+        status: transaction.status,
+        ...(transaction.status === '3DS_REQUIRED' && {
+            threeDsRedirectUrl: `${pspBaseUrl}/3ds/${transaction.pspTransactionId}`,
+        }),
+        ...declineDetails(transaction.declineCode),
+    };
+}
+
 /**
  * Processes a PSP transaction request and returns the appropriate response.
- * For SUCCESS/FAILED: sends webhook immediately.
+ * A request repeating an earlier Idempotency-Key gets that payment back instead of a new one.
+ * A matching scenario overrides the card prefix rules and can delay the response
+ * or fail it with a 5xx status (returned as `errorStatusCode`, nothing is processed).
+ * For SUCCESS/AUTHORIZED/FAILED: sends webhook immediately.
  * For 3DS_REQUIRED: stores pending transaction, starts expiry timer, and returns redirect URL.
  */
-export function processTransaction(
+export async function processTransaction(
     request: PspTransactionRequest,
     pspBaseUrl: string,
-): { transactionId: string; status: string; threeDsRedirectUrl?: string } {
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+    idempotencyKey?: string,
+): Promise<{ errorStatusCode?: number; response?: PspResponse }> {
+    if (idempotencyKey) {
+        const existing = await store.findPspTransactionByIdempotencyKey(instance.name, idempotencyKey);
+        if (existing) {
+            return { response: replayResponse(existing, pspBaseUrl) };
+        }
+    }
+
+    const scenario = findMatchingScenario({ ...request, instance: instance.name });
+
+    if (scenario?.latencyMs) {
+        await new Promise((resolve) => setTimeout(resolve, scenario.latencyMs));
+    }
+    if (scenario?.httpStatus) {
+        return { errorStatusCode: scenario.httpStatus };
+    }
+
     const pspTransactionId = `tx_${uuidv4().slice(0, 8)}`;
-    const outcome = determineOutcome(request.cardNumber);
+    const captureMode = request.captureMode || 'automatic';
+    // A scenario's outcome or decline code overrides the card prefix rules
+    const cardOutcome: CardOutcome = scenario && (scenario.outcome || scenario.declineCode)
+        ? { status: scenario.outcome ?? 'FAILED' }
+        : determineOutcome(request.cardNumber, instance);
+    const outcome = cardOutcome.status === 'SUCCESS' ? approvedStatus(captureMode) : cardOutcome.status;
+    const declineCode = outcome === 'FAILED'
+        ? scenario?.declineCode ?? cardOutcome.declineCode ?? DEFAULT_DECLINE_CODE
+        : undefined;
 
-    if (outcome === 'SUCCESS' || outcome === 'FAILED') {
-        // Send webhook asynchronously (fire and forget)
-        setImmediate(() => {
-            sendWebhookCallback(request.callbackUrl, {
-                transactionId: pspTransactionId,
-                final_amount: request.amount,
-                status: outcome,
-            });
-        });
+    const createdAt = new Date();
+    const stored = await store.createPspTransaction({
+        pspTransactionId,
+        instance: instance.name,
+        orderId: request.orderId ?? null,
+        amount: request.amount,
+        currency: request.currency,
+        status: outcome as PspTransactionStatus,
+        finalAmount: scenario?.finalAmount ?? request.amount,
+        refundedAmount: 0,
+        declineCode: declineCode ?? null,
+        idempotencyKey: idempotencyKey ?? null,
+        createdAt,
+        updatedAt: createdAt,
+    });
+    // A concurrent request with the same Idempotency-Key created the payment first
+    if (stored.pspTransactionId !== pspTransactionId) {
+        return { response: replayResponse(stored, pspBaseUrl) };
+    }
+    // Approved manual payments are remembered so they can later be captured or voided
+    if (cardOutcome.status === 'SUCCESS' && outcome === 'AUTHORIZED') {
+        await store.saveAuthorization({ pspTransactionId, amount: request.amount, createdAt });
+    }
 
-        return {
+    if (outcome !== '3DS_REQUIRED') {
+
+        // Queue webhook for asynchronous delivery (retried until acknowledged)
+        await sendOutcomeWebhooks(request.callbackUrl, {
             transactionId: pspTransactionId,
+            final_amount: request.amount,
             status: outcome,
+            ...declineDetails(declineCode),
+        }, scenario);
+
+        return {
+            response: {
+                transactionId: pspTransactionId,
+                status: outcome,
+                ...declineDetails(declineCode),
+            },
         };
     }
 
     // 3DS_REQUIRED: store pending transaction for later resolution
-    pending3dsTransactions.set(pspTransactionId, {
+    const expiresAt = new Date(createdAt.getTime() + THREE_DS_EXPIRY_MS);
+    await store.savePending3dsSession({
         pspTransactionId,
         callbackUrl: request.callbackUrl,
         amount: request.amount,
+        captureMode,
+        returnUrl: request.returnUrl ?? null,
+        failureUrl: request.failureUrl ?? null,
+        otpAttemptsRemaining: THREE_DS_MAX_OTP_ATTEMPTS,
+        scenario,
+        expiresAt,
+        createdAt,
     });
 
     // Start expiry timer — auto-fail if client doesn't complete 3DS in time
-    startExpiryTimer(pspTransactionId, request.callbackUrl, request.amount);
+    startExpiryTimer(pspTransactionId, expiresAt);
 
     return {
-        transactionId: pspTransactionId,
-        status: '3DS_REQUIRED',
-        threeDsRedirectUrl: `${pspBaseUrl}/3ds/${pspTransactionId}`,
+        response: {
+            transactionId: pspTransactionId,
+            status: '3DS_REQUIRED',
+            threeDsRedirectUrl: `${pspBaseUrl}/3ds/${pspTransactionId}`,
+        },
     };
 }
 
 /**
- * Resolves a pending 3DS transaction. Cancels the expiry timer,
- * sends a SUCCESS webhook after a delay to simulate processing time.
- * Returns an HTML page confirming 3DS completion.
+ * Looks up the PSP's current view of a payment. Instances only know their own payments.
  */
-export function resolve3dsTransaction(pspTransactionId: string): {
+export async function getPspTransaction(
+    pspTransactionId: string,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+): Promise<{
+    found: boolean;
+    response?: PspTransactionStatusResponse;
+}> {
+    const transaction = await findInstanceTransaction(pspTransactionId, instance);
+    if (!transaction) {
+        return { found: false };
+    }
+
+    return {
+        found: true,
+        response: {
+            transactionId: transaction.pspTransactionId,
+            status: transaction.status,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            finalAmount: transaction.finalAmount,
+            ...declineDetails(transaction.declineCode),
+            updatedAt: transaction.updatedAt.toISOString(),
+        },
+    };
+}
+
+/**
+ * Computes the PSP's fee for a settled payment.
+ */
+export function computeSettlementFee(finalAmount: number): number {
+    return Math.round(finalAmount * SETTLEMENT_FEE_RATE) + SETTLEMENT_FIXED_FEE;
+}
+
+/**
+ * Builds an instance's settlement file for a day: every payment it received that (UTC) day
+ * that has reached a final status. Only SUCCESS payments settle money and carry a fee.
+ */
+export async function generateSettlementFile(
+    date: string,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+): Promise<{ error?: string; file?: SettlementFile }> {
+    let range: { from: Date; to: Date };
+    try {
+        range = settlementDayRange(date);
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const transactions = await store.listPspTransactions(range.from, range.to);
+    const records = transactions
+        .filter((transaction) => transaction.instance === instance.name && SETTLEMENT_STATUSES.includes(transaction.status))
+        .map((transaction) => {
+            const settled = transaction.status === 'SUCCESS';
+            return {
+                pspTransactionId: transaction.pspTransactionId,
+                status: transaction.status,
+                amount: transaction.amount,
+                finalAmount: settled ? transaction.finalAmount : 0,
+                fee: settled ? computeSettlementFee(transaction.finalAmount) : 0,
+                currency: transaction.currency,
+            };
+        });
+
+    return { file: { date, records } };
+}
+
+/**
+ * Renders the 3DS challenge page for a pending transaction: an OTP form with
+ * approve and deny buttons posting to `/<instance>/3ds/:transactionId/complete`.
+ */
+export async function render3dsChallenge(
+    pspTransactionId: string,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+): Promise<{
+    found: boolean;
+    html?: string;
+}> {
+    const pendingTransaction = await findInstanceSession(pspTransactionId, instance);
+    if (!pendingTransaction) {
+        return { found: false };
+    }
+
+    return { found: true, html: challengePage(pendingTransaction, instance) };
+}
+
+/**
+ * Completes a pending 3DS challenge. Approving with the right OTP approves the
+ * payment; denying, or entering a wrong OTP too many times, fails it. Either way
+ * the expiry timer is cancelled and the outcome webhook is sent after a delay
+ * to simulate processing time.
+ *
+ * A wrong OTP with attempts left re-renders the challenge. On completion the browser
+ * is redirected to the merchant's `returnUrl` (or `failureUrl` on failure) when given,
+ * otherwise a result page is returned.
+ */
+export async function complete3dsChallenge(
+    pspTransactionId: string,
+    input: ThreeDsChallengeInput,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+): Promise<{
     found: boolean;
     html?: string;
-} {
-    const pendingTransaction = pending3dsTransactions.get(pspTransactionId);
+    redirectUrl?: string;
+}> {
+    const pendingTransaction = await findInstanceSession(pspTransactionId, instance);
     if (!pendingTransaction) {
         return { found: false };
     }
 
-    // Remove from pending store and cancel the expiry timer
-    pending3dsTransactions.delete(pspTransactionId);
+    let declineCode: string | undefined;
+    if (input.action === 'deny') {
+        declineCode = THREE_DS_DECLINE_CODES.REJECTED;
+    } else if (input.otp !== THREE_DS_OTP) {
+        const session = await store.consumeOtpAttempt(pspTransactionId);
+        if (!session) {
+            return { found: false };
+        }
+        if (session.otpAttemptsRemaining > 0) {
+            return {
+                found: true,
+                html: challengePage(session, instance, 'The code you entered is incorrect.'),
+            };
+        }
+        declineCode = THREE_DS_DECLINE_CODES.OTP_ATTEMPTS_EXCEEDED;
+    }
+
+    // Remove from pending store (unless the session just expired) and cancel the expiry timer
+    if (!(await store.deletePending3dsSession(pspTransactionId))) {
+        return { found: false };
+    }
     cancelExpiryTimer(pspTransactionId);
 
-    // Send webhook after a short delay to simulate 3DS processing
-    const delayTimer = setTimeout(() => {
-        sendWebhookCallback(pendingTransaction.callbackUrl, {
-            transactionId: pspTransactionId,
-            final_amount: pendingTransaction.amount,
-            status: 'SUCCESS',
-        });
-    }, 1500);
+    const status = declineCode
+        ? 'FAILED'
+        : await approvePayment(pspTransactionId, pendingTransaction.amount, pendingTransaction.captureMode);
+    await updatePspTransaction(pspTransactionId, {
+        status: status as PspTransactionStatus,
+        declineCode: declineCode ?? null,
+    });
+
+    // Queue webhook with a short delay to simulate 3DS processing
+    await sendOutcomeWebhooks(pendingTransaction.callbackUrl, {
+        transactionId: pspTransactionId,
+        final_amount: pendingTransaction.amount,
+        status,
+        ...declineDetails(declineCode),
+    }, pendingTransaction.scenario, THREE_DS_WEBHOOK_DELAY_MS);
 
-    // Prevent the timer from keeping the process alive (important for tests)
-    if (delayTimer && typeof delayTimer === 'object' && 'unref' in delayTimer) {
-        delayTimer.unref();
+    const redirectTarget = status === 'FAILED'
+        ? pendingTransaction.failureUrl ?? pendingTransaction.returnUrl
+        : pendingTransaction.returnUrl;
+    if (redirectTarget) {
+        const redirectUrl = new URL(redirectTarget);
+        redirectUrl.searchParams.set('transactionId', pspTransactionId);
+        redirectUrl.searchParams.set('status', status);
+        return { found: true, redirectUrl: redirectUrl.toString() };
     }
 
-    const confirmationHtml = `
+    const resultHtml = `
     <!DOCTYPE html>
     <html>
       <head><title>3DS Verification</title></head>
       <body>
-        <h1>3DS Verification Complete</h1>
-        <p>Transaction <strong>${pspTransactionId}</strong> has been verified.</p>
-        <p>You will be redirected shortly...</p>
+        <h1>${status === 'FAILED' ? '3DS Verification Failed' : '3DS Verification Complete'}</h1>
+        <p>Transaction <strong>${pspTransactionId}</strong> ${status === 'FAILED' ? 'could not be verified' : 'has been verified'}.</p>
       </body>
     </html>
   `;
 
-    return { found: true, html: confirmationHtml };
+    return { found: true, html: resultHtml };
+}
+
+/**
+ * Builds the challenge page HTML, optionally with an error from the previous attempt.
+ */
+function challengePage(pendingTransaction: Pending3dsSession, instance: SimulatorInstance, error?: string): string {
+    const { pspTransactionId, amount, otpAttemptsRemaining } = pendingTransaction;
+
+    return `
+    <!DOCTYPE html>
+    <html>
+      <head><title>3DS Verification</title></head>
+      <body>
+        <h1>3DS Verification</h1>
+        <p>Confirm the payment of <strong>${amount}</strong> for transaction <strong>${pspTransactionId}</strong>.</p>
+        ${error ? `<p role="alert">${error} ${otpAttemptsRemaining} attempt(s) left.</p>` : ''}
+        <form method="post" action="/${instance.name}/3ds/${pspTransactionId}/complete">
+          <label for="otp">One-time code (test code: ${THREE_DS_OTP})</label>
+          <input id="otp" name="otp" inputmode="numeric" autocomplete="one-time-code" required>
+          <button type="submit" name="action" value="approve">Approve</button>
+          <button type="submit" name="action" value="deny" formnovalidate>Deny</button>
+        </form>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Finds a payment the instance received. Instances only know their own payments.
+ */
+async function findInstanceTransaction(
+    pspTransactionId: string,
+    instance: SimulatorInstance,
+): Promise<PspTransactionRecord | null> {
+    const transaction = await store.findPspTransaction(pspTransactionId);
+    return transaction && transaction.instance === instance.name ? transaction : null;
+}
+
+/**
+ * Finds a pending 3DS session of a payment the instance received. Instances only
+ * render and complete their own challenges.
+ */
+async function findInstanceSession(
+    pspTransactionId: string,
+    instance: SimulatorInstance,
+): Promise<Pending3dsSession | null> {
+    return await findInstanceTransaction(pspTransactionId, instance)
+        ? store.findPending3dsSession(pspTransactionId)
+        : null;
+}
+
+/**
+ * Captures a pending authorization, in full or in part. Any uncaptured remainder is
+ * released, so an authorization can only be captured once; capturing a payment again
+ * returns the capture already made, so a retried request is safe.
+ */
+export async function processCapture(
+    pspTransactionId: string,
+    amount?: number,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+): Promise<{
+    found: boolean;
+    error?: string;
+    response?: PspCaptureResponse;
+}> {
+    const transaction = await findInstanceTransaction(pspTransactionId, instance);
+    if (!transaction) {
+        return { found: false };
+    }
+    if (transaction.status === 'SUCCESS') {
+        return { found: true, response: captureResponse(pspTransactionId, transaction.finalAmount) };
+    }
+    const authorization = await store.findAuthorization(pspTransactionId);
+    if (!authorization) {
+        return { found: false };
+    }
+
+    const capturedAmount = amount ?? authorization.amount;
+    if (capturedAmount > authorization.amount) {
+        return {
+            found: true,
+            error: `Capture amount ${capturedAmount} exceeds authorized amount ${authorization.amount}`,
+        };
+    }
+
+    if (!(await store.deleteAuthorization(pspTransactionId))) {
+        return { found: false };
+    }
+    await updatePspTransaction(pspTransactionId, { status: 'SUCCESS', finalAmount: capturedAmount });
+
+    return { found: true, response: captureResponse(pspTransactionId, capturedAmount) };
+}
+
+/**
+ * Answer to a capture, for a payment captured for `capturedAmount`.
+ */
+function captureResponse(pspTransactionId: string, capturedAmount: number): PspCaptureResponse {
+    return { transactionId: pspTransactionId, status: 'SUCCESS', capturedAmount };
+}
+
+/**
+ * Voids a pending authorization, releasing the reserved funds. Voiding a payment
+ * again returns the void already made, so a retried request is safe.
+ */
+export async function processVoid(
+    pspTransactionId: string,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+): Promise<{ found: boolean; response?: PspResponse }> {
+    const transaction = await findInstanceTransaction(pspTransactionId, instance);
+    if (!transaction) {
+        return { found: false };
+    }
+    if (transaction.status !== 'VOIDED') {
+        if (!(await store.deleteAuthorization(pspTransactionId))) {
+            return { found: false };
+        }
+        await updatePspTransaction(pspTransactionId, { status: 'VOIDED' });
+    }
+
+    return {
+        found: true,
+        response: { transactionId: pspTransactionId, status: 'VOIDED' },
+    };
+}
+
+/**
+ * Processes a PSP refund request for a settled (SUCCESS) payment of the instance, up to
+ * what is left of its final amount after earlier refunds. An accepted refund is settled
+ * asynchronously with a SUCCESS refund webhook. A request repeating an earlier Idempotency-Key
+ * gets that refund back, without refunding again or sending another webhook.
+ */
+export async function processRefund(
+    request: PspRefundRequest,
+    instance: SimulatorInstance = DEFAULT_SIMULATOR_INSTANCE,
+    idempotencyKey?: string,
+): Promise<{
+    found: boolean;
+    error?: string;
+    response?: { refundId: string; status: string };
+}> {
+    const transaction = await findInstanceTransaction(request.transactionId, instance);
+    if (!transaction) {
+        return { found: false };
+    }
+    if (transaction.status !== 'SUCCESS') {
+        return {
+            found: true,
+            error: `Transaction ${request.transactionId} cannot be refunded in status '${transaction.status}'`,
+        };
+    }
+
+    const pspRefundId = `rf_${uuidv4().slice(0, 8)}`;
+    const refund = await store.reserveRefund({
+        pspRefundId,
+        instance: instance.name,
+        pspTransactionId: request.transactionId,
+        amount: request.amount,
+        idempotencyKey: idempotencyKey ?? null,
+        createdAt: new Date(),
+    });
+    if (!refund) {
+        return {
+            found: true,
+            error: `Refund amount ${request.amount} exceeds refundable amount ${transaction.finalAmount - transaction.refundedAmount}`,
+        };
+    }
+
+    if (refund.pspRefundId === pspRefundId) {
+        await enqueueWebhook(request.callbackUrl, {
+            type: 'refund',
+            transactionId: request.transactionId,
+            refundId: pspRefundId,
+            reference: request.reference,
+            final_amount: request.amount,
+            status: 'SUCCESS',
+        });
+    }
+
+    return {
+        found: true,
+        response: { refundId: refund.pspRefundId, status: 'PENDING' },
+    };
+}
+
+/**
+ * Takes a simulator instance down: its API answers every request with the given 5xx status
+ * until the outage is stopped or `durationMs` has elapsed.
+ */
+export function startOutage(
+    instance: SimulatorInstance,
+    options: { httpStatus?: number; durationMs?: number } = {},
+): SimulatedOutage {
+    const startedAt = new Date();
+    const outage: SimulatedOutage = {
+        instance: instance.name,
+        httpStatus: options.httpStatus ?? 503,
+        startedAt,
+        endsAt: options.durationMs !== undefined ? new Date(startedAt.getTime() + options.durationMs) : null,
+    };
+    outages.set(instance.name, outage);
+    return { ...outage };
+}
+
+/**
+ * Returns the instance's ongoing outage, or null if it is up.
+ */
+export function getOutage(instance: SimulatorInstance): SimulatedOutage | null {
+    const outage = outages.get(instance.name);
+    if (outage?.endsAt && outage.endsAt.getTime() <= Date.now()) {
+        outages.delete(instance.name);
+        return null;
+    }
+    return outage ? { ...outage } : null;
+}
+
+/**
+ * Brings an instance back up.
+ * @returns false if it was not down
+ */
+export function stopOutage(instance: SimulatorInstance): boolean {
+    const wasDown = getOutage(instance) !== null;
+    outages.delete(instance.name);
+    return wasDown;
 }
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DeclineCode } from '../enums/declineCode';
+
+/**
+ * Outcomes a scenario can force for a PSP transaction request.
+ */
+export type ScenarioOutcome = 'SUCCESS' | 'FAILED' | '3DS_REQUIRED';
+
+/**
+ * Request attributes a scenario matches on. Every attribute that is set must match.
+ */
+export interface ScenarioMatch {
+    cardPrefix?: string;
+    amount?: number;
+    orderId?: string;
+}
+
+/**
+ * Input for registering a scenario. Everything except `match` is optional:
+ * unset behaviours fall back to the simulator's defaults.
+ */
+export interface CreateScenarioInput {
+    name?: string;
+    match: ScenarioMatch;
+    /** Outcome to report instead of the card prefix rule (FAILED when only a decline code is given) */
+    outcome?: ScenarioOutcome;
+    /** Decline code reported with a FAILED outcome, e.g. 'insufficient_funds' */
+    declineCode?: DeclineCode;
+    /** Delay before the simulator responds */
+    latencyMs?: number;
+    /** Respond with this 5xx status instead of processing the request */
+    httpStatus?: number;
+    /** Delay before the first webhook is sent */
+    webhookDelayMs?: number;
+    /** Send every webhook twice */
+    duplicateWebhook?: boolean;
+    /** For approved sales, also send an AUTHORIZED webhook, delivered after the SUCCESS one */
+    outOfOrderWebhooks?: boolean;
+    /** `final_amount` reported in the webhooks instead of the requested amount */
+    finalAmount?: number;
+}
+
+/**
+ * A registered scenario.
+ */
+export interface PspScenario extends CreateScenarioInput {
+    id: string;
+    /** Simulator instance the scenario applies to */
+    instance: string;
+    createdAt: Date;
+}
+
+/**
+ * The request attributes scenarios are matched against.
+ */
+export interface ScenarioSubject {
+    instance: string;
+    cardNumber: string;
+    amount: number;
+    orderId?: string;
+}
+
+/** Registered scenarios, keyed by scenario ID (in registration order) */
+const scenarios: Map<string, PspScenario> = new Map();
+
+/**
+ * Registers a scenario for a simulator instance. Later scenarios take precedence over earlier ones.
+ */
+export function createScenario(input: CreateScenarioInput, instance = 'psp'): PspScenario {
+    const scenario: PspScenario = {
+        ...input,
+        match: { ...input.match },
+        id: `sc_${uuidv4().slice(0, 8)}`,
+        instance,
+        createdAt: new Date(),
+    };
+
+    scenarios.set(scenario.id, scenario);
+    return cloneScenario(scenario);
+}
+
+/**
+ * Lists a simulator instance's scenarios (every scenario when no instance is given) in registration order.
+ */
+export function listScenarios(instance?: string): PspScenario[] {
+    return [...scenarios.values()]
+        .filter((scenario) => instance === undefined || scenario.instance === instance)
+        .map(cloneScenario);
+}
+
+/**
+ * Removes a scenario, if it belongs to the given instance.
+ * @returns false if it does not exist
+ */
+export function deleteScenario(scenarioId: string, instance?: string): boolean {
+    const scenario = scenarios.get(scenarioId);
+    if (!scenario || (instance !== undefined && scenario.instance !== instance)) {
+        return false;
+    }
+    return scenarios.delete(scenarioId);
+}
+
+/**
+ * Removes an instance's scenarios (every scenario when no instance is given),
+ * restoring the default card prefix rules.
+ */
+export function clearScenarios(instance?: string): void {
+    for (const scenario of listScenarios(instance)) {
+        scenarios.delete(scenario.id);
+    }
+}
+
+/**
+ * Finds the most recently registered scenario matching a request, if any.
+ */
+export function findMatchingScenario(subject: ScenarioSubject): PspScenario | null {
+    const candidates = [...scenarios.values()].reverse();
+    const scenario = candidates.find(({ instance, match }) =>
+        instance === subject.instance
+        && (match.cardPrefix === undefined || subject.cardNumber.startsWith(match.cardPrefix))
+        && (match.amount === undefined || subject.amount === match.amount)
+        && (match.orderId === undefined || subject.orderId === match.orderId));
+
+    return scenario ? cloneScenario(scenario) : null;
+}
+
+function cloneScenario(scenario: PspScenario): PspScenario {
+    return { ...scenario, match: { ...scenario.match } };
+}
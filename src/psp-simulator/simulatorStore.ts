@@ -0,0 +1,168 @@
+import { CaptureMode, WebhookPayload } from '../types/transaction';
+import { PspScenario } from './scenarioRegistry';
+
+/**
+ * Statuses of a payment as the simulated PSP sees it.
+ */
+export type PspTransactionStatus = '3DS_REQUIRED' | 'AUTHORIZED' | 'SUCCESS' | 'FAILED' | 'VOIDED';
+
+/**
+ * The PSP's own record of a payment, returned by `GET /psp/transactions/:id`.
+ */
+export interface PspTransactionRecord {
+    pspTransactionId: string;
+    /** Simulator instance that received the payment */
+    instance: string;
+    orderId: string | null;
+    amount: number;
+    currency: string;
+    status: PspTransactionStatus;
+    /** Amount charged (captured amount, or a scenario's final amount) */
+    finalAmount: number;
+    /** Part of the final amount refunded so far */
+    refundedAmount: number;
+    declineCode: string | null;
+    /** Idempotency-Key the payment was created with, if the caller sent one */
+    idempotencyKey: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * A refund the PSP accepted.
+ */
+export interface PspRefundRecord {
+    pspRefundId: string;
+    /** Simulator instance that received the refund */
+    instance: string;
+    pspTransactionId: string;
+    amount: number;
+    /** Idempotency-Key the refund was requested with, if the caller sent one */
+    idempotencyKey: string | null;
+    createdAt: Date;
+}
+
+/**
+ * A 3DS challenge waiting for the cardholder.
+ */
+export interface Pending3dsSession {
+    pspTransactionId: string;
+    callbackUrl: string;
+    amount: number;
+    captureMode: CaptureMode;
+    /** Merchant page the browser is sent to after a successful challenge */
+    returnUrl: string | null;
+    /** Merchant page the browser is sent to after a failed challenge */
+    failureUrl: string | null;
+    otpAttemptsRemaining: number;
+    /** Scenario matched when the transaction was created; shapes the webhooks sent on completion */
+    scenario: PspScenario | null;
+    /** When the session expires and the PSP fails the payment on its own */
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+/**
+ * An authorization awaiting capture or void (manual capture mode).
+ */
+export interface PendingAuthorization {
+    pspTransactionId: string;
+    amount: number;
+    createdAt: Date;
+}
+
+/**
+ * Delivery statuses: PENDING until a 2xx is received (DELIVERED)
+ * or every attempt has failed (FAILED).
+ */
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+/**
+ * A single attempt to deliver a webhook.
+ */
+export interface WebhookDeliveryAttempt {
+    attempt: number;
+    trigger: 'automatic' | 'manual';
+    attemptedAt: Date;
+    statusCode: number | null;
+    error: string | null;
+    durationMs: number;
+}
+
+/**
+ * A webhook queued in the simulator's outbox, with its full attempt log.
+ */
+export interface WebhookDelivery {
+    id: string;
+    callbackUrl: string;
+    payload: WebhookPayload;
+    status: WebhookDeliveryStatus;
+    attempts: WebhookDeliveryAttempt[];
+    nextAttemptAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Filter for listing webhook deliveries.
+ */
+export interface WebhookDeliveryFilter {
+    status?: WebhookDeliveryStatus;
+    /** PSP transaction ID the webhook reports on */
+    transactionId?: string;
+}
+
+/**
+ * Storage for the PSP simulator's state, so payments, pending 3DS sessions,
+ * authorizations and undelivered webhooks survive a restart.
+ *
+ * The delete methods double as claims: when a challenge completion and its expiry
+ * race, only the caller that actually removed the session gets it back.
+ */
+export interface ISimulatorStore {
+    /** Inserts or replaces the PSP's record of a payment */
+    savePspTransaction(transaction: PspTransactionRecord): Promise<void>;
+    /**
+     * Inserts a new payment and returns it, unless the instance already has a payment for its
+     * Idempotency-Key: that payment is returned instead and nothing is written. The check and
+     * the insert are one step, so concurrent requests with the same key create one payment.
+     */
+    createPspTransaction(transaction: PspTransactionRecord): Promise<PspTransactionRecord>;
+    findPspTransaction(pspTransactionId: string): Promise<PspTransactionRecord | null>;
+    /** Finds the payment an instance created for an Idempotency-Key */
+    findPspTransactionByIdempotencyKey(instance: string, idempotencyKey: string): Promise<PspTransactionRecord | null>;
+    /** Lists payments created in [createdFrom, createdTo), oldest first (used for settlement files) */
+    listPspTransactions(createdFrom: Date, createdTo: Date): Promise<PspTransactionRecord[]>;
+    /**
+     * Records a refund and adds its amount to the payment's refunded amount if the rest of its
+     * final amount covers it, returning the refund, or null if it does not. A refund repeating an
+     * Idempotency-Key the instance has seen returns the earlier refund and changes nothing.
+     * The check and the update are one step, so concurrent refunds cannot together exceed
+     * the final amount, nor a retry be counted twice.
+     */
+    reserveRefund(refund: PspRefundRecord): Promise<PspRefundRecord | null>;
+
+    /** Inserts or replaces a pending 3DS session */
+    savePending3dsSession(session: Pending3dsSession): Promise<void>;
+    findPending3dsSession(pspTransactionId: string): Promise<Pending3dsSession | null>;
+    listPending3dsSessions(): Promise<Pending3dsSession[]>;
+    /**
+     * Takes one OTP attempt from a session that has attempts left, returning the updated session,
+     * or null if it is gone or has none left. The check and the update are one step, so concurrent
+     * wrong codes cannot get more attempts than the session allows.
+     */
+    consumeOtpAttempt(pspTransactionId: string): Promise<Pending3dsSession | null>;
+    /** Removes a session, returning it, or null if it was already gone */
+    deletePending3dsSession(pspTransactionId: string): Promise<Pending3dsSession | null>;
+
+    saveAuthorization(authorization: PendingAuthorization): Promise<void>;
+    findAuthorization(pspTransactionId: string): Promise<PendingAuthorization | null>;
+    /** Removes an authorization, returning it, or null if it was already gone */
+    deleteAuthorization(pspTransactionId: string): Promise<PendingAuthorization | null>;
+
+    /** Inserts or replaces a webhook delivery with its attempt log */
+    saveWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+    findWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+    /** Lists deliveries in creation order */
+    listWebhookDeliveries(filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+}
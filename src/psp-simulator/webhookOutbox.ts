@@ -0,0 +1,213 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FastifyBaseLogger } from 'fastify';
+import config from '../config';
+import { buildWebhookSignatureHeaders } from '../domain/webhookSignature';
+import { computeRetryDelay } from '../domain/retryBackoff';
+import { WebhookPayload } from '../types/transaction';
+import { InMemorySimulatorStore } from './inMemorySimulatorStore';
+import { ISimulatorStore, WebhookDelivery, WebhookDeliveryFilter } from './simulatorStore';
+
+/**
+ * Where delivery failures are logged: the app's logger once it is running.
+ */
+export type WebhookOutboxLogger = Pick<FastifyBaseLogger, 'warn' | 'error'>;
+
+/** Where deliveries and their attempt logs are kept; replaced by the app at startup */
+let store: ISimulatorStore = new InMemorySimulatorStore();
+
+/** Where delivery failures are reported; replaced by the app at startup */
+let logger: WebhookOutboxLogger = console;
+
+/** Scheduled (re)delivery timers, keyed by delivery ID */
+const deliveryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+/**
+ * Sets the store holding the outbox and the logger delivery failures are reported to.
+ * Like the rest of the simulator's state, they are shared by the whole process.
+ */
+export function useWebhookOutbox(simulatorStore: ISimulatorStore, outboxLogger: WebhookOutboxLogger): void {
+    store = simulatorStore;
+    logger = outboxLogger;
+}
+
+/**
+ * Sends a webhook callback to the specified URL, signed with the PSP's webhook secret.
+ * Resolves with the HTTP status code; rejects on network errors.
+ */
+export async function sendWebhookCallback(
+    callbackUrl: string,
+    payload: WebhookPayload,
+): Promise<number> {
+    const body = JSON.stringify(payload);
+
+    const response = await fetch(callbackUrl, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...buildWebhookSignatureHeaders(config.pspWebhookSecret, body),
+        },
+        body,
+    });
+    return response.status;
+}
+
+/**
+ * Adds a webhook to the outbox and schedules its first delivery attempt.
+ * @param callbackUrl - Merchant webhook URL
+ * @param payload - Webhook payload
+ * @param delayMs - Delay before the first attempt (e.g. to simulate processing time)
+ */
+export async function enqueueWebhook(callbackUrl: string, payload: WebhookPayload, delayMs: number = 0): Promise<WebhookDelivery> {
+    const now = new Date();
+    const delivery: WebhookDelivery = {
+        id: `wh_${uuidv4().slice(0, 8)}`,
+        callbackUrl,
+        payload,
+        status: 'PENDING',
+        attempts: [],
+        nextAttemptAt: new Date(now.getTime() + delayMs),
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await store.saveWebhookDelivery(delivery);
+    scheduleAttempt(delivery.id, delayMs);
+
+    return delivery;
+}
+
+/**
+ * Lists outbox deliveries in creation order, optionally filtered.
+ */
+export async function listWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    return store.listWebhookDeliveries(filter);
+}
+
+/**
+ * Sends a delivery again immediately, regardless of its status.
+ * Cancels any scheduled retry; a manual redelivery is a single attempt
+ * that leaves the delivery DELIVERED or FAILED.
+ * @returns The updated delivery, or null if it does not exist
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await store.findWebhookDelivery(deliveryId);
+    if (!delivery) {
+        return null;
+    }
+
+    cancelScheduledAttempt(deliveryId);
+    await attemptDelivery(delivery, 'manual');
+
+    return delivery;
+}
+
+/**
+ * Reschedules the deliveries left PENDING by a previous process. Those whose
+ * next attempt was due while the simulator was down are attempted right away.
+ */
+export async function resumeWebhookDeliveries(): Promise<void> {
+    const pendingDeliveries = await store.listWebhookDeliveries({ status: 'PENDING' });
+    for (const delivery of pendingDeliveries) {
+        const dueAt = delivery.nextAttemptAt?.getTime() ?? Date.now();
+        scheduleAttempt(delivery.id, Math.max(dueAt - Date.now(), 0));
+    }
+}
+
+/**
+ * Cancels every scheduled attempt (called on shutdown). Deliveries stay PENDING
+ * in the store and are rescheduled on the next start.
+ */
+export function stopWebhookDeliveries(): void {
+    for (const timer of deliveryTimers.values()) {
+        clearTimeout(timer);
+    }
+    deliveryTimers.clear();
+}
+
+/**
+ * Schedules the next automatic attempt for a delivery.
+ */
+function scheduleAttempt(deliveryId: string, delayMs: number): void {
+    cancelScheduledAttempt(deliveryId);
+    const timer = setTimeout(async () => {
+        deliveryTimers.delete(deliveryId);
+        try {
+            const delivery = await store.findWebhookDelivery(deliveryId);
+            if (delivery && delivery.status === 'PENDING') {
+                await attemptDelivery(delivery, 'automatic');
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error(`Webhook ${deliveryId} attempt could not be recorded: ${errorMessage}`);
+        }
+    }, delayMs);
+
+    // Prevent the timer from keeping the process alive (important for tests)
+    if (timer && typeof timer === 'object' && 'unref' in timer) {
+        timer.unref();
+    }
+
+    deliveryTimers.set(deliveryId, timer);
+}
+
+function cancelScheduledAttempt(deliveryId: string): void {
+    const timer = deliveryTimers.get(deliveryId);
+    if (timer) {
+        clearTimeout(timer);
+        deliveryTimers.delete(deliveryId);
+    }
+}
+
+/**
+ * Performs one delivery attempt and records it in the store. Non-2xx responses and
+ * network errors count as failures; automatic attempts are retried with backoff until
+ * the maximum attempt count is reached.
+ */
+async function attemptDelivery(delivery: WebhookDelivery, trigger: 'automatic' | 'manual'): Promise<void> {
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+        statusCode = await sendWebhookCallback(delivery.callbackUrl, delivery.payload);
+        if (statusCode < 200 || statusCode >= 300) {
+            errorMessage = `Received HTTP ${statusCode}`;
+        }
+    } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    delivery.attempts.push({
+        attempt: delivery.attempts.length + 1,
+        trigger,
+        attemptedAt: new Date(startedAt),
+        statusCode,
+        error: errorMessage,
+        durationMs: Date.now() - startedAt,
+    });
+    delivery.updatedAt = new Date();
+
+    if (!errorMessage) {
+        delivery.status = 'DELIVERED';
+        delivery.nextAttemptAt = null;
+        await store.saveWebhookDelivery(delivery);
+        return;
+    }
+
+    const automaticAttempts = delivery.attempts.filter((attempt) => attempt.trigger === 'automatic').length;
+    if (trigger === 'manual' || automaticAttempts >= config.pspWebhookMaxAttempts) {
+        delivery.status = 'FAILED';
+        delivery.nextAttemptAt = null;
+        await store.saveWebhookDelivery(delivery);
+        logger.error(`Webhook ${delivery.id} to ${delivery.callbackUrl} failed after ${delivery.attempts.length} attempt(s): ${errorMessage}`);
+        return;
+    }
+
+    const delayMs = computeRetryDelay(automaticAttempts, config.pspWebhookRetryBaseDelayMs);
+    delivery.nextAttemptAt = new Date(Date.now() + delayMs);
+    await store.saveWebhookDelivery(delivery);
+    logger.warn(
+        `Webhook ${delivery.id} attempt ${automaticAttempts}/${config.pspWebhookMaxAttempts} failed, retrying in ${delayMs}ms: ${errorMessage}`,
+    );
+    scheduleAttempt(delivery.id, delayMs);
+}
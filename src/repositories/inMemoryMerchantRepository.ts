@@ -0,0 +1,35 @@
+import { CreateMerchantData, IMerchantRepository, MerchantRecord } from '../types/merchant';
+
+/**
+ * In-memory merchant repository for testing.
+ * Implements the same interface as MerchantRepository but uses a Map instead of PostgreSQL.
+ */
+export class InMemoryMerchantRepository implements IMerchantRepository {
+    private merchants: Map<string, MerchantRecord> = new Map();
+
+    async create(merchantData: CreateMerchantData): Promise<MerchantRecord> {
+        const isDuplicateKey = merchantData.apiKeyHash !== null && [...this.merchants.values()]
+            .some((merchant) => merchant.apiKeyHash === merchantData.apiKeyHash);
+        if (this.merchants.has(merchantData.id) || isDuplicateKey) {
+            throw new Error(`Merchant already exists: ${merchantData.id}`);
+        }
+
+        const record: MerchantRecord = { ...merchantData, createdAt: new Date() };
+        this.merchants.set(record.id, record);
+        return { ...record };
+    }
+
+    async findById(merchantId: string): Promise<MerchantRecord | null> {
+        const merchant = this.merchants.get(merchantId);
+        return merchant ? { ...merchant } : null;
+    }
+
+    async findByApiKeyHash(apiKeyHash: string): Promise<MerchantRecord | null> {
+        for (const merchant of this.merchants.values()) {
+            if (merchant.apiKeyHash === apiKeyHash) {
+                return { ...merchant };
+            }
+        }
+        return null;
+    }
+}
@@ -1,10 +1,46 @@
 import { TransactionStatus } from '../enums/transactionStatus';
+import { EVENT_SOURCES } from '../enums/transactionEventSource';
+import { REFUND_STATUSES } from '../enums/refundStatus';
 import {
     ITransactionRepository,
     TransactionRecord,
     CreateTransactionData,
     UpdateExtraFields,
+    RefundRecord,
+    CreateRefundData,
+    UpdateRefundFields,
+    CreateTransactionResponse,
+    IdempotencyClaim,
+    IdempotencyRecord,
+    TransactionListQuery,
+    TransactionPage,
+    TransactionEventInput,
+    TransactionEventRecord,
+    CreateNotificationData,
+    NotificationRecord,
+    UpdateNotificationFields,
+    CreatePspOutboxData,
+    PspOutboxRecord,
+    UpdatePspOutboxFields,
+    TransactionLockKey,
+    TransactionUnitOfWork,
 } from '../types/transaction';
+import { getSortValue } from '../domain/pagination';
+import { TransactionConflictError } from '../domain/optimisticConcurrency';
+import { TransactionLockTimeoutError, TransactionUnitTimeoutError } from '../domain/transactionLocking';
+import { KeyedMutex } from './keyedMutex';
+
+/**
+ * Attribution for status changes made without an explicit event.
+ */
+const DEFAULT_EVENT: TransactionEventInput = { source: EVENT_SOURCES.API, actor: null };
+
+/**
+ * Copies the given fields of a record, e.g. to restore them when a unit of work is rolled back.
+ */
+function pickFields<T extends object>(record: T, fieldNames: (keyof T)[]): Partial<T> {
+    return Object.fromEntries(fieldNames.map((fieldName) => [fieldName, record[fieldName]])) as Partial<T>;
+}
 
 /**
  * In-memory transaction repository for testing.
@@ -13,27 +49,76 @@ import {
  */
 export class InMemoryTransactionRepository implements ITransactionRepository {
     private transactions: Map<string, TransactionRecord> = new Map();
+    private refunds: Map<string, RefundRecord> = new Map();
+    private idempotencyKeys: Map<string, IdempotencyRecord> = new Map();
+    private events: TransactionEventRecord[] = [];
+    private notifications: Map<string, NotificationRecord> = new Map();
+    /** When the reconciler last checked each transaction, standing in for the last_reconciled_at column */
+    private lastReconciledAt: Map<string, Date> = new Map();
+    private pspOutbox: Map<string, PspOutboxRecord> = new Map();
+    private nextEventId = 1;
+    /** Per-transaction mutexes standing in for Postgres row locks */
+    private locks = new KeyedMutex();
+    private lockTimeoutMs: number;
+    private unitTimeoutMs: number;
+
+    constructor(options: { lockTimeoutMs?: number; unitTimeoutMs?: number } = {}) {
+        this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+        this.unitTimeoutMs = options.unitTimeoutMs ?? 30000;
+    }
 
-    async create(transactionData: CreateTransactionData): Promise<TransactionRecord> {
+    async create(
+        transactionData: CreateTransactionData,
+        event: TransactionEventInput = DEFAULT_EVENT,
+        pspRequest?: CreatePspOutboxData,
+    ): Promise<TransactionRecord> {
         const record: TransactionRecord = {
+            settlementCurrency: null,
+            settlementAmount: null,
+            fxRate: null,
+            fxRateTimestamp: null,
             ...transactionData,
             pspTransactionId: null,
             finalAmount: null,
+            finalSettlementAmount: null,
+            declineCode: null,
+            declineMessage: null,
+            threeDsRedirectUrl: null,
+            version: 1,
             createdAt: new Date(),
             updatedAt: new Date(),
         };
         this.transactions.set(record.id, record);
+        this.recordEvent(record.id, null, record.status, event);
+        if (pspRequest) {
+            this.pspOutbox.set(pspRequest.id, {
+                ...pspRequest,
+                request: { ...pspRequest.request },
+                transactionId: record.id,
+                status: 'PENDING',
+                attempts: 0,
+                lastError: null,
+                nextAttemptAt: record.createdAt,
+                leaseExpiresAt: null,
+                sentTo: null,
+                createdAt: record.createdAt,
+                updatedAt: record.createdAt,
+            });
+        }
         return { ...record };
     }
 
-    async findById(transactionId: string): Promise<TransactionRecord | null> {
+    async findById(transactionId: string, merchantId?: string): Promise<TransactionRecord | null> {
         const transaction = this.transactions.get(transactionId);
-        return transaction ? { ...transaction } : null;
+        if (!transaction || (merchantId !== undefined && transaction.merchantId !== merchantId)) {
+            return null;
+        }
+        return { ...transaction };
     }
 
-    async findByPspTransactionId(pspTransactionId: string): Promise<TransactionRecord | null> {
+    async findByPspTransactionId(pspTransactionId: string, merchantId?: string): Promise<TransactionRecord | null> {
         for (const transaction of this.transactions.values()) {
-            if (transaction.pspTransactionId === pspTransactionId) {
+            if (transaction.pspTransactionId === pspTransactionId && this.belongsTo(transaction.id, merchantId)) {
                 return { ...transaction };
             }
         }
@@ -44,13 +129,20 @@ export class InMemoryTransactionRepository implements ITransactionRepository {
         transactionId: string,
         status: TransactionStatus,
         extraFields: UpdateExtraFields = {},
+        event: TransactionEventInput = DEFAULT_EVENT,
+        expectedVersion?: number,
     ): Promise<TransactionRecord> {
         const transaction = this.transactions.get(transactionId);
         if (!transaction) {
             throw new Error(`Transaction not found: ${transactionId}`);
         }
+        if (expectedVersion !== undefined && transaction.version !== expectedVersion) {
+            throw new TransactionConflictError(transactionId, expectedVersion, transaction.version);
+        }
 
+        this.recordEvent(transactionId, transaction.status, status, event);
         transaction.status = status;
+        transaction.version++;
         transaction.updatedAt = new Date();
 
         if (extraFields.pspTransactionId !== undefined) {
@@ -59,34 +151,467 @@ export class InMemoryTransactionRepository implements ITransactionRepository {
         if (extraFields.finalAmount !== undefined) {
             transaction.finalAmount = extraFields.finalAmount;
         }
+        if (extraFields.finalSettlementAmount !== undefined) {
+            transaction.finalSettlementAmount = extraFields.finalSettlementAmount;
+        }
+        if (extraFields.declineCode !== undefined) {
+            transaction.declineCode = extraFields.declineCode;
+        }
+        if (extraFields.declineMessage !== undefined) {
+            transaction.declineMessage = extraFields.declineMessage;
+        }
+        if (extraFields.threeDsRedirectUrl !== undefined) {
+            transaction.threeDsRedirectUrl = extraFields.threeDsRedirectUrl;
+        }
+        if (extraFields.provider !== undefined) {
+            transaction.provider = extraFields.provider;
+        }
 
         return { ...transaction };
     }
 
+    async list(query: TransactionListQuery): Promise<TransactionPage> {
+        const direction = query.sortOrder === 'asc' ? 1 : -1;
+        const toComparable = (value: string | number) => (typeof value === 'number' ? value : Date.parse(value));
+
+        // Orders by (sort value, id), mirroring the Postgres ORDER BY
+        const compare = (leftValue: string | number, leftId: string, rightValue: string | number, rightId: string) => {
+            const difference = toComparable(leftValue) - toComparable(rightValue);
+            if (difference !== 0) {
+                return difference * direction;
+            }
+            return (leftId < rightId ? -1 : leftId > rightId ? 1 : 0) * direction;
+        };
+
+        const matching = [...this.transactions.values()]
+            .filter((transaction) => query.merchantId === undefined || transaction.merchantId === query.merchantId)
+            .filter((transaction) => query.status === undefined || transaction.status === query.status)
+            .filter((transaction) => query.orderId === undefined || transaction.orderId === query.orderId)
+            .filter((transaction) => query.currency === undefined || transaction.currency === query.currency)
+            .filter((transaction) => query.pspTransactionId === undefined || transaction.pspTransactionId === query.pspTransactionId)
+            .filter((transaction) => query.createdFrom === undefined || transaction.createdAt >= query.createdFrom)
+            .filter((transaction) => query.createdTo === undefined || transaction.createdAt < query.createdTo)
+            .filter((transaction) => {
+                if (!query.after) {
+                    return true;
+                }
+                const value = getSortValue(transaction, query.sortBy);
+                return compare(value, transaction.id, query.after.value, query.after.id) > 0;
+            })
+            .sort((left, right) => compare(
+                getSortValue(left, query.sortBy), left.id,
+                getSortValue(right, query.sortBy), right.id,
+            ));
+
+        return {
+            items: matching.slice(0, query.limit).map((transaction) => ({ ...transaction })),
+            hasMore: matching.length > query.limit,
+        };
+    }
+
+    async findStaleTransactions(statuses: TransactionStatus[], updatedBefore: Date, limit: number): Promise<TransactionRecord[]> {
+        return [...this.transactions.values()]
+            .filter((transaction) => statuses.includes(transaction.status) && transaction.updatedAt < updatedBefore)
+            .sort((left, right) => (this.lastReconciledAt.get(left.id)?.getTime() ?? -Infinity)
+                - (this.lastReconciledAt.get(right.id)?.getTime() ?? -Infinity)
+                || left.updatedAt.getTime() - right.updatedAt.getTime())
+            .slice(0, limit)
+            .map((transaction) => ({ ...transaction }));
+    }
+
+    async markReconciled(transactionId: string, reconciledAt: Date): Promise<void> {
+        if (this.transactions.has(transactionId)) {
+            this.lastReconciledAt.set(transactionId, reconciledAt);
+        }
+    }
+
+    async findStaleRefunds(createdBefore: Date, limit: number): Promise<RefundRecord[]> {
+        return [...this.refunds.values()]
+            .filter((refund) => refund.status === REFUND_STATUSES.PENDING && refund.pspRefundId === null
+                && refund.createdAt < createdBefore)
+            .sort((left, right) => left.createdAt.getTime() - right.createdAt.getTime())
+            .slice(0, limit)
+            .map((refund) => ({ ...refund }));
+    }
+
     /**
-     * Simulates atomic find-and-lock for testing.
-     * In-memory implementation doesn't need real locking, but provides the same interface.
+     * Runs `work` holding the transaction's mutex, giving the same serialization as the Postgres
+     * row lock: a PSP ID key locks the mutex of the transaction it belongs to, and is resolved again
+     * once the mutex is held, as Postgres re-checks a row it waited for. Writes are applied as they
+     * are made; if `work` throws or outlives the unit timeout, each one is undone, newest first,
+     * like a Postgres rollback, and the unit accepts no further writes.
      */
-    async findAndLockByPspTransactionId(pspTransactionId: string) {
-        const transaction = await this.findByPspTransactionId(pspTransactionId);
+    async withTransaction<T>(key: TransactionLockKey, work: (unit: TransactionUnitOfWork) => Promise<T>): Promise<T> {
+        const { stored, release } = await this.lockByKey(key);
 
-        return {
-            transaction,
-            updateStatus: async (status: TransactionStatus, extraFields: UpdateExtraFields = {}) => {
-                if (!transaction) {
-                    throw new Error('Cannot update: transaction not found');
-                }
-                return this.updateStatus(transaction.id, status, extraFields);
-            },
-            commit: async () => { /* no-op for in-memory */ },
-            rollback: async () => { /* no-op for in-memory */ },
+        // Each entry reverts only the fields its write set, and only while no later write has
+        // replaced them, so a write made outside the lock is kept
+        const undoLog: (() => void)[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let timedOut = false;
+        const assertOpen = () => {
+            if (timedOut) {
+                throw new TransactionUnitTimeoutError(key, this.unitTimeoutMs);
+            }
+        };
+        try {
+            const unit: TransactionUnitOfWork = {
+                transaction: stored ? await this.findById(stored.id) : null,
+                reload: async () => {
+                    assertOpen();
+                    unit.transaction = unit.transaction && await this.findById(unit.transaction.id);
+                    return unit.transaction;
+                },
+                updateStatus: async (
+                    status: TransactionStatus,
+                    extraFields: UpdateExtraFields = {},
+                    event: TransactionEventInput = DEFAULT_EVENT,
+                ) => {
+                    assertOpen();
+                    if (!unit.transaction) {
+                        throw new Error('Cannot update: transaction not found');
+                    }
+                    const fieldNames = ['status', 'version', 'updatedAt', ...Object.keys(extraFields)] as (keyof TransactionRecord)[];
+                    const previous = pickFields(this.transactions.get(unit.transaction.id)!, fieldNames);
+                    const firstEventId = this.nextEventId;
+                    const updated = await this.updateStatus(unit.transaction.id, status, extraFields, event, unit.transaction.version);
+                    const nextEventId = this.nextEventId;
+                    undoLog.push(() => {
+                        const current = this.transactions.get(updated.id);
+                        if (current?.version === updated.version) {
+                            Object.assign(current, previous);
+                        }
+                        this.events = this.events.filter((recorded) =>
+                            Number(recorded.id) < firstEventId || Number(recorded.id) >= nextEventId);
+                    });
+                    unit.transaction = updated;
+                    return updated;
+                },
+                findRefunds: async () => {
+                    assertOpen();
+                    return unit.transaction ? this.findRefundsByTransactionId(unit.transaction.id) : [];
+                },
+                createRefund: async (refundData: CreateRefundData) => {
+                    assertOpen();
+                    if (!unit.transaction || refundData.transactionId !== unit.transaction.id) {
+                        throw new Error('Cannot create a refund for another transaction than the locked one');
+                    }
+                    const record: RefundRecord = {
+                        ...refundData,
+                        pspRefundId: null,
+                        createdAt: new Date(),
+                        updatedAt: new Date(),
+                    };
+                    this.refunds.set(record.id, record);
+                    undoLog.push(() => this.refunds.delete(record.id));
+                    return { ...record };
+                },
+                updateRefund: async (refundId: string, fields: UpdateRefundFields) => {
+                    assertOpen();
+                    const stored = this.refunds.get(refundId);
+                    const previous = stored && pickFields(stored, ['updatedAt', ...Object.keys(fields)] as (keyof RefundRecord)[]);
+                    const updated = await this.updateRefund(refundId, fields);
+                    undoLog.push(() => {
+                        const current = this.refunds.get(refundId);
+                        if (current && previous && current.updatedAt === updated.updatedAt) {
+                            Object.assign(current, previous);
+                        }
+                    });
+                    return updated;
+                },
+            };
+            const deadline = new Promise<never>((_, reject) => {
+                timer = setTimeout(() => {
+                    timedOut = true;
+                    reject(new TransactionUnitTimeoutError(key, this.unitTimeoutMs));
+                }, this.unitTimeoutMs);
+            });
+            return await Promise.race([work(unit), deadline]);
+        } catch (error) {
+            for (const undo of undoLog.reverse()) {
+                undo();
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            release();
+        }
+    }
+
+    /**
+     * Takes the mutex of the transaction a lock key resolves to. The key is resolved again once
+     * the mutex is held, in case the transaction it matches changed while waiting.
+     * @throws TransactionLockTimeoutError if the mutex is not free within the lock timeout
+     */
+    private async lockByKey(key: TransactionLockKey): Promise<{ stored: TransactionRecord | undefined; release: () => void }> {
+        const resolve = () => ('id' in key
+            ? this.transactions.get(key.id)
+            : [...this.transactions.values()].find((transaction) => transaction.pspTransactionId === key.pspTransactionId));
+
+        let stored = resolve();
+        while (stored) {
+            const release = await this.locks.acquire(stored.id, this.lockTimeoutMs);
+            if (!release) {
+                throw new TransactionLockTimeoutError(key, this.lockTimeoutMs);
+            }
+            const current = resolve();
+            if (current?.id === stored.id) {
+                return { stored, release };
+            }
+            release();
+            stored = current;
+        }
+        return { stored: undefined, release: () => undefined };
+    }
+
+    async findRefundById(refundId: string, merchantId?: string): Promise<RefundRecord | null> {
+        const refund = this.refunds.get(refundId);
+        return refund && this.belongsTo(refund.transactionId, merchantId) ? { ...refund } : null;
+    }
+
+    async findRefundsByTransactionId(transactionId: string, merchantId?: string): Promise<RefundRecord[]> {
+        if (!this.belongsTo(transactionId, merchantId)) {
+            return [];
+        }
+        return [...this.refunds.values()]
+            .filter((refund) => refund.transactionId === transactionId)
+            .map((refund) => ({ ...refund }));
+    }
+
+    async updateRefund(refundId: string, fields: UpdateRefundFields): Promise<RefundRecord> {
+        const refund = this.refunds.get(refundId);
+        if (!refund) {
+            throw new Error(`Refund not found: ${refundId}`);
+        }
+
+        refund.updatedAt = new Date();
+
+        if (fields.status !== undefined) {
+            refund.status = fields.status;
+        }
+        if (fields.pspRefundId !== undefined) {
+            refund.pspRefundId = fields.pspRefundId;
+        }
+
+        return { ...refund };
+    }
+
+    async findEventsByTransactionId(transactionId: string, merchantId?: string): Promise<TransactionEventRecord[]> {
+        if (!this.belongsTo(transactionId, merchantId)) {
+            return [];
+        }
+        return this.events
+            .filter((event) => event.transactionId === transactionId)
+            .map((event) => ({ ...event }));
+    }
+
+    async createNotification(notificationData: CreateNotificationData): Promise<NotificationRecord> {
+        const now = new Date();
+        const record: NotificationRecord = {
+            ...notificationData,
+            status: 'PENDING',
+            attempts: [],
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now,
         };
+        this.notifications.set(record.id, record);
+        return this.cloneNotification(record);
+    }
+
+    async findNotificationById(notificationId: string, merchantId?: string): Promise<NotificationRecord | null> {
+        const notification = this.notifications.get(notificationId);
+        if (!notification) {
+            return null;
+        }
+        if (!this.belongsTo(notification.transactionId, merchantId)) {
+            return null;
+        }
+        return this.cloneNotification(notification);
+    }
+
+    async findNotificationsByTransactionId(transactionId: string, merchantId?: string): Promise<NotificationRecord[]> {
+        if (!this.belongsTo(transactionId, merchantId)) {
+            return [];
+        }
+        return [...this.notifications.values()]
+            .filter((notification) => notification.transactionId === transactionId)
+            .map((notification) => this.cloneNotification(notification));
+    }
+
+    async findPendingNotifications(): Promise<NotificationRecord[]> {
+        return [...this.notifications.values()]
+            .filter((notification) => notification.status === 'PENDING')
+            .map((notification) => this.cloneNotification(notification));
+    }
+
+    async updateNotification(notificationId: string, fields: UpdateNotificationFields): Promise<NotificationRecord> {
+        const notification = this.notifications.get(notificationId);
+        if (!notification) {
+            throw new Error(`Notification not found: ${notificationId}`);
+        }
+
+        notification.updatedAt = new Date();
+
+        if (fields.status !== undefined) {
+            notification.status = fields.status;
+        }
+        if (fields.nextAttemptAt !== undefined) {
+            notification.nextAttemptAt = fields.nextAttemptAt;
+        }
+        if (fields.attempt !== undefined) {
+            notification.attempts.push({ ...fields.attempt });
+        }
+
+        return this.cloneNotification(notification);
+    }
+
+    async findPspOutboxEntry(outboxId: string): Promise<PspOutboxRecord | null> {
+        const entry = this.pspOutbox.get(outboxId);
+        return entry ? this.clonePspOutboxEntry(entry) : null;
+    }
+
+    async findPspOutboxEntryByTransactionId(transactionId: string): Promise<PspOutboxRecord | null> {
+        for (const entry of this.pspOutbox.values()) {
+            if (entry.transactionId === transactionId) {
+                return this.clonePspOutboxEntry(entry);
+            }
+        }
+        return null;
+    }
+
+    async findPendingPspOutboxEntries(): Promise<PspOutboxRecord[]> {
+        return [...this.pspOutbox.values()]
+            .filter((entry) => entry.status === 'PENDING' || entry.status === 'IN_FLIGHT')
+            .map((entry) => this.clonePspOutboxEntry(entry));
+    }
+
+    async claimPspOutboxEntry(outboxId: string, leaseMs: number): Promise<PspOutboxRecord | null> {
+        const entry = this.pspOutbox.get(outboxId);
+        const now = new Date();
+        const leaseExpired = entry?.status === 'IN_FLIGHT' && entry.leaseExpiresAt !== null && entry.leaseExpiresAt <= now;
+        if (!entry || (entry.status !== 'PENDING' && !leaseExpired)) {
+            return null;
+        }
+
+        entry.status = 'IN_FLIGHT';
+        entry.leaseExpiresAt = new Date(now.getTime() + leaseMs);
+        entry.updatedAt = now;
+        return this.clonePspOutboxEntry(entry);
+    }
+
+    async updatePspOutboxEntry(outboxId: string, fields: UpdatePspOutboxFields): Promise<PspOutboxRecord> {
+        const entry = this.pspOutbox.get(outboxId);
+        if (!entry) {
+            throw new Error(`PSP outbox entry not found: ${outboxId}`);
+        }
+
+        Object.assign(entry, Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)));
+        entry.updatedAt = new Date();
+        return this.clonePspOutboxEntry(entry);
+    }
+
+    async claimIdempotencyKey(merchantId: string, key: string, requestFingerprint: string, leaseMs: number): Promise<IdempotencyClaim> {
+        const now = new Date();
+        const leaseExpiresAt = new Date(now.getTime() + leaseMs);
+        const existing = this.idempotencyKeys.get(this.idempotencyMapKey(merchantId, key));
+        if (existing) {
+            const abandoned = existing.status === 'IN_PROGRESS'
+                && existing.leaseExpiresAt !== null
+                && existing.leaseExpiresAt <= now
+                && existing.requestFingerprint === requestFingerprint;
+            if (!abandoned) {
+                return { claimed: false, record: { ...existing } };
+            }
+            existing.leaseExpiresAt = leaseExpiresAt;
+            existing.updatedAt = now;
+            return { claimed: true, record: { ...existing } };
+        }
+
+        const record: IdempotencyRecord = {
+            merchantId,
+            key,
+            requestFingerprint,
+            status: 'IN_PROGRESS',
+            response: null,
+            leaseExpiresAt,
+            createdAt: now,
+            updatedAt: now,
+        };
+        this.idempotencyKeys.set(this.idempotencyMapKey(merchantId, key), record);
+        return { claimed: true, record: { ...record } };
+    }
+
+    async completeIdempotencyKey(merchantId: string, key: string, response: CreateTransactionResponse): Promise<void> {
+        const record = this.idempotencyKeys.get(this.idempotencyMapKey(merchantId, key));
+        if (record) {
+            record.status = 'COMPLETED';
+            record.response = { ...response };
+            record.leaseExpiresAt = null;
+            record.updatedAt = new Date();
+        }
+    }
+
+    async releaseIdempotencyKey(merchantId: string, key: string): Promise<void> {
+        this.idempotencyKeys.delete(this.idempotencyMapKey(merchantId, key));
     }
 
     /**
-     * Clears all stored transactions. Useful for test cleanup.
+     * Clears all stored transactions, refunds, events, notifications and idempotency keys. Useful for test cleanup.
      */
     clear(): void {
         this.transactions.clear();
+        this.lastReconciledAt.clear();
+        this.refunds.clear();
+        this.idempotencyKeys.clear();
+        this.events = [];
+        this.notifications.clear();
+        this.pspOutbox.clear();
+    }
+
+    /**
+     * Whether the transaction is visible to `merchantId`: always when no merchant is given.
+     */
+    private belongsTo(transactionId: string, merchantId?: string): boolean {
+        return merchantId === undefined || this.transactions.get(transactionId)?.merchantId === merchantId;
+    }
+
+    /**
+     * Idempotency keys are unique per merchant, mirroring the (merchant_id, key) primary key.
+     */
+    private idempotencyMapKey(merchantId: string, key: string): string {
+        return `${merchantId}:${key}`;
+    }
+
+    private clonePspOutboxEntry(entry: PspOutboxRecord): PspOutboxRecord {
+        return { ...entry, request: { ...entry.request } };
+    }
+
+    private cloneNotification(notification: NotificationRecord): NotificationRecord {
+        return {
+            ...notification,
+            attempts: notification.attempts.map((attempt) => ({ ...attempt })),
+        };
+    }
+
+    /**
+     * Appends an entry to the event history, mirroring the Postgres transaction_events table.
+     */
+    private recordEvent(
+        transactionId: string,
+        fromStatus: TransactionStatus | null,
+        toStatus: TransactionStatus,
+        event: TransactionEventInput,
+    ): void {
+        this.events.push({
+            id: String(this.nextEventId++),
+            transactionId,
+            fromStatus,
+            toStatus,
+            source: event.source,
+            actor: event.actor,
+            payload: event.payload ?? null,
+            createdAt: new Date(),
+        });
     }
 }
@@ -0,0 +1,58 @@
+/**
+ * A set of mutexes, one per key, created on first use and dropped once nobody holds or
+ * waits for them. Waiters are served in arrival order.
+ */
+export class KeyedMutex {
+    /** Keys currently held, with the grants of those waiting for them */
+    private waiters: Map<string, Array<() => void>> = new Map();
+
+    /**
+     * Waits until the key is free and takes it.
+     * @returns The function releasing the key, or null if it was not free within `timeoutMs`
+     */
+    async acquire(key: string, timeoutMs: number): Promise<(() => void) | null> {
+        const queue = this.waiters.get(key);
+        if (!queue) {
+            this.waiters.set(key, []);
+            return this.releaser(key);
+        }
+
+        return new Promise((resolve) => {
+            const grant = () => {
+                clearTimeout(timer);
+                resolve(this.releaser(key));
+            };
+            const timer = setTimeout(() => {
+                queue.splice(queue.indexOf(grant), 1);
+                resolve(null);
+            }, timeoutMs);
+
+            // A waiter gives up on its own, so its timeout need not hold the process open
+            if (timer && typeof timer === 'object' && 'unref' in timer) {
+                timer.unref();
+            }
+
+            queue.push(grant);
+        });
+    }
+
+    /**
+     * Hands the key to the next waiter, or frees it. Releasing twice is a no-op.
+     */
+    private releaser(key: string): () => void {
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+
+            const next = this.waiters.get(key)?.shift();
+            if (next) {
+                next();
+            } else {
+                this.waiters.delete(key);
+            }
+        };
+    }
+}
@@ -0,0 +1,48 @@
+import { Pool } from 'pg';
+import { CreateMerchantData, IMerchantRepository, MerchantRecord } from '../types/merchant';
+
+/**
+ * PostgreSQL-backed merchant repository.
+ */
+export class MerchantRepository implements IMerchantRepository {
+    private pool: Pool;
+
+    constructor(pool: Pool) {
+        this.pool = pool;
+    }
+
+    async create(merchantData: CreateMerchantData): Promise<MerchantRecord> {
+        const { id, name, apiKeyHash, callbackUrl, webhookSecret } = merchantData;
+        const result = await this.pool.query(
+            `INSERT INTO merchants (id, name, api_key_hash, callback_url, webhook_secret)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+            [id, name, apiKeyHash, callbackUrl, webhookSecret],
+        );
+        return this.mapRow(result.rows[0]);
+    }
+
+    async findById(merchantId: string): Promise<MerchantRecord | null> {
+        const result = await this.pool.query('SELECT * FROM merchants WHERE id = $1', [merchantId]);
+        return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+    }
+
+    async findByApiKeyHash(apiKeyHash: string): Promise<MerchantRecord | null> {
+        const result = await this.pool.query('SELECT * FROM merchants WHERE api_key_hash = $1', [apiKeyHash]);
+        return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Maps a merchants row to a MerchantRecord with camelCase keys.
+     */
+    private mapRow(row: Record<string, unknown>): MerchantRecord {
+        return {
+            id: row.id as string,
+            name: row.name as string,
+            apiKeyHash: row.api_key_hash as string | null,
+            callbackUrl: row.callback_url as string | null,
+            webhookSecret: row.webhook_secret as string | null,
+            createdAt: row.created_at as Date,
+        };
+    }
+}
@@ -0,0 +1,106 @@
+import { ClientBase } from 'pg';
+import { AppliedMigration, IMigrationRepository, Migration } from '../types/migration';
+
+/**
+ * Key of the session-level advisory lock held while migrations run, so two
+ * deploys starting at once never apply the same migration twice.
+ */
+const MIGRATION_LOCK_KEY = 7_073_705;
+
+/**
+ * PostgreSQL-backed migration repository. Works on a single client rather than a pool,
+ * since an advisory lock belongs to the session that took it.
+ *
+ * `onLockWait` is called when another process holds the migration lock, before waiting for it.
+ */
+export class MigrationRepository implements IMigrationRepository {
+    private client: ClientBase;
+    private onLockWait: () => void;
+
+    constructor(client: ClientBase, onLockWait: () => void = () => undefined) {
+        this.client = client;
+        this.onLockWait = onLockWait;
+    }
+
+    async ensureMigrationsTable(): Promise<void> {
+        await this.client.query(
+            `CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(32) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMPTZ(3) NOT NULL DEFAULT NOW()
+      )`,
+        );
+    }
+
+    async acquireLock(): Promise<void> {
+        const result = await this.client.query(
+            'SELECT pg_try_advisory_lock($1) AS locked',
+            [MIGRATION_LOCK_KEY],
+        );
+        if (result.rows[0].locked) {
+            return;
+        }
+
+        this.onLockWait();
+        await this.client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    }
+
+    async releaseLock(): Promise<void> {
+        await this.client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+
+    async listApplied(): Promise<AppliedMigration[]> {
+        const result = await this.client.query('SELECT * FROM schema_migrations ORDER BY version::BIGINT ASC');
+        return result.rows.map((row) => this.mapRow(row));
+    }
+
+    async apply(migration: Migration): Promise<void> {
+        await this.inTransaction(async () => {
+            await this.client.query(migration.upSql);
+            await this.client.query(
+                'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+                [migration.version, migration.name, migration.checksum],
+            );
+        });
+    }
+
+    async revert(migration: Migration): Promise<void> {
+        if (migration.downSql === null) {
+            throw new Error(`Migration ${migration.version}_${migration.name} has no down migration`);
+        }
+
+        const downSql = migration.downSql;
+        await this.inTransaction(async () => {
+            await this.client.query(downSql);
+            await this.client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+    }
+
+    /**
+     * Runs the given statements in one database transaction, so a failing migration
+     * leaves neither half its changes nor a record of having been applied.
+     */
+    private async inTransaction(work: () => Promise<void>): Promise<void> {
+        await this.client.query('BEGIN');
+        try {
+            await work();
+            await this.client.query('COMMIT');
+        } catch (error) {
+            await this.client.query('ROLLBACK');
+            throw error;
+        }
+    }
+
+    /**
+     * Maps a schema_migrations row to an AppliedMigration with camelCase keys.
+     */
+    private mapRow(row: Record<string, unknown>): AppliedMigration {
+        return {
+            version: row.version as string,
+            name: row.name as string,
+            checksum: row.checksum as string,
+            appliedAt: row.applied_at as Date,
+        };
+    }
+}
@@ -1,68 +1,688 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { TransactionStatus } from '../enums/transactionStatus';
+import { REFUND_STATUSES, RefundStatus } from '../enums/refundStatus';
+import { CardBrand } from '../enums/cardBrand';
+import { EVENT_SOURCES, TransactionEventSource } from '../enums/transactionEventSource';
+import { NotificationStatus } from '../enums/notificationStatus';
+import { PspOutboxStatus } from '../enums/pspOutboxStatus';
+import { TransactionConflictError } from '../domain/optimisticConcurrency';
+import { TransactionLockTimeoutError, TransactionUnitTimeoutError } from '../domain/transactionLocking';
 import {
     ITransactionRepository,
     TransactionRecord,
     CreateTransactionData,
     UpdateExtraFields,
+    RefundRecord,
+    CreateRefundData,
+    UpdateRefundFields,
+    CreateTransactionResponse,
+    IdempotencyClaim,
+    IdempotencyRecord,
+    IdempotencyKeyStatus,
+    TransactionListQuery,
+    TransactionPage,
+    TransactionSortField,
+    TransactionEventInput,
+    TransactionEventRecord,
+    CreateNotificationData,
+    MerchantEvent,
+    MerchantEventType,
+    NotificationAttempt,
+    NotificationRecord,
+    UpdateNotificationFields,
+    CreatePspOutboxData,
+    PspOutboxRecord,
+    PspOutboxRequest,
+    UpdatePspOutboxFields,
+    TransactionLockKey,
+    TransactionUnitOfWork,
 } from '../types/transaction';
 
+/**
+ * Column backing each sortable field.
+ */
+const SORT_COLUMNS: Record<TransactionSortField, string> = {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    amount: 'amount',
+};
+
+/**
+ * Anything that can run a query: the pool itself, or a client checked out for a DB transaction.
+ */
+type Queryable = Pool | PoolClient;
+
+/**
+ * How often a claim is retried when the key keeps being released between the claim and the read.
+ */
+const MAX_IDEMPOTENCY_CLAIM_ATTEMPTS = 3;
+
+/**
+ * SQLSTATE raised when `lock_timeout` expires while waiting for a row lock.
+ */
+const LOCK_NOT_AVAILABLE = '55P03';
+
+/**
+ * Attribution for status changes made without an explicit event.
+ */
+const DEFAULT_EVENT: TransactionEventInput = { source: EVENT_SOURCES.API, actor: null };
+
 /**
  * PostgreSQL-backed transaction repository.
  * Handles all database operations for transactions.
  */
 export class TransactionRepository implements ITransactionRepository {
     private pool: Pool;
+    private lockTimeoutMs: number;
+    private unitTimeoutMs: number;
 
-    constructor(pool: Pool) {
+    constructor(pool: Pool, options: { lockTimeoutMs?: number; unitTimeoutMs?: number } = {}) {
         this.pool = pool;
+        this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+        this.unitTimeoutMs = options.unitTimeoutMs ?? 30000;
+    }
+
+    /**
+     * Persists a new transaction record together with its creation event and, when given,
+     * its PSP outbox entry, so a request is never recorded without its transaction or vice versa.
+     */
+    async create(
+        transactionData: CreateTransactionData,
+        event: TransactionEventInput = DEFAULT_EVENT,
+        pspRequest?: CreatePspOutboxData,
+    ): Promise<TransactionRecord> {
+        const {
+            id, merchantId, orderId, amount, currency, cardToken, cardBin, cardLast4, cardBrand, maskedCardNumber, notificationUrl,
+            provider, status, settlementCurrency, settlementAmount, fxRate, fxRateTimestamp,
+        } = transactionData;
+
+        return this.runInTransaction(async (client) => {
+            const result = await client.query(
+                `INSERT INTO transactions
+         (id, merchant_id, order_id, amount, currency, card_token, card_bin, card_last4, card_brand, masked_card_number,
+          notification_url, provider, status, settlement_currency, settlement_amount, fx_rate, fx_rate_timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+       RETURNING *`,
+                [
+                    id, merchantId, orderId, amount, currency, cardToken, cardBin, cardLast4, cardBrand, maskedCardNumber,
+                    notificationUrl, provider, status, settlementCurrency ?? null, settlementAmount ?? null, fxRate ?? null,
+                    fxRateTimestamp ?? null,
+                ],
+            );
+            await this.insertEvent(client, id, null, status, event);
+            if (pspRequest) {
+                await client.query(
+                    `INSERT INTO psp_outbox (id, transaction_id, request, encrypted_card, status, next_attempt_at)
+       VALUES ($1, $2, $3, $4, 'PENDING', NOW())`,
+                    [pspRequest.id, id, JSON.stringify(pspRequest.request), pspRequest.encryptedCard],
+                );
+            }
+            return this.mapRow(result.rows[0]);
+        });
+    }
+
+    /**
+     * Finds a transaction by its internal UUID, optionally only if it belongs to the given merchant.
+     */
+    async findById(transactionId: string, merchantId?: string): Promise<TransactionRecord | null> {
+        const result = merchantId === undefined
+            ? await this.pool.query('SELECT * FROM transactions WHERE id = $1', [transactionId])
+            : await this.pool.query('SELECT * FROM transactions WHERE id = $1 AND merchant_id = $2', [transactionId, merchantId]);
+        return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Finds a transaction by its PSP-assigned transaction ID.
+     */
+    async findByPspTransactionId(pspTransactionId: string, merchantId?: string): Promise<TransactionRecord | null> {
+        const result = merchantId === undefined
+            ? await this.pool.query('SELECT * FROM transactions WHERE psp_transaction_id = $1', [pspTransactionId])
+            : await this.pool.query(
+                'SELECT * FROM transactions WHERE psp_transaction_id = $1 AND merchant_id = $2',
+                [pspTransactionId, merchantId],
+            );
+        return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Updates the transaction status and optional extra fields, recording the change as an event.
+     * With `expectedVersion`, only applies if the row is still at that version.
+     */
+    async updateStatus(
+        transactionId: string,
+        status: TransactionStatus,
+        extraFields: UpdateExtraFields = {},
+        event: TransactionEventInput = DEFAULT_EVENT,
+        expectedVersion?: number,
+    ): Promise<TransactionRecord> {
+        return this.runInTransaction(
+            (client) => this.applyStatusUpdate(client, transactionId, status, extraFields, event, expectedVersion),
+        );
+    }
+
+    /**
+     * Lists transactions with optional filters and keyset pagination.
+     * Fetches one extra row to determine whether another page follows.
+     */
+    async list(query: TransactionListQuery): Promise<TransactionPage> {
+        const conditions: string[] = [];
+        const values: (string | number | Date)[] = [];
+
+        const addCondition = (clause: (placeholder: string) => string, value: string | number | Date) => {
+            values.push(value);
+            conditions.push(clause(`$${values.length}`));
+        };
+
+        if (query.merchantId !== undefined) {
+            addCondition((placeholder) => `merchant_id = ${placeholder}`, query.merchantId);
+        }
+        if (query.status !== undefined) {
+            addCondition((placeholder) => `status = ${placeholder}`, query.status);
+        }
+        if (query.orderId !== undefined) {
+            addCondition((placeholder) => `order_id = ${placeholder}`, query.orderId);
+        }
+        if (query.currency !== undefined) {
+            addCondition((placeholder) => `currency = ${placeholder}`, query.currency);
+        }
+        if (query.pspTransactionId !== undefined) {
+            addCondition((placeholder) => `psp_transaction_id = ${placeholder}`, query.pspTransactionId);
+        }
+        if (query.createdFrom !== undefined) {
+            addCondition((placeholder) => `created_at >= ${placeholder}`, query.createdFrom);
+        }
+        if (query.createdTo !== undefined) {
+            addCondition((placeholder) => `created_at < ${placeholder}`, query.createdTo);
+        }
+
+        const sortColumn = SORT_COLUMNS[query.sortBy];
+        const direction = query.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+        if (query.after) {
+            const comparator = query.sortOrder === 'asc' ? '>' : '<';
+            const cursorValue = query.sortBy === 'amount' ? query.after.value : new Date(query.after.value);
+            values.push(cursorValue, query.after.id);
+            conditions.push(`(${sortColumn}, id) ${comparator} ($${values.length - 1}, $${values.length})`);
+        }
+
+        values.push(query.limit + 1);
+        const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const result = await this.pool.query(
+            `SELECT * FROM transactions ${whereClause}
+       ORDER BY ${sortColumn} ${direction}, id ${direction}
+       LIMIT $${values.length}`,
+            values,
+        );
+
+        const rows = result.rows.map((row) => this.mapRow(row));
+        return {
+            items: rows.slice(0, query.limit),
+            hasMore: rows.length > query.limit,
+        };
     }
 
     /**
-     * Persists a new transaction record.
+     * Finds transactions stuck in one of the given statuses since before `updatedBefore`.
      */
-    async create(transactionData: CreateTransactionData): Promise<TransactionRecord> {
-        const { id, orderId, amount, currency, cardNumber, status } = transactionData;
+    async findStaleTransactions(statuses: TransactionStatus[], updatedBefore: Date, limit: number): Promise<TransactionRecord[]> {
         const result = await this.pool.query(
-            `INSERT INTO transactions (id, order_id, amount, currency, card_number, status)
-       VALUES ($1, $2, $3, $4, $5, $6)
+            `SELECT * FROM transactions
+       WHERE status = ANY($1) AND updated_at < $2
+       ORDER BY last_reconciled_at ASC NULLS FIRST, updated_at ASC
+       LIMIT $3`,
+            [statuses, updatedBefore, limit],
+        );
+        return result.rows.map((row) => this.mapRow(row));
+    }
+
+    /**
+     * Stamps a transaction as checked by the reconciler.
+     */
+    async markReconciled(transactionId: string, reconciledAt: Date): Promise<void> {
+        await this.pool.query('UPDATE transactions SET last_reconciled_at = $2 WHERE id = $1', [transactionId, reconciledAt]);
+    }
+
+    async findStaleRefunds(createdBefore: Date, limit: number): Promise<RefundRecord[]> {
+        const result = await this.pool.query(
+            `SELECT * FROM refunds
+       WHERE status = $1 AND psp_refund_id IS NULL AND created_at < $2
+       ORDER BY created_at ASC
+       LIMIT $3`,
+            [REFUND_STATUSES.PENDING, createdBefore, limit],
+        );
+        return result.rows.map((row) => this.mapRefundRow(row));
+    }
+
+    /**
+     * Runs `work` under the transaction's row lock (SELECT ... FOR UPDATE) in one database
+     * transaction, committing when it resolves and rolling back when it throws. Waiting for
+     * the lock is bounded by `lock_timeout`, so requests cannot pile up behind a stuck holder,
+     * and the whole unit by `unitTimeoutMs`, so a hung unit cannot keep the row locked.
+     */
+    async withTransaction<T>(key: TransactionLockKey, work: (unit: TransactionUnitOfWork) => Promise<T>): Promise<T> {
+        const deadline = { timeoutMs: this.unitTimeoutMs, error: () => new TransactionUnitTimeoutError(key, this.unitTimeoutMs) };
+        return this.runInTransaction(async (client) => {
+            const unit: TransactionUnitOfWork = {
+                transaction: await this.lockRow(client, key),
+                reload: async () => {
+                    if (unit.transaction) {
+                        const result = await client.query('SELECT * FROM transactions WHERE id = $1', [unit.transaction.id]);
+                        unit.transaction = result.rows[0] ? this.mapRow(result.rows[0]) : null;
+                    }
+                    return unit.transaction;
+                },
+                updateStatus: async (
+                    status: TransactionStatus,
+                    extraFields: UpdateExtraFields = {},
+                    event: TransactionEventInput = DEFAULT_EVENT,
+                ) => {
+                    if (!unit.transaction) {
+                        throw new Error('Cannot update: transaction not found');
+                    }
+                    unit.transaction = await this.applyStatusUpdate(
+                        client, unit.transaction.id, status, extraFields, event, unit.transaction.version,
+                    );
+                    return unit.transaction;
+                },
+                findRefunds: async () => {
+                    if (!unit.transaction) {
+                        return [];
+                    }
+                    return this.selectRefundsByTransactionId(client, unit.transaction.id);
+                },
+                createRefund: async (refundData: CreateRefundData) => {
+                    const { id, transactionId, amount, status } = refundData;
+                    // The lock only covers the locked row's refunds
+                    if (!unit.transaction || transactionId !== unit.transaction.id) {
+                        throw new Error('Cannot create a refund for another transaction than the locked one');
+                    }
+                    const insertResult = await client.query(
+                        `INSERT INTO refunds (id, transaction_id, amount, status)
+       VALUES ($1, $2, $3, $4)
        RETURNING *`,
-            [id, orderId, amount, currency, cardNumber, status],
+                        [id, transactionId, amount, status],
+                    );
+                    return this.mapRefundRow(insertResult.rows[0]);
+                },
+                updateRefund: async (refundId: string, fields: UpdateRefundFields) => {
+                    return this.applyRefundUpdate(client, refundId, fields);
+                },
+            };
+            return work(unit);
+        }, deadline);
+    }
+
+    /**
+     * Finds a refund by its internal UUID.
+     */
+    async findRefundById(refundId: string, merchantId?: string): Promise<RefundRecord | null> {
+        const result = merchantId === undefined
+            ? await this.pool.query('SELECT * FROM refunds WHERE id = $1', [refundId])
+            : await this.pool.query(
+                `SELECT refunds.* FROM refunds
+       JOIN transactions ON transactions.id = refunds.transaction_id
+       WHERE refunds.id = $1 AND transactions.merchant_id = $2`,
+                [refundId, merchantId],
+            );
+        return result.rows[0] ? this.mapRefundRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Lists all refunds issued against a transaction, oldest first.
+     */
+    async findRefundsByTransactionId(transactionId: string, merchantId?: string): Promise<RefundRecord[]> {
+        if (merchantId === undefined) {
+            return this.selectRefundsByTransactionId(this.pool, transactionId);
+        }
+        const result = await this.pool.query(
+            `SELECT refunds.* FROM refunds
+       JOIN transactions ON transactions.id = refunds.transaction_id
+       WHERE refunds.transaction_id = $1 AND transactions.merchant_id = $2
+       ORDER BY refunds.created_at ASC`,
+            [transactionId, merchantId],
         );
-        return this.mapRow(result.rows[0]);
+        return result.rows.map((row) => this.mapRefundRow(row));
     }
 
     /**
-     * Finds a transaction by its internal UUID.
+     * Updates a refund's status and/or PSP refund ID.
      */
-    async findById(transactionId: string): Promise<TransactionRecord | null> {
+    async updateRefund(refundId: string, fields: UpdateRefundFields): Promise<RefundRecord> {
+        return this.applyRefundUpdate(this.pool, refundId, fields);
+    }
+
+    /**
+     * Lists a transaction's status history, oldest first.
+     */
+    async findEventsByTransactionId(transactionId: string, merchantId?: string): Promise<TransactionEventRecord[]> {
+        const result = merchantId === undefined
+            ? await this.pool.query('SELECT * FROM transaction_events WHERE transaction_id = $1 ORDER BY id ASC', [transactionId])
+            : await this.pool.query(
+                `SELECT transaction_events.* FROM transaction_events
+       JOIN transactions ON transactions.id = transaction_events.transaction_id
+       WHERE transaction_events.transaction_id = $1 AND transactions.merchant_id = $2
+       ORDER BY transaction_events.id ASC`,
+                [transactionId, merchantId],
+            );
+        return result.rows.map((row) => this.mapEventRow(row));
+    }
+
+    /**
+     * Queues a merchant notification with an empty delivery log.
+     */
+    async createNotification(notificationData: CreateNotificationData): Promise<NotificationRecord> {
+        const { id, transactionId, eventType, url, payload } = notificationData;
         const result = await this.pool.query(
-            'SELECT * FROM transactions WHERE id = $1',
-            [transactionId],
+            `INSERT INTO merchant_notifications (id, transaction_id, event_type, url, payload, status, next_attempt_at)
+       VALUES ($1, $2, $3, $4, $5, 'PENDING', NOW())
+       RETURNING *`,
+            [id, transactionId, eventType, url, JSON.stringify(payload)],
         );
-        return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+        return this.mapNotificationRow(result.rows[0]);
     }
 
     /**
-     * Finds a transaction by its PSP-assigned transaction ID.
+     * Finds a merchant notification by its ID, optionally only if its transaction belongs to the given merchant.
+     */
+    async findNotificationById(notificationId: string, merchantId?: string): Promise<NotificationRecord | null> {
+        const result = merchantId === undefined
+            ? await this.pool.query('SELECT * FROM merchant_notifications WHERE id = $1', [notificationId])
+            : await this.pool.query(
+                `SELECT merchant_notifications.* FROM merchant_notifications
+       JOIN transactions ON transactions.id = merchant_notifications.transaction_id
+       WHERE merchant_notifications.id = $1 AND transactions.merchant_id = $2`,
+                [notificationId, merchantId],
+            );
+        return result.rows[0] ? this.mapNotificationRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Lists the notifications sent for a transaction, oldest first.
      */
-    async findByPspTransactionId(pspTransactionId: string): Promise<TransactionRecord | null> {
+    async findNotificationsByTransactionId(transactionId: string, merchantId?: string): Promise<NotificationRecord[]> {
+        const result = merchantId === undefined
+            ? await this.pool.query(
+                'SELECT * FROM merchant_notifications WHERE transaction_id = $1 ORDER BY created_at ASC',
+                [transactionId],
+            )
+            : await this.pool.query(
+                `SELECT merchant_notifications.* FROM merchant_notifications
+       JOIN transactions ON transactions.id = merchant_notifications.transaction_id
+       WHERE merchant_notifications.transaction_id = $1 AND transactions.merchant_id = $2
+       ORDER BY merchant_notifications.created_at ASC`,
+                [transactionId, merchantId],
+            );
+        return result.rows.map((row) => this.mapNotificationRow(row));
+    }
+
+    /**
+     * Lists notifications still awaiting delivery, oldest first.
+     */
+    async findPendingNotifications(): Promise<NotificationRecord[]> {
         const result = await this.pool.query(
-            'SELECT * FROM transactions WHERE psp_transaction_id = $1',
-            [pspTransactionId],
+            `SELECT * FROM merchant_notifications WHERE status = 'PENDING' ORDER BY created_at ASC`,
         );
-        return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+        return result.rows.map((row) => this.mapNotificationRow(row));
     }
 
     /**
-     * Updates the transaction status and optional extra fields.
+     * Updates a notification's status and next attempt time, appending an attempt to its log.
      */
-    async updateStatus(
+    async updateNotification(notificationId: string, fields: UpdateNotificationFields): Promise<NotificationRecord> {
+        const setClauses = ['updated_at = NOW()'];
+        const values: (string | Date | null)[] = [notificationId];
+        let parameterIndex = 2;
+
+        if (fields.status !== undefined) {
+            setClauses.push(`status = $${parameterIndex}`);
+            values.push(fields.status);
+            parameterIndex++;
+        }
+
+        if (fields.nextAttemptAt !== undefined) {
+            setClauses.push(`next_attempt_at = $${parameterIndex}`);
+            values.push(fields.nextAttemptAt);
+            parameterIndex++;
+        }
+
+        if (fields.attempt !== undefined) {
+            setClauses.push(`attempts = attempts || $${parameterIndex}::jsonb`);
+            values.push(JSON.stringify([fields.attempt]));
+            parameterIndex++;
+        }
+
+        const result = await this.pool.query(
+            `UPDATE merchant_notifications SET ${setClauses.join(', ')} WHERE id = $1 RETURNING *`,
+            values,
+        );
+        if (!result.rows[0]) {
+            throw new Error(`Notification not found: ${notificationId}`);
+        }
+        return this.mapNotificationRow(result.rows[0]);
+    }
+
+    /**
+     * Finds a PSP outbox entry by its ID.
+     */
+    async findPspOutboxEntry(outboxId: string): Promise<PspOutboxRecord | null> {
+        const result = await this.pool.query('SELECT * FROM psp_outbox WHERE id = $1', [outboxId]);
+        return result.rows[0] ? this.mapPspOutboxRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Finds the PSP outbox entry of a transaction.
+     */
+    async findPspOutboxEntryByTransactionId(transactionId: string): Promise<PspOutboxRecord | null> {
+        const result = await this.pool.query('SELECT * FROM psp_outbox WHERE transaction_id = $1', [transactionId]);
+        return result.rows[0] ? this.mapPspOutboxRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Lists PSP requests not answered yet, oldest first.
+     */
+    async findPendingPspOutboxEntries(): Promise<PspOutboxRecord[]> {
+        const result = await this.pool.query(
+            `SELECT * FROM psp_outbox WHERE status IN ('PENDING', 'IN_FLIGHT') ORDER BY created_at ASC`,
+        );
+        return result.rows.map((row) => this.mapPspOutboxRow(row));
+    }
+
+    /**
+     * Claims a PSP outbox entry with a conditional UPDATE, so exactly one concurrent worker gets it.
+     */
+    async claimPspOutboxEntry(outboxId: string, leaseMs: number): Promise<PspOutboxRecord | null> {
+        const result = await this.pool.query(
+            `UPDATE psp_outbox
+       SET status = 'IN_FLIGHT', lease_expires_at = NOW() + $2 * INTERVAL '1 millisecond', updated_at = NOW()
+       WHERE id = $1 AND (status = 'PENDING' OR (status = 'IN_FLIGHT' AND lease_expires_at <= NOW()))
+       RETURNING *`,
+            [outboxId, leaseMs],
+        );
+        return result.rows[0] ? this.mapPspOutboxRow(result.rows[0]) : null;
+    }
+
+    /**
+     * Records an attempt to send a PSP outbox entry.
+     */
+    async updatePspOutboxEntry(outboxId: string, fields: UpdatePspOutboxFields): Promise<PspOutboxRecord> {
+        const setClauses = ['updated_at = NOW()'];
+        const values: (string | number | Date | null)[] = [outboxId];
+        let parameterIndex = 2;
+
+        if (fields.status !== undefined) {
+            setClauses.push(`status = $${parameterIndex}`);
+            values.push(fields.status);
+            parameterIndex++;
+        }
+
+        if (fields.attempts !== undefined) {
+            setClauses.push(`attempts = $${parameterIndex}`);
+            values.push(fields.attempts);
+            parameterIndex++;
+        }
+
+        if (fields.lastError !== undefined) {
+            setClauses.push(`last_error = $${parameterIndex}`);
+            values.push(fields.lastError);
+            parameterIndex++;
+        }
+
+        if (fields.nextAttemptAt !== undefined) {
+            setClauses.push(`next_attempt_at = $${parameterIndex}`);
+            values.push(fields.nextAttemptAt);
+            parameterIndex++;
+        }
+
+        if (fields.leaseExpiresAt !== undefined) {
+            setClauses.push('lease_expires_at = NULL');
+        }
+
+        if (fields.sentTo !== undefined) {
+            setClauses.push(`sent_to = $${parameterIndex}`);
+            values.push(fields.sentTo);
+            parameterIndex++;
+        }
+
+        if (fields.encryptedCard !== undefined) {
+            setClauses.push('encrypted_card = NULL');
+        }
+
+        const result = await this.pool.query(
+            `UPDATE psp_outbox SET ${setClauses.join(', ')} WHERE id = $1 RETURNING *`,
+            values,
+        );
+        if (!result.rows[0]) {
+            throw new Error(`PSP outbox entry not found: ${outboxId}`);
+        }
+        return this.mapPspOutboxRow(result.rows[0]);
+    }
+
+    /**
+     * Claims an idempotency key using INSERT ... ON CONFLICT, so exactly one concurrent request
+     * wins; the conflicting row is only taken over when its lease has expired. Losers get the
+     * existing record back.
+     */
+    async claimIdempotencyKey(merchantId: string, key: string, requestFingerprint: string, leaseMs: number): Promise<IdempotencyClaim> {
+        for (let attempt = 1; attempt <= MAX_IDEMPOTENCY_CLAIM_ATTEMPTS; attempt++) {
+            const claimResult = await this.pool.query(
+                `INSERT INTO idempotency_keys (merchant_id, key, request_fingerprint, status, lease_expires_at)
+       VALUES ($1, $2, $3, 'IN_PROGRESS', NOW() + $4 * INTERVAL '1 millisecond')
+       ON CONFLICT (merchant_id, key) DO UPDATE
+       SET lease_expires_at = EXCLUDED.lease_expires_at, updated_at = NOW()
+       WHERE idempotency_keys.status = 'IN_PROGRESS'
+         AND idempotency_keys.lease_expires_at <= NOW()
+         AND idempotency_keys.request_fingerprint = EXCLUDED.request_fingerprint
+       RETURNING *`,
+                [merchantId, key, requestFingerprint, leaseMs],
+            );
+            if (claimResult.rows[0]) {
+                return { claimed: true, record: this.mapIdempotencyRow(claimResult.rows[0]) };
+            }
+
+            const existingResult = await this.pool.query(
+                'SELECT * FROM idempotency_keys WHERE merchant_id = $1 AND key = $2',
+                [merchantId, key],
+            );
+            if (existingResult.rows[0]) {
+                return { claimed: false, record: this.mapIdempotencyRow(existingResult.rows[0]) };
+            }
+            // The holder released the key between our INSERT and SELECT — try again
+        }
+        throw new Error(`Idempotency key ${key} kept being released while claiming it`);
+    }
+
+    /**
+     * Stores the response for a claimed idempotency key so later replays can return it.
+     */
+    async completeIdempotencyKey(merchantId: string, key: string, response: CreateTransactionResponse): Promise<void> {
+        await this.pool.query(
+            `UPDATE idempotency_keys
+       SET status = 'COMPLETED', response_body = $3, lease_expires_at = NULL, updated_at = NOW()
+       WHERE merchant_id = $1 AND key = $2`,
+            [merchantId, key, JSON.stringify(response)],
+        );
+    }
+
+    /**
+     * Deletes a claimed idempotency key so the request can be retried.
+     */
+    async releaseIdempotencyKey(merchantId: string, key: string): Promise<void> {
+        await this.pool.query('DELETE FROM idempotency_keys WHERE merchant_id = $1 AND key = $2', [merchantId, key]);
+    }
+
+    /**
+     * Runs the given work on a dedicated client inside BEGIN/COMMIT, rolling back on error.
+     * Work still running at the optional deadline fails with its error; its connection is closed
+     * rather than returned to the pool, which makes the server roll the transaction back.
+     */
+    private async runInTransaction<T>(
+        work: (client: PoolClient) => Promise<T>,
+        deadline?: { timeoutMs: number; error: () => Error },
+    ): Promise<T> {
+        const client = await this.pool.connect();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let timedOut = false;
+        try {
+            await client.query('BEGIN');
+            const result = deadline
+                ? await Promise.race([
+                    work(client),
+                    new Promise<never>((_, reject) => {
+                        timer = setTimeout(() => {
+                            timedOut = true;
+                            reject(deadline.error());
+                        }, deadline.timeoutMs);
+                    }),
+                ])
+                : await work(client);
+            await client.query('COMMIT');
+            return result;
+        } catch (error) {
+            // The work may still be using the client, so a ROLLBACK would queue behind it
+            if (!timedOut) {
+                await client.query('ROLLBACK');
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            client.release(timedOut);
+        }
+    }
+
+    /**
+     * Locks the transaction row matching the key for the rest of the database transaction.
+     * @returns The locked transaction, or null if no row matches
+     * @throws TransactionLockTimeoutError if the row stays locked by another transaction for longer than the lock timeout
+     */
+    private async lockRow(client: PoolClient, key: TransactionLockKey): Promise<TransactionRecord | null> {
+        const [column, value] = 'id' in key ? ['id', key.id] : ['psp_transaction_id', key.pspTransactionId];
+        await client.query(`SELECT set_config('lock_timeout', $1, true)`, [`${this.lockTimeoutMs}ms`]);
+
+        try {
+            const result = await client.query(`SELECT * FROM transactions WHERE ${column} = $1 FOR UPDATE`, [value]);
+            return result.rows[0] ? this.mapRow(result.rows[0]) : null;
+        } catch (error) {
+            if ((error as { code?: string }).code === LOCK_NOT_AVAILABLE) {
+                throw new TransactionLockTimeoutError(key, this.lockTimeoutMs);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Builds and runs the UPDATE statement shared by the pooled and locked status updates,
+     * then records the transition. The executor must be inside a database transaction.
+     */
+    private async applyStatusUpdate(
+        executor: Queryable,
         transactionId: string,
         status: TransactionStatus,
-        extraFields: UpdateExtraFields = {},
+        extraFields: UpdateExtraFields,
+        event: TransactionEventInput,
+        expectedVersion?: number,
     ): Promise<TransactionRecord> {
-        const setClauses = ['status = $2', 'updated_at = NOW()'];
+        const setClauses = ['status = $2', 'updated_at = NOW()', 'version = transactions.version + 1'];
         const values: (string | number)[] = [transactionId, status];
         let parameterIndex = 3;
 
@@ -78,73 +698,127 @@ export class TransactionRepository implements ITransactionRepository {
             parameterIndex++;
         }
 
-        const result = await this.pool.query(
-            `UPDATE transactions SET ${setClauses.join(', ')} WHERE id = $1 RETURNING *`,
+        if (extraFields.finalSettlementAmount !== undefined) {
+            setClauses.push(`final_settlement_amount = $${parameterIndex}`);
+            values.push(extraFields.finalSettlementAmount);
+            parameterIndex++;
+        }
+
+        if (extraFields.declineCode !== undefined) {
+            setClauses.push(`decline_code = $${parameterIndex}`);
+            values.push(extraFields.declineCode);
+            parameterIndex++;
+        }
+
+        if (extraFields.declineMessage !== undefined) {
+            setClauses.push(`decline_message = $${parameterIndex}`);
+            values.push(extraFields.declineMessage);
+            parameterIndex++;
+        }
+
+        if (extraFields.threeDsRedirectUrl !== undefined) {
+            setClauses.push(`three_ds_redirect_url = $${parameterIndex}`);
+            values.push(extraFields.threeDsRedirectUrl);
+            parameterIndex++;
+        }
+
+        if (extraFields.provider !== undefined) {
+            setClauses.push(`provider = $${parameterIndex}`);
+            values.push(extraFields.provider);
+            parameterIndex++;
+        }
+
+        let versionCondition = '';
+        if (expectedVersion !== undefined) {
+            versionCondition = ` AND previous.previous_version = $${parameterIndex}`;
+            values.push(expectedVersion);
+        }
+
+        // The subquery reads (and locks) the row before the update, giving us the previous status
+        const result = await executor.query(
+            `UPDATE transactions SET ${setClauses.join(', ')}
+       FROM (SELECT id, status AS previous_status, version AS previous_version FROM transactions WHERE id = $1 FOR UPDATE) previous
+       WHERE transactions.id = previous.id${versionCondition}
+       RETURNING transactions.*, previous.previous_status`,
             values,
         );
-        return this.mapRow(result.rows[0]);
+        if (!result.rows[0]) {
+            const current = await executor.query('SELECT version FROM transactions WHERE id = $1', [transactionId]);
+            if (current.rows[0] && expectedVersion !== undefined) {
+                throw new TransactionConflictError(transactionId, expectedVersion, current.rows[0].version as number);
+            }
+            throw new Error(`Transaction not found: ${transactionId}`);
+        }
+
+        const row = result.rows[0];
+        await this.insertEvent(executor, transactionId, row.previous_status as TransactionStatus, status, event);
+        return this.mapRow(row);
     }
 
     /**
-     * Atomically finds a transaction by PSP ID with a row lock (SELECT ... FOR UPDATE)
-     * inside a database transaction. Returns the locked transaction along with
-     * scoped updateStatus, commit, and rollback functions.
+     * Appends an entry to a transaction's event history.
      */
-    async findAndLockByPspTransactionId(pspTransactionId: string) {
-        const client = await this.pool.connect();
-        await client.query('BEGIN');
-
-        try {
-            const result = await client.query(
-                'SELECT * FROM transactions WHERE psp_transaction_id = $1 FOR UPDATE',
-                [pspTransactionId],
-            );
-
-            const transaction = result.rows[0] ? this.mapRow(result.rows[0]) : null;
-
-            return {
-                transaction,
-                updateStatus: async (status: TransactionStatus, extraFields: UpdateExtraFields = {}) => {
-                    if (!transaction) {
-                        throw new Error('Cannot update: transaction not found');
-                    }
+    private async insertEvent(
+        executor: Queryable,
+        transactionId: string,
+        fromStatus: TransactionStatus | null,
+        toStatus: TransactionStatus,
+        event: TransactionEventInput,
+    ): Promise<void> {
+        await executor.query(
+            `INSERT INTO transaction_events (transaction_id, from_status, to_status, source, actor, payload)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+            [
+                transactionId,
+                fromStatus,
+                toStatus,
+                event.source,
+                event.actor,
+                event.payload ? JSON.stringify(event.payload) : null,
+            ],
+        );
+    }
 
-                    const setClauses = ['status = $2', 'updated_at = NOW()'];
-                    const values: (string | number)[] = [transaction.id, status];
-                    let parameterIndex = 3;
+    /**
+     * Builds and runs the UPDATE statement shared by the pooled and locked refund updates.
+     */
+    private async applyRefundUpdate(
+        executor: Queryable,
+        refundId: string,
+        fields: UpdateRefundFields,
+    ): Promise<RefundRecord> {
+        const setClauses = ['updated_at = NOW()'];
+        const values: string[] = [refundId];
+        let parameterIndex = 2;
 
-                    if (extraFields.pspTransactionId !== undefined) {
-                        setClauses.push(`psp_transaction_id = $${parameterIndex}`);
-                        values.push(extraFields.pspTransactionId);
-                        parameterIndex++;
-                    }
+        if (fields.status !== undefined) {
+            setClauses.push(`status = $${parameterIndex}`);
+            values.push(fields.status);
+            parameterIndex++;
+        }
 
-                    if (extraFields.finalAmount !== undefined) {
-                        setClauses.push(`final_amount = $${parameterIndex}`);
-                        values.push(extraFields.finalAmount);
-                        parameterIndex++;
-                    }
+        if (fields.pspRefundId !== undefined) {
+            setClauses.push(`psp_refund_id = $${parameterIndex}`);
+            values.push(fields.pspRefundId);
+            parameterIndex++;
+        }
 
-                    const updateResult = await client.query(
-                        `UPDATE transactions SET ${setClauses.join(', ')} WHERE id = $1 RETURNING *`,
-                        values,
-                    );
-                    return this.mapRow(updateResult.rows[0]);
-                },
-                commit: async () => {
-                    await client.query('COMMIT');
-                    client.release();
-                },
-                rollback: async () => {
-                    await client.query('ROLLBACK');
-                    client.release();
-                },
-            };
-        } catch (error) {
-            await client.query('ROLLBACK');
-            client.release();
-            throw error;
+        const result = await executor.query(
+            `UPDATE refunds SET ${setClauses.join(', ')} WHERE id = $1 RETURNING *`,
+            values,
+        );
+        if (!result.rows[0]) {
+            throw new Error(`Refund not found: ${refundId}`);
         }
+        return this.mapRefundRow(result.rows[0]);
+    }
+
+    private async selectRefundsByTransactionId(executor: Queryable, transactionId: string): Promise<RefundRecord[]> {
+        const result = await executor.query(
+            'SELECT * FROM refunds WHERE transaction_id = $1 ORDER BY created_at ASC',
+            [transactionId],
+        );
+        return result.rows.map((row) => this.mapRefundRow(row));
     }
 
     /**
@@ -153,13 +827,118 @@ export class TransactionRepository implements ITransactionRepository {
     private mapRow(row: Record<string, unknown>): TransactionRecord {
         return {
             id: row.id as string,
+            merchantId: row.merchant_id as string,
             orderId: row.order_id as string,
             amount: row.amount as number,
             currency: row.currency as string,
-            cardNumber: row.card_number as string,
+            cardToken: row.card_token as string | null,
+            cardBin: row.card_bin as string,
+            cardLast4: row.card_last4 as string,
+            cardBrand: row.card_brand as CardBrand,
+            maskedCardNumber: row.masked_card_number as string,
+            notificationUrl: row.notification_url as string | null,
+            provider: row.provider as string,
             status: row.status as TransactionStatus,
             pspTransactionId: row.psp_transaction_id as string | null,
             finalAmount: row.final_amount as number | null,
+            settlementCurrency: row.settlement_currency as string | null,
+            settlementAmount: row.settlement_amount as number | null,
+            // NUMERIC comes back as a string, keeping the rate exact
+            fxRate: row.fx_rate as string | null,
+            fxRateTimestamp: row.fx_rate_timestamp as Date | null,
+            finalSettlementAmount: row.final_settlement_amount as number | null,
+            declineCode: row.decline_code as string | null,
+            declineMessage: row.decline_message as string | null,
+            threeDsRedirectUrl: row.three_ds_redirect_url as string | null,
+            version: row.version as number,
+            createdAt: row.created_at as Date,
+            updatedAt: row.updated_at as Date,
+        };
+    }
+
+    /**
+     * Maps an idempotency_keys row to an IdempotencyRecord with camelCase keys.
+     */
+    private mapIdempotencyRow(row: Record<string, unknown>): IdempotencyRecord {
+        return {
+            merchantId: row.merchant_id as string,
+            key: row.key as string,
+            requestFingerprint: row.request_fingerprint as string,
+            status: row.status as IdempotencyKeyStatus,
+            response: (row.response_body as CreateTransactionResponse | null) ?? null,
+            leaseExpiresAt: (row.lease_expires_at as Date | null) ?? null,
+            createdAt: row.created_at as Date,
+            updatedAt: row.updated_at as Date,
+        };
+    }
+
+    /**
+     * Maps a transaction_events row to a TransactionEventRecord with camelCase keys.
+     * BIGSERIAL IDs come back from pg as strings and are kept that way.
+     */
+    private mapEventRow(row: Record<string, unknown>): TransactionEventRecord {
+        return {
+            id: String(row.id),
+            transactionId: row.transaction_id as string,
+            fromStatus: row.from_status as TransactionStatus | null,
+            toStatus: row.to_status as TransactionStatus,
+            source: row.source as TransactionEventSource,
+            actor: row.actor as string | null,
+            payload: (row.payload as Record<string, unknown> | null) ?? null,
+            createdAt: row.created_at as Date,
+        };
+    }
+
+    /**
+     * Maps a merchant_notifications row to a NotificationRecord with camelCase keys.
+     * Attempt timestamps come back from JSONB as strings and are revived as Dates.
+     */
+    private mapNotificationRow(row: Record<string, unknown>): NotificationRecord {
+        const attempts = row.attempts as (Omit<NotificationAttempt, 'attemptedAt'> & { attemptedAt: string })[];
+        return {
+            id: row.id as string,
+            transactionId: row.transaction_id as string,
+            eventType: row.event_type as MerchantEventType,
+            url: row.url as string,
+            payload: row.payload as MerchantEvent,
+            status: row.status as NotificationStatus,
+            attempts: attempts.map((attempt) => ({ ...attempt, attemptedAt: new Date(attempt.attemptedAt) })),
+            nextAttemptAt: row.next_attempt_at as Date | null,
+            createdAt: row.created_at as Date,
+            updatedAt: row.updated_at as Date,
+        };
+    }
+
+    /**
+     * Maps a psp_outbox row to a PspOutboxRecord with camelCase keys.
+     */
+    private mapPspOutboxRow(row: Record<string, unknown>): PspOutboxRecord {
+        return {
+            id: row.id as string,
+            transactionId: row.transaction_id as string,
+            request: row.request as PspOutboxRequest,
+            encryptedCard: row.encrypted_card as string | null,
+            status: row.status as PspOutboxStatus,
+            attempts: row.attempts as number,
+            lastError: row.last_error as string | null,
+            nextAttemptAt: row.next_attempt_at as Date | null,
+            leaseExpiresAt: row.lease_expires_at as Date | null,
+            sentTo: row.sent_to as string | null,
+            createdAt: row.created_at as Date,
+            updatedAt: row.updated_at as Date,
+        };
+    }
+
+    /**
+     * Maps a refunds row to a RefundRecord with camelCase keys.
+     */
+    private mapRefundRow(row: Record<string, unknown>): RefundRecord {
+        return {
+            id: row.id as string,
+            transactionId: row.transaction_id as string,
+            amount: row.amount as number,
+            status: row.status as RefundStatus,
+            pspRefundId: row.psp_refund_id as string | null,
             createdAt: row.created_at as Date,
             updatedAt: row.updated_at as Date,
         };
@@ -0,0 +1,110 @@
+import { FastifyInstance } from 'fastify';
+import { NotificationError } from '../services/notificationService';
+import { MERCHANT_SECURITY } from '../plugins/merchantAuth';
+import { NOTIFICATION_STATUSES } from '../enums/notificationStatus';
+
+/**
+ * JSON schema for a merchant notification and its delivery log as returned by the API.
+ */
+const notificationResponseSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', examples: ['c3d4e5f6-a7b8-9012-cdef-123456789012'] },
+        transactionId: { type: 'string', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+        eventType: { type: 'string', examples: ['transaction.succeeded'] },
+        url: { type: 'string', examples: ['https://merchant.example.com/webhooks/payments'] },
+        payload: { type: 'object', additionalProperties: true },
+        status: { type: 'string', enum: Object.values(NOTIFICATION_STATUSES), examples: ['DELIVERED'] },
+        attempts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    attempt: { type: 'integer', examples: [1] },
+                    trigger: { type: 'string', enum: ['automatic', 'manual'] },
+                    attemptedAt: { type: 'string', format: 'date-time' },
+                    statusCode: { type: 'integer', nullable: true, examples: [200] },
+                    error: { type: 'string', nullable: true },
+                    durationMs: { type: 'integer', examples: [12] },
+                },
+            },
+        },
+        nextAttemptAt: { type: 'string', format: 'date-time', nullable: true },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+    },
+};
+
+/**
+ * Notification routes - delivery log and manual redelivery of merchant notifications.
+ * Every route requires a merchant API key and only sees that merchant's notifications.
+ */
+export default async function notificationRoutes(fastify: FastifyInstance): Promise<void> {
+    fastify.addHook('onRequest', fastify.authenticateMerchant);
+
+    /**
+     * GET /transactions/:id/notifications
+     * Lists the merchant notifications sent for a transaction.
+     */
+    fastify.get<{ Params: { id: string } }>('/transactions/:id/notifications', {
+        schema: {
+            tags: ['Notifications'],
+            security: MERCHANT_SECURITY,
+            summary: 'List merchant notifications for a transaction',
+            description: 'Returns every transaction.* event sent to the merchant for this transaction, oldest first, with its delivery attempts.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                },
+            },
+            response: {
+                200: { type: 'array', items: notificationResponseSchema },
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.notificationService.getNotifications(request.merchant!.id, request.params.id);
+            } catch (error) {
+                if (error instanceof NotificationError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                throw error;
+            }
+        },
+    });
+
+    /**
+     * POST /notifications/:id/redeliver
+     * Sends a merchant notification again immediately.
+     */
+    fastify.post<{ Params: { id: string } }>('/notifications/:id/redeliver', {
+        schema: {
+            tags: ['Notifications'],
+            security: MERCHANT_SECURITY,
+            summary: 'Redeliver a merchant notification',
+            description: 'Makes one immediate delivery attempt, cancelling any scheduled retry, and returns the updated notification.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['c3d4e5f6-a7b8-9012-cdef-123456789012'] },
+                },
+            },
+            response: {
+                200: notificationResponseSchema,
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.notificationService.redeliver(request.merchant!.id, request.params.id);
+            } catch (error) {
+                if (error instanceof NotificationError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                throw error;
+            }
+        },
+    });
+}
@@ -0,0 +1,54 @@
+import { FastifyInstance } from 'fastify';
+import { ADMIN_SECURITY } from '../plugins/adminAuth';
+
+/**
+ * JSON schema for a circuit breaker snapshot as returned by the API.
+ */
+const circuitSchema = {
+    type: 'object',
+    properties: {
+        state: { type: 'string', enum: ['CLOSED', 'OPEN', 'HALF_OPEN'], examples: ['OPEN'] },
+        consecutiveFailures: { type: 'integer', examples: [5] },
+        openedAt: { type: 'string', format: 'date-time', nullable: true },
+        retryAt: { type: 'string', format: 'date-time', nullable: true },
+    },
+};
+
+/**
+ * Payment provider routes - health of the configured PSPs.
+ * Every route requires the admin API key.
+ */
+export default async function providerRoutes(fastify: FastifyInstance): Promise<void> {
+    fastify.addHook('onRequest', fastify.authenticateAdmin);
+
+    /**
+     * GET /providers/status
+     * Reports each provider's circuit breaker state and failover count.
+     */
+    fastify.get('/providers/status', {
+        schema: {
+            tags: ['Providers'],
+            security: ADMIN_SECURITY,
+            summary: 'Get payment provider status',
+            description: 'Lists the configured payment providers with their circuit breaker state, their failover provider '
+                + 'and how many new payments failed over to it since startup.',
+            response: {
+                200: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string', examples: ['psp'] },
+                            circuit: circuitSchema,
+                            failoverProvider: { type: 'string', nullable: true, examples: ['psp-backup'] },
+                            failovers: { type: 'integer', examples: [12] },
+                        },
+                    },
+                },
+            },
+        },
+        handler: async () => {
+            return fastify.providerRouter.status();
+        },
+    });
+}
@@ -0,0 +1,62 @@
+import { FastifyInstance } from 'fastify';
+import { STATUSES } from '../enums/transactionStatus';
+import { ADMIN_SECURITY } from '../plugins/adminAuth';
+
+/**
+ * JSON schema for a reconciliation report as returned by the API.
+ */
+const reconciliationReportSchema = {
+    type: 'object',
+    properties: {
+        startedAt: { type: 'string', format: 'date-time' },
+        finishedAt: { type: 'string', format: 'date-time' },
+        checked: { type: 'integer', examples: [3] },
+        fixed: { type: 'integer', examples: [1] },
+        stillPending: { type: 'integer', examples: [1] },
+        inSync: { type: 'integer', examples: [0] },
+        inconsistent: { type: 'integer', examples: [1] },
+        results: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    transactionId: { type: 'string', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                    pspTransactionId: { type: 'string', nullable: true, examples: ['psp_abc123'] },
+                    previousStatus: { type: 'string', enum: Object.values(STATUSES), examples: ['PENDING_3DS'] },
+                    status: { type: 'string', enum: Object.values(STATUSES), examples: ['SUCCESS'] },
+                    pspStatus: { type: 'string', nullable: true, examples: ['SUCCESS'] },
+                    outcome: { type: 'string', enum: ['FIXED', 'PENDING', 'IN_SYNC', 'INCONSISTENT'] },
+                    message: { type: 'string' },
+                },
+            },
+        },
+    },
+};
+
+/**
+ * Reconciliation routes - on-demand runs of the stuck-transaction reconciler.
+ * Runs cover every merchant's transactions, so they require the admin API key.
+ */
+export default async function reconciliationRoutes(fastify: FastifyInstance): Promise<void> {
+    fastify.addHook('onRequest', fastify.authenticateAdmin);
+
+    /**
+     * POST /reconciliation/run
+     * Runs a reconciliation pass now instead of waiting for the next scheduled one.
+     */
+    fastify.post('/reconciliation/run', {
+        schema: {
+            tags: ['Reconciliation'],
+            security: ADMIN_SECURITY,
+            summary: 'Reconcile stuck transactions now',
+            description: 'Checks CREATED and PENDING_3DS transactions older than the reconciliation threshold against the PSP, '
+                + 'applies any final status the PSP reports and returns what was done.',
+            response: {
+                200: reconciliationReportSchema,
+            },
+        },
+        handler: async () => {
+            return fastify.reconciliationService.reconcile();
+        },
+    });
+}
@@ -1,41 +1,224 @@
 import { FastifyInstance } from 'fastify';
+import { CardValidationError, TransactionError } from '../services/transactionService';
+import { MERCHANT_SECURITY } from '../plugins/merchantAuth';
+import { STATUSES } from '../enums/transactionStatus';
+import { CARD_BRANDS } from '../enums/cardBrand';
+import { EVENT_SOURCES } from '../enums/transactionEventSource';
+import {
+    CaptureTransactionPayload,
+    CreateRefundPayload,
+    CreateTransactionPayload,
+    ListTransactionsParams,
+} from '../types/transaction';
+
+/**
+ * Card fields returned by the API. Only the masked PAN is ever exposed; listing
+ * them in response schemas also stops anything else being serialized.
+ */
+const cardResponseProperties = {
+    cardBrand: { type: 'string', enum: Object.values(CARD_BRANDS), examples: ['MASTERCARD'] },
+    maskedCardNumber: { type: 'string', examples: ['555511******1111'] },
+};
+
+/**
+ * FX fields of a transaction charged to the PSP in another currency; null otherwise.
+ */
+const fxResponseProperties = {
+    settlementCurrency: { type: 'string', nullable: true, description: 'Currency the PSP is charged in', examples: ['USD'] },
+    settlementAmount: { type: 'integer', nullable: true, description: 'Amount sent to the PSP, in the settlement currency\'s minor unit', examples: [2713] },
+    fxRate: { type: 'string', nullable: true, description: 'Locked rate: one unit of `currency` in `settlementCurrency`', examples: ['1.0852'] },
+    fxRateTimestamp: { type: 'string', format: 'date-time', nullable: true, description: 'When the rate was quoted' },
+};
+
+/**
+ * Decline fields of a FAILED transaction; null when it was not declined with a code.
+ */
+const declineResponseProperties = {
+    declineCode: { type: 'string', nullable: true, description: 'Why the payment was declined, from the decline catalogue', examples: ['insufficient_funds'] },
+    declineMessage: { type: 'string', nullable: true, description: 'Human-readable decline reason', examples: ['The card has insufficient funds'] },
+    declineRetryable: { type: 'boolean', nullable: true, description: 'true for a soft decline that may succeed if retried, false for a hard decline', examples: [true] },
+};
+
+/**
+ * JSON schema for a transaction as returned by the API.
+ */
+const transactionResponseSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+        orderId: { type: 'string', examples: ['order_001'] },
+        amount: { type: 'integer', examples: [2500] },
+        currency: { type: 'string', examples: ['EUR'] },
+        formattedAmount: { type: 'string', nullable: true, description: 'Amount in the currency\'s major unit', examples: ['25.00'] },
+        cardBin: { type: 'string', examples: ['555511'] },
+        cardLast4: { type: 'string', examples: ['1111'] },
+        ...cardResponseProperties,
+        notificationUrl: { type: 'string', nullable: true, examples: ['https://merchant.example.com/webhooks/payments'] },
+        provider: { type: 'string', examples: ['psp'] },
+        status: { type: 'string', enum: Object.values(STATUSES), examples: ['SUCCESS'] },
+        pspTransactionId: { type: 'string', nullable: true, examples: ['tx_a1b2c3d4'] },
+        threeDsRedirectUrl: { type: 'string', nullable: true, description: 'Challenge page to send the customer to while PENDING_3DS', examples: ['http://localhost:3000/psp/3ds/tx_a1b2c3d4'] },
+        finalAmount: { type: 'integer', nullable: true, examples: [2500] },
+        formattedFinalAmount: { type: 'string', nullable: true, description: 'Final amount in the currency\'s major unit', examples: ['25.00'] },
+        ...fxResponseProperties,
+        finalSettlementAmount: { type: 'integer', nullable: true, description: 'Final amount reported by the PSP, in the settlement currency', examples: [2713] },
+        ...declineResponseProperties,
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+    },
+};
+
+/**
+ * JSON schema for a refund as returned by the API.
+ */
+const refundResponseSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', examples: ['b2c3d4e5-f6a7-8901-bcde-f12345678901'] },
+        transactionId: { type: 'string', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+        amount: { type: 'integer', examples: [500] },
+        status: { type: 'string', enum: ['PENDING', 'SUCCESS', 'FAILED'], examples: ['PENDING'] },
+        pspRefundId: { type: 'string', nullable: true, examples: ['rf_a1b2c3d4'] },
+        createdAt: { type: 'string', format: 'date-time' },
+        updatedAt: { type: 'string', format: 'date-time' },
+    },
+};
+
+/**
+ * JSON schema for a transaction history entry as returned by the API.
+ */
+const transactionEventResponseSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', examples: ['42'] },
+        transactionId: { type: 'string', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+        fromStatus: { type: 'string', nullable: true, examples: ['PENDING_3DS'] },
+        toStatus: { type: 'string', enum: Object.values(STATUSES), examples: ['SUCCESS'] },
+        source: { type: 'string', enum: Object.values(EVENT_SOURCES), examples: ['WEBHOOK'] },
+        actor: { type: 'string', nullable: true, examples: ['psp'] },
+        payload: { type: 'object', nullable: true, additionalProperties: true },
+        createdAt: { type: 'string', format: 'date-time' },
+    },
+};
+
+/**
+ * JSON schema for the response to a new transaction, sent with 200 once the PSP has answered
+ * and with 202 while the request is still waiting in the outbox.
+ */
+const createTransactionResponseSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+        orderId: { type: 'string', examples: ['order_001'] },
+        amount: { type: 'integer', examples: [2500] },
+        currency: { type: 'string', examples: ['EUR'] },
+        formattedAmount: { type: 'string', description: 'Amount in the currency\'s major unit', examples: ['25.00'] },
+        ...fxResponseProperties,
+        ...cardResponseProperties,
+        provider: { type: 'string', examples: ['psp'] },
+        status: { type: 'string', enum: Object.values(STATUSES), examples: ['SUCCESS'] },
+        pspTransactionId: { type: 'string', nullable: true, description: 'Null until the PSP has answered (status CREATED)', examples: ['tx_a1b2c3d4'] },
+        ...declineResponseProperties,
+        threeDsRedirectUrl: { type: 'string', examples: ['http://localhost:3000/psp/3ds/tx_a1b2c3d4'] },
+    },
+};
 
 /**
  * Transaction routes - public API endpoints for transaction management.
+ * Every route requires a merchant API key and only sees that merchant's transactions.
  */
 export default async function transactionRoutes(fastify: FastifyInstance): Promise<void> {
+    fastify.addHook('onRequest', fastify.authenticateMerchant);
+
     /**
      * POST /transactions
      * Creates a new transaction and forwards it to the PSP simulator.
      */
-    fastify.post('/transactions', {
+    fastify.post<{ Body: CreateTransactionPayload; Headers: { 'idempotency-key'?: string } }>('/transactions', {
         schema: {
             tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
             summary: 'Create a new transaction',
-            description: 'Validates the request, creates a transaction, and forwards it to the PSP simulator.',
+            description: 'Validates the request, creates a transaction for the authenticated merchant, and forwards it to the PSP simulator. '
+                + 'If the PSP cannot be reached the request is queued and retried in the background: the response is 202 with status CREATED '
+                + 'and a Location header to poll. '
+                + 'Send an Idempotency-Key header to make retries safe: a replay with the same body returns the original response, '
+                + 'a different body returns 422 and a replay while the original is in flight returns 409.',
+            headers: {
+                type: 'object',
+                properties: {
+                    'idempotency-key': { type: 'string', minLength: 1, maxLength: 255, description: 'Client-generated key identifying this request', examples: ['3f0c9a52-order_001'] },
+                },
+            },
             body: {
                 type: 'object',
                 required: ['amount', 'currency', 'cardNumber', 'cardExpiry', 'cvv', 'orderId'],
                 properties: {
-                    amount: { type: 'integer', minimum: 1, description: 'Amount in smallest currency unit (e.g. cents)', examples: [2500] },
-                    currency: { type: 'string', minLength: 3, maxLength: 3, description: 'ISO 4217 currency code', examples: ['EUR'] },
+                    amount: { type: 'integer', minimum: 1, description: 'Amount in the currency\'s minor unit (cents for EUR, yen for JPY, fils for KWD)', examples: [2500] },
+                    currency: { type: 'string', minLength: 3, maxLength: 3, description: 'ISO 4217 currency code (uppercase); unsupported codes are rejected with 400', examples: ['EUR'] },
+                    settlementCurrency: {
+                        type: 'string', minLength: 3, maxLength: 3,
+                        description: 'Currency to charge the PSP in (defaults to `currency`). The amount is converted at the current FX rate, which is locked on the transaction; 422 if there is none.',
+                        examples: ['USD'],
+                    },
                     cardNumber: {
                         type: 'string', minLength: 13, maxLength: 19,
-                        description: 'Payment card number. Prefix determines outcome: 5555→Success, 4000→Failed, 4111→3DS',
+                        description: 'Payment card number; must pass the Luhn check. Prefix determines outcome: 5555→Success, 4000→Failed, 4111→3DS',
                         examples: ['5555111111111111'],
                     },
-                    cardExpiry: { type: 'string', pattern: '^\\d{2}/\\d{2}$', description: 'Card expiry date (MM/YY)', examples: ['12/26'] },
-                    cvv: { type: 'string', minLength: 3, maxLength: 4, description: 'Card CVV code', examples: ['123'] },
+                    cardExpiry: {
+                        type: 'string', pattern: '^\\d{2}/\\d{2}$',
+                        description: 'Card expiry date (MM/YY); must not have passed nor be more than 20 years ahead',
+                        examples: ['12/30'],
+                    },
+                    cvv: { type: 'string', minLength: 3, maxLength: 4, description: 'Card CVV code: 4 digits for Amex, 3 for other brands', examples: ['123'] },
                     orderId: { type: 'string', minLength: 1, description: 'Unique order identifier', examples: ['order_001'] },
-                    callbackUrl: { type: 'string', format: 'uri', description: 'Webhook callback URL (optional)', examples: ['http://localhost:3000/webhooks/psp'] },
+                    callbackUrl: {
+                        type: 'string', format: 'uri',
+                        description: 'Merchant URL for our signed transaction.* notifications (optional, defaults to the merchant\'s callback URL)',
+                        examples: ['https://merchant.example.com/webhooks/payments'],
+                    },
+                    returnUrl: {
+                        type: 'string', format: 'uri',
+                        description: 'Where the customer is redirected after a successful 3DS challenge',
+                        examples: ['https://merchant.example.com/checkout/complete'],
+                    },
+                    failureUrl: {
+                        type: 'string', format: 'uri',
+                        description: 'Where the customer is redirected after a failed 3DS challenge (defaults to returnUrl)',
+                        examples: ['https://merchant.example.com/checkout/failed'],
+                    },
+                    captureMode: {
+                        type: 'string', enum: ['automatic', 'manual'], default: 'automatic',
+                        description: 'automatic → charge immediately; manual → authorize only, then capture or void later',
+                        examples: ['automatic'],
+                    },
+                },
+            },
+            response: {
+                200: createTransactionResponseSchema,
+                202: {
+                    ...createTransactionResponseSchema,
+                    description: 'The PSP could not be reached yet: the transaction is CREATED and the request is retried in the background. Poll the Location.',
                 },
             },
         },
         handler: async (request, reply) => {
             try {
-                const result = await fastify.transactionService.createTransaction(request.body as any);
+                const result = await fastify.transactionService.createTransaction(request.merchant!.id, request.body, {
+                    idempotencyKey: request.headers['idempotency-key'],
+                });
+                if (result.status === STATUSES.CREATED) {
+                    return reply.code(202).header('location', `/transactions/${result.id}`).send(result);
+                }
                 return result;
             } catch (error) {
+                if (error instanceof CardValidationError) {
+                    return reply.code(error.statusCode).send({ error: error.message, fieldErrors: error.fieldErrors });
+                }
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 fastify.log.error(error, 'Failed to create transaction');
                 return reply.code(500).send({
@@ -46,6 +229,53 @@ export default async function transactionRoutes(fastify: FastifyInstance): Promi
         },
     });
 
+    /**
+     * GET /transactions
+     * Lists and searches transactions with cursor-based pagination.
+     */
+    fastify.get<{ Querystring: ListTransactionsParams }>('/transactions', {
+        schema: {
+            tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
+            summary: 'List and search transactions',
+            description: 'Filters transactions and returns them one page at a time. Pass `nextCursor` from the response as `cursor` to fetch the next page; keep the same sort parameters.',
+            querystring: {
+                type: 'object',
+                properties: {
+                    status: { type: 'string', enum: Object.values(STATUSES), description: 'Filter by status' },
+                    orderId: { type: 'string', description: 'Filter by order identifier', examples: ['order_001'] },
+                    currency: { type: 'string', minLength: 3, maxLength: 3, description: 'Filter by ISO 4217 currency code', examples: ['EUR'] },
+                    pspTransactionId: { type: 'string', description: 'Filter by PSP transaction ID', examples: ['tx_a1b2c3d4'] },
+                    createdFrom: { type: 'string', format: 'date-time', description: 'Only transactions created at or after this time' },
+                    createdTo: { type: 'string', format: 'date-time', description: 'Only transactions created before this time' },
+                    sortBy: { type: 'string', enum: ['createdAt', 'updatedAt', 'amount'], default: 'createdAt' },
+                    sortOrder: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+                    limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+                    cursor: { type: 'string', description: 'Opaque cursor from a previous page' },
+                },
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        items: { type: 'array', items: transactionResponseSchema },
+                        nextCursor: { type: 'string', nullable: true },
+                    },
+                },
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.transactionService.listTransactions(request.merchant!.id, request.query);
+            } catch (error) {
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                throw error;
+            }
+        },
+    });
+
     /**
      * GET /transactions/:id
      * Retrieves a transaction by its internal ID.
@@ -53,6 +283,7 @@ export default async function transactionRoutes(fastify: FastifyInstance): Promi
     fastify.get('/transactions/:id', {
         schema: {
             tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
             summary: 'Get transaction by ID',
             description: 'Retrieves the current state of a transaction.',
             params: {
@@ -62,14 +293,210 @@ export default async function transactionRoutes(fastify: FastifyInstance): Promi
                     id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
                 },
             },
+            response: {
+                200: transactionResponseSchema,
+            },
         },
         handler: async (request, reply) => {
             const { id } = request.params as { id: string };
-            const transaction = await fastify.transactionService.getTransaction(id);
+            const transaction = await fastify.transactionService.getTransaction(request.merchant!.id, id);
             if (!transaction) {
                 return reply.code(404).send({ error: 'Transaction not found' });
             }
             return transaction;
         },
     });
+
+    /**
+     * POST /transactions/:id/capture
+     * Captures a manually authorized transaction.
+     */
+    fastify.post<{ Params: { id: string }; Body: CaptureTransactionPayload }>('/transactions/:id/capture', {
+        schema: {
+            tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
+            summary: 'Capture an authorized transaction',
+            description: 'Captures all or part of an AUTHORIZED transaction (created with captureMode "manual"). The uncaptured remainder is released.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                },
+            },
+            body: {
+                type: 'object',
+                properties: {
+                    amount: { type: 'integer', minimum: 1, description: 'Amount to capture in smallest currency unit. Defaults to the authorized amount.', examples: [2500] },
+                },
+            },
+            response: {
+                200: transactionResponseSchema,
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.transactionService.captureTransaction(request.merchant!.id, request.params.id, request.body || {});
+            } catch (error) {
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                fastify.log.error(error, 'Failed to capture transaction');
+                return reply.code(500).send({
+                    error: 'Transaction capture failed',
+                    message: errorMessage,
+                });
+            }
+        },
+    });
+
+    /**
+     * POST /transactions/:id/void
+     * Voids a manually authorized transaction.
+     */
+    fastify.post<{ Params: { id: string } }>('/transactions/:id/void', {
+        schema: {
+            tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
+            summary: 'Void an authorized transaction',
+            description: 'Releases the funds reserved by an AUTHORIZED transaction without charging the card.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                },
+            },
+            response: {
+                200: transactionResponseSchema,
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.transactionService.voidTransaction(request.merchant!.id, request.params.id);
+            } catch (error) {
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                fastify.log.error(error, 'Failed to void transaction');
+                return reply.code(500).send({
+                    error: 'Transaction void failed',
+                    message: errorMessage,
+                });
+            }
+        },
+    });
+
+    /**
+     * POST /transactions/:id/refunds
+     * Refunds all or part of a successful transaction.
+     */
+    fastify.post<{ Params: { id: string }; Body: CreateRefundPayload }>('/transactions/:id/refunds', {
+        schema: {
+            tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
+            summary: 'Refund a transaction',
+            description: 'Requests a full or partial refund. Multiple partial refunds may be issued up to the final amount. The refund settles asynchronously via PSP webhook.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                },
+            },
+            body: {
+                type: 'object',
+                properties: {
+                    amount: { type: 'integer', minimum: 1, description: 'Amount to refund in smallest currency unit. Defaults to the remaining balance.', examples: [500] },
+                },
+            },
+            response: {
+                202: refundResponseSchema,
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                const refund = await fastify.transactionService.createRefund(request.merchant!.id, request.params.id, request.body || {});
+                return reply.code(202).send(refund);
+            } catch (error) {
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                fastify.log.error(error, 'Failed to create refund');
+                return reply.code(500).send({
+                    error: 'Refund creation failed',
+                    message: errorMessage,
+                });
+            }
+        },
+    });
+
+    /**
+     * GET /transactions/:id/refunds
+     * Lists the refunds issued against a transaction.
+     */
+    fastify.get<{ Params: { id: string } }>('/transactions/:id/refunds', {
+        schema: {
+            tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
+            summary: 'List refunds for a transaction',
+            description: 'Returns all refunds issued against the transaction, oldest first.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                },
+            },
+            response: {
+                200: { type: 'array', items: refundResponseSchema },
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.transactionService.getRefunds(request.merchant!.id, request.params.id);
+            } catch (error) {
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                throw error;
+            }
+        },
+    });
+
+    /**
+     * GET /transactions/:id/events
+     * Returns the status history of a transaction.
+     */
+    fastify.get<{ Params: { id: string } }>('/transactions/:id/events', {
+        schema: {
+            tags: ['Transactions'],
+            security: MERCHANT_SECURITY,
+            summary: 'Get transaction history',
+            description: 'Returns every status change of the transaction, oldest first, with what caused it (API call, PSP webhook or 3DS expiry) and the payload that triggered it.',
+            params: {
+                type: 'object',
+                required: ['id'],
+                properties: {
+                    id: { type: 'string', format: 'uuid', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                },
+            },
+            response: {
+                200: { type: 'array', items: transactionEventResponseSchema },
+            },
+        },
+        handler: async (request, reply) => {
+            try {
+                return await fastify.transactionService.getTransactionEvents(request.merchant!.id, request.params.id);
+            } catch (error) {
+                if (error instanceof TransactionError) {
+                    return reply.code(error.statusCode).send({ error: error.message });
+                }
+                throw error;
+            }
+        },
+    });
 }
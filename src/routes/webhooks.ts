@@ -1,32 +1,86 @@
 import { FastifyInstance } from 'fastify';
 import { WebhookError } from '../services/webhookService';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from '../domain/webhookSignature';
 
 /**
- * Webhook routes - receives asynchronous callbacks from the PSP simulator.
+ * Webhook routes - receives asynchronous callbacks from the payment providers.
+ * Each provider posts to `/webhooks/<name>` and its adapter authenticates the
+ * webhook (for the PSP simulator, an HMAC signature over the raw body).
  */
 export default async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
+    // Keep the raw body for signature verification (scoped to this plugin only)
+    fastify.removeContentTypeParser('application/json');
+    fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+        request.rawBody = body as string;
+        try {
+            done(null, JSON.parse(body as string));
+        } catch (error) {
+            const parseError = error as Error & { statusCode?: number };
+            parseError.statusCode = 400;
+            done(parseError, undefined);
+        }
+    });
+
+    // Reject webhooks for unknown providers, and unsigned, forged or replayed ones, before they reach the service
+    fastify.addHook('preHandler', async (request, reply) => {
+        const { provider: providerName } = request.params as { provider: string };
+        const provider = fastify.providerRouter.get(providerName);
+        if (!provider) {
+            return reply.code(404).send({ error: `Unknown payment provider: ${providerName}` });
+        }
+
+        const verification = provider.verifyWebhook(request.rawBody ?? '', request.headers);
+        if (!verification.valid) {
+            fastify.log.warn(`Rejected webhook: ${verification.reason}`);
+            return reply.code(401).send({ error: `Invalid webhook signature: ${verification.reason}` });
+        }
+    });
+
     /**
-     * POST /webhooks/psp
-     * Receives webhook events from the PSP simulator.
+     * POST /webhooks/:provider
+     * Receives webhook events from a payment provider.
      */
-    fastify.post('/webhooks/psp', {
+    fastify.post<{ Params: { provider: string } }>('/webhooks/:provider', {
         schema: {
             tags: ['Webhooks'],
             summary: 'Receive PSP webhook',
-            description: 'Processes asynchronous webhook events from the PSP simulator. Handles idempotency and state transitions.',
+            description: 'Processes asynchronous webhook events from a payment provider. Handles idempotency and state transitions. '
+                + 'Only transactions routed to that provider can be updated; others are reported as not found. '
+                + `PSP simulator providers require \`${WEBHOOK_TIMESTAMP_HEADER}\` and \`${WEBHOOK_SIGNATURE_HEADER}\` headers: v1=HMAC-SHA256(secret, "<timestamp>.<raw body>").`,
+            params: {
+                type: 'object',
+                required: ['provider'],
+                properties: {
+                    provider: { type: 'string', description: 'Name of the payment provider sending the webhook', examples: ['psp'] },
+                },
+            },
+            headers: {
+                type: 'object',
+                properties: {
+                    [WEBHOOK_TIMESTAMP_HEADER]: { type: 'string', description: 'Unix timestamp (seconds) of signing', examples: ['1735689600'] },
+                    [WEBHOOK_SIGNATURE_HEADER]: { type: 'string', description: 'Comma-separated v1=<hex> signatures', examples: ['v1=5257a869e7ecebeda32affa62cdca3fa51cad7e77a0e56ff536d0ce8e108d8bd'] },
+                },
+            },
             body: {
                 type: 'object',
                 required: ['transactionId', 'status'],
                 properties: {
                     transactionId: { type: 'string', description: 'PSP-assigned transaction ID', examples: ['tx_a1b2c3d4'] },
                     final_amount: { type: 'number', description: 'Final transaction amount from PSP', examples: [2500] },
-                    status: { type: 'string', enum: ['SUCCESS', 'FAILED'], description: 'PSP transaction status', examples: ['SUCCESS'] },
+                    status: { type: 'string', enum: ['SUCCESS', 'AUTHORIZED', 'FAILED'], description: 'PSP transaction status', examples: ['SUCCESS'] },
+                    type: { type: 'string', enum: ['payment', 'refund'], description: 'Operation the webhook reports on (defaults to payment)', examples: ['payment'] },
+                    refundId: { type: 'string', description: 'PSP-assigned refund ID (refund webhooks only)', examples: ['rf_a1b2c3d4'] },
+                    reference: { type: 'string', description: 'Our refund ID echoed back by the PSP (refund webhooks only)', examples: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'] },
+                    reason: { type: 'string', description: 'Why the PSP changed the status on its own, e.g. 3DS_EXPIRED', examples: ['3DS_EXPIRED'] },
+                    declineCode: { type: 'string', description: 'Why the issuer declined a FAILED payment', examples: ['insufficient_funds'] },
+                    declineMessage: { type: 'string', description: 'Human-readable decline reason', examples: ['The card has insufficient funds'] },
                 },
             },
         },
         handler: async (request, reply) => {
             try {
-                const result = await fastify.webhookService.processWebhook(request.body as any);
+                const provider = fastify.providerRouter.get(request.params.provider)!;
+                const result = await fastify.webhookService.processWebhook(provider.parseWebhook(request.body), provider.name);
                 return { received: true, ...result };
             } catch (error) {
                 if (error instanceof WebhookError) {
@@ -0,0 +1,38 @@
+import { v4 as uuidv4 } from 'uuid';
+import { generateApiKey, generateWebhookSecret, hashApiKey } from '../domain/apiKeys';
+import { CreatedMerchant, CreateMerchantPayload, IMerchantRepository, MerchantRecord } from '../types/merchant';
+
+/**
+ * Service responsible for registering merchants and authenticating their API keys.
+ */
+export class MerchantService {
+    private repository: IMerchantRepository;
+
+    constructor(repository: IMerchantRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Registers a merchant with a fresh API key and webhook secret.
+     * The returned API key is not stored and cannot be retrieved again.
+     */
+    async createMerchant(payload: CreateMerchantPayload): Promise<CreatedMerchant> {
+        const apiKey = generateApiKey();
+        const merchant = await this.repository.create({
+            id: uuidv4(),
+            name: payload.name,
+            apiKeyHash: hashApiKey(apiKey),
+            callbackUrl: payload.callbackUrl ?? null,
+            webhookSecret: generateWebhookSecret(),
+        });
+        return { merchant, apiKey };
+    }
+
+    /**
+     * Resolves the merchant owning an API key.
+     * @returns The merchant, or null if the key is unknown
+     */
+    async authenticate(apiKey: string): Promise<MerchantRecord | null> {
+        return this.repository.findByApiKeyHash(hashApiKey(apiKey));
+    }
+}
@@ -0,0 +1,127 @@
+import { compareMigrations } from '../domain/migrations';
+import { IMigrationRepository, Migration, MigrationStatusEntry } from '../types/migration';
+
+/**
+ * Raised when the migrations on disk and the ones recorded in the database
+ * disagree, or a rollback is not possible.
+ */
+export class MigrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MigrationError';
+    }
+}
+
+/**
+ * Service applying and rolling back schema migrations.
+ *
+ * Every applied migration is recorded in `schema_migrations` with the checksum of its SQL,
+ * so only pending migrations run and a migration edited after it was applied is refused
+ * instead of silently diverging from the databases that ran the old version. Migrations
+ * run one database transaction each, while holding an advisory lock.
+ */
+export class MigrationService {
+    private repository: IMigrationRepository;
+    private migrations: Migration[];
+
+    constructor(repository: IMigrationRepository, migrations: Migration[]) {
+        this.repository = repository;
+        this.migrations = migrations;
+    }
+
+    /**
+     * Applies all pending migrations in version order.
+     * @returns The migrations applied
+     * @throws MigrationError if an applied migration was edited or removed since
+     */
+    async migrate(onApply?: (migration: Migration) => void): Promise<Migration[]> {
+        return this.withLock(async () => {
+            const entries = await this.compare();
+            this.assertConsistent(entries);
+
+            const pendingVersions = new Set(
+                entries.filter((entry) => entry.state === 'pending').map((entry) => entry.version),
+            );
+            const pending = this.migrations.filter((migration) => pendingVersions.has(migration.version));
+            for (const migration of pending) {
+                onApply?.(migration);
+                await this.repository.apply(migration);
+            }
+            return pending;
+        });
+    }
+
+    /**
+     * Rolls back the last `steps` applied migrations, newest first. Nothing is rolled back
+     * unless every one of them has a down migration.
+     * @returns The migrations rolled back
+     * @throws MigrationError if an applied migration was edited or removed since, or has no down migration
+     */
+    async rollback(steps = 1, onRevert?: (migration: Migration) => void): Promise<Migration[]> {
+        if (!Number.isInteger(steps) || steps < 1) {
+            throw new MigrationError('Rollback steps must be a positive integer');
+        }
+
+        return this.withLock(async () => {
+            const entries = await this.compare();
+            this.assertConsistent(entries);
+
+            const appliedVersions = entries
+                .filter((entry) => entry.state === 'applied')
+                .map((entry) => entry.version)
+                .slice(-steps)
+                .reverse();
+            const toRevert = appliedVersions.map(
+                (version) => this.migrations.find((migration) => migration.version === version)!,
+            );
+
+            const irreversible = toRevert.find((migration) => migration.downSql === null);
+            if (irreversible) {
+                throw new MigrationError(
+                    `Migration ${irreversible.version}_${irreversible.name} has no down migration, nothing was rolled back`,
+                );
+            }
+
+            for (const migration of toRevert) {
+                onRevert?.(migration);
+                await this.repository.revert(migration);
+            }
+            return toRevert;
+        });
+    }
+
+    /**
+     * Lists every migration with its state, including applied migrations no longer on disk.
+     */
+    async status(): Promise<MigrationStatusEntry[]> {
+        await this.repository.ensureMigrationsTable();
+        return this.compare();
+    }
+
+    private async compare(): Promise<MigrationStatusEntry[]> {
+        return compareMigrations(this.migrations, await this.repository.listApplied());
+    }
+
+    /**
+     * Refuses to run when applied migrations were edited or removed, since the
+     * database may no longer match what the migration files describe.
+     */
+    private assertConsistent(entries: MigrationStatusEntry[]): void {
+        const problems = entries
+            .filter((entry) => entry.state === 'changed' || entry.state === 'missing')
+            .map((entry) => `${entry.version}_${entry.name} (${entry.state === 'changed' ? 'edited after it was applied' : 'file missing'})`);
+        if (problems.length > 0) {
+            throw new MigrationError(`Applied migrations do not match the migration files: ${problems.join(', ')}`);
+        }
+    }
+
+    private async withLock<T>(work: () => Promise<T>): Promise<T> {
+        await this.repository.acquireLock();
+        try {
+            await this.repository.ensureMigrationsTable();
+            return await work();
+        } finally {
+            await this.repository.releaseLock();
+        }
+    }
+}
@@ -0,0 +1,287 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NOTIFICATION_STATUSES } from '../enums/notificationStatus';
+import { buildMerchantEvent, buildMerchantEventHeaders, eventTypeForStatus } from '../domain/merchantEvents';
+import { computeRetryDelay } from '../domain/retryBackoff';
+import { ITransactionRepository, NotificationRecord, TransactionRecord } from '../types/transaction';
+import { IMerchantRepository } from '../types/merchant';
+import { Logger } from '../types/logger';
+
+/**
+ * Custom error class for notification errors with HTTP status codes.
+ */
+export class NotificationError extends Error {
+    public statusCode: number;
+
+    constructor(message: string, statusCode: number) {
+        super(message);
+        this.name = 'NotificationError';
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Service responsible for notifying merchants when their transactions reach an outcome.
+ *
+ * Every notification is persisted with its delivery log before the first attempt.
+ * Non-2xx responses and network errors are retried with exponential backoff and
+ * jitter; pending notifications are picked up again after a restart.
+ *
+ * Each merchant has its own default callback URL and signing secret; the configured
+ * `defaultUrl` and `secret` only apply to merchants without one.
+ */
+export class NotificationService {
+    private repository: ITransactionRepository;
+    private merchantRepository: IMerchantRepository;
+    private secret: string;
+    private defaultUrl: string | null;
+    private maxAttempts: number;
+    private retryBaseDelayMs: number;
+    private logger: Logger;
+
+    /** Scheduled delivery timers, keyed by notification ID */
+    private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    /** Set on shutdown, so a delivery still in flight schedules no further retries */
+    private stopped = false;
+
+    constructor(
+        repository: ITransactionRepository,
+        options: {
+            merchantRepository: IMerchantRepository;
+            secret: string;
+            defaultUrl?: string | null;
+            maxAttempts?: number;
+            retryBaseDelayMs?: number;
+            logger?: Logger;
+        },
+    ) {
+        this.repository = repository;
+        this.merchantRepository = options.merchantRepository;
+        this.secret = options.secret;
+        this.defaultUrl = options.defaultUrl ?? null;
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+        this.logger = options.logger ?? console;
+    }
+
+    /**
+     * Queues the merchant event for a transaction's new status and schedules its delivery.
+     * Called after the status change has been committed. The event goes to the transaction's
+     * callbackUrl, else the merchant's callback URL, else the default URL. Does nothing for
+     * intermediate statuses or when no URL is known.
+     *
+     * Never throws: a notification problem must not fail the state change that caused it.
+     */
+    async notifyStatusChange(transaction: TransactionRecord): Promise<NotificationRecord | null> {
+        const eventType = eventTypeForStatus(transaction.status);
+        if (!eventType) {
+            return null;
+        }
+
+        try {
+            const merchant = transaction.notificationUrl ? null : await this.merchantRepository.findById(transaction.merchantId);
+            const url = transaction.notificationUrl ?? merchant?.callbackUrl ?? this.defaultUrl;
+            if (!url) {
+                return null;
+            }
+
+            const notificationId = uuidv4();
+            const notification = await this.repository.createNotification({
+                id: notificationId,
+                transactionId: transaction.id,
+                eventType,
+                url,
+                payload: buildMerchantEvent(notificationId, eventType, transaction),
+            });
+            this.scheduleAttempt(notification.id, 0);
+            return notification;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.logger.error(`Failed to queue ${eventType} notification for transaction ${transaction.id}: ${errorMessage}`);
+            return null;
+        }
+    }
+
+    /**
+     * Lists the notifications sent for one of the merchant's transactions with their delivery logs.
+     * @throws NotificationError 404 if the transaction does not exist
+     */
+    async getNotifications(merchantId: string, transactionId: string): Promise<NotificationRecord[]> {
+        const transaction = await this.repository.findById(transactionId, merchantId);
+        if (!transaction) {
+            throw new NotificationError('Transaction not found', 404);
+        }
+        return this.repository.findNotificationsByTransactionId(transactionId, merchantId);
+    }
+
+    /**
+     * Sends a notification again immediately, regardless of its status.
+     * Cancels any scheduled retry; a manual redelivery is a single attempt
+     * that leaves the notification DELIVERED or FAILED.
+     *
+     * @throws NotificationError 404 if the notification does not exist
+     */
+    async redeliver(merchantId: string, notificationId: string): Promise<NotificationRecord> {
+        const notification = await this.repository.findNotificationById(notificationId, merchantId);
+        if (!notification) {
+            throw new NotificationError(`Notification not found: ${notificationId}`, 404);
+        }
+
+        this.cancelScheduledAttempt(notificationId);
+        return this.attemptDelivery(notification, 'manual');
+    }
+
+    /**
+     * Reschedules notifications left PENDING by a previous process, honouring their next attempt time.
+     */
+    async resumePendingDeliveries(): Promise<void> {
+        const pendingNotifications = await this.repository.findPendingNotifications();
+        for (const notification of pendingNotifications) {
+            const delayMs = notification.nextAttemptAt
+                ? Math.max(notification.nextAttemptAt.getTime() - Date.now(), 0)
+                : 0;
+            this.scheduleAttempt(notification.id, delayMs);
+        }
+    }
+
+    /**
+     * Cancels all scheduled deliveries (called on shutdown) and schedules no new ones.
+     * Pending notifications stay PENDING in storage and are resumed on the next start.
+     */
+    stop(): void {
+        this.stopped = true;
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    /**
+     * Schedules the next automatic attempt for a notification.
+     */
+    private scheduleAttempt(notificationId: string, delayMs: number): void {
+        if (this.stopped) {
+            return;
+        }
+        this.cancelScheduledAttempt(notificationId);
+
+        const timer = setTimeout(async () => {
+            this.timers.delete(notificationId);
+            try {
+                const notification = await this.repository.findNotificationById(notificationId);
+                if (notification && notification.status === NOTIFICATION_STATUSES.PENDING) {
+                    await this.attemptDelivery(notification, 'automatic');
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.logger.error(`Notification ${notificationId} delivery attempt could not be recorded: ${errorMessage}`);
+            }
+        }, delayMs);
+
+        // A PENDING notification is resumed on the next start, so its retry need not hold the process open
+        if (timer && typeof timer === 'object' && 'unref' in timer) {
+            timer.unref();
+        }
+
+        this.timers.set(notificationId, timer);
+    }
+
+    private cancelScheduledAttempt(notificationId: string): void {
+        const timer = this.timers.get(notificationId);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(notificationId);
+        }
+    }
+
+    /**
+     * Performs one delivery attempt and records it. Automatic attempts are retried
+     * with backoff until the maximum attempt count is reached.
+     */
+    private async attemptDelivery(
+        notification: NotificationRecord,
+        trigger: 'automatic' | 'manual',
+    ): Promise<NotificationRecord> {
+        const startedAt = Date.now();
+        let statusCode: number | null = null;
+        let errorMessage: string | null = null;
+
+        try {
+            statusCode = await this.send(notification);
+            if (statusCode < 200 || statusCode >= 300) {
+                errorMessage = `Received HTTP ${statusCode}`;
+            }
+        } catch (error) {
+            errorMessage = error instanceof Error ? error.message : String(error);
+        }
+
+        const attempt = {
+            attempt: notification.attempts.length + 1,
+            trigger,
+            attemptedAt: new Date(startedAt),
+            statusCode,
+            error: errorMessage,
+            durationMs: Date.now() - startedAt,
+        };
+
+        if (!errorMessage) {
+            return this.repository.updateNotification(notification.id, {
+                status: NOTIFICATION_STATUSES.DELIVERED,
+                nextAttemptAt: null,
+                attempt,
+            });
+        }
+
+        const automaticAttempts = [...notification.attempts, attempt]
+            .filter((previousAttempt) => previousAttempt.trigger === 'automatic').length;
+        if (trigger === 'manual' || automaticAttempts >= this.maxAttempts) {
+            this.logger.error(
+                `Notification ${notification.id} to ${notification.url} failed after ${attempt.attempt} attempt(s): ${errorMessage}`,
+            );
+            return this.repository.updateNotification(notification.id, {
+                status: NOTIFICATION_STATUSES.FAILED,
+                nextAttemptAt: null,
+                attempt,
+            });
+        }
+
+        const delayMs = computeRetryDelay(automaticAttempts, this.retryBaseDelayMs);
+        const updatedNotification = await this.repository.updateNotification(notification.id, {
+            nextAttemptAt: new Date(Date.now() + delayMs),
+            attempt,
+        });
+        this.logger.warn(
+            `Notification ${notification.id} attempt ${automaticAttempts}/${this.maxAttempts} failed, retrying in ${delayMs}ms: ${errorMessage}`,
+        );
+        this.scheduleAttempt(notification.id, delayMs);
+        return updatedNotification;
+    }
+
+    /**
+     * POSTs the event to the merchant, signed with the merchant's secret.
+     * Resolves with the HTTP status code; rejects on network errors.
+     */
+    private async send(notification: NotificationRecord): Promise<number> {
+        const body = JSON.stringify(notification.payload);
+        const secret = await this.secretFor(notification);
+
+        const response = await fetch(notification.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...buildMerchantEventHeaders(secret, notification.payload.id, body),
+            },
+            body,
+        });
+        return response.status;
+    }
+
+    /**
+     * Resolves the secret to sign a notification with: that of the merchant owning its
+     * transaction, or the configured one if the merchant has none.
+     */
+    private async secretFor(notification: NotificationRecord): Promise<string> {
+        const transaction = await this.repository.findById(notification.transactionId);
+        const merchant = transaction ? await this.merchantRepository.findById(transaction.merchantId) : null;
+        return merchant?.webhookSecret ?? this.secret;
+    }
+}
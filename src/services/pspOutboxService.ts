@@ -0,0 +1,404 @@
+import { STATUSES, TransactionStatus } from '../enums/transactionStatus';
+import { EVENT_SOURCES } from '../enums/transactionEventSource';
+import { PSP_OUTBOX_STATUSES } from '../enums/pspOutboxStatus';
+import { DECLINE_CODES } from '../enums/declineCode';
+import { assertTransition } from '../domain/transactionStateMachine';
+import { declineFields, describeDecline } from '../domain/declineReasons';
+import { computeRetryDelay } from '../domain/retryBackoff';
+import { applyStatusChange } from '../domain/optimisticConcurrency';
+import { CardDetails } from '../domain/cardValidation';
+import { decryptCardDetails, encryptCardDetails } from '../domain/cardEncryption';
+import { NotificationService } from './notificationService';
+import {
+    PaymentProvider,
+    ProviderPaymentRequest,
+    ProviderRejectedError,
+    ProviderUnavailableError,
+} from '../providers/paymentProvider';
+import { ProviderRouter } from '../providers/providerRouter';
+import {
+    CreatePspOutboxData,
+    ITransactionRepository,
+    PspOutboxRecord,
+    PspOutboxRequest,
+    PspResponse,
+    TransactionEventInput,
+    TransactionRecord,
+} from '../types/transaction';
+import { Logger } from '../types/logger';
+
+/**
+ * Actor recorded on events for changes made through the public API.
+ */
+const API_ACTOR = 'api';
+
+/**
+ * PSP statuses of a new payment and the transaction status each maps to.
+ */
+const STATUS_MAPPING: Record<string, TransactionStatus> = {
+    SUCCESS: STATUSES.SUCCESS,
+    AUTHORIZED: STATUSES.AUTHORIZED,
+    FAILED: STATUSES.FAILED,
+    '3DS_REQUIRED': STATUSES.PENDING_3DS,
+};
+
+/**
+ * Service sending new payments to their provider from the PSP outbox.
+ *
+ * A transaction and the request for its payment are stored in one database transaction,
+ * so a transaction can no longer be left CREATED with nothing on its way to the PSP.
+ * The first attempt is made while the API request waits; while the provider (and its
+ * failover provider) is unavailable, the request is retried with exponential backoff and
+ * jitter, and pending requests are picked up again after a restart. Each attempt claims the
+ * entry for a lease first, so no two workers ever send the same request at once.
+ *
+ * The outbox entry's ID is sent as the provider's idempotency key, so resending a request
+ * whose answer was lost returns the payment already created instead of charging again.
+ * That only holds at the provider that got it: once a provider may have received the
+ * request, it is never sent anywhere else.
+ */
+export class PspOutboxService {
+    private repository: ITransactionRepository;
+    private providerRouter: ProviderRouter;
+    private cardEncryptionKey: string;
+    private notificationService: NotificationService | null;
+    private maxAttempts: number;
+    private retryBaseDelayMs: number;
+    private leaseMs: number;
+    private logger: Logger;
+
+    /** Scheduled send timers, keyed by outbox entry ID */
+    private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+    constructor(
+        repository: ITransactionRepository,
+        options: {
+            providerRouter: ProviderRouter;
+            cardEncryptionKey: string;
+            notificationService?: NotificationService;
+            maxAttempts?: number;
+            retryBaseDelayMs?: number;
+            leaseMs?: number;
+            logger?: Logger;
+        },
+    ) {
+        this.repository = repository;
+        this.providerRouter = options.providerRouter;
+        this.cardEncryptionKey = options.cardEncryptionKey;
+        this.notificationService = options.notificationService ?? null;
+        this.maxAttempts = options.maxAttempts ?? 5;
+        this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+        this.leaseMs = options.leaseMs ?? 60000;
+        this.logger = options.logger ?? console;
+    }
+
+    /**
+     * Builds the outbox entry for a new payment, to be stored together with its transaction.
+     * The card details are encrypted until the request has been sent.
+     */
+    prepare(outboxId: string, request: PspOutboxRequest, card: CardDetails): CreatePspOutboxData {
+        return {
+            id: outboxId,
+            request,
+            encryptedCard: encryptCardDetails(card, this.cardEncryptionKey),
+        };
+    }
+
+    /**
+     * Claims an outbox entry, sends its payment request to the transaction's provider, failing
+     * over while it provably cannot receive it, and applies the answer to the transaction.
+     * An entry that is not waiting to be sent, or that another worker holds, is left alone;
+     * a held one is tried again when its lease runs out, in case that worker died.
+     *
+     * If no provider can be reached, the next attempt is scheduled and the transaction stays
+     * CREATED; after the last attempt it is marked FAILED with the `provider_unavailable`
+     * decline code. The merchant is notified of the outcome either way.
+     *
+     * A provider that rejects the request (e.g. a 4xx response) fails the payment straight
+     * away with the `provider_rejected` decline code; an error of our own (e.g. card details
+     * that cannot be decrypted) fails it with `internal_error`.
+     *
+     * @returns The transaction as it stands after the attempt
+     */
+    async dispatch(outboxId: string): Promise<TransactionRecord> {
+        const entry = await this.repository.claimPspOutboxEntry(outboxId, this.leaseMs);
+        const storedEntry = entry ?? await this.repository.findPspOutboxEntry(outboxId);
+        if (!storedEntry) {
+            throw new Error(`PSP outbox entry not found: ${outboxId}`);
+        }
+        const transaction = await this.repository.findById(storedEntry.transactionId);
+        if (!transaction) {
+            throw new Error(`Transaction not found: ${storedEntry.transactionId}`);
+        }
+        if (!entry) {
+            if (storedEntry.status === PSP_OUTBOX_STATUSES.IN_FLIGHT && storedEntry.leaseExpiresAt) {
+                this.scheduleAttempt(outboxId, Math.max(storedEntry.leaseExpiresAt.getTime() - Date.now(), 0));
+            }
+            return transaction;
+        }
+
+        // The answer to an earlier attempt was applied before the entry could be marked sent
+        if (transaction.status !== STATUSES.CREATED) {
+            await this.markSent(entry);
+            return transaction;
+        }
+
+        const attempts = entry.attempts + 1;
+        let payment: { provider: PaymentProvider; response: PspResponse; status: TransactionStatus };
+        try {
+            // A provider that may have received the request already is the only one it goes to
+            const providerName = entry.sentTo ?? transaction.provider;
+            const provider = this.providerRouter.get(providerName);
+            if (!provider) {
+                throw new Error(`Payment provider '${providerName}' is not configured`);
+            }
+            if (!entry.encryptedCard) {
+                throw new Error('Card details are no longer available');
+            }
+
+            const card = decryptCardDetails(entry.encryptedCard, this.cardEncryptionKey);
+            const { provider: chargingProvider, response } = await this.createPayment(entry, provider, {
+                ...entry.request,
+                ...card,
+                idempotencyKey: entry.id,
+            });
+            const status = STATUS_MAPPING[response.status];
+            if (!status) {
+                throw new ProviderRejectedError(chargingProvider.name, `Unknown PSP status: ${response.status}`);
+            }
+            payment = { provider: chargingProvider, response, status };
+        } catch (error) {
+            return this.handleFailedAttempt(entry, transaction, attempts, error);
+        }
+
+        const { provider: chargingProvider, response: pspResponse, status: newStatus } = payment;
+        assertTransition(transaction.status, newStatus);
+
+        // The PSP's webhook may have been applied while we waited for its answer: the update is a
+        // compare-and-set on the version read above, so the answer never overwrites newer state
+        const failedOver = chargingProvider.name !== transaction.provider;
+        const { transaction: updatedTransaction, applied } = await applyStatusChange(this.repository, transaction, newStatus, {
+            pspTransactionId: pspResponse.transactionId,
+            ...(failedOver && { provider: chargingProvider.name }),
+            ...(newStatus === STATUSES.FAILED && declineFields(pspResponse)),
+            ...(pspResponse.threeDsRedirectUrl && { threeDsRedirectUrl: pspResponse.threeDsRedirectUrl }),
+        }, {
+            source: EVENT_SOURCES.API,
+            actor: API_ACTOR,
+            payload: { ...pspResponse, ...(failedOver && { failedOverFrom: transaction.provider }) },
+        }, this.logger);
+        if (applied) {
+            await this.notifyMerchant(updatedTransaction);
+        }
+        await this.markSent({ ...entry, attempts });
+        return updatedTransaction;
+    }
+
+    /**
+     * Settles a CREATED transaction that never got a PSP transaction ID (used by the reconciler).
+     * A request still waiting in the outbox is sent right away; a payment whose request will never
+     * be sent (the outbox gave up on it, or none was stored) is marked FAILED with the
+     * `provider_unavailable` decline code, attributed to `event`.
+     *
+     * @returns The transaction as it stands afterwards
+     */
+    async settleUnsent(transaction: TransactionRecord, event: TransactionEventInput): Promise<TransactionRecord> {
+        const entry = await this.repository.findPspOutboxEntryByTransactionId(transaction.id);
+        if (entry && entry.status !== PSP_OUTBOX_STATUSES.FAILED) {
+            return entry.status === PSP_OUTBOX_STATUSES.SENT ? transaction : this.dispatch(entry.id);
+        }
+
+        assertTransition(transaction.status, STATUSES.FAILED);
+        const { transaction: failedTransaction, applied } = await applyStatusChange(
+            this.repository,
+            transaction,
+            STATUSES.FAILED,
+            {
+                declineCode: DECLINE_CODES.PROVIDER_UNAVAILABLE,
+                declineMessage: describeDecline(DECLINE_CODES.PROVIDER_UNAVAILABLE).message,
+            },
+            { ...event, payload: { ...event.payload, error: entry?.lastError ?? 'No PSP request was stored for the payment' } },
+            this.logger,
+        );
+        if (applied) {
+            await this.notifyMerchant(failedTransaction);
+        }
+        return failedTransaction;
+    }
+
+    /**
+     * Reschedules requests left PENDING by a previous process, honouring their next attempt time.
+     * Requests left IN_FLIGHT are retried once their lease has expired; whose answer was lost,
+     * they are resent with the same idempotency key.
+     */
+    async resumePendingRequests(): Promise<void> {
+        const pendingEntries = await this.repository.findPendingPspOutboxEntries();
+        for (const entry of pendingEntries) {
+            const dueAt = entry.status === PSP_OUTBOX_STATUSES.IN_FLIGHT ? entry.leaseExpiresAt : entry.nextAttemptAt;
+            this.scheduleAttempt(entry.id, dueAt ? Math.max(dueAt.getTime() - Date.now(), 0) : 0);
+        }
+    }
+
+    /**
+     * Cancels all scheduled sends (called on shutdown). Pending requests
+     * stay PENDING in storage and are resumed on the next start.
+     */
+    stop(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    /**
+     * Schedules the next attempt for an outbox entry.
+     */
+    private scheduleAttempt(outboxId: string, delayMs: number): void {
+        const existingTimer = this.timers.get(outboxId);
+        if (existingTimer) {
+            clearTimeout(existingTimer);
+        }
+
+        const timer = setTimeout(async () => {
+            this.timers.delete(outboxId);
+            try {
+                await this.dispatch(outboxId);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.logger.error(`PSP outbox entry ${outboxId} could not be sent: ${errorMessage}`);
+            }
+        }, delayMs);
+
+        // Pending entries are picked up again after a restart, so the retry need not hold the process open
+        if (timer && typeof timer === 'object' && 'unref' in timer) {
+            timer.unref();
+        }
+
+        this.timers.set(outboxId, timer);
+    }
+
+    /**
+     * Records a failed attempt. An unavailable provider is retried until the maximum attempt
+     * count is reached, then the payment fails as `provider_unavailable`. A rejection fails the
+     * payment straight away as `provider_rejected`, and any other error as `internal_error`.
+     */
+    private async handleFailedAttempt(
+        entry: PspOutboxRecord,
+        transaction: TransactionRecord,
+        attempts: number,
+        error: unknown,
+    ): Promise<TransactionRecord> {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const unavailable = error instanceof ProviderUnavailableError;
+
+        if (unavailable && attempts < this.maxAttempts) {
+            const delayMs = computeRetryDelay(attempts, this.retryBaseDelayMs);
+            await this.repository.updatePspOutboxEntry(entry.id, {
+                status: PSP_OUTBOX_STATUSES.PENDING,
+                attempts,
+                lastError: errorMessage,
+                nextAttemptAt: new Date(Date.now() + delayMs),
+                leaseExpiresAt: null,
+                // No provider got the request this time, so it is as free to fail over as before
+                ...(error.neverReceived && { sentTo: entry.sentTo }),
+            });
+            this.logger.warn(
+                `PSP request for transaction ${transaction.id} attempt ${attempts}/${this.maxAttempts} failed, retrying in ${delayMs}ms: ${errorMessage}`,
+            );
+            this.scheduleAttempt(entry.id, delayMs);
+            return transaction;
+        }
+
+        await this.repository.updatePspOutboxEntry(entry.id, {
+            status: PSP_OUTBOX_STATUSES.FAILED,
+            attempts,
+            lastError: errorMessage,
+            nextAttemptAt: null,
+            leaseExpiresAt: null,
+            encryptedCard: null,
+        });
+
+        // A payment that no provider could be reached for must not sit in CREATED with no PSP
+        // transaction to reconcile against. The merchant is told the decline is retryable, unless
+        // the provider answered and refused the request or we could not send it at all.
+        const declineCode = unavailable
+            ? DECLINE_CODES.PROVIDER_UNAVAILABLE
+            : error instanceof ProviderRejectedError ? DECLINE_CODES.PROVIDER_REJECTED : DECLINE_CODES.INTERNAL_ERROR;
+        assertTransition(transaction.status, STATUSES.FAILED);
+        const { transaction: failedTransaction, applied } = await applyStatusChange(
+            this.repository,
+            transaction,
+            STATUSES.FAILED,
+            { declineCode, declineMessage: describeDecline(declineCode).message },
+            {
+                source: EVENT_SOURCES.API,
+                actor: API_ACTOR,
+                payload: { provider: unavailable ? error.provider : transaction.provider, error: errorMessage, attempts },
+            },
+            this.logger,
+        );
+        if (applied) {
+            await this.notifyMerchant(failedTransaction);
+        }
+        return failedTransaction;
+    }
+
+    /**
+     * Marks an entry SENT and wipes its card details, which are not needed any more.
+     */
+    private async markSent(entry: PspOutboxRecord): Promise<void> {
+        await this.repository.updatePspOutboxEntry(entry.id, {
+            status: PSP_OUTBOX_STATUSES.SENT,
+            attempts: entry.attempts,
+            nextAttemptAt: null,
+            leaseExpiresAt: null,
+            encryptedCard: null,
+        });
+    }
+
+    /**
+     * Sends a new payment to its provider. While that provider is unavailable and provably
+     * never received the request (circuit open, or connection refused) the payment goes to
+     * the provider's failover provider instead, if one is configured and no provider may
+     * have the request yet. A timeout or 5xx is never failed over: the provider may have
+     * created the payment, and the failover provider would charge the customer a second
+     * time. The request is retried with the same provider and idempotency key instead.
+     *
+     * @returns The provider that took the payment and its response
+     */
+    private async createPayment(
+        entry: PspOutboxRecord,
+        provider: PaymentProvider,
+        request: ProviderPaymentRequest,
+    ): Promise<{ provider: PaymentProvider; response: PspResponse }> {
+        try {
+            return { provider, response: await this.sendPayment(entry, provider, request) };
+        } catch (error) {
+            const failoverProvider = entry.sentTo === null ? this.providerRouter.failoverFor(provider.name) : undefined;
+            if (!(error instanceof ProviderUnavailableError) || !error.neverReceived || !failoverProvider) {
+                throw error;
+            }
+
+            this.logger.warn(`Payment provider '${provider.name}' is unavailable, failing over to '${failoverProvider.name}': ${error.message}`);
+            this.providerRouter.recordFailover(provider.name);
+            return { provider: failoverProvider, response: await this.sendPayment(entry, failoverProvider, request) };
+        }
+    }
+
+    /**
+     * Sends the request to one provider, recording it on the entry first: should this process
+     * die waiting for the answer, the request is only ever resent to that provider.
+     */
+    private async sendPayment(entry: PspOutboxRecord, provider: PaymentProvider, request: ProviderPaymentRequest): Promise<PspResponse> {
+        if (entry.sentTo !== provider.name) {
+            await this.repository.updatePspOutboxEntry(entry.id, { sentTo: provider.name });
+        }
+        return provider.createPayment(request);
+    }
+
+    private async notifyMerchant(transaction: TransactionRecord): Promise<void> {
+        if (this.notificationService) {
+            await this.notificationService.notifyStatusChange(transaction);
+        }
+    }
+}
@@ -0,0 +1,282 @@
+import { STATUSES, TransactionStatus } from '../enums/transactionStatus';
+import { EVENT_SOURCES } from '../enums/transactionEventSource';
+import {
+    ITransactionRepository,
+    PspTransactionStatusResponse,
+    ReconciliationReport,
+    ReconciliationResult,
+    TransactionRecord,
+} from '../types/transaction';
+import { WebhookService } from './webhookService';
+import { TransactionService } from './transactionService';
+import { PspOutboxService } from './pspOutboxService';
+import { Logger } from '../types/logger';
+import { ProviderRouter } from '../providers/providerRouter';
+
+/**
+ * Statuses a transaction only leaves when the PSP reports back.
+ */
+const RECONCILABLE_STATUSES: TransactionStatus[] = [STATUSES.CREATED, STATUSES.PENDING_3DS];
+
+/**
+ * PSP statuses that settle a stuck transaction.
+ */
+const SETTLED_PSP_STATUSES = ['SUCCESS', 'AUTHORIZED', 'FAILED'];
+
+/**
+ * Actor recorded on status changes made by the reconciler.
+ */
+const RECONCILER_ACTOR = 'reconciler';
+
+/**
+ * Service that repairs transactions whose PSP webhook was lost.
+ *
+ * On a schedule, it picks transactions that have sat in CREATED or PENDING_3DS
+ * for longer than a threshold, asks the provider each was routed to for its real
+ * status (for the simulator, GET /psp/transactions/:id) and applies settled statuses through
+ * `WebhookService.applyPaymentStatus`, i.e. under the same row lock, duplicate
+ * detection and state machine checks as a webhook. Transactions that never got a PSP
+ * transaction ID are settled through the PSP outbox instead.
+ *
+ * Every transaction checked is stamped, and each run starts with the ones checked least
+ * recently, so transactions that cannot be resolved never keep the others waiting.
+ *
+ * Refunds left PENDING without a PSP refund ID for longer than the threshold (the PSP's answer
+ * was lost) are sent again; the PSP recognizes one it already accepted by its reference.
+ */
+export class ReconciliationService {
+    private repository: ITransactionRepository;
+    private webhookService: WebhookService;
+    private providerRouter: ProviderRouter;
+    private transactionService: TransactionService;
+    private pspOutboxService: PspOutboxService;
+    private thresholdMs: number;
+    private intervalMs: number;
+    private batchSize: number;
+    private logger: Logger;
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private currentRun: Promise<ReconciliationReport> | null = null;
+
+    constructor(
+        repository: ITransactionRepository,
+        webhookService: WebhookService,
+        options: {
+            providerRouter: ProviderRouter;
+            transactionService: TransactionService;
+            pspOutboxService: PspOutboxService;
+            thresholdMs?: number;
+            intervalMs?: number;
+            batchSize?: number;
+            logger?: Logger;
+        },
+    ) {
+        this.repository = repository;
+        this.webhookService = webhookService;
+        this.providerRouter = options.providerRouter;
+        this.transactionService = options.transactionService;
+        this.pspOutboxService = options.pspOutboxService;
+        this.thresholdMs = options.thresholdMs ?? 15 * 60 * 1000;
+        this.intervalMs = options.intervalMs ?? 60 * 1000;
+        this.batchSize = options.batchSize ?? 100;
+        this.logger = options.logger ?? console;
+    }
+
+    /**
+     * Starts reconciling on the configured interval. Does nothing when the interval is 0.
+     */
+    start(): void {
+        if (this.timer || this.intervalMs <= 0) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.reconcile().catch((error) => {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.logger.error(`Reconciliation run failed: ${errorMessage}`);
+            });
+        }, this.intervalMs);
+
+        // The schedule is background work and must not hold the process open on its own
+        if (typeof this.timer === 'object' && 'unref' in this.timer) {
+            this.timer.unref();
+        }
+    }
+
+    /**
+     * Stops the schedule (called on shutdown).
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Reconciles one batch of stuck transactions and reports the outcome.
+     * Runs never overlap: a call made while a run is in progress gets that run's report.
+     */
+    async reconcile(): Promise<ReconciliationReport> {
+        if (!this.currentRun) {
+            this.currentRun = this.runReconciliation().finally(() => {
+                this.currentRun = null;
+            });
+        }
+        return this.currentRun;
+    }
+
+    private async runReconciliation(): Promise<ReconciliationReport> {
+        const startedAt = new Date();
+        const staleTransactions = await this.repository.findStaleTransactions(
+            RECONCILABLE_STATUSES,
+            new Date(startedAt.getTime() - this.thresholdMs),
+            this.batchSize,
+        );
+
+        const results: ReconciliationResult[] = [];
+        for (const transaction of staleTransactions) {
+            results.push(await this.reconcileTransaction(transaction));
+            await this.repository.markReconciled(transaction.id, startedAt);
+        }
+        await this.resendStaleRefunds(startedAt);
+
+        const countOutcome = (outcome: ReconciliationResult['outcome']) =>
+            results.filter((result) => result.outcome === outcome).length;
+        const report: ReconciliationReport = {
+            startedAt,
+            finishedAt: new Date(),
+            checked: results.length,
+            fixed: countOutcome('FIXED'),
+            stillPending: countOutcome('PENDING'),
+            inSync: countOutcome('IN_SYNC'),
+            inconsistent: countOutcome('INCONSISTENT'),
+            results,
+        };
+
+        if (report.checked > 0) {
+            this.logger.info(
+                `Reconciliation checked ${report.checked} transaction(s): ${report.fixed} fixed, `
+                + `${report.stillPending} still pending at the PSP, ${report.inSync} already in sync, `
+                + `${report.inconsistent} still inconsistent`,
+            );
+        }
+
+        return report;
+    }
+
+    /**
+     * Sends refunds the PSP never answered for again. They stay PENDING if it still does not answer.
+     */
+    private async resendStaleRefunds(startedAt: Date): Promise<void> {
+        const staleRefunds = await this.repository.findStaleRefunds(
+            new Date(startedAt.getTime() - this.thresholdMs),
+            this.batchSize,
+        );
+
+        let sent = 0;
+        for (const refund of staleRefunds) {
+            try {
+                const resent = await this.transactionService.resendRefund(refund);
+                if (resent.pspRefundId !== null) {
+                    sent++;
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                this.logger.warn(`Refund ${refund.id} could not be sent again: ${errorMessage}`);
+            }
+        }
+
+        if (staleRefunds.length > 0) {
+            this.logger.info(
+                `Reconciliation sent ${staleRefunds.length} unanswered refund(s) again: ${sent} accepted by the PSP`,
+            );
+        }
+    }
+
+    /**
+     * Asks the PSP about one transaction and applies its status if it has settled.
+     */
+    private async reconcileTransaction(transaction: TransactionRecord): Promise<ReconciliationResult> {
+        const result = (
+            outcome: ReconciliationResult['outcome'],
+            pspStatus: string | null,
+            message?: string,
+            status: TransactionStatus = transaction.status,
+        ): ReconciliationResult => {
+            if (outcome === 'INCONSISTENT') {
+                this.logger.warn(`Transaction ${transaction.id} could not be reconciled: ${message}`);
+            }
+            return {
+                transactionId: transaction.id,
+                pspTransactionId: transaction.pspTransactionId,
+                previousStatus: transaction.status,
+                status,
+                pspStatus,
+                outcome,
+                ...(message !== undefined && { message }),
+            };
+        };
+
+        // Nothing to ask the PSP about: a request still waiting in the outbox is sent now, and a
+        // payment whose request will never be sent is failed rather than left CREATED for good
+        if (!transaction.pspTransactionId) {
+            try {
+                const settled = await this.pspOutboxService.settleUnsent(transaction, {
+                    source: EVENT_SOURCES.RECONCILIATION,
+                    actor: RECONCILER_ACTOR,
+                });
+                return settled.status === STATUSES.CREATED
+                    ? result('PENDING', null, 'No PSP transaction ID: the PSP request is still being retried from the outbox')
+                    : result('FIXED', null, undefined, settled.status);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                return result('INCONSISTENT', null, `PSP request could not be settled: ${errorMessage}`);
+            }
+        }
+
+        const provider = this.providerRouter.get(transaction.provider);
+        if (!provider) {
+            return result('INCONSISTENT', null, `Payment provider '${transaction.provider}' is not configured`);
+        }
+
+        let pspTransaction: PspTransactionStatusResponse | null;
+        try {
+            pspTransaction = await provider.getPayment(transaction.pspTransactionId);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return result('INCONSISTENT', null, `PSP status lookup failed: ${errorMessage}`);
+        }
+
+        if (!pspTransaction) {
+            return result('INCONSISTENT', null, `Unknown to the PSP: ${transaction.pspTransactionId}`);
+        }
+        if (pspTransaction.status === '3DS_REQUIRED') {
+            return result('PENDING', pspTransaction.status);
+        }
+        if (!SETTLED_PSP_STATUSES.includes(pspTransaction.status)) {
+            return result('INCONSISTENT', pspTransaction.status, `Unexpected PSP status: ${pspTransaction.status}`);
+        }
+
+        try {
+            const applied = await this.webhookService.applyPaymentStatus({
+                transactionId: pspTransaction.transactionId,
+                final_amount: pspTransaction.finalAmount,
+                status: pspTransaction.status,
+                ...(pspTransaction.declineCode && { declineCode: pspTransaction.declineCode }),
+                ...(pspTransaction.declineMessage && { declineMessage: pspTransaction.declineMessage }),
+            }, {
+                source: EVENT_SOURCES.RECONCILIATION,
+                actor: RECONCILER_ACTOR,
+                payload: { ...pspTransaction },
+            }, provider.name);
+
+            return applied.message
+                ? result('IN_SYNC', pspTransaction.status, applied.message, applied.status)
+                : result('FIXED', pspTransaction.status, undefined, applied.status);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return result('INCONSISTENT', pspTransaction.status, errorMessage);
+        }
+    }
+}
@@ -0,0 +1,176 @@
+import { STATUSES, TransactionStatus } from '../enums/transactionStatus';
+import { parseSettlementFile, settlementDayRange } from '../domain/settlementFile';
+import {
+    ITransactionRepository,
+    SettlementFile,
+    SettlementReconciliationReport,
+    TransactionRecord,
+} from '../types/transaction';
+
+/**
+ * Our statuses consistent with each status a settlement record can carry.
+ * Refunds happen after settlement, so a settled payment may since have been refunded.
+ */
+const EXPECTED_STATUSES: Record<string, TransactionStatus[]> = {
+    SUCCESS: [STATUSES.SUCCESS, STATUSES.PARTIALLY_REFUNDED, STATUSES.REFUNDED],
+    FAILED: [STATUSES.FAILED],
+    VOIDED: [STATUSES.VOIDED],
+};
+
+/**
+ * Our statuses for which the PSP is expected to list the transaction in its settlement file.
+ */
+const SETTLED_STATUSES = Object.values(EXPECTED_STATUSES).flat();
+
+/**
+ * Page size used when loading a day's transactions.
+ */
+const PAGE_SIZE = 500;
+
+/**
+ * Custom error class for settlement errors with HTTP status codes.
+ */
+export class SettlementError extends Error {
+    public statusCode: number;
+
+    constructor(message: string, statusCode: number) {
+        super(message);
+        this.name = 'SettlementError';
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Service that matches PSP settlement files against the transactions table.
+ *
+ * A settlement file lists the payments the PSP received on one UTC day that reached a
+ * final status. Each record is looked up by PSP transaction ID and compared on amount,
+ * final amount and status; our final transactions created that day that the file does
+ * not mention are reported as missing. Transactions charged in a settlement currency are
+ * compared on their amounts in that currency, which is what the PSP knows about. With several payment providers, each provider's
+ * file is reconciled against that provider's transactions only.
+ */
+export class SettlementService {
+    private repository: ITransactionRepository;
+
+    constructor(repository: ITransactionRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Parses a settlement file (CSV or JSON) and reconciles it.
+     * @param content - File content
+     * @param date - Settlement day to assume for a CSV without rows
+     * @param provider - Payment provider that issued the file; all transactions are considered when omitted
+     * @throws SettlementError (400) if the file cannot be parsed
+     */
+    async reconcileFile(content: string, date?: string, provider?: string): Promise<SettlementReconciliationReport> {
+        let file: SettlementFile;
+        try {
+            file = parseSettlementFile(content, date);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new SettlementError(`Invalid settlement file: ${errorMessage}`, 400);
+        }
+
+        return this.reconcile(file, provider);
+    }
+
+    /**
+     * Matches a parsed settlement file against the transactions table.
+     * @param provider - Payment provider that issued the file; all transactions are considered when omitted
+     */
+    async reconcile(file: SettlementFile, provider?: string): Promise<SettlementReconciliationReport> {
+        const report: SettlementReconciliationReport = {
+            date: file.date,
+            records: file.records.length,
+            matched: 0,
+            missing: [],
+            extra: [],
+            amountMismatches: [],
+            statusMismatches: [],
+        };
+
+        const isFromProvider = (transaction: TransactionRecord) =>
+            provider === undefined || transaction.provider === provider;
+        const dayTransactions = await this.findTransactionsCreatedOn(file.date);
+        const transactionsByPspId = new Map(dayTransactions
+            .filter((transaction) => transaction.pspTransactionId && isFromProvider(transaction))
+            .map((transaction) => [transaction.pspTransactionId!, transaction]));
+
+        for (const record of file.records) {
+            // Payments created around midnight may fall on a different day on each side
+            const transaction = transactionsByPspId.get(record.pspTransactionId)
+                ?? await this.repository.findByPspTransactionId(record.pspTransactionId);
+            transactionsByPspId.delete(record.pspTransactionId);
+
+            if (!transaction || !isFromProvider(transaction)) {
+                report.extra.push(record);
+                continue;
+            }
+
+            const reference = { transactionId: transaction.id, pspTransactionId: record.pspTransactionId };
+            let consistent = true;
+
+            if (!(EXPECTED_STATUSES[record.status] ?? []).includes(transaction.status)) {
+                report.statusMismatches.push({ ...reference, status: transaction.status, pspStatus: record.status });
+                consistent = false;
+            }
+            const amount = transaction.settlementAmount ?? transaction.amount;
+            if (amount !== record.amount) {
+                report.amountMismatches.push({ ...reference, field: 'amount', expected: amount, actual: record.amount });
+                consistent = false;
+            }
+            // Without a webhook-reported final amount, the full amount was charged
+            const finalAmount = transaction.settlementCurrency
+                ? transaction.finalSettlementAmount ?? amount
+                : transaction.finalAmount ?? amount;
+            if (record.status === 'SUCCESS' && finalAmount !== record.finalAmount) {
+                report.amountMismatches.push({ ...reference, field: 'finalAmount', expected: finalAmount, actual: record.finalAmount });
+                consistent = false;
+            }
+
+            if (consistent) {
+                report.matched++;
+            }
+        }
+
+        // Whatever is left was never mentioned by the file
+        for (const transaction of transactionsByPspId.values()) {
+            if (SETTLED_STATUSES.includes(transaction.status)) {
+                report.missing.push({
+                    transactionId: transaction.id,
+                    pspTransactionId: transaction.pspTransactionId!,
+                    status: transaction.status,
+                });
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Loads every transaction created on a settlement day, page by page.
+     */
+    private async findTransactionsCreatedOn(date: string): Promise<TransactionRecord[]> {
+        const { from, to } = settlementDayRange(date);
+        const transactions: TransactionRecord[] = [];
+
+        for (;;) {
+            const last = transactions[transactions.length - 1];
+            const page = await this.repository.list({
+                createdFrom: from,
+                createdTo: to,
+                sortBy: 'createdAt',
+                sortOrder: 'asc',
+                limit: PAGE_SIZE,
+                ...(last && { after: { value: last.createdAt.toISOString(), id: last.id } }),
+            });
+            transactions.push(...page.items);
+
+            if (!page.hasMore) {
+                return transactions;
+            }
+        }
+    }
+}
@@ -1,94 +1,266 @@
 import { v4 as uuidv4 } from 'uuid';
 import { STATUSES, TransactionStatus } from '../enums/transactionStatus';
-import { assertTransition } from '../domain/transactionStateMachine';
+import { REFUND_STATUSES } from '../enums/refundStatus';
+import { EVENT_SOURCES } from '../enums/transactionEventSource';
+import { canTransition, isRefundable } from '../domain/transactionStateMachine';
+import { TransactionConflictError } from '../domain/optimisticConcurrency';
+import { TransactionLockTimeoutError, TransactionUnitTimeoutError } from '../domain/transactionLocking';
+import { fingerprintRequest } from '../domain/requestFingerprint';
+import { decodeCursor, encodeCursor } from '../domain/pagination';
+import { formatAmount, isSupportedCurrency } from '../domain/currencies';
+import {
+    convertToSettlement,
+    FxConversion,
+    lockedConversion,
+    reconcileSettlementAmount,
+} from '../domain/fxConversion';
+import { replaceCardWithToken, tokenizeCard } from '../domain/cardTokenization';
+import { CardFieldError, validateCard } from '../domain/cardValidation';
+import { isRetryableDecline } from '../domain/declineReasons';
+import { NotificationService } from './notificationService';
+import { PspOutboxService } from './pspOutboxService';
+import { PaymentProvider, ProviderRejectedError } from '../providers/paymentProvider';
+import { ProviderRouter } from '../providers/providerRouter';
+import { FxRate, FxRateProvider } from '../providers/fxRateProvider';
 import {
     ITransactionRepository,
     CreateTransactionPayload,
     CreateTransactionResponse,
-    PspResponse,
+    CaptureTransactionPayload,
+    CreateRefundPayload,
+    ListTransactionsParams,
+    ListTransactionsResponse,
+    PspRefundResponse,
+    RefundRecord,
+    TransactionCursor,
+    TransactionEventInput,
+    TransactionEventRecord,
+    TransactionRecord,
+    TransactionResponse,
+    TransactionUnitOfWork,
+    UpdateExtraFields,
 } from '../types/transaction';
 
 /**
- * Service responsible for creating transactions and coordinating with the PSP.
+ * Actor recorded on events for changes made through the public API.
+ */
+const API_ACTOR = 'api';
+
+/**
+ * Custom error class for transaction operation errors with HTTP status codes.
+ */
+export class TransactionError extends Error {
+    public statusCode: number;
+
+    constructor(message: string, statusCode: number) {
+        super(message);
+        this.name = 'TransactionError';
+        this.statusCode = statusCode;
+    }
+}
+
+/**
+ * Rejection of card details that cannot be charged, listing every offending field.
+ */
+export class CardValidationError extends TransactionError {
+    public fieldErrors: CardFieldError[];
+
+    constructor(fieldErrors: CardFieldError[]) {
+        super('Invalid card details', 400);
+        this.name = 'CardValidationError';
+        this.fieldErrors = fieldErrors;
+    }
+}
+
+/**
+ * Service responsible for creating transactions and coordinating with the payment providers.
+ * Every public operation acts on behalf of a merchant: other merchants' transactions are reported as not found.
  */
 export class TransactionService {
     private repository: ITransactionRepository;
-    private pspBaseUrl: string;
-    private appBaseUrl: string;
-    private retryAttempts: number;
-    private retryDelayMs: number;
+    private providerRouter: ProviderRouter;
+    private cardTokenSecret: string;
+    private idempotencyKeyLeaseMs: number;
+    private fxRateProvider: FxRateProvider;
+    private notificationService: NotificationService | null;
+    private pspOutboxService: PspOutboxService;
 
     constructor(
         repository: ITransactionRepository,
         options: {
-            pspBaseUrl: string;
-            appBaseUrl: string;
-            retryAttempts?: number;
-            retryDelayMs?: number;
+            providerRouter: ProviderRouter;
+            cardTokenSecret: string;
+            idempotencyKeyLeaseMs?: number;
+            fxRateProvider: FxRateProvider;
+            pspOutboxService: PspOutboxService;
+            notificationService?: NotificationService;
         },
     ) {
         this.repository = repository;
-        this.pspBaseUrl = options.pspBaseUrl;
-        this.appBaseUrl = options.appBaseUrl;
-        this.retryAttempts = options.retryAttempts ?? 3;
-        this.retryDelayMs = options.retryDelayMs ?? 500;
+        this.providerRouter = options.providerRouter;
+        this.cardTokenSecret = options.cardTokenSecret;
+        this.idempotencyKeyLeaseMs = options.idempotencyKeyLeaseMs ?? 60000;
+        this.fxRateProvider = options.fxRateProvider;
+        this.notificationService = options.notificationService ?? null;
+        this.pspOutboxService = options.pspOutboxService;
     }
 
     /**
-     * Creates a new transaction and forwards it to the PSP simulator.
+     * Creates a new transaction for a merchant, honouring an optional Idempotency-Key.
      *
-     * Flow:
-     * 1. Generate internal UUID
-     * 2. Persist transaction with CREATED status
-     * 3. Call PSP simulator (with retry)
-     * 4. Map PSP response to internal status
-     * 5. Return transaction with current state
+     * The first request with a key claims it and stores its response; replays with
+     * the same body get that response back without charging the card again.
+     * Keys are scoped to the merchant, so merchants cannot collide on them.
+     * If creation fails the key is released so the client can retry with it.
+     *
+     * @throws CardValidationError 400 if the card number, expiry or CVV cannot be valid
+     * @throws TransactionError 400 if the currency or settlement currency is not a supported ISO 4217 code,
+     *         422 if there is no FX rate to the settlement currency or the key was used with a different body,
+     *         409 if the original request is still in flight
      */
-    async createTransaction(payload: CreateTransactionPayload): Promise<CreateTransactionResponse> {
-        const { amount, currency, cardNumber, cardExpiry, cvv, orderId, callbackUrl } = payload;
+    async createTransaction(
+        merchantId: string,
+        payload: CreateTransactionPayload,
+        options: { idempotencyKey?: string } = {},
+    ): Promise<CreateTransactionResponse> {
+        // Checked before anything is stored or sent to the PSP, which would misread the amount
+        for (const currency of [payload.currency, payload.settlementCurrency]) {
+            if (currency !== undefined && !isSupportedCurrency(currency)) {
+                throw new TransactionError(
+                    `Unsupported currency '${currency}': expected an ISO 4217 code such as EUR`,
+                    400,
+                );
+            }
+        }
 
-        const transactionId = uuidv4();
+        const cardErrors = validateCard(payload);
+        if (cardErrors.length > 0) {
+            throw new CardValidationError(cardErrors);
+        }
 
-        // Persist transaction in CREATED state
-        let transaction = await this.repository.create({
-            id: transactionId,
-            orderId,
-            amount,
-            currency,
-            cardNumber,
-            status: STATUSES.CREATED,
-        });
+        const { idempotencyKey } = options;
+        if (!idempotencyKey) {
+            return this.executeTransaction(merchantId, payload);
+        }
+
+        // The stored fingerprint must not be derivable from card data
+        const requestFingerprint = fingerprintRequest(replaceCardWithToken(payload, this.cardTokenSecret));
+        const { claimed, record } = await this.repository.claimIdempotencyKey(
+            merchantId,
+            idempotencyKey,
+            requestFingerprint,
+            this.idempotencyKeyLeaseMs,
+        );
 
-        // Call the PSP simulator
-        const pspResponse = await this.callPsp({
+        if (!claimed) {
+            if (record.requestFingerprint !== requestFingerprint) {
+                throw new TransactionError(
+                    'Idempotency-Key has already been used with a different request body',
+                    422,
+                );
+            }
+            if (record.status !== 'COMPLETED' || !record.response) {
+                throw new TransactionError(
+                    'A request with this Idempotency-Key is still being processed',
+                    409,
+                );
+            }
+            return record.response;
+        }
+
+        try {
+            const response = await this.executeTransaction(merchantId, payload);
+            await this.repository.completeIdempotencyKey(merchantId, idempotencyKey, response);
+            return response;
+        } catch (error) {
+            await this.repository.releaseIdempotencyKey(merchantId, idempotencyKey);
+            throw error;
+        }
+    }
+
+    /**
+     * Creates a new transaction and forwards it to the payment provider chosen by the router.
+     *
+     * Flow:
+     * 1. Generate internal UUID
+     * 2. Lock the FX rate if the PSP settles in another currency and convert the amount
+     * 3. Tokenize the card, pick the provider and persist the transaction with CREATED status,
+     *    atomically with its PSP outbox entry holding the request and the encrypted card
+     * 4. Send the request from the outbox: the provider (with retry) is charged the settlement
+     *    amount, or its failover provider while it is down
+     * 5. Map PSP response to internal status, keeping the decline code of a FAILED payment,
+     *    and notify the merchant of final outcomes
+     * 6. Return transaction with current state
+     *
+     * If no provider can be reached the transaction is returned still CREATED, without a PSP
+     * transaction ID, while the outbox retries the request in the background.
+     *
+     * The provider always reports back to our own webhook endpoint; `callbackUrl` is
+     * only where we send the merchant our own transaction.* events.
+     */
+    private async executeTransaction(merchantId: string, payload: CreateTransactionPayload): Promise<CreateTransactionResponse> {
+        const {
             amount,
             currency,
+            settlementCurrency,
             cardNumber,
             cardExpiry,
             cvv,
             orderId,
-            callbackUrl: callbackUrl || `${this.appBaseUrl}/webhooks/psp`,
-            failureUrl: `${this.appBaseUrl}/failure/psp`,
-        });
+            callbackUrl,
+            returnUrl,
+            failureUrl,
+            captureMode = 'automatic',
+        } = payload;
 
-        // Map PSP response status to internal status
-        const statusMapping: Record<string, TransactionStatus> = {
-            SUCCESS: STATUSES.SUCCESS,
-            FAILED: STATUSES.FAILED,
-            '3DS_REQUIRED': STATUSES.PENDING_3DS,
-        };
-
-        const newStatus = statusMapping[pspResponse.status];
-        if (!newStatus) {
-            throw new Error(`Unknown PSP status: ${pspResponse.status}`);
+        const transactionId = uuidv4();
+        const fxRate = settlementCurrency && settlementCurrency !== currency
+            ? await this.lockFxRate(currency, settlementCurrency)
+            : null;
+        const conversion: FxConversion | null = fxRate && { currency, settlementCurrency: fxRate.to, rate: fxRate.rate };
+        const settlementAmount = conversion && convertToSettlement(amount, conversion);
+        if (settlementAmount === 0) {
+            throw new TransactionError(`Amount ${amount} ${currency} is worth nothing in ${conversion!.settlementCurrency}`, 422);
         }
 
-        // Validate and apply state transition
-        assertTransition(transaction.status, newStatus);
+        // The PSP only ever sees the settlement currency, so routing rules match on it too
+        const chargedCurrency = conversion?.settlementCurrency ?? currency;
+        const chargedAmount = settlementAmount ?? amount;
+        const card = tokenizeCard(cardNumber, this.cardTokenSecret);
+        const provider = this.providerRouter.select({ currency: chargedCurrency, cardBrand: card.cardBrand, amount: chargedAmount });
 
-        transaction = await this.repository.updateStatus(transactionId, newStatus, {
-            pspTransactionId: pspResponse.transactionId,
-        });
+        // Persist transaction in CREATED state with the card tokenized, together with the
+        // provider request; only the outbox entry holds the PAN and CVV, encrypted
+        const outboxId = uuidv4();
+        await this.repository.create({
+            id: transactionId,
+            merchantId,
+            orderId,
+            amount,
+            currency,
+            ...card,
+            notificationUrl: callbackUrl ?? null,
+            provider: provider.name,
+            status: STATUSES.CREATED,
+            settlementCurrency: conversion?.settlementCurrency ?? null,
+            settlementAmount,
+            fxRate: fxRate?.rate ?? null,
+            fxRateTimestamp: fxRate?.timestamp ?? null,
+        }, {
+            source: EVENT_SOURCES.API,
+            actor: API_ACTOR,
+            payload: replaceCardWithToken(payload, this.cardTokenSecret),
+        }, this.pspOutboxService.prepare(outboxId, {
+            amount: chargedAmount,
+            currency: chargedCurrency,
+            orderId,
+            returnUrl,
+            failureUrl,
+            captureMode,
+        }, { cardNumber, cardExpiry, cvv }));
+
+        // Send the request now; if the provider cannot be reached the outbox keeps retrying it
+        const transaction = await this.pspOutboxService.dispatch(outboxId);
 
         // Build response
         const response: CreateTransactionResponse = {
@@ -96,96 +268,453 @@ export class TransactionService {
             orderId: transaction.orderId,
             amount: transaction.amount,
             currency: transaction.currency,
+            formattedAmount: formatAmount(transaction.amount, transaction.currency),
+            settlementCurrency: transaction.settlementCurrency,
+            settlementAmount: transaction.settlementAmount,
+            fxRate: transaction.fxRate,
+            fxRateTimestamp: transaction.fxRateTimestamp,
+            cardBrand: transaction.cardBrand,
+            maskedCardNumber: transaction.maskedCardNumber,
+            provider: transaction.provider,
             status: transaction.status,
-            pspTransactionId: transaction.pspTransactionId!,
+            pspTransactionId: transaction.pspTransactionId,
+            declineCode: transaction.declineCode,
+            declineMessage: transaction.declineMessage,
+            declineRetryable: isRetryableDecline(transaction.declineCode),
         };
 
-        if (pspResponse.threeDsRedirectUrl) {
-            response.threeDsRedirectUrl = pspResponse.threeDsRedirectUrl;
+        if (transaction.status === STATUSES.PENDING_3DS && transaction.threeDsRedirectUrl) {
+            response.threeDsRedirectUrl = transaction.threeDsRedirectUrl;
         }
 
         return response;
     }
 
     /**
-     * Retrieves a transaction by its internal ID.
+     * Looks up the current FX rate for a new transaction; it stays locked on the transaction for its whole life.
+     * @throws TransactionError 422 if there is no rate between the two currencies
+     */
+    private async lockFxRate(currency: string, settlementCurrency: string): Promise<FxRate> {
+        const fxRate = await this.fxRateProvider.getRate(currency, settlementCurrency);
+        if (!fxRate) {
+            throw new TransactionError(`No FX rate available from ${currency} to ${settlementCurrency}`, 422);
+        }
+        return fxRate;
+    }
+
+    /**
+     * Retrieves one of the merchant's transactions by its internal ID.
      */
-    async getTransaction(transactionId: string) {
-        return this.repository.findById(transactionId);
+    async getTransaction(merchantId: string, transactionId: string): Promise<TransactionResponse | null> {
+        const transaction = await this.repository.findById(transactionId, merchantId);
+        return transaction && this.toResponse(transaction);
+    }
+
+    /**
+     * Lists the merchant's transactions matching the given filters, newest first by default.
+     * Pagination is cursor-based: pass the returned `nextCursor` to get the next page.
+     *
+     * @throws TransactionError 400 if the cursor is invalid or was issued for a different sort
+     */
+    async listTransactions(merchantId: string, params: ListTransactionsParams): Promise<ListTransactionsResponse> {
+        const { sortBy = 'createdAt', sortOrder = 'desc', limit = 20, cursor } = params;
+
+        let after: TransactionCursor | undefined;
+        if (cursor) {
+            const decodedCursor = decodeCursor(cursor, sortBy, sortOrder);
+            if (!decodedCursor) {
+                throw new TransactionError('Invalid cursor for this sort order', 400);
+            }
+            after = decodedCursor;
+        }
+
+        const page = await this.repository.list({
+            merchantId,
+            status: params.status,
+            orderId: params.orderId,
+            currency: params.currency,
+            pspTransactionId: params.pspTransactionId,
+            createdFrom: params.createdFrom ? new Date(params.createdFrom) : undefined,
+            createdTo: params.createdTo ? new Date(params.createdTo) : undefined,
+            sortBy,
+            sortOrder,
+            limit,
+            after,
+        });
+
+        const lastItem = page.items[page.items.length - 1];
+        return {
+            items: page.items.map((item) => this.toResponse(item)),
+            nextCursor: page.hasMore && lastItem ? encodeCursor(lastItem, sortBy, sortOrder) : null,
+        };
+    }
+
+    /**
+     * Requests a (partial) refund of a successful transaction.
+     *
+     * Flow:
+     * 1. Lock the transaction row and check it is refundable
+     * 2. Reject amounts above the remaining balance (final amount minus pending and settled refunds)
+     * 3. Persist the refund as PENDING and release the lock
+     * 4. Forward the refund to the PSP; the outcome arrives later via webhook
+     *
+     * A refund the PSP may have received (the request timed out or failed with a 5xx) stays
+     * PENDING: its webhook settles it, or the reconciler sends it again.
+     *
+     * @throws TransactionError 404 if the transaction does not exist,
+     *         409 if it is not refundable, 422 if the amount exceeds the refundable balance
+     */
+    async createRefund(merchantId: string, transactionId: string, payload: CreateRefundPayload): Promise<RefundRecord> {
+        // Hold the row lock while checking the balance so concurrent refunds cannot over-refund
+        const { lockedTransaction, refund } = await this.withLockedTransaction(merchantId, transactionId, async (unit, transaction) => {
+            if (!isRefundable(transaction.status)) {
+                throw new TransactionError(
+                    `Transaction ${transactionId} cannot be refunded in status '${transaction.status}'`,
+                    409,
+                );
+            }
+
+            const existingRefunds = await unit.findRefunds();
+            const reservedAmount = existingRefunds
+                .filter((existingRefund) => existingRefund.status !== REFUND_STATUSES.FAILED)
+                .reduce((total, existingRefund) => total + existingRefund.amount, 0);
+            const refundableAmount = (transaction.finalAmount ?? transaction.amount) - reservedAmount;
+            const amount = payload.amount ?? refundableAmount;
+
+            if (amount <= 0 || amount > refundableAmount) {
+                throw new TransactionError(
+                    `Refund amount ${amount} exceeds refundable balance ${refundableAmount}`,
+                    422,
+                );
+            }
+
+            const createdRefund = await unit.createRefund({
+                id: uuidv4(),
+                transactionId,
+                amount,
+                status: REFUND_STATUSES.PENDING,
+            });
+            return { lockedTransaction: transaction, refund: createdRefund };
+        });
+
+        return this.sendRefund(lockedTransaction, refund);
     }
 
     /**
-     * Determines whether a failed PSP request should be retried.
-     * Only network errors and server errors (5xx) are retryable.
-     * Client errors (4xx) indicate permanent failures and should not be retried.
+     * Sends a refund that never got an answer from the PSP again (used by the reconciler).
+     * The PSP recognizes it by its reference, so one it did receive is not refunded twice.
+     *
+     * @throws TransactionError 404 if its transaction no longer exists
      */
-    private isRetryable(error: unknown): boolean {
-        // Network errors (fetch throws TypeError on connection failure)
-        if (error instanceof TypeError) {
-            return true;
+    async resendRefund(refund: RefundRecord): Promise<RefundRecord> {
+        const transaction = await this.repository.findById(refund.transactionId);
+        if (!transaction) {
+            throw new TransactionError(`Transaction ${refund.transactionId} of refund ${refund.id} not found`, 404);
         }
+        return this.sendRefund(transaction, refund);
+    }
 
-        // Server errors (5xx) — thrown by callPsp as PspRequestError
-        if (error instanceof Error && error.message.includes('status 5')) {
-            return true;
+    /**
+     * Forwards a PENDING refund to the PSP, with its ID as the reference the PSP deduplicates on.
+     * Only a rejection fails it and releases the reserved balance; after any other error the PSP
+     * may have accepted the refund, so it stays PENDING.
+     */
+    private async sendRefund(transaction: TransactionRecord, refund: RefundRecord): Promise<RefundRecord> {
+        const provider = this.providerFor(transaction);
+        let pspResponse: PspRefundResponse;
+        try {
+            pspResponse = await provider.refundPayment({
+                transactionId: transaction.pspTransactionId!,
+                amount: this.settlementAmountFor(transaction, refund.amount),
+                reference: refund.id,
+            });
+        } catch (error) {
+            if (!(error instanceof ProviderRejectedError)) {
+                return refund;
+            }
+            // Release the reserved balance so the refund can be attempted again
+            await this.repository.updateRefund(refund.id, { status: REFUND_STATUSES.FAILED });
+            throw error;
         }
 
-        return false;
+        // Only the PSP ID is set here: the webhook may already have settled the refund
+        return this.repository.updateRefund(refund.id, { pspRefundId: pspResponse.refundId });
     }
 
     /**
-     * Sleeps for the specified number of milliseconds.
+     * Captures a manually authorized transaction, in full or in part. Any uncaptured remainder
+     * is released.
+     *
+     * The transaction is checked under its row lock, but the lock is released before the PSP is
+     * called: the PSP answers a repeated capture with the capture it made, so a retried or
+     * concurrent capture is safe, and the state machine decides under the lock whether its
+     * answer still applies.
+     *
+     * @throws TransactionError 404 if the transaction does not exist,
+     *         409 if it is not AUTHORIZED or the PSP refuses the capture,
+     *         422 if the amount exceeds the authorized amount
      */
-    private sleep(ms: number): Promise<void> {
-        return new Promise((resolve) => setTimeout(resolve, ms));
+    async captureTransaction(
+        merchantId: string,
+        transactionId: string,
+        payload: CaptureTransactionPayload,
+    ): Promise<TransactionResponse> {
+        const { transaction, amount } = await this.withLockedTransaction(merchantId, transactionId, async (_unit, transaction) => {
+            if (transaction.status !== STATUSES.AUTHORIZED) {
+                throw new TransactionError(
+                    `Transaction ${transactionId} cannot be captured in status '${transaction.status}'`,
+                    409,
+                );
+            }
+
+            const amount = payload.amount ?? transaction.amount;
+            if (amount > transaction.amount) {
+                throw new TransactionError(
+                    `Capture amount ${amount} exceeds authorized amount ${transaction.amount}`,
+                    422,
+                );
+            }
+            return { transaction, amount };
+        });
+
+        // With a settlement currency the PSP captures, and reports, the converted amount
+        const conversion = lockedConversion(transaction);
+        const settlementAmount = this.settlementAmountFor(transaction, amount);
+        const pspResponse = await this.callRejectableAsConflict(transactionId, 'captured', () =>
+            this.providerFor(transaction).capturePayment(transaction.pspTransactionId!, settlementAmount));
+
+        const { transaction: capturedTransaction, applied } = await this.withLockedTransaction(
+            merchantId,
+            transactionId,
+            (unit) => this.applyLockedStatusChange(unit, STATUSES.SUCCESS, conversion ? {
+                finalAmount: reconcileSettlementAmount(pspResponse.capturedAmount, { amount, settlementAmount }, conversion),
+                finalSettlementAmount: pspResponse.capturedAmount,
+            } : {
+                finalAmount: pspResponse.capturedAmount,
+            }, {
+                source: EVENT_SOURCES.API,
+                actor: API_ACTOR,
+                payload: { ...pspResponse },
+            }),
+        );
+
+        if (applied) {
+            await this.notifyMerchant(capturedTransaction);
+        }
+        return this.toResponse(capturedTransaction);
     }
 
     /**
-     * Calls the PSP simulator's transaction endpoint with exponential backoff retry.
-     * Retries on network errors and 5xx responses. 4xx errors are not retried.
+     * Voids a manually authorized transaction, releasing the reserved funds. Like a capture,
+     * the PSP is called outside the row lock; it answers a repeated void with the void it made.
      *
-     * @param payload - Request body to send to the PSP
-     * @returns PSP response
-     * @throws Error after all retry attempts are exhausted
+     * @throws TransactionError 404 if the transaction does not exist,
+     *         409 if it is not AUTHORIZED or the PSP refuses the void
      */
-    private async callPsp(payload: Record<string, unknown>): Promise<PspResponse> {
-        let lastError: Error | undefined;
+    async voidTransaction(merchantId: string, transactionId: string): Promise<TransactionResponse> {
+        const transaction = await this.withLockedTransaction(merchantId, transactionId, async (_unit, transaction) => {
+            if (transaction.status !== STATUSES.AUTHORIZED) {
+                throw new TransactionError(
+                    `Transaction ${transactionId} cannot be voided in status '${transaction.status}'`,
+                    409,
+                );
+            }
+            return transaction;
+        });
 
-        for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
-            try {
-                const response = await fetch(`${this.pspBaseUrl}/transactions`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify(payload),
-                });
+        const pspResponse = await this.callRejectableAsConflict(transactionId, 'voided', () =>
+            this.providerFor(transaction).voidPayment(transaction.pspTransactionId!));
 
-                if (!response.ok) {
-                    const errorBody = await response.text();
-                    throw new Error(`PSP request failed with status ${response.status}: ${errorBody}`);
-                }
+        const { transaction: voidedTransaction, applied } = await this.withLockedTransaction(
+            merchantId,
+            transactionId,
+            (unit) => this.applyLockedStatusChange(unit, STATUSES.VOIDED, {}, {
+                source: EVENT_SOURCES.API,
+                actor: API_ACTOR,
+                payload: { ...pspResponse },
+            }),
+        );
 
-                return response.json() as Promise<PspResponse>;
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error(String(error));
+        if (applied) {
+            await this.notifyMerchant(voidedTransaction);
+        }
+        return this.toResponse(voidedTransaction);
+    }
 
-                // Don't retry non-retryable errors (e.g. 4xx)
-                if (!this.isRetryable(error)) {
-                    throw lastError;
-                }
+    /**
+     * Lists the refunds issued against a transaction.
+     * @throws TransactionError 404 if the transaction does not exist
+     */
+    async getRefunds(merchantId: string, transactionId: string): Promise<RefundRecord[]> {
+        const transaction = await this.repository.findById(transactionId, merchantId);
+        if (!transaction) {
+            throw new TransactionError('Transaction not found', 404);
+        }
+        return this.repository.findRefundsByTransactionId(transactionId, merchantId);
+    }
 
-                // Don't wait after the last attempt
-                if (attempt < this.retryAttempts) {
-                    const delay = this.retryDelayMs * Math.pow(2, attempt - 1);
-                    console.warn(
-                        `PSP call attempt ${attempt}/${this.retryAttempts} failed, retrying in ${delay}ms: ${lastError.message}`,
-                    );
-                    await this.sleep(delay);
+    /**
+     * Lists a transaction's status history, oldest first.
+     * @throws TransactionError 404 if the transaction does not exist
+     */
+    async getTransactionEvents(merchantId: string, transactionId: string): Promise<TransactionEventRecord[]> {
+        const transaction = await this.repository.findById(transactionId, merchantId);
+        if (!transaction) {
+            throw new TransactionError('Transaction not found', 404);
+        }
+        return this.repository.findEventsByTransactionId(transactionId, merchantId);
+    }
+
+    /**
+     * Runs `work` on one of the merchant's transactions under its row lock (a unit of work),
+     * committing what it wrote unless it throws. `work` makes no PSP calls, so the lock is
+     * only held for as long as the database needs.
+     *
+     * @throws TransactionError 404 if the transaction does not exist,
+     *         409 if it has not been registered with the PSP yet or another request kept it locked too long,
+     *         503 if `work` took too long and was rolled back
+     */
+    private async withLockedTransaction<T>(
+        merchantId: string,
+        transactionId: string,
+        work: (unit: TransactionUnitOfWork, transaction: TransactionRecord) => Promise<T>,
+    ): Promise<T> {
+        const transaction = await this.repository.findById(transactionId, merchantId);
+        if (!transaction) {
+            throw new TransactionError('Transaction not found', 404);
+        }
+        if (!transaction.pspTransactionId) {
+            throw new TransactionError(
+                `Transaction ${transactionId} has not been processed by the PSP yet`,
+                409,
+            );
+        }
+
+        try {
+            return await this.repository.withTransaction({ id: transactionId }, async (unit) => {
+                if (!unit.transaction) {
+                    throw new TransactionError('Transaction not found', 404);
                 }
+                return work(unit, unit.transaction);
+            });
+        } catch (error) {
+            if (error instanceof TransactionLockTimeoutError) {
+                throw new TransactionError(`Transaction ${transactionId} is being changed by another request, try again`, 409);
+            }
+            if (error instanceof TransactionUnitTimeoutError) {
+                throw new TransactionError(`Changing transaction ${transactionId} took too long and was rolled back, try again`, 503);
             }
+            throw error;
         }
+    }
 
-        throw new Error(
-            `PSP request failed after ${this.retryAttempts} attempts: ${lastError?.message}`,
-        );
+    /**
+     * Asks the PSP to capture or void a transaction. The transaction was AUTHORIZED when checked,
+     * so a PSP refusing the request means another request captured or voided it in the meantime.
+     *
+     * @throws TransactionError 409 if the PSP rejects the request
+     */
+    private async callRejectableAsConflict<T>(transactionId: string, action: string, call: () => Promise<T>): Promise<T> {
+        try {
+            return await call();
+        } catch (error) {
+            if (error instanceof ProviderRejectedError) {
+                throw new TransactionError(`Transaction ${transactionId} could not be ${action}: ${error.message}`, 409);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Applies a status change the PSP has already carried out (a capture or a void) to the
+     * locked transaction, if the state machine still allows it; a transaction already in that
+     * status is returned as it is. Should a writer that does not take the lock have changed it
+     * since it was read, it is reloaded and checked again.
+     *
+     * @returns The transaction as it stands, and whether this change was applied to it
+     * @throws TransactionError 409 if the transaction has moved on to a status the change cannot follow
+     */
+    private async applyLockedStatusChange(
+        unit: TransactionUnitOfWork,
+        status: TransactionStatus,
+        extraFields: UpdateExtraFields,
+        event: TransactionEventInput,
+    ): Promise<{ transaction: TransactionRecord; applied: boolean }> {
+        const apply = async (current: TransactionRecord | null) => {
+            if (current?.status === status) {
+                return { transaction: current, applied: false };
+            }
+            if (!current || !canTransition(current.status, status)) {
+                throw new TransactionError(
+                    `Transaction ${unit.transaction?.id} was changed concurrently and can no longer move to '${status}'`,
+                    409,
+                );
+            }
+            return { transaction: await unit.updateStatus(status, extraFields, event), applied: true };
+        };
+
+        try {
+            return await apply(unit.transaction);
+        } catch (error) {
+            if (!(error instanceof TransactionConflictError)) {
+                throw error;
+            }
+        }
+        return apply(await unit.reload());
+    }
+
+    /**
+     * Converts an amount of a transaction into what the PSP must be asked for: the same amount
+     * without a settlement currency, else its value at the locked rate. The transaction's full
+     * (final) amount maps to exactly the settlement amount on record, without re-rounding.
+     */
+    private settlementAmountFor(transaction: TransactionRecord, amount: number): number {
+        const conversion = lockedConversion(transaction);
+        if (!conversion) {
+            return amount;
+        }
+        if (amount === transaction.finalAmount && transaction.finalSettlementAmount !== null) {
+            return transaction.finalSettlementAmount;
+        }
+        if (amount === transaction.amount && transaction.settlementAmount !== null) {
+            return transaction.settlementAmount;
+        }
+        return convertToSettlement(amount, conversion);
+    }
+
+    /**
+     * Adds the amounts formatted in the currency's major unit, and whether its decline may be
+     * retried, to a transaction returned by the API.
+     */
+    private toResponse(transaction: TransactionRecord): TransactionResponse {
+        const format = (amount: number | null) =>
+            amount !== null && isSupportedCurrency(transaction.currency) ? formatAmount(amount, transaction.currency) : null;
+        return {
+            ...transaction,
+            formattedAmount: format(transaction.amount),
+            formattedFinalAmount: format(transaction.finalAmount),
+            declineRetryable: isRetryableDecline(transaction.declineCode),
+        };
+    }
+
+    /**
+     * Queues the merchant notification for a committed status change, if notifications are enabled.
+     */
+    private async notifyMerchant(transaction: TransactionRecord): Promise<void> {
+        if (this.notificationService) {
+            await this.notificationService.notifyStatusChange(transaction);
+        }
+    }
+
+    /**
+     * Resolves the provider a transaction was routed to.
+     * @throws Error if that provider is no longer configured
+     */
+    private providerFor(transaction: TransactionRecord): PaymentProvider {
+        const provider = this.providerRouter.get(transaction.provider);
+        if (!provider) {
+            throw new Error(`Payment provider '${transaction.provider}' is not configured`);
+        }
+        return provider;
     }
 }
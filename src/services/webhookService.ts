@@ -1,15 +1,101 @@
-import { TransactionStatus } from '../enums/transactionStatus';
-import { assertTransition, isTerminalStatus } from '../domain/transactionStateMachine';
-import { ITransactionRepository, WebhookPayload, WebhookResult } from '../types/transaction';
+import { STATUSES, TransactionStatus } from '../enums/transactionStatus';
+import { REFUND_STATUSES, RefundStatus } from '../enums/refundStatus';
+import { EVENT_SOURCES } from '../enums/transactionEventSource';
+import { assertTransition } from '../domain/transactionStateMachine';
+import { lockedConversion, reconcileSettlementAmount } from '../domain/fxConversion';
+import { declineFields } from '../domain/declineReasons';
+import { retryOnConflict } from '../domain/optimisticConcurrency';
+import { TransactionLockTimeoutError, TransactionUnitTimeoutError } from '../domain/transactionLocking';
+import {
+    ITransactionRepository,
+    TransactionEventInput,
+    TransactionRecord,
+    TransactionUnitOfWork,
+    UpdateExtraFields,
+    WebhookPayload,
+    WebhookResult,
+} from '../types/transaction';
+import { Logger } from '../types/logger';
+import { NotificationService } from './notificationService';
 
 /**
  * PSP status to internal status mapping.
  */
 const PSP_STATUS_MAP: Record<string, TransactionStatus> = {
     SUCCESS: 'SUCCESS',
+    AUTHORIZED: 'AUTHORIZED',
     FAILED: 'FAILED',
 };
 
+/**
+ * PSP status to internal refund status mapping.
+ */
+const PSP_REFUND_STATUS_MAP: Record<string, RefundStatus> = {
+    SUCCESS: REFUND_STATUSES.SUCCESS,
+    FAILED: REFUND_STATUSES.FAILED,
+};
+
+/**
+ * Statuses a transaction can only reach after passing through the key status.
+ * A late payment webhook reporting the key status for such a transaction is a duplicate.
+ */
+const SUPERSEDING_STATUSES: Partial<Record<TransactionStatus, TransactionStatus[]>> = {
+    [STATUSES.AUTHORIZED]: [STATUSES.SUCCESS, STATUSES.VOIDED, STATUSES.PARTIALLY_REFUNDED, STATUSES.REFUNDED],
+    [STATUSES.SUCCESS]: [STATUSES.PARTIALLY_REFUNDED, STATUSES.REFUNDED],
+};
+
+/**
+ * Webhook `reason` sent when the PSP expires an abandoned 3DS session.
+ */
+const THREE_DS_EXPIRED_REASON = '3DS_EXPIRED';
+
+/**
+ * Provider assumed for webhooks that do not name one.
+ */
+const DEFAULT_PROVIDER = 'psp';
+
+/**
+ * Attributes a webhook-driven status change to the provider that sent it,
+ * keeping the webhook body as the raw payload.
+ */
+function webhookEvent(payload: WebhookPayload, provider: string): TransactionEventInput {
+    return {
+        source: payload.reason === THREE_DS_EXPIRED_REASON ? EVENT_SOURCES.EXPIRY_JOB : EVENT_SOURCES.WEBHOOK,
+        actor: provider,
+        payload: { ...payload },
+    };
+}
+
+/**
+ * Whether a transaction was routed to the given provider. A provider must not be
+ * able to change transactions it does not handle, so the caller treats a mismatch as not found.
+ */
+function isHandledBy(transaction: TransactionRecord, provider: string | undefined): boolean {
+    return provider === undefined || transaction.provider === provider;
+}
+
+/**
+ * Final amount fields for a PSP-reported final amount. A PSP settling in another currency
+ * reports it in that currency: it is kept as is and converted back at the locked rate.
+ * Without a reported amount, the stored amounts (and the locked settlement amount) stay as they are.
+ */
+function finalAmountFields(transaction: TransactionRecord, finalAmount: number | undefined): UpdateExtraFields {
+    if (finalAmount === undefined) {
+        return {};
+    }
+    const conversion = lockedConversion(transaction);
+    if (!conversion || transaction.settlementAmount === null) {
+        return { finalAmount };
+    }
+    return {
+        finalAmount: reconcileSettlementAmount(finalAmount, {
+            amount: transaction.amount,
+            settlementAmount: transaction.settlementAmount,
+        }, conversion),
+        finalSettlementAmount: finalAmount,
+    };
+}
+
 /**
  * Custom error class for webhook processing errors with HTTP status codes.
  */
@@ -24,52 +110,87 @@ export class WebhookError extends Error {
 }
 
 /**
- * Service responsible for processing incoming webhooks from the PSP.
+ * Service responsible for processing incoming webhooks from the payment providers.
  */
 export class WebhookService {
     private repository: ITransactionRepository;
+    private notificationService: NotificationService | null;
+    private logger: Logger;
 
-    constructor(repository: ITransactionRepository) {
+    constructor(repository: ITransactionRepository, notificationService?: NotificationService, logger: Logger = console) {
         this.repository = repository;
+        this.notificationService = notificationService ?? null;
+        this.logger = logger;
     }
 
     /**
-     * Processes a webhook callback from the PSP simulator.
+     * Processes a webhook callback from a payment provider.
      *
-     * Uses database transactions with row locking (SELECT ... FOR UPDATE)
+     * Runs as a unit of work holding the transaction's row lock (SELECT ... FOR UPDATE)
      * to safely handle concurrent webhooks:
      * - Status mapping from PSP to internal statuses
-     * - Idempotency: duplicate webhooks with same terminal status are ignored
+     * - Idempotency: duplicate webhooks repeating an applied status are ignored
      * - State validation: invalid transitions are rejected
-     * - Final amount storage from the PSP
+     * - Final amount storage from the PSP, in both currencies when it settles in another one
+     * - Decline code and message storage for FAILED payments
+     * - Merchant notification once the change is committed
+     *
+     * @param provider - Provider the webhook was received from; only its own transactions are updated
      */
-    async processWebhook(payload: WebhookPayload): Promise<WebhookResult> {
-        const { transactionId: pspTransactionId, final_amount: finalAmount, status: pspStatus } = payload;
+    async processWebhook(payload: WebhookPayload, provider: string = DEFAULT_PROVIDER): Promise<WebhookResult> {
+        if (payload.type === 'refund') {
+            return this.processRefundWebhook(payload, provider);
+        }
+
+        return this.applyPaymentStatus(payload, webhookEvent(payload, provider), provider);
+    }
 
+    /**
+     * Applies a payment status reported by the PSP under the transaction's row lock,
+     * with the same duplicate detection and state machine validation as webhooks.
+     * Also used by the reconciler, which records its own event attribution.
+     *
+     * @param provider - When set, transactions routed to another provider are treated as not found
+     */
+    async applyPaymentStatus(
+        payload: WebhookPayload,
+        event: TransactionEventInput,
+        provider?: string,
+    ): Promise<WebhookResult> {
         // Map PSP status to internal status (do this before locking to fail fast)
-        const newStatus = PSP_STATUS_MAP[pspStatus];
+        const newStatus = PSP_STATUS_MAP[payload.status];
         if (!newStatus) {
-            throw new WebhookError(`Unknown PSP status: ${pspStatus}`, 400);
+            throw new WebhookError(`Unknown PSP status: ${payload.status}`, 400);
         }
 
-        // Acquire row lock: BEGIN + SELECT ... FOR UPDATE
-        const lockedContext = await this.repository.findAndLockByPspTransactionId(pspTransactionId);
+        // Another writer changing the transaction between our read and our update makes it
+        // conflict: start over on the reloaded transaction, with duplicate detection and all
+        return retryOnConflict(() => this.applyPaymentStatusOnce(payload, newStatus, event, provider), this.logger);
+    }
 
-        try {
-            const { transaction } = lockedContext;
+    private async applyPaymentStatusOnce(
+        payload: WebhookPayload,
+        newStatus: TransactionStatus,
+        event: TransactionEventInput,
+        provider?: string,
+    ): Promise<WebhookResult> {
+        const { transactionId: pspTransactionId, final_amount: finalAmount } = payload;
 
-            if (!transaction) {
-                await lockedContext.rollback();
+        // Runs under the row lock: BEGIN + SELECT ... FOR UPDATE, COMMIT when done
+        const { result, updatedTransaction } = await this.withLockedTransaction(pspTransactionId, async (unit) => {
+            const { transaction } = unit;
+
+            if (!transaction || !isHandledBy(transaction, provider)) {
                 throw new WebhookError(`Transaction not found for PSP ID: ${pspTransactionId}`, 404);
             }
 
-            // Idempotency: if already in this terminal state, ignore the duplicate
-            if (isTerminalStatus(transaction.status) && transaction.status === newStatus) {
-                await lockedContext.commit();
+            // Idempotency: if already in this state (or a later one it leads to), ignore the duplicate
+            const isDuplicate = transaction.status === newStatus
+                || (SUPERSEDING_STATUSES[newStatus] ?? []).includes(transaction.status);
+            if (isDuplicate) {
                 return {
-                    id: transaction.id,
-                    status: transaction.status,
-                    message: 'Duplicate webhook ignored',
+                    result: { id: transaction.id, status: transaction.status, message: 'Duplicate webhook ignored' },
+                    updatedTransaction: null,
                 };
             }
 
@@ -78,32 +199,160 @@ export class WebhookService {
                 assertTransition(transaction.status, newStatus);
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : String(error);
-                await lockedContext.rollback();
                 throw new WebhookError(
                     `Invalid transition for transaction ${transaction.id}: ${errorMessage}`,
                     409,
                 );
             }
 
-            // Apply the status update with final amount (inside the same DB transaction)
-            const updatedTransaction = await lockedContext.updateStatus(newStatus, {
-                finalAmount,
-            });
+            // Apply the status update with final amount and any decline reason (inside the same DB transaction)
+            const updated = await unit.updateStatus(newStatus, {
+                ...finalAmountFields(transaction, finalAmount),
+                ...(newStatus === STATUSES.FAILED && declineFields(payload)),
+            }, event);
+            return {
+                result: { id: updated.id, status: updated.status, finalAmount: updated.finalAmount },
+                updatedTransaction: updated,
+            };
+        });
+
+        // Notify only once the change is committed
+        if (updatedTransaction) {
+            await this.notifyMerchant(updatedTransaction);
+        }
+        return result;
+    }
+
+    /**
+     * Processes a refund webhook under the same row lock as payment webhooks.
+     *
+     * Settles the referenced refund and, once it succeeds, moves the transaction to
+     * PARTIALLY_REFUNDED or REFUNDED depending on how much has been refunded in total.
+     */
+    private async processRefundWebhook(payload: WebhookPayload, provider: string): Promise<WebhookResult> {
+        const newRefundStatus = PSP_REFUND_STATUS_MAP[payload.status];
+        if (!newRefundStatus) {
+            throw new WebhookError(`Unknown PSP refund status: ${payload.status}`, 400);
+        }
+        const refundId = payload.reference;
+        if (!refundId) {
+            throw new WebhookError('Refund webhook is missing the refund reference', 400);
+        }
+
+        return retryOnConflict(() => this.processRefundWebhookOnce(payload, newRefundStatus, refundId, provider), this.logger);
+    }
+
+    private async processRefundWebhookOnce(
+        payload: WebhookPayload,
+        newRefundStatus: RefundStatus,
+        refundId: string,
+        provider: string,
+    ): Promise<WebhookResult> {
+        const { transactionId: pspTransactionId, refundId: pspRefundId } = payload;
+
+        const { result, updatedTransaction } = await this.withLockedTransaction(pspTransactionId, async (unit) => {
+            const { transaction } = unit;
+            if (!transaction || !isHandledBy(transaction, provider)) {
+                throw new WebhookError(`Transaction not found for PSP ID: ${pspTransactionId}`, 404);
+            }
+
+            const refunds = await unit.findRefunds();
+            const refund = refunds.find((candidate) => candidate.id === refundId);
+            if (!refund) {
+                throw new WebhookError(`Refund not found: ${refundId}`, 404);
+            }
+
+            // Idempotency: the refund has already been settled with this outcome
+            if (refund.status === newRefundStatus) {
+                return {
+                    result: {
+                        id: transaction.id,
+                        status: transaction.status,
+                        refundId: refund.id,
+                        message: 'Duplicate webhook ignored',
+                    },
+                    updatedTransaction: null,
+                };
+            }
+
+            if (refund.status !== REFUND_STATUSES.PENDING) {
+                throw new WebhookError(
+                    `Invalid transition for refund ${refund.id}: already '${refund.status}'`,
+                    409,
+                );
+            }
+
+            // The transaction is updated first: if it conflicts, nothing has been written yet
+            let updated: TransactionRecord | null = null;
+            if (newRefundStatus === REFUND_STATUSES.SUCCESS) {
+                const refundedAmount = refunds
+                    .filter((candidate) => candidate.status === REFUND_STATUSES.SUCCESS || candidate.id === refund.id)
+                    .reduce((total, candidate) => total + candidate.amount, 0);
+                const capturedAmount = transaction.finalAmount ?? transaction.amount;
+                const newStatus = refundedAmount >= capturedAmount ? STATUSES.REFUNDED : STATUSES.PARTIALLY_REFUNDED;
 
-            // Commit the database transaction
-            await lockedContext.commit();
+                try {
+                    assertTransition(transaction.status, newStatus);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    throw new WebhookError(
+                        `Invalid transition for transaction ${transaction.id}: ${errorMessage}`,
+                        409,
+                    );
+                }
 
+                updated = await unit.updateStatus(newStatus, {}, webhookEvent(payload, provider));
+            }
+
+            await unit.updateRefund(refund.id, {
+                status: newRefundStatus,
+                ...(pspRefundId !== undefined ? { pspRefundId } : {}),
+            });
+
+            const currentTransaction = updated ?? transaction;
             return {
-                id: updatedTransaction.id,
-                status: updatedTransaction.status,
-                finalAmount: updatedTransaction.finalAmount,
+                result: {
+                    id: currentTransaction.id,
+                    status: currentTransaction.status,
+                    finalAmount: currentTransaction.finalAmount,
+                    refundId: refund.id,
+                },
+                updatedTransaction: updated,
             };
+        });
+
+        if (updatedTransaction) {
+            await this.notifyMerchant(updatedTransaction);
+        }
+        return result;
+    }
+
+    /**
+     * Runs `work` under the row lock of the transaction with the given PSP ID, committing
+     * what it wrote unless it throws. A lock held elsewhere for longer than the lock timeout,
+     * or a unit rolled back for taking too long, is answered with 503, so the PSP delivers the
+     * webhook again later.
+     */
+    private async withLockedTransaction<T>(
+        pspTransactionId: string,
+        work: (unit: TransactionUnitOfWork) => Promise<T>,
+    ): Promise<T> {
+        try {
+            return await this.repository.withTransaction({ pspTransactionId }, work);
         } catch (error) {
-            // If error is already a WebhookError, it was already rolled back above
-            if (!(error instanceof WebhookError)) {
-                await lockedContext.rollback();
+            if (error instanceof TransactionLockTimeoutError || error instanceof TransactionUnitTimeoutError) {
+                throw new WebhookError(error.message, 503);
             }
             throw error;
         }
     }
+
+    /**
+     * Queues the merchant notification for a committed status change, if notifications are enabled.
+     */
+    private async notifyMerchant(transaction: TransactionRecord): Promise<void> {
+        if (this.notificationService) {
+            await this.notificationService.notifyStatusChange(transaction);
+        }
+    }
 }
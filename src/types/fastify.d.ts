@@ -1,6 +1,12 @@
 import { Pool } from 'pg';
+import { FastifyReply, FastifyRequest } from 'fastify';
 import { TransactionService } from './services/transactionService';
 import { WebhookService } from './services/webhookService';
+import { NotificationService } from './services/notificationService';
+import { PspOutboxService } from './services/pspOutboxService';
+import { ReconciliationService } from './services/reconciliationService';
+import { ProviderRouter } from './providers/providerRouter';
+import { MerchantRecord } from './merchant';
 
 /**
  * Augment Fastify instance with our custom decorators.
@@ -8,7 +14,22 @@ import { WebhookService } from './services/webhookService';
 declare module 'fastify' {
     interface FastifyInstance {
         pg: Pool;
+        providerRouter: ProviderRouter;
         transactionService: TransactionService;
         webhookService: WebhookService;
+        notificationService: NotificationService;
+        pspOutboxService: PspOutboxService;
+        reconciliationService: ReconciliationService;
+        /** onRequest hook authenticating the merchant by API key (see plugins/merchantAuth) */
+        authenticateMerchant: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+        /** onRequest hook checking the admin API key of operator endpoints (see plugins/adminAuth) */
+        authenticateAdmin: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    }
+
+    interface FastifyRequest {
+        /** Unparsed request body, captured where signatures must be checked against the exact bytes */
+        rawBody?: string;
+        /** Merchant authenticated by `authenticateMerchant`; null on routes without merchant authentication */
+        merchant: MerchantRecord | null;
     }
 }
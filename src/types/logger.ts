@@ -0,0 +1,7 @@
+import { FastifyBaseLogger } from 'fastify';
+
+/**
+ * Where services report retries and failures: the app's logger once it is running,
+ * or `console` when a service is used on its own (e.g. from a script).
+ */
+export type Logger = Pick<FastifyBaseLogger, 'info' | 'warn' | 'error'>;
@@ -0,0 +1,52 @@
+/**
+ * A merchant allowed to call the API, as stored and returned by the repository.
+ * The API key itself is never stored, only its SHA-256 hash.
+ */
+export interface MerchantRecord {
+    id: string;
+    name: string;
+    /** Null for merchants that cannot authenticate (e.g. the legacy owner of pre-merchant transactions) */
+    apiKeyHash: string | null;
+    /** Default URL for transaction.* notifications when a transaction has no callbackUrl; null to use MERCHANT_WEBHOOK_URL */
+    callbackUrl: string | null;
+    /** Secret the merchant's notifications are signed with; null to use MERCHANT_WEBHOOK_SECRET */
+    webhookSecret: string | null;
+    createdAt: Date;
+}
+
+/**
+ * Data required to create a new merchant.
+ */
+export interface CreateMerchantData {
+    id: string;
+    name: string;
+    apiKeyHash: string | null;
+    callbackUrl: string | null;
+    webhookSecret: string | null;
+}
+
+/**
+ * Interface for merchant storage operations.
+ * Both Postgres and in-memory implementations conform to this contract.
+ */
+export interface IMerchantRepository {
+    create(merchantData: CreateMerchantData): Promise<MerchantRecord>;
+    findById(merchantId: string): Promise<MerchantRecord | null>;
+    findByApiKeyHash(apiKeyHash: string): Promise<MerchantRecord | null>;
+}
+
+/**
+ * Details of a new merchant.
+ */
+export interface CreateMerchantPayload {
+    name: string;
+    callbackUrl?: string;
+}
+
+/**
+ * A newly created merchant together with its API key, which is only ever shown once.
+ */
+export interface CreatedMerchant {
+    merchant: MerchantRecord;
+    apiKey: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * A schema migration as found in the migrations directory: `NNN_name.sql` holds the
+ * `up` SQL and the optional `NNN_name.down.sql` the SQL that undoes it.
+ */
+export interface Migration {
+    /** Numeric prefix of the file name, e.g. "015"; migrations run in version order */
+    version: string;
+    name: string;
+    upSql: string;
+    /** Null if the migration cannot be rolled back */
+    downSql: string | null;
+    /** SHA-256 of the up SQL, compared with the one recorded when it was applied */
+    checksum: string;
+}
+
+/**
+ * A migration recorded in the `schema_migrations` table.
+ */
+export interface AppliedMigration {
+    version: string;
+    name: string;
+    checksum: string;
+    appliedAt: Date;
+}
+
+/**
+ * Where a migration stands: applied, pending, applied but edited since (`changed`), or
+ * applied but no longer in the migrations directory (`missing`).
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+/**
+ * One line of `npm run migrate -- status`.
+ */
+export interface MigrationStatusEntry {
+    version: string;
+    name: string;
+    state: MigrationState;
+    appliedAt: Date | null;
+}
+
+/**
+ * Storage for the applied migrations, working on one database session so the
+ * advisory lock it takes covers every migration run while it is held.
+ */
+export interface IMigrationRepository {
+    /** Creates the `schema_migrations` table if it does not exist yet */
+    ensureMigrationsTable(): Promise<void>;
+    /** Waits until no other process holds the migration lock, then takes it */
+    acquireLock(): Promise<void>;
+    releaseLock(): Promise<void>;
+    /** Lists applied migrations in version order */
+    listApplied(): Promise<AppliedMigration[]>;
+    /** Runs a migration's up SQL and records it, in one database transaction */
+    apply(migration: Migration): Promise<void>;
+    /** Runs a migration's down SQL and removes its record, in one database transaction */
+    revert(migration: Migration): Promise<void>;
+}
@@ -1,31 +1,92 @@
 import { TransactionStatus } from '../enums/transactionStatus';
+import { RefundStatus } from '../enums/refundStatus';
+import { CardBrand } from '../enums/cardBrand';
+import { TransactionEventSource } from '../enums/transactionEventSource';
+import { NotificationStatus } from '../enums/notificationStatus';
+import { PspOutboxStatus } from '../enums/pspOutboxStatus';
 
 /**
  * Represents a transaction record as stored and returned by the repository.
+ * The raw card number is never stored: only a token, the BIN, the last four
+ * digits, the brand and a masked PAN for display.
  */
 export interface TransactionRecord {
     id: string;
+    /** Merchant that created the transaction; only they can read or change it through the API */
+    merchantId: string;
     orderId: string;
     amount: number;
     currency: string;
-    cardNumber: string;
+    /** Null for transactions created before tokenization, whose PAN was masked in place */
+    cardToken: string | null;
+    cardBin: string;
+    cardLast4: string;
+    cardBrand: CardBrand;
+    maskedCardNumber: string;
+    /** Merchant URL our transaction.* events are sent to; null to use the default */
+    notificationUrl: string | null;
+    /** Payment provider handling the transaction */
+    provider: string;
     status: TransactionStatus;
     pspTransactionId: string | null;
+    /** Final amount in `currency`; converted back at the locked rate when the PSP settles in another currency */
     finalAmount: number | null;
+    /** Currency the PSP is charged in; null when it is `currency` itself */
+    settlementCurrency: string | null;
+    /** `amount` converted into the settlement currency at `fxRate`, as sent to the PSP */
+    settlementAmount: number | null;
+    /** Rate locked at creation: one unit of `currency` in `settlementCurrency`, as a decimal string */
+    fxRate: string | null;
+    /** When `fxRate` was quoted */
+    fxRateTimestamp: Date | null;
+    /** Final amount reported by the PSP, in the settlement currency */
+    finalSettlementAmount: number | null;
+    /** Why a FAILED payment was declined, e.g. 'insufficient_funds'; null when the provider gave no code */
+    declineCode: string | null;
+    /** The provider's explanation of the decline, or the catalogue's when it sent none */
+    declineMessage: string | null;
+    /** Challenge page the customer must complete while the transaction is PENDING_3DS */
+    threeDsRedirectUrl: string | null;
+    /** Bumped by every update; an update made with an older version is rejected as a conflict */
+    version: number;
     createdAt: Date;
     updatedAt: Date;
 }
 
+/**
+ * A transaction as returned by the API: the stored record plus its amounts formatted in the
+ * currency's major unit (e.g. "25.00"). The formatted amounts are null for currencies that are
+ * not supported, which only transactions stored before currencies were validated can have.
+ */
+export interface TransactionResponse extends TransactionRecord {
+    formattedAmount: string | null;
+    formattedFinalAmount: string | null;
+    /** Whether the decline is soft and the payment may be retried; null without a decline code */
+    declineRetryable: boolean | null;
+}
+
 /**
  * Data required to create a new transaction.
  */
 export interface CreateTransactionData {
     id: string;
+    merchantId: string;
     orderId: string;
     amount: number;
     currency: string;
-    cardNumber: string;
+    cardToken: string;
+    cardBin: string;
+    cardLast4: string;
+    cardBrand: CardBrand;
+    maskedCardNumber: string;
+    notificationUrl: string | null;
+    provider: string;
     status: TransactionStatus;
+    /** The FX fields are only set for transactions settling in another currency */
+    settlementCurrency?: string | null;
+    settlementAmount?: number | null;
+    fxRate?: string | null;
+    fxRateTimestamp?: Date | null;
 }
 
 /**
@@ -34,61 +95,537 @@ export interface CreateTransactionData {
 export interface UpdateExtraFields {
     pspTransactionId?: string;
     finalAmount?: number;
+    finalSettlementAmount?: number;
+    declineCode?: string;
+    declineMessage?: string;
+    threeDsRedirectUrl?: string;
+    /** Set when a new payment failed over to another provider */
+    provider?: string;
+}
+
+/**
+ * Fields transactions can be sorted by when listing.
+ */
+export type TransactionSortField = 'createdAt' | 'updatedAt' | 'amount';
+
+/**
+ * Sort direction when listing.
+ */
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Keyset position after which the next page starts: the sort value and ID of the last item seen.
+ */
+export interface TransactionCursor {
+    value: string | number;
+    id: string;
+}
+
+/**
+ * Filters, sorting and pagination for listing transactions.
+ */
+export interface TransactionListQuery {
+    /** Only this merchant's transactions; omitted by internal callers such as settlement reconciliation */
+    merchantId?: string;
+    status?: TransactionStatus;
+    orderId?: string;
+    currency?: string;
+    pspTransactionId?: string;
+    createdFrom?: Date;
+    createdTo?: Date;
+    sortBy: TransactionSortField;
+    sortOrder: SortOrder;
+    limit: number;
+    after?: TransactionCursor;
+}
+
+/**
+ * A page of transactions. `hasMore` is true when further items follow the last one.
+ */
+export interface TransactionPage {
+    items: TransactionRecord[];
+    hasMore: boolean;
+}
+
+/**
+ * Represents a refund issued against a transaction.
+ */
+export interface RefundRecord {
+    id: string;
+    transactionId: string;
+    amount: number;
+    status: RefundStatus;
+    pspRefundId: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Data required to create a new refund.
+ */
+export interface CreateRefundData {
+    id: string;
+    transactionId: string;
+    amount: number;
+    status: RefundStatus;
+}
+
+/**
+ * Optional extra fields when updating a refund.
+ */
+export interface UpdateRefundFields {
+    status?: RefundStatus;
+    pspRefundId?: string;
+}
+
+/**
+ * One entry in a transaction's history: a status change and what caused it.
+ * `fromStatus` is null for the event recording the transaction's creation.
+ */
+export interface TransactionEventRecord {
+    id: string;
+    transactionId: string;
+    fromStatus: TransactionStatus | null;
+    toStatus: TransactionStatus;
+    source: TransactionEventSource;
+    actor: string | null;
+    payload: Record<string, unknown> | null;
+    createdAt: Date;
+}
+
+/**
+ * Context recorded alongside a status change. The raw payload must never contain card data.
+ */
+export interface TransactionEventInput {
+    source: TransactionEventSource;
+    actor: string | null;
+    payload?: Record<string, unknown> | null;
+}
+
+/**
+ * Events sent to merchants when a transaction reaches an outcome they must act on.
+ */
+export type MerchantEventType =
+    | 'transaction.authorized'
+    | 'transaction.succeeded'
+    | 'transaction.failed'
+    | 'transaction.voided'
+    | 'transaction.partially_refunded'
+    | 'transaction.refunded';
+
+/**
+ * Body of a merchant notification: the event envelope plus a snapshot of the transaction.
+ */
+export interface MerchantEvent {
+    id: string;
+    type: MerchantEventType;
+    createdAt: string;
+    data: {
+        id: string;
+        orderId: string;
+        amount: number;
+        currency: string;
+        status: TransactionStatus;
+        finalAmount: number | null;
+        cardBrand: CardBrand;
+        maskedCardNumber: string;
+        declineCode: string | null;
+        declineMessage: string | null;
+        declineRetryable: boolean | null;
+    };
+}
+
+/**
+ * A single attempt to deliver a merchant notification.
+ */
+export interface NotificationAttempt {
+    attempt: number;
+    trigger: 'automatic' | 'manual';
+    attemptedAt: Date;
+    statusCode: number | null;
+    error: string | null;
+    durationMs: number;
+}
+
+/**
+ * A merchant notification with its delivery log.
+ */
+export interface NotificationRecord {
+    id: string;
+    transactionId: string;
+    eventType: MerchantEventType;
+    url: string;
+    payload: MerchantEvent;
+    status: NotificationStatus;
+    attempts: NotificationAttempt[];
+    nextAttemptAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Data required to queue a merchant notification.
+ */
+export interface CreateNotificationData {
+    id: string;
+    transactionId: string;
+    eventType: MerchantEventType;
+    url: string;
+    payload: MerchantEvent;
+}
+
+/**
+ * Optional fields when recording a delivery attempt. `attempt` is appended to the log.
+ */
+export interface UpdateNotificationFields {
+    status?: NotificationStatus;
+    nextAttemptAt?: Date | null;
+    attempt?: NotificationAttempt;
+}
+
+/**
+ * A payment request as kept in the PSP outbox: everything the provider needs except the
+ * card details, which are stored encrypted alongside it.
+ */
+export type PspOutboxRequest = Omit<PspTransactionRequest, 'callbackUrl' | 'cardNumber' | 'cardExpiry' | 'cvv'>;
+
+/**
+ * A new payment's request to its provider, stored in the same database transaction as the
+ * transaction itself and sent by the outbox worker. The ID is the PSP-side idempotency key.
+ */
+export interface PspOutboxRecord {
+    id: string;
+    transactionId: string;
+    request: PspOutboxRequest;
+    /** Card number, expiry and CVV, encrypted; wiped once the request is SENT or FAILED */
+    encryptedCard: string | null;
+    status: PspOutboxStatus;
+    attempts: number;
+    lastError: string | null;
+    nextAttemptAt: Date | null;
+    /** Until when the worker that claimed the entry (IN_FLIGHT) may send it undisturbed */
+    leaseExpiresAt: Date | null;
+    /** Provider that may have received the request; null while no provider can have it */
+    sentTo: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Data required to put a payment request in the outbox.
+ */
+export interface CreatePspOutboxData {
+    id: string;
+    request: PspOutboxRequest;
+    encryptedCard: string;
+}
+
+/**
+ * Optional fields when recording an outbox attempt.
+ */
+export interface UpdatePspOutboxFields {
+    status?: PspOutboxStatus;
+    attempts?: number;
+    lastError?: string | null;
+    nextAttemptAt?: Date | null;
+    leaseExpiresAt?: null;
+    sentTo?: string | null;
+    encryptedCard?: null;
+}
+
+/**
+ * Lifecycle of an idempotency key: claimed while the request is in flight,
+ * completed once its response has been stored.
+ */
+export type IdempotencyKeyStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+/**
+ * A stored Idempotency-Key with the fingerprint of the request that claimed it
+ * and, once completed, the response to replay.
+ */
+export interface IdempotencyRecord {
+    merchantId: string;
+    key: string;
+    requestFingerprint: string;
+    status: IdempotencyKeyStatus;
+    response: CreateTransactionResponse | null;
+    /** Until when the request holding an IN_PROGRESS key has it to itself; null once completed */
+    leaseExpiresAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Outcome of claiming an idempotency key. When `claimed` is false the key
+ * was already taken and `record` holds the existing entry.
+ */
+export interface IdempotencyClaim {
+    claimed: boolean;
+    record: IdempotencyRecord;
+}
+
+/**
+ * Which transaction row a unit of work locks: by internal ID, or by the ID the PSP assigned.
+ */
+export type TransactionLockKey = { id: string } | { pspTransactionId: string };
+
+/**
+ * A transaction row locked for the duration of a unit of work (see `withTransaction`),
+ * together with operations running in the same database transaction.
+ */
+export interface TransactionUnitOfWork {
+    /** The locked transaction as last read or written in this unit; null if no row matched the key */
+    transaction: TransactionRecord | null;
+    /** Reads the locked transaction again, e.g. after a conflict */
+    reload: () => Promise<TransactionRecord | null>;
+    /**
+     * Updates the locked transaction, provided it is still at the version last read in this unit.
+     * @throws TransactionConflictError if it was changed by another writer in the meantime
+     */
+    updateStatus: (
+        status: TransactionStatus,
+        extraFields?: UpdateExtraFields,
+        event?: TransactionEventInput,
+    ) => Promise<TransactionRecord>;
+    findRefunds: () => Promise<RefundRecord[]>;
+    /**
+     * Creates a refund of the locked transaction.
+     * @throws Error if `refundData.transactionId` is not the locked transaction's ID
+     */
+    createRefund: (refundData: CreateRefundData) => Promise<RefundRecord>;
+    updateRefund: (refundId: string, fields: UpdateRefundFields) => Promise<RefundRecord>;
 }
 
 /**
  * Interface for transaction storage operations.
  * Both Postgres and in-memory implementations conform to this contract.
+ *
+ * Every status change (including creation) appends a transaction event in the same
+ * database transaction. Without an explicit `event`, the change is attributed to the API.
+ *
+ * Lookups made on behalf of a merchant pass its `merchantId`: other merchants' records are
+ * then reported as not found. Internal callers (webhooks, reconciliation) omit it.
  */
 export interface ITransactionRepository {
-    create(transactionData: CreateTransactionData): Promise<TransactionRecord>;
-    findById(transactionId: string): Promise<TransactionRecord | null>;
-    findByPspTransactionId(pspTransactionId: string): Promise<TransactionRecord | null>;
-    updateStatus(transactionId: string, status: TransactionStatus, extraFields?: UpdateExtraFields): Promise<TransactionRecord>;
+    /**
+     * Persists a new transaction with its creation event and, when given, the PSP request
+     * to send for it, all in one database transaction.
+     */
+    create(
+        transactionData: CreateTransactionData,
+        event?: TransactionEventInput,
+        pspRequest?: CreatePspOutboxData,
+    ): Promise<TransactionRecord>;
+    findById(transactionId: string, merchantId?: string): Promise<TransactionRecord | null>;
+    findByPspTransactionId(pspTransactionId: string, merchantId?: string): Promise<TransactionRecord | null>;
+
+    /**
+     * Changes a transaction's status and fields, bumping its version. With `expectedVersion`
+     * the update is a compare-and-set: it only applies if nobody changed the transaction
+     * since it was read at that version.
+     * @throws TransactionConflictError if the transaction is no longer at `expectedVersion`
+     */
+    updateStatus(
+        transactionId: string,
+        status: TransactionStatus,
+        extraFields?: UpdateExtraFields,
+        event?: TransactionEventInput,
+        expectedVersion?: number,
+    ): Promise<TransactionRecord>;
+
+    /**
+     * Lists transactions matching the filters, using keyset (cursor) pagination.
+     * Ties on the sort field are broken by ID so pages never overlap or skip rows.
+     */
+    list(query: TransactionListQuery): Promise<TransactionPage>;
+
+    /**
+     * Finds transactions in one of the given statuses that have not changed since `updatedBefore`
+     * (used by the reconciler): those never reconciled first, then the least recently reconciled,
+     * each least recently updated first.
+     */
+    findStaleTransactions(statuses: TransactionStatus[], updatedBefore: Date, limit: number): Promise<TransactionRecord[]>;
+
+    /**
+     * Records that the reconciler checked a transaction, without changing its version or `updatedAt`.
+     */
+    markReconciled(transactionId: string, reconciledAt: Date): Promise<void>;
+
+    /**
+     * Finds PENDING refunds created before `createdBefore` that never got a PSP refund ID,
+     * oldest first (used by the reconciler to send them again).
+     */
+    findStaleRefunds(createdBefore: Date, limit: number): Promise<RefundRecord[]>;
+
+    /**
+     * Runs `work` as one unit of work holding the transaction's row lock: in Postgres,
+     * BEGIN + SELECT ... FOR UPDATE, then COMMIT once `work` resolves or ROLLBACK if it throws.
+     * The lock is released either way. `work` also runs when no transaction matches the key,
+     * with `unit.transaction` null.
+     *
+     * @throws TransactionLockTimeoutError if another unit holds the lock for longer than the lock timeout
+     * @throws TransactionUnitTimeoutError if `work` runs for longer than the unit timeout; it is rolled back
+     */
+    withTransaction<T>(key: TransactionLockKey, work: (unit: TransactionUnitOfWork) => Promise<T>): Promise<T>;
+
+    findRefundById(refundId: string, merchantId?: string): Promise<RefundRecord | null>;
+    findRefundsByTransactionId(transactionId: string, merchantId?: string): Promise<RefundRecord[]>;
+    updateRefund(refundId: string, fields: UpdateRefundFields): Promise<RefundRecord>;
+
+    /**
+     * Lists a transaction's status history, oldest first.
+     */
+    findEventsByTransactionId(transactionId: string, merchantId?: string): Promise<TransactionEventRecord[]>;
+
+    createNotification(notificationData: CreateNotificationData): Promise<NotificationRecord>;
+    findNotificationById(notificationId: string, merchantId?: string): Promise<NotificationRecord | null>;
+    findNotificationsByTransactionId(transactionId: string, merchantId?: string): Promise<NotificationRecord[]>;
+    updateNotification(notificationId: string, fields: UpdateNotificationFields): Promise<NotificationRecord>;
+
+    /**
+     * Lists notifications still awaiting delivery, oldest first (used to resume retries on startup).
+     */
+    findPendingNotifications(): Promise<NotificationRecord[]>;
+
+    findPspOutboxEntry(outboxId: string): Promise<PspOutboxRecord | null>;
+    findPspOutboxEntryByTransactionId(transactionId: string): Promise<PspOutboxRecord | null>;
+    updatePspOutboxEntry(outboxId: string, fields: UpdatePspOutboxFields): Promise<PspOutboxRecord>;
+
+    /**
+     * Atomically claims a PENDING outbox entry (or one whose lease has expired) for `leaseMs`,
+     * marking it IN_FLIGHT, so only one worker sends it at a time.
+     * @returns The claimed entry, or null if it is not waiting to be sent or another worker holds it
+     */
+    claimPspOutboxEntry(outboxId: string, leaseMs: number): Promise<PspOutboxRecord | null>;
+
+    /**
+     * Lists PSP requests not answered yet (PENDING or IN_FLIGHT), oldest first (used to resume sending on startup).
+     */
+    findPendingPspOutboxEntries(): Promise<PspOutboxRecord[]>;
 
     /**
-     * Atomically finds a transaction by PSP ID (with row lock) and applies a status update.
-     * In Postgres this uses BEGIN + SELECT ... FOR UPDATE + UPDATE + COMMIT.
-     * Returns the locked transaction and an updater function to apply the change.
+     * Atomically claims a merchant's idempotency key for a request with the given fingerprint,
+     * for `leaseMs`. A key still IN_PROGRESS after its lease has expired (its request died) is
+     * taken over by a request with the same fingerprint. Returns the existing record instead
+     * if the key is held or completed.
      */
-    findAndLockByPspTransactionId(
-        pspTransactionId: string,
-    ): Promise<{ transaction: TransactionRecord | null; updateStatus: (status: TransactionStatus, extraFields?: UpdateExtraFields) => Promise<TransactionRecord>; commit: () => Promise<void>; rollback: () => Promise<void> }>;
+    claimIdempotencyKey(merchantId: string, key: string, requestFingerprint: string, leaseMs: number): Promise<IdempotencyClaim>;
+    completeIdempotencyKey(merchantId: string, key: string, response: CreateTransactionResponse): Promise<void>;
+    releaseIdempotencyKey(merchantId: string, key: string): Promise<void>;
 }
 
+/**
+ * How funds are collected: 'automatic' charges immediately (sale),
+ * 'manual' only authorizes and waits for an explicit capture.
+ */
+export type CaptureMode = 'automatic' | 'manual';
+
 /**
  * Request payload for creating a transaction via the public API.
  */
 export interface CreateTransactionPayload {
+    /** Amount in the currency's minor unit (cents for EUR, yen for JPY, fils for KWD) */
     amount: number;
+    /** Supported ISO 4217 code */
     currency: string;
+    /** Currency to charge the PSP in, converted at the current FX rate; defaults to `currency` */
+    settlementCurrency?: string;
     cardNumber: string;
     cardExpiry: string;
     cvv: string;
     orderId: string;
+    /** Merchant URL for our signed transaction.* notifications (never forwarded to the PSP) */
     callbackUrl?: string;
+    /** Where the PSP sends the customer's browser after a successful 3DS challenge */
+    returnUrl?: string;
+    /** Where the PSP sends the customer's browser after a failed 3DS challenge (defaults to returnUrl) */
+    failureUrl?: string;
+    captureMode?: CaptureMode;
+}
+
+/**
+ * Query string accepted by the transaction listing API.
+ */
+export interface ListTransactionsParams {
+    status?: TransactionStatus;
+    orderId?: string;
+    currency?: string;
+    pspTransactionId?: string;
+    createdFrom?: string;
+    createdTo?: string;
+    sortBy?: TransactionSortField;
+    sortOrder?: SortOrder;
+    limit?: number;
+    cursor?: string;
+}
+
+/**
+ * A page of transactions returned by the listing API.
+ * Pass `nextCursor` back as `cursor` to fetch the following page.
+ */
+export interface ListTransactionsResponse {
+    items: TransactionResponse[];
+    nextCursor: string | null;
+}
+
+/**
+ * Request payload for capturing an authorized transaction via the public API.
+ * When `amount` is omitted the full authorized amount is captured.
+ */
+export interface CaptureTransactionPayload {
+    amount?: number;
 }
 
 /**
- * Response returned after creating a transaction.
+ * Response returned after creating a transaction. A CREATED status means the provider has not
+ * answered yet: the request is retried from the outbox and the transaction can be polled.
  */
 export interface CreateTransactionResponse {
     id: string;
     orderId: string;
     amount: number;
     currency: string;
+    /** `amount` in the currency's major unit, e.g. "25.00" */
+    formattedAmount: string;
+    settlementCurrency: string | null;
+    settlementAmount: number | null;
+    fxRate: string | null;
+    fxRateTimestamp: Date | null;
+    cardBrand: CardBrand;
+    maskedCardNumber: string;
+    provider: string;
     status: TransactionStatus;
-    pspTransactionId: string;
+    /** Null while the payment request is still waiting in the outbox (status CREATED) */
+    pspTransactionId: string | null;
+    declineCode: string | null;
+    declineMessage: string | null;
+    declineRetryable: boolean | null;
     threeDsRedirectUrl?: string;
 }
 
+/**
+ * Kind of operation a PSP webhook reports on. Defaults to 'payment' when omitted.
+ */
+export type WebhookEventType = 'payment' | 'refund';
+
 /**
  * Webhook payload received from the PSP simulator.
+ * Refund webhooks additionally carry the PSP refund ID and our refund ID as `reference`;
+ * their `final_amount` is the refunded amount.
  */
 export interface WebhookPayload {
     transactionId: string;
-    final_amount: number;
+    /** Optional on the wire: a webhook without it leaves the stored amounts as they are */
+    final_amount?: number;
     status: string;
+    type?: WebhookEventType;
+    refundId?: string;
+    reference?: string;
+    /** Why the PSP changed the status on its own, e.g. '3DS_EXPIRED' */
+    reason?: string;
+    /** Why the issuer declined a FAILED payment, e.g. 'insufficient_funds' */
+    declineCode?: string;
+    declineMessage?: string;
 }
 
 /**
@@ -98,9 +635,112 @@ export interface WebhookResult {
     id: string;
     status: TransactionStatus;
     finalAmount?: number | null;
+    refundId?: string;
+    message?: string;
+}
+
+/**
+ * What a reconciliation run did with one transaction:
+ * FIXED — the PSP's final status was applied, or a payment that was never sent was failed;
+ * PENDING — the PSP is still waiting too (e.g. an open 3DS challenge), or the request is still being retried;
+ * IN_SYNC — the transaction caught up on its own while the run was in progress;
+ * INCONSISTENT — the PSP could not be asked or its answer could not be applied.
+ */
+export type ReconciliationOutcome = 'FIXED' | 'PENDING' | 'IN_SYNC' | 'INCONSISTENT';
+
+/**
+ * Reconciliation result for a single transaction.
+ */
+export interface ReconciliationResult {
+    transactionId: string;
+    pspTransactionId: string | null;
+    previousStatus: TransactionStatus;
+    status: TransactionStatus;
+    pspStatus: string | null;
+    outcome: ReconciliationOutcome;
     message?: string;
 }
 
+/**
+ * Summary of a reconciliation run.
+ */
+export interface ReconciliationReport {
+    startedAt: Date;
+    finishedAt: Date;
+    checked: number;
+    fixed: number;
+    stillPending: number;
+    inSync: number;
+    inconsistent: number;
+    results: ReconciliationResult[];
+}
+
+/**
+ * Formats the PSP can produce a settlement file in.
+ */
+export type SettlementFormat = 'csv' | 'json';
+
+/**
+ * One payment in a settlement file. Amounts are in minor units;
+ * `finalAmount` and `fee` are 0 for payments that did not settle (FAILED, VOIDED).
+ */
+export interface SettlementRecord {
+    pspTransactionId: string;
+    status: string;
+    amount: number;
+    finalAmount: number;
+    fee: number;
+    currency: string;
+}
+
+/**
+ * A PSP settlement file: every payment the PSP received on one (UTC) day
+ * that has reached a final status.
+ */
+export interface SettlementFile {
+    /** Settlement day, YYYY-MM-DD (UTC) */
+    date: string;
+    records: SettlementRecord[];
+}
+
+/**
+ * A transaction and settlement record that disagree on an amount.
+ */
+export interface SettlementAmountMismatch {
+    transactionId: string;
+    pspTransactionId: string;
+    field: 'amount' | 'finalAmount';
+    /** Our value, in the settlement currency for transactions that have one */
+    expected: number;
+    /** The settlement file's value */
+    actual: number;
+}
+
+/**
+ * A transaction whose status does not match its settlement record.
+ */
+export interface SettlementStatusMismatch {
+    transactionId: string;
+    pspTransactionId: string;
+    status: TransactionStatus;
+    pspStatus: string;
+}
+
+/**
+ * Result of matching a settlement file against the transactions table.
+ * `missing`: our final transactions of that day absent from the file;
+ * `extra`: file records with no transaction on our side.
+ */
+export interface SettlementReconciliationReport {
+    date: string;
+    records: number;
+    matched: number;
+    missing: { transactionId: string; pspTransactionId: string; status: TransactionStatus }[];
+    extra: SettlementRecord[];
+    amountMismatches: SettlementAmountMismatch[];
+    statusMismatches: SettlementStatusMismatch[];
+}
+
 /**
  * Response from the PSP simulator.
  */
@@ -108,6 +748,57 @@ export interface PspResponse {
     transactionId: string;
     status: string;
     threeDsRedirectUrl?: string;
+    declineCode?: string;
+    declineMessage?: string;
+}
+
+/**
+ * The PSP's current view of a payment (GET /psp/transactions/:id), used for reconciliation.
+ */
+export interface PspTransactionStatusResponse {
+    transactionId: string;
+    status: string;
+    amount: number;
+    currency: string;
+    finalAmount: number;
+    declineCode?: string;
+    declineMessage?: string;
+    updatedAt: string;
+}
+
+/**
+ * Response from the PSP simulator when an authorization is captured.
+ */
+export interface PspCaptureResponse {
+    transactionId: string;
+    status: string;
+    capturedAmount: number;
+}
+
+/**
+ * Request payload for refunding a transaction via the public API.
+ * When `amount` is omitted the full remaining balance is refunded.
+ */
+export interface CreateRefundPayload {
+    amount?: number;
+}
+
+/**
+ * Response from the PSP simulator when a refund is requested.
+ */
+export interface PspRefundResponse {
+    refundId: string;
+    status: string;
+}
+
+/**
+ * Refund request payload sent to the PSP simulator.
+ */
+export interface PspRefundRequest {
+    transactionId: string;
+    amount: number;
+    reference: string;
+    callbackUrl: string;
 }
 
 /**
@@ -121,5 +812,7 @@ export interface PspTransactionRequest {
     cvv: string;
     orderId: string;
     callbackUrl: string;
-    failureUrl: string;
+    returnUrl?: string;
+    failureUrl?: string;
+    captureMode?: CaptureMode;
 }
@@ -1,36 +1,98 @@
-import { buildApp } from '../../src/app';
+import { buildApp, BuildAppOptions } from '../../src/app';
 import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
-import { FastifyInstance } from 'fastify';
+import { InMemoryMerchantRepository } from '../../src/repositories/inMemoryMerchantRepository';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+import { hashApiKey } from '../../src/domain/apiKeys';
+import { FastifyInstance, InjectOptions } from 'fastify';
 
 /**
- * Creates a test Fastify instance with in-memory repository.
+ * Placeholder origin for URLs that are only known once the app listens.
+ */
+const PLACEHOLDER_ORIGIN = 'http://placeholder';
+
+/**
+ * Merchant every test app is seeded with. It has no callback URL or webhook secret of its
+ * own, so its notifications fall back to the configured defaults.
+ */
+export const TEST_MERCHANT_ID = '11111111-1111-4111-8111-111111111111';
+export const TEST_API_KEY = 'sk_test_merchant';
+
+/**
+ * Admin API key of every test app, for the operator routes.
+ */
+export const TEST_ADMIN_API_KEY = 'sk_test_admin';
+
+/**
+ * Creates a test Fastify instance with in-memory repository and simulator store.
  * Starts listening on a random available port so that internal
  * HTTP calls (e.g. TransactionService calling PSP simulator) work.
+ * Pass an existing `simulatorStore` to simulate a restart of the simulator, or a `repository`
+ * built with other options (e.g. a short lock timeout).
+ * Provider base URLs may be given relative to the app (e.g. `/psp-eu`).
+ *
+ * `app.inject` authenticates as the test merchant unless the request sets its own
+ * `authorization` header.
  */
-export async function buildTestApp(): Promise<{
+export async function buildTestApp(options: {
+    simulatorStore?: InMemorySimulatorStore;
+    repository?: InMemoryTransactionRepository;
+} & Pick<
+    BuildAppOptions,
+    'paymentProviders' | 'providerRoutingRules' | 'defaultProvider' | 'pspSimulatorInstances' | 'fxRateProvider'
+> = {}): Promise<{
     app: FastifyInstance;
     repository: InMemoryTransactionRepository;
+    merchantRepository: InMemoryMerchantRepository;
+    simulatorStore: InMemorySimulatorStore;
     baseUrl: string;
 }> {
-    const repository = new InMemoryTransactionRepository();
+    const repository = options.repository ?? new InMemoryTransactionRepository();
+    const merchantRepository = new InMemoryMerchantRepository();
+    await merchantRepository.create({
+        id: TEST_MERCHANT_ID,
+        name: 'Test merchant',
+        apiKeyHash: hashApiKey(TEST_API_KEY),
+        callbackUrl: null,
+        webhookSecret: null,
+    });
+    const simulatorStore = options.simulatorStore ?? new InMemorySimulatorStore();
+    const paymentProviders = options.paymentProviders ?? [{ name: 'psp', baseUrl: '/psp' }];
 
     // Use port 0 to get a random available port — we'll set the URLs after we know it
     const app = await buildApp({
         logger: false,
         repository,
+        merchantRepository,
+        simulatorStore,
         skipDatabase: true,
-        // Temporary dummy values — will be overridden via hook below
-        pspBaseUrl: 'http://placeholder',
-        appBaseUrl: 'http://placeholder',
+        // Temporary dummy values — will be overridden below
+        paymentProviders: paymentProviders.map((provider) => ({
+            ...provider,
+            baseUrl: `${PLACEHOLDER_ORIGIN}${provider.baseUrl}`,
+        })),
+        appBaseUrl: PLACEHOLDER_ORIGIN,
+        providerRoutingRules: options.providerRoutingRules,
+        defaultProvider: options.defaultProvider,
+        pspSimulatorInstances: options.pspSimulatorInstances,
+        fxRateProvider: options.fxRateProvider,
+        adminApiKey: TEST_ADMIN_API_KEY,
     });
 
     // Listen on a random port
     const address = await app.listen({ port: 0, host: '127.0.0.1' });
 
-    // Now update the services with the actual URLs
-    const transactionServiceAny = app.transactionService as any;
-    transactionServiceAny.pspBaseUrl = `${address}/psp`;
-    transactionServiceAny.appBaseUrl = address;
+    // Now point the providers at the actual URLs
+    for (const provider of app.providerRouter.list()) {
+        const providerAny = provider as any;
+        providerAny.baseUrl = providerAny.baseUrl.replace(PLACEHOLDER_ORIGIN, address);
+        providerAny.appBaseUrl = address;
+    }
+
+    const inject = app.inject.bind(app);
+    app.inject = ((injectOptions: InjectOptions) => inject({
+        ...injectOptions,
+        headers: { authorization: `Bearer ${TEST_API_KEY}`, ...injectOptions.headers },
+    })) as FastifyInstance['inject'];
 
-    return { app, repository, baseUrl: address };
+    return { app, repository, merchantRepository, simulatorStore, baseUrl: address };
 }
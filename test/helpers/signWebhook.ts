@@ -0,0 +1,22 @@
+import config from '../../src/config';
+import { buildWebhookSignatureHeaders } from '../../src/domain/webhookSignature';
+
+/**
+ * Builds `app.inject` options for a webhook signed the way the PSP simulator signs it.
+ * Spread the result into the inject call: `app.inject({ method, url, ...signedWebhook(body) })`.
+ */
+export function signedWebhook(
+    body: Record<string, unknown>,
+    options: { secret?: string; now?: number } = {},
+): { payload: string; headers: Record<string, string> } {
+    const rawBody = JSON.stringify(body);
+    const { secret = config.webhookSecrets[0], now } = options;
+
+    return {
+        payload: rawBody,
+        headers: {
+            'content-type': 'application/json',
+            ...buildWebhookSignatureHeaders(secret, rawBody, now),
+        },
+    };
+}
@@ -0,0 +1,240 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+
+describe('Authorization and capture', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    /**
+     * Helper: creates a manual-capture transaction through the API and returns its ID.
+     */
+    async function createAuthorizedTransaction(cardNumber: string = '5555111111111111'): Promise<string> {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber,
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: `order_${Date.now()}`,
+                callbackUrl: 'http://localhost:3000/webhooks/psp',
+                captureMode: 'manual',
+            },
+        });
+
+        expect(response.statusCode).toBe(200);
+        return response.json().id;
+    }
+
+    it('should leave a manual-capture transaction in AUTHORIZED', async () => {
+        const transactionId = await createAuthorizedTransaction();
+
+        const storedTransaction = await repository.findById(transactionId);
+        expect(storedTransaction!.status).toBe('AUTHORIZED');
+        expect(storedTransaction!.finalAmount).toBeNull();
+    });
+
+    it('should still fail declined cards in manual capture mode', async () => {
+        const transactionId = await createAuthorizedTransaction('4000111111111115');
+
+        const storedTransaction = await repository.findById(transactionId);
+        expect(storedTransaction!.status).toBe('FAILED');
+    });
+
+    describe('POST /transactions/:id/capture', () => {
+        it('should capture the full authorized amount by default', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(200);
+            const body = response.json();
+            expect(body.status).toBe('SUCCESS');
+            expect(body.finalAmount).toBe(1000);
+        });
+
+        it('should capture a partial amount', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: { amount: 750 },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json().finalAmount).toBe(750);
+        });
+
+        it('should reject capturing more than the authorized amount', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: { amount: 1001 },
+            });
+
+            expect(response.statusCode).toBe(422);
+            const storedTransaction = await repository.findById(transactionId);
+            expect(storedTransaction!.status).toBe('AUTHORIZED');
+        });
+
+        it('should reject capturing the same transaction twice', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            await app.inject({ method: 'POST', url: `/transactions/${transactionId}/capture`, payload: {} });
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+
+        it('should reject capturing an automatically captured transaction', async () => {
+            const createResponse = await app.inject({
+                method: 'POST',
+                url: '/transactions',
+                payload: {
+                    amount: 1000,
+                    currency: 'EUR',
+                    cardNumber: '5555111111111111',
+                    cardExpiry: '12/30',
+                    cvv: '123',
+                    orderId: 'order_auto_capture',
+                    callbackUrl: 'http://localhost:3000/webhooks/psp',
+                },
+            });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${createResponse.json().id}/capture`,
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+
+        it('should return 404 for a non-existent transaction', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/transactions/00000000-0000-0000-0000-000000000000/capture',
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should capture a transaction the PSP already captured when its answer was lost', async () => {
+            const transactionId = await createAuthorizedTransaction();
+            const { pspTransactionId } = (await repository.findById(transactionId))!;
+            const lostCapture = await app.inject({
+                method: 'POST',
+                url: `/psp/transactions/${pspTransactionId}/capture`,
+                payload: { amount: 600 },
+            });
+            expect(lostCapture.statusCode).toBe(200);
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: { amount: 600 },
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json()).toMatchObject({ status: 'SUCCESS', finalAmount: 600 });
+        });
+
+        it('should reject a capture the PSP refuses because the transaction was voided meanwhile', async () => {
+            const transactionId = await createAuthorizedTransaction();
+            const { pspTransactionId } = (await repository.findById(transactionId))!;
+            await app.inject({ method: 'POST', url: `/psp/transactions/${pspTransactionId}/void` });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(409);
+            expect((await repository.findById(transactionId))!.status).toBe('AUTHORIZED');
+        });
+    });
+
+    describe('POST /transactions/:id/void', () => {
+        it('should void an authorized transaction', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/void`,
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json().status).toBe('VOIDED');
+        });
+
+        it('should reject capturing a voided transaction', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            await app.inject({ method: 'POST', url: `/transactions/${transactionId}/void` });
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/capture`,
+                payload: {},
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+
+        it('should reject voiding a captured transaction', async () => {
+            const transactionId = await createAuthorizedTransaction();
+
+            await app.inject({ method: 'POST', url: `/transactions/${transactionId}/capture`, payload: {} });
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/void`,
+            });
+
+            expect(response.statusCode).toBe(409);
+        });
+
+        it('should void a transaction the PSP already voided when its answer was lost', async () => {
+            const transactionId = await createAuthorizedTransaction();
+            const { pspTransactionId } = (await repository.findById(transactionId))!;
+            await app.inject({ method: 'POST', url: `/psp/transactions/${pspTransactionId}/void` });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transactionId}/void`,
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.json().status).toBe('VOIDED');
+        });
+    });
+});
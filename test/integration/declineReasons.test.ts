@@ -0,0 +1,153 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_ADMIN_API_KEY } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { clearScenarios } from '../../src/psp-simulator/scenarioRegistry';
+
+/**
+ * Tests for the decline codes and messages stored on failed transactions,
+ * whether the PSP reports them synchronously or in a webhook.
+ */
+describe('Decline reasons', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        clearScenarios();
+    });
+
+    async function createTransaction(cardNumber: string) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber,
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: `order_${cardNumber}`,
+            },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    it('should store a soft decline reported by the PSP response', async () => {
+        const transaction = await createTransaction('4000021111111116');
+
+        expect(transaction).toMatchObject({
+            status: 'FAILED',
+            declineCode: 'insufficient_funds',
+            declineMessage: 'The card has insufficient funds',
+            declineRetryable: true,
+        });
+        const storedTransaction = await repository.findById(transaction.id);
+        expect(storedTransaction).toMatchObject({
+            declineCode: 'insufficient_funds',
+            declineMessage: 'The card has insufficient funds',
+        });
+
+        const response = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}` });
+        expect(response.json()).toMatchObject({ declineCode: 'insufficient_funds', declineRetryable: true });
+    });
+
+    it('should mark hard declines as not retryable', async () => {
+        const transaction = await createTransaction('4000031111111115');
+
+        expect(transaction).toMatchObject({ status: 'FAILED', declineCode: 'suspected_fraud', declineRetryable: false });
+    });
+
+    it('should decline other 4000 cards with do_not_honor', async () => {
+        const transaction = await createTransaction('4000111111111115');
+
+        expect(transaction).toMatchObject({ declineCode: 'do_not_honor', declineRetryable: true });
+    });
+
+    it('should report a scenario\'s decline code', async () => {
+        await app.inject({
+            method: 'POST',
+            url: '/psp/scenarios',
+            headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+            payload: { match: { cardPrefix: '5555' }, declineCode: 'lost_card' },
+        });
+
+        const transaction = await createTransaction('5555111111111111');
+
+        expect(transaction).toMatchObject({
+            status: 'FAILED',
+            declineCode: 'lost_card',
+            declineMessage: 'The card has been reported lost',
+            declineRetryable: false,
+        });
+    });
+
+    it('should reject scenario decline codes outside the catalogue', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/psp/scenarios',
+            headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+            payload: { match: { cardPrefix: '5555' }, declineCode: 'issuer_said_no' },
+        });
+
+        expect(response.statusCode).toBe(400);
+    });
+
+    it('should leave approved transactions without a decline reason', async () => {
+        const transaction = await createTransaction('5555111111111111');
+
+        expect(transaction).toMatchObject({ status: 'SUCCESS', declineCode: null, declineMessage: null, declineRetryable: null });
+    });
+
+    it('should store the decline reason of a FAILED webhook', async () => {
+        const transaction = await createTransaction('4111111111111111');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({
+                transactionId: transaction.pspTransactionId,
+                final_amount: 1000,
+                status: 'FAILED',
+                declineCode: 'try_again_later',
+                declineMessage: 'Issuer busy, retry in a minute',
+            }),
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(await repository.findById(transaction.id)).toMatchObject({
+            status: 'FAILED',
+            declineCode: 'try_again_later',
+            declineMessage: 'Issuer busy, retry in a minute',
+        });
+    });
+
+    it('should describe webhook decline codes the PSP sent without a message', async () => {
+        const transaction = await createTransaction('4111111111111111');
+
+        await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: transaction.pspTransactionId, final_amount: 1000, status: 'FAILED', declineCode: 'issuer_said_no' }),
+        });
+
+        const response = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}` });
+        expect(response.json()).toMatchObject({
+            declineCode: 'issuer_said_no',
+            declineMessage: 'The payment was declined',
+            declineRetryable: false,
+        });
+    });
+});
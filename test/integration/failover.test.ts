@@ -0,0 +1,314 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_ADMIN_API_KEY } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+import { DEFAULT_SIMULATOR_INSTANCE, stopOutage } from '../../src/psp-simulator/pspService';
+
+const RESET_TIMEOUT_MS = 200;
+
+jest.mock('../../src/config', () => {
+    const actualConfig = jest.requireActual('../../src/config').default;
+    return {
+        __esModule: true,
+        // No retries, so every request to a down PSP counts as one breaker failure
+        default: {
+            ...actualConfig,
+            pspRetryAttempts: 1,
+            circuitBreakerFailureThreshold: 2,
+            circuitBreakerResetTimeoutMs: 200,
+        },
+    };
+});
+
+/**
+ * Tests for the circuit breaker on PSP calls and the failover of new payments to a secondary PSP.
+ * Outages are forced through the simulator's outage endpoint.
+ */
+describe('PSP failover', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let simulatorStore: InMemorySimulatorStore;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'info').mockImplementation(() => undefined);
+
+        const testApp = await buildTestApp({
+            pspSimulatorInstances: [{ name: 'psp-backup' }],
+            paymentProviders: [
+                { name: 'psp', baseUrl: '/psp', failoverProvider: 'psp-backup' },
+                { name: 'psp-backup', baseUrl: '/psp-backup' },
+            ],
+            defaultProvider: 'psp',
+        });
+        app = testApp.app;
+        repository = testApp.repository;
+        simulatorStore = testApp.simulatorStore;
+        baseUrl = testApp.baseUrl;
+        await app.ready();
+    });
+
+    afterEach(async () => {
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        await app.close();
+        jest.restoreAllMocks();
+    });
+
+    async function createTransaction(overrides: Record<string, unknown> = {}, expectedStatusCode: number = 200) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: 'order_failover',
+                ...overrides,
+            },
+        });
+        expect(response.statusCode).toBe(expectedStatusCode);
+        return response.json();
+    }
+
+    /**
+     * Creates a payment the PSP cannot take yet: it stays queued in the outbox.
+     */
+    async function createQueuedTransaction(overrides: Record<string, unknown> = {}) {
+        return createTransaction(overrides, 202);
+    }
+
+    async function providerStatus(name: string) {
+        const response = await app.inject({
+            method: 'GET',
+            url: '/providers/status',
+            headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json().find((status: { name: string }) => status.name === name);
+    }
+
+    async function forceOutage() {
+        const response = await app.inject({ method: 'POST', url: '/psp/outage', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` }, payload: {} });
+        expect(response.statusCode).toBe(201);
+    }
+
+    /**
+     * Takes the primary down and opens its circuit with two payments, which stay queued.
+     */
+    async function openPrimaryCircuit() {
+        await forceOutage();
+        await createQueuedTransaction();
+        await createQueuedTransaction();
+        expect((await providerStatus('psp')).circuit.state).toBe('OPEN');
+    }
+
+    describe('simulator outage', () => {
+        it('should answer every API request with 503 until stopped', async () => {
+            await forceOutage();
+
+            const downResponse = await app.inject({ method: 'GET', url: '/psp/scenarios' });
+            expect(downResponse.statusCode).toBe(503);
+            expect(downResponse.json().error).toBe('Simulated PSP outage');
+
+            const outageResponse = await app.inject({ method: 'GET', url: '/psp/outage' });
+            expect(outageResponse.json()).toMatchObject({ instance: 'psp', httpStatus: 503, endsAt: null });
+
+            // Other instances stay up
+            const backupResponse = await app.inject({ method: 'GET', url: '/psp-backup/scenarios' });
+            expect(backupResponse.statusCode).toBe(200);
+
+            const stopResponse = await app.inject({ method: 'DELETE', url: '/psp/outage', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` } });
+            expect(stopResponse.statusCode).toBe(204);
+
+            const upResponse = await app.inject({ method: 'GET', url: '/psp/scenarios' });
+            expect(upResponse.statusCode).toBe(200);
+        });
+
+        it('should end a timed outage on its own', async () => {
+            await app.inject({
+                method: 'POST',
+                url: '/psp/outage',
+                headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+                payload: { httpStatus: 502, durationMs: 50 },
+            });
+
+            const downResponse = await app.inject({ method: 'GET', url: '/psp/scenarios' });
+            expect(downResponse.statusCode).toBe(502);
+
+            await new Promise((resolve) => setTimeout(resolve, 60));
+            const upResponse = await app.inject({ method: 'GET', url: '/psp/scenarios' });
+            expect(upResponse.statusCode).toBe(200);
+        });
+    });
+
+    describe('failover', () => {
+        it('should use the primary provider while it is up', async () => {
+            const transaction = await createTransaction();
+
+            expect(transaction).toMatchObject({ provider: 'psp', status: 'SUCCESS' });
+            expect(await providerStatus('psp')).toMatchObject({
+                circuit: { state: 'CLOSED', consecutiveFailures: 0 },
+                failoverProvider: 'psp-backup',
+                failovers: 0,
+            });
+        });
+
+        it('should keep a payment on the primary provider when it answers with a 5xx', async () => {
+            await forceOutage();
+
+            const transaction = await createQueuedTransaction();
+
+            expect(transaction).toMatchObject({ provider: 'psp', status: 'CREATED', pspTransactionId: null });
+            expect(await repository.findPspOutboxEntryByTransactionId(transaction.id)).toMatchObject({
+                status: 'PENDING',
+                sentTo: 'psp',
+            });
+            expect(await providerStatus('psp')).toMatchObject({
+                circuit: { state: 'CLOSED', consecutiveFailures: 1 },
+                failovers: 0,
+            });
+        });
+
+        it('should send new payments to the secondary provider while the primary\'s circuit is open', async () => {
+            await openPrimaryCircuit();
+
+            const transaction = await createTransaction();
+
+            expect(transaction).toMatchObject({ provider: 'psp-backup', status: 'SUCCESS' });
+            const stored = await repository.findById(transaction.id);
+            expect(stored!.provider).toBe('psp-backup');
+
+            const eventsResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/events` });
+            const successEvent = eventsResponse.json().find((event: { toStatus: string }) => event.toStatus === 'SUCCESS');
+            expect(successEvent.payload.failedOverFrom).toBe('psp');
+
+            expect(await providerStatus('psp')).toMatchObject({
+                circuit: { state: 'OPEN', consecutiveFailures: 2 },
+                failovers: 1,
+            });
+        });
+
+        it('should keep later operations on the provider that took the payment', async () => {
+            await openPrimaryCircuit();
+            const transaction = await createTransaction({ captureMode: 'manual' });
+            expect(transaction).toMatchObject({ provider: 'psp-backup', status: 'AUTHORIZED' });
+
+            const captureResponse = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transaction.id}/capture`,
+                payload: {},
+            });
+
+            expect(captureResponse.statusCode).toBe(200);
+            expect(captureResponse.json().status).toBe('SUCCESS');
+        });
+
+        it('should not fail over a payment the primary may have created before timing out', async () => {
+            const realFetch = global.fetch;
+            let timedOut = false;
+            const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+                const response = await realFetch(input, init);
+                if (!timedOut && String(input) === `${baseUrl}/psp/transactions`) {
+                    // The primary creates the payment, but its answer never arrives
+                    timedOut = true;
+                    throw new TypeError('fetch failed', { cause: { code: 'UND_ERR_HEADERS_TIMEOUT' } });
+                }
+                return response;
+            });
+
+            const transaction = await createQueuedTransaction();
+            const outboxEntry = await repository.findPspOutboxEntryByTransactionId(transaction.id);
+            expect(outboxEntry).toMatchObject({ status: 'PENDING', sentTo: 'psp' });
+
+            // The timeout was the primary's first failure: one more opens its circuit, and the
+            // request still is not sent to the secondary provider
+            await forceOutage();
+            await createQueuedTransaction();
+            expect((await providerStatus('psp')).circuit.state).toBe('OPEN');
+            const whileOpen = await app.pspOutboxService.dispatch(outboxEntry!.id);
+            expect(whileOpen).toMatchObject({ provider: 'psp', status: 'CREATED' });
+
+            // Once the primary is back, resending the request returns the payment it already created
+            stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+            await new Promise((resolve) => setTimeout(resolve, RESET_TIMEOUT_MS + 20));
+            const settled = await app.pspOutboxService.dispatch(outboxEntry!.id);
+
+            expect(settled).toMatchObject({ provider: 'psp', status: 'SUCCESS' });
+            const pspTransactions = await simulatorStore.listPspTransactions(new Date(0), new Date());
+            expect(pspTransactions.filter((pspTransaction) => pspTransaction.idempotencyKey === outboxEntry!.id))
+                .toEqual([expect.objectContaining({ instance: 'psp', pspTransactionId: settled.pspTransactionId })]);
+            expect(fetchSpy.mock.calls.some(([input]) => String(input).includes('/psp-backup/'))).toBe(false);
+        });
+    });
+
+    describe('circuit breaker', () => {
+        it('should open after consecutive failures and fail over without calling the primary', async () => {
+            await openPrimaryCircuit();
+
+            const openStatus = await providerStatus('psp');
+            expect(openStatus.circuit.consecutiveFailures).toBe(2);
+            expect(new Date(openStatus.circuit.retryAt).getTime() - new Date(openStatus.circuit.openedAt).getTime())
+                .toBe(RESET_TIMEOUT_MS);
+
+            // Bring the primary back: while the circuit is open it is not even tried
+            stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+            const transaction = await createTransaction();
+
+            expect(transaction.provider).toBe('psp-backup');
+            expect(await providerStatus('psp')).toMatchObject({
+                circuit: { state: 'OPEN', consecutiveFailures: 2 },
+                failovers: 1,
+            });
+        });
+
+        it('should close again when the half-open trial request succeeds', async () => {
+            await openPrimaryCircuit();
+            stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+
+            await new Promise((resolve) => setTimeout(resolve, RESET_TIMEOUT_MS + 20));
+            expect((await providerStatus('psp')).circuit.state).toBe('HALF_OPEN');
+
+            const transaction = await createTransaction();
+
+            expect(transaction.provider).toBe('psp');
+            expect((await providerStatus('psp')).circuit).toMatchObject({ state: 'CLOSED', consecutiveFailures: 0, openedAt: null });
+        });
+
+        it('should reopen when the half-open trial request fails', async () => {
+            await openPrimaryCircuit();
+
+            await new Promise((resolve) => setTimeout(resolve, RESET_TIMEOUT_MS + 20));
+            const transaction = await createQueuedTransaction();
+
+            // The trial request reached the primary, so the payment waits for it
+            expect(transaction.provider).toBe('psp');
+            expect((await providerStatus('psp')).circuit).toMatchObject({ state: 'OPEN', consecutiveFailures: 3 });
+        });
+
+        it('should queue the payment for a retry when the failover provider is down too', async () => {
+            await app.inject({ method: 'POST', url: '/psp-backup/outage', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` }, payload: {} });
+
+            try {
+                await openPrimaryCircuit();
+
+                const transaction = await createQueuedTransaction({ orderId: 'order_no_failover' });
+
+                expect(transaction).toMatchObject({ status: 'CREATED', pspTransactionId: null, provider: 'psp' });
+                expect(await repository.findPspOutboxEntryByTransactionId(transaction.id)).toMatchObject({
+                    status: 'PENDING',
+                    attempts: 1,
+                    sentTo: 'psp-backup',
+                });
+                expect(await providerStatus('psp-backup')).toMatchObject({
+                    circuit: { consecutiveFailures: 1 },
+                });
+                expect((await providerStatus('psp')).failovers).toBe(1);
+            } finally {
+                await app.inject({ method: 'DELETE', url: '/psp-backup/outage', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` } });
+            }
+        });
+    });
+});
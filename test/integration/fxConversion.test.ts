@@ -0,0 +1,176 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { TableFxRateProvider } from '../../src/providers/fxRateProvider';
+import { SettlementService } from '../../src/services/settlementService';
+
+/**
+ * Tests for transactions charged to the PSP in a settlement currency at a locked FX rate.
+ */
+describe('FX conversion', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    const RATE_TIMESTAMP = '2026-10-19T08:00:00.000Z';
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp({
+            fxRateProvider: new TableFxRateProvider([
+                { from: 'EUR', to: 'USD', rate: '1.0852', timestamp: RATE_TIMESTAMP },
+                { from: 'EUR', to: 'JPY', rate: '160.47', timestamp: RATE_TIMESTAMP },
+            ]),
+        });
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    async function createTransaction(overrides: Record<string, unknown> = {}) {
+        return app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 2500,
+                currency: 'EUR',
+                settlementCurrency: 'USD',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: `order_${Date.now()}`,
+                ...overrides,
+            },
+        });
+    }
+
+    async function getPspPayment(pspTransactionId: string) {
+        const response = await app.inject({ method: 'GET', url: `/psp/transactions/${pspTransactionId}` });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    it('should lock the rate on the transaction and charge the PSP the converted amount', async () => {
+        const response = await createTransaction();
+
+        expect(response.statusCode).toBe(200);
+        const body = response.json();
+        expect(body).toMatchObject({
+            amount: 2500,
+            currency: 'EUR',
+            settlementCurrency: 'USD',
+            settlementAmount: 2713,
+            fxRate: '1.0852',
+            fxRateTimestamp: RATE_TIMESTAMP,
+        });
+
+        const pspPayment = await getPspPayment(body.pspTransactionId);
+        expect(pspPayment.amount).toBe(2713);
+        expect(pspPayment.currency).toBe('USD');
+
+        const storedTransaction = await repository.findById(body.id);
+        expect(storedTransaction!.fxRate).toBe('1.0852');
+        expect(storedTransaction!.fxRateTimestamp).toEqual(new Date(RATE_TIMESTAMP));
+    });
+
+    it('should convert between currencies with different minor units', async () => {
+        const response = await createTransaction({ settlementCurrency: 'JPY' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().settlementAmount).toBe(4012);
+        expect((await getPspPayment(response.json().pspTransactionId)).currency).toBe('JPY');
+    });
+
+    it('should not convert when the settlement currency is the transaction currency', async () => {
+        const response = await createTransaction({ settlementCurrency: 'EUR' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toMatchObject({ settlementCurrency: null, settlementAmount: null, fxRate: null });
+        expect((await getPspPayment(response.json().pspTransactionId)).amount).toBe(2500);
+    });
+
+    it('should reject a settlement currency without a rate before charging anything', async () => {
+        const missingRate = await createTransaction({ settlementCurrency: 'GBP' });
+        const unsupported = await createTransaction({ settlementCurrency: 'XYZ' });
+
+        expect(missingRate.statusCode).toBe(422);
+        expect(missingRate.json().error).toBe('No FX rate available from EUR to GBP');
+        expect(unsupported.statusCode).toBe(400);
+        expect((await repository.list({ sortBy: 'createdAt', sortOrder: 'desc', limit: 10 })).items).toHaveLength(0);
+    });
+
+    it('should store a webhook final amount in both currencies', async () => {
+        const createResponse = await createTransaction({ cardNumber: '4111111111111111' });
+        const { id, pspTransactionId } = createResponse.json();
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: pspTransactionId, final_amount: 2000, status: 'SUCCESS' }),
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().finalAmount).toBe(1843);
+        const storedTransaction = await repository.findById(id);
+        expect(storedTransaction!.finalSettlementAmount).toBe(2000);
+        expect(storedTransaction!.finalAmount).toBe(1843);
+    });
+
+    it('should keep the locked settlement amount for a webhook without a final amount', async () => {
+        const createResponse = await createTransaction({ cardNumber: '4111111111111111' });
+        const { id, pspTransactionId, settlementAmount } = createResponse.json();
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: pspTransactionId, status: 'SUCCESS' }),
+        });
+
+        expect(response.statusCode).toBe(200);
+        const storedTransaction = await repository.findById(id);
+        expect(storedTransaction).toMatchObject({ status: 'SUCCESS', settlementAmount, finalAmount: null, finalSettlementAmount: null });
+    });
+
+    it('should capture and refund in the settlement currency', async () => {
+        const createResponse = await createTransaction({ captureMode: 'manual' });
+        const { id, pspTransactionId } = createResponse.json();
+
+        const captureResponse = await app.inject({
+            method: 'POST',
+            url: `/transactions/${id}/capture`,
+            payload: { amount: 1000 },
+        });
+
+        expect(captureResponse.statusCode).toBe(200);
+        expect(captureResponse.json()).toMatchObject({ finalAmount: 1000, finalSettlementAmount: 1085 });
+        expect((await getPspPayment(pspTransactionId)).finalAmount).toBe(1085);
+
+        const refundSpy = jest.spyOn(app.providerRouter.get('psp')!, 'refundPayment');
+        const refundResponse = await app.inject({ method: 'POST', url: `/transactions/${id}/refunds`, payload: {} });
+
+        expect(refundResponse.statusCode).toBe(202);
+        expect(refundResponse.json().amount).toBe(1000);
+        expect(refundSpy).toHaveBeenCalledWith(expect.objectContaining({ amount: 1085 }));
+        refundSpy.mockRestore();
+    });
+
+    it('should reconcile settlement files in the settlement currency', async () => {
+        const createResponse = await createTransaction();
+        const { pspTransactionId } = createResponse.json();
+        const today = new Date().toISOString().slice(0, 10);
+
+        const settlementResponse = await app.inject({ method: 'GET', url: `/psp/settlements/${today}?format=json` });
+        const report = await new SettlementService(repository).reconcileFile(settlementResponse.body, today);
+
+        expect(settlementResponse.json().records).toContainEqual(expect.objectContaining({ pspTransactionId, amount: 2713, currency: 'USD' }));
+        expect(report.matched).toBe(1);
+        expect(report.amountMismatches).toEqual([]);
+    });
+});
@@ -0,0 +1,163 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { fingerprintRequest } from '../../src/domain/requestFingerprint';
+import { replaceCardWithToken } from '../../src/domain/cardTokenization';
+import config from '../../src/config';
+
+describe('POST /transactions with Idempotency-Key', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const validPayload = {
+        amount: 1000,
+        currency: 'EUR',
+        cardNumber: '5555111111111111',
+        cardExpiry: '12/30',
+        cvv: '123',
+        orderId: 'order_idempotent',
+        callbackUrl: 'http://localhost:3000/webhooks/psp',
+        captureMode: 'automatic',
+    };
+
+    it('should return the original response when a request is replayed', async () => {
+        const firstResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_replay' },
+            payload: validPayload,
+        });
+        const secondResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_replay' },
+            payload: validPayload,
+        });
+
+        expect(firstResponse.statusCode).toBe(200);
+        expect(secondResponse.statusCode).toBe(200);
+        expect(secondResponse.json()).toEqual(firstResponse.json());
+    });
+
+    it('should create separate transactions for different keys', async () => {
+        const firstResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_first' },
+            payload: validPayload,
+        });
+        const secondResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_second' },
+            payload: validPayload,
+        });
+
+        expect(secondResponse.json().id).not.toBe(firstResponse.json().id);
+    });
+
+    it('should return 422 when the key is reused with a different body', async () => {
+        await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_mismatch' },
+            payload: validPayload,
+        });
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_mismatch' },
+            payload: { ...validPayload, amount: 2000 },
+        });
+
+        expect(response.statusCode).toBe(422);
+        expect(response.json().error).toContain('different request body');
+    });
+
+    it('should return 409 while the original request is still in flight', async () => {
+        await repository.claimIdempotencyKey(
+            TEST_MERCHANT_ID,
+            'key_in_flight',
+            fingerprintRequest(replaceCardWithToken(validPayload, config.cardTokenSecret)),
+            60000,
+        );
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_in_flight' },
+            payload: validPayload,
+        });
+
+        expect(response.statusCode).toBe(409);
+    });
+
+    it('should take over the key of a request that died once its lease has expired', async () => {
+        const requestFingerprint = fingerprintRequest(replaceCardWithToken(validPayload, config.cardTokenSecret));
+        await repository.claimIdempotencyKey(TEST_MERCHANT_ID, 'key_abandoned', requestFingerprint, 0);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_abandoned' },
+            payload: validPayload,
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().status).toBe('SUCCESS');
+    });
+
+    it('should not let a different request take over an expired key', async () => {
+        const requestFingerprint = fingerprintRequest(replaceCardWithToken(validPayload, config.cardTokenSecret));
+        await repository.claimIdempotencyKey(TEST_MERCHANT_ID, 'key_abandoned_mismatch', requestFingerprint, 0);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_abandoned_mismatch' },
+            payload: { ...validPayload, amount: 2000 },
+        });
+
+        expect(response.statusCode).toBe(422);
+    });
+
+    it('should release the key when creation fails so the client can retry', async () => {
+        jest.spyOn(repository, 'create').mockRejectedValueOnce(new Error('Database unavailable'));
+
+        const failedResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_retry_after_failure' },
+            payload: validPayload,
+        });
+        expect(failedResponse.statusCode).toBe(500);
+
+        const retryResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            headers: { 'idempotency-key': 'key_retry_after_failure' },
+            payload: validPayload,
+        });
+        expect(retryResponse.statusCode).toBe(200);
+        expect(retryResponse.json().status).toBe('SUCCESS');
+    });
+});
@@ -0,0 +1,251 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { FastifyInstance } from 'fastify';
+import { buildTestApp } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { listWebhookDeliveries } from '../../src/psp-simulator/webhookOutbox';
+import { verifyWebhookSignature } from '../../src/domain/webhookSignature';
+import {
+    MERCHANT_EVENT_ID_HEADER,
+    MERCHANT_SIGNATURE_HEADER,
+    MERCHANT_TIMESTAMP_HEADER,
+} from '../../src/domain/merchantEvents';
+import config from '../../src/config';
+
+jest.mock('../../src/config', () => {
+    const actualConfig = jest.requireActual('../../src/config').default;
+    return {
+        __esModule: true,
+        default: { ...actualConfig, merchantWebhookMaxAttempts: 3, merchantWebhookRetryBaseDelayMs: 5 },
+    };
+});
+
+/**
+ * Tests for outbound merchant notifications.
+ * Uses a local HTTP receiver standing in for the merchant, whose responses are scripted per test.
+ */
+describe('Merchant notifications', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let appBaseUrl: string;
+    let server: http.Server;
+    let receiverUrl: string;
+    let responseCodes: number[];
+    let receivedRequests: { headers: http.IncomingHttpHeaders; body: string }[];
+    let onDelivery: (() => void) | null;
+
+    beforeAll(async () => {
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => { body += chunk; });
+            request.on('end', () => {
+                receivedRequests.push({ headers: request.headers, body });
+                onDelivery?.();
+                response.statusCode = responseCodes.shift() ?? 200;
+                response.end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/payments/events`;
+
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        appBaseUrl = testApp.baseUrl;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        responseCodes = [];
+        receivedRequests = [];
+        onDelivery = null;
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function createTransaction(cardNumber: string, orderId: string) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber,
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId,
+                callbackUrl: receiverUrl,
+            },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    /**
+     * Helper: polls the delivery log until the transaction's first notification leaves PENDING.
+     */
+    async function waitForSettledNotification(transactionId: string) {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const response = await app.inject({ method: 'GET', url: `/transactions/${transactionId}/notifications` });
+            const [notification] = response.json();
+            if (notification && notification.status !== 'PENDING') {
+                return notification;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        throw new Error(`Notification for transaction ${transactionId} never settled`);
+    }
+
+    it('should send a signed transaction.succeeded event to the callbackUrl', async () => {
+        const transaction = await createTransaction('5555111111111111', 'order_notify_success');
+        const notification = await waitForSettledNotification(transaction.id);
+
+        expect(notification.status).toBe('DELIVERED');
+        expect(receivedRequests).toHaveLength(1);
+
+        const [request] = receivedRequests;
+        const event = JSON.parse(request.body);
+        expect(event.type).toBe('transaction.succeeded');
+        expect(event.id).toBe(notification.id);
+        expect(request.headers[MERCHANT_EVENT_ID_HEADER]).toBe(event.id);
+        expect(event.data).toMatchObject({
+            id: transaction.id,
+            orderId: 'order_notify_success',
+            status: 'SUCCESS',
+            maskedCardNumber: '555511******1111',
+        });
+        expect(request.body).not.toContain('5555111111111111');
+
+        const verification = verifyWebhookSignature({
+            rawBody: request.body,
+            timestampHeader: request.headers[MERCHANT_TIMESTAMP_HEADER] as string,
+            signatureHeader: request.headers[MERCHANT_SIGNATURE_HEADER] as string,
+            secrets: [config.merchantWebhookSecret],
+            toleranceSeconds: 300,
+        });
+        expect(verification.valid).toBe(true);
+    });
+
+    it('should send transaction.failed with the decline reason for a declined card', async () => {
+        const transaction = await createTransaction('4000021111111116', 'order_notify_failed');
+        const notification = await waitForSettledNotification(transaction.id);
+
+        expect(notification.eventType).toBe('transaction.failed');
+        const event = JSON.parse(receivedRequests[0].body);
+        expect(event.type).toBe('transaction.failed');
+        expect(event.data).toMatchObject({
+            declineCode: 'insufficient_funds',
+            declineMessage: 'The card has insufficient funds',
+            declineRetryable: true,
+        });
+    });
+
+    it('should have the PSP call our webhook endpoint instead of the merchant', async () => {
+        const transaction = await createTransaction('5555111111111111', 'order_notify_psp_callback');
+
+        const [pspDelivery] = await listWebhookDeliveries({ transactionId: transaction.pspTransactionId });
+        expect(pspDelivery.callbackUrl).toBe(`${appBaseUrl}/webhooks/psp`);
+    });
+
+    it('should notify the merchant once a PSP webhook settles a 3DS transaction', async () => {
+        const transaction = await createTransaction('4111111111111111', 'order_notify_3ds');
+
+        const pendingResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/notifications` });
+        expect(pendingResponse.json()).toEqual([]);
+
+        await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: transaction.pspTransactionId, final_amount: 1000, status: 'SUCCESS' }),
+        });
+
+        const notification = await waitForSettledNotification(transaction.id);
+        expect(notification.eventType).toBe('transaction.succeeded');
+        expect(notification.payload.data.finalAmount).toBe(1000);
+    });
+
+    it('should retry until the merchant acknowledges', async () => {
+        responseCodes = [500, 503, 200];
+
+        const transaction = await createTransaction('5555111111111111', 'order_notify_retry');
+        const notification = await waitForSettledNotification(transaction.id);
+
+        expect(notification.status).toBe('DELIVERED');
+        expect(notification.attempts.map((attempt: { statusCode: number }) => attempt.statusCode)).toEqual([500, 503, 200]);
+        expect(notification.nextAttemptAt).toBeNull();
+    });
+
+    it('should give up after the maximum attempts and allow a manual redelivery', async () => {
+        responseCodes = [500, 500, 500];
+
+        const transaction = await createTransaction('5555111111111111', 'order_notify_give_up');
+        const notification = await waitForSettledNotification(transaction.id);
+
+        expect(notification.status).toBe('FAILED');
+        expect(notification.attempts).toHaveLength(3);
+
+        const redeliverResponse = await app.inject({
+            method: 'POST',
+            url: `/notifications/${notification.id}/redeliver`,
+        });
+
+        expect(redeliverResponse.statusCode).toBe(200);
+        const redelivered = redeliverResponse.json();
+        expect(redelivered.status).toBe('DELIVERED');
+        expect(redelivered.attempts).toHaveLength(4);
+        expect(redelivered.attempts[3].trigger).toBe('manual');
+    });
+
+    it('should return 404 for a non-existent transaction or notification', async () => {
+        const listResponse = await app.inject({
+            method: 'GET',
+            url: '/transactions/00000000-0000-0000-0000-000000000000/notifications',
+        });
+        const redeliverResponse = await app.inject({
+            method: 'POST',
+            url: '/notifications/00000000-0000-0000-0000-000000000000/redeliver',
+        });
+
+        expect(listResponse.statusCode).toBe(404);
+        expect(redeliverResponse.statusCode).toBe(404);
+    });
+
+    it('should schedule no retry for a delivery that fails after shutdown', async () => {
+        const { app: closingApp } = await buildTestApp();
+        await closingApp.ready();
+        responseCodes = [500];
+        onDelivery = () => closingApp.notificationService.stop();
+
+        const response = await closingApp.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: 'order_notify_shutdown',
+                callbackUrl: receiverUrl,
+            },
+        });
+        expect(response.statusCode).toBe(200);
+
+        // Well past the retry backoff
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        await closingApp.close();
+
+        expect(receivedRequests).toHaveLength(1);
+    });
+});
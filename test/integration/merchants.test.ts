@@ -0,0 +1,270 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_ADMIN_API_KEY, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { MerchantService } from '../../src/services/merchantService';
+import { verifyWebhookSignature } from '../../src/domain/webhookSignature';
+import { MERCHANT_SIGNATURE_HEADER, MERCHANT_TIMESTAMP_HEADER } from '../../src/domain/merchantEvents';
+import { MerchantRecord } from '../../src/types/merchant';
+import config from '../../src/config';
+
+/**
+ * Tests for merchant API key authentication and the scoping of transactions to their merchant.
+ * Requests are made as the helper's test merchant unless they send another merchant's key.
+ */
+describe('Merchants', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let otherMerchant: MerchantRecord;
+    let otherApiKey: string;
+    let server: http.Server;
+    let receivedRequests: { headers: http.IncomingHttpHeaders; body: string }[];
+
+    beforeAll(async () => {
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => { body += chunk; });
+            request.on('end', () => {
+                receivedRequests.push({ headers: request.headers, body });
+                response.end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/payments/events`;
+
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        ({ merchant: otherMerchant, apiKey: otherApiKey } = await new MerchantService(testApp.merchantRepository)
+            .createMerchant({ name: 'Other merchant', callbackUrl: receiverUrl }));
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        receivedRequests = [];
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const validPayload = {
+        amount: 1000,
+        currency: 'EUR',
+        cardNumber: '5555111111111111',
+        cardExpiry: '12/30',
+        cvv: '123',
+        orderId: 'order_merchant',
+    };
+
+    async function createTransaction(apiKey?: string, overrides: Record<string, unknown> = {}) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            ...(apiKey && { headers: { authorization: `Bearer ${apiKey}` } }),
+            payload: { ...validPayload, ...overrides },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    describe('authentication', () => {
+        it('should reject requests without an API key', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/transactions',
+                headers: { authorization: '' },
+                payload: validPayload,
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(response.headers['www-authenticate']).toBe('Bearer');
+            expect(response.json().error).toBe('Missing or invalid API key');
+            expect((await repository.list({ sortBy: 'createdAt', sortOrder: 'desc', limit: 10 })).items).toHaveLength(0);
+        });
+
+        it('should reject unknown API keys and other schemes', async () => {
+            const unknownKey = await app.inject({
+                method: 'GET',
+                url: '/transactions',
+                headers: { authorization: 'Bearer sk_unknown' },
+            });
+            const basicAuth = await app.inject({
+                method: 'GET',
+                url: '/transactions',
+                headers: { authorization: `Basic ${Buffer.from(`${otherApiKey}:`).toString('base64')}` },
+            });
+
+            expect(unknownKey.statusCode).toBe(401);
+            expect(basicAuth.statusCode).toBe(401);
+        });
+
+        it('should protect the notification endpoints', async () => {
+            const transaction = await createTransaction();
+
+            const response = await app.inject({
+                method: 'GET',
+                url: `/transactions/${transaction.id}/notifications`,
+                headers: { authorization: '' },
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it('should require the admin API key on the operator endpoints', async () => {
+            const endpoints = [['GET', '/providers/status'], ['POST', '/reconciliation/run']] as const;
+            for (const [method, url] of endpoints) {
+                const withMerchantKey = await app.inject({ method, url });
+                const withoutKey = await app.inject({ method, url, headers: { authorization: '' } });
+                const withAdminKey = await app.inject({ method, url, headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` } });
+
+                expect(withMerchantKey.statusCode).toBe(401);
+                expect(withMerchantKey.json().error).toBe('Missing or invalid admin API key');
+                expect(withoutKey.statusCode).toBe(401);
+                expect(withAdminKey.statusCode).toBe(200);
+            }
+        });
+
+        it('should not require an API key on the PSP simulator', async () => {
+            const response = await app.inject({ method: 'GET', url: '/psp/scenarios', headers: { authorization: '' } });
+
+            expect(response.statusCode).toBe(200);
+        });
+
+        it('should require the admin API key on the PSP simulator controls', async () => {
+            const endpoints = [
+                ['POST', '/psp/scenarios'],
+                ['DELETE', '/psp/scenarios'],
+                ['DELETE', '/psp/scenarios/sc_unknown'],
+                ['POST', '/psp/outage'],
+                ['DELETE', '/psp/outage'],
+                ['POST', '/psp/webhooks/deliveries/wh_unknown/redeliver'],
+            ] as const;
+            for (const [method, url] of endpoints) {
+                const response = await app.inject({ method, url, payload: {} });
+
+                expect(response.statusCode).toBe(401);
+            }
+
+            const outageResponse = await app.inject({ method: 'GET', url: '/psp/outage' });
+            expect(outageResponse.statusCode).toBe(404);
+        });
+    });
+
+    describe('scoping', () => {
+        it('should store the authenticated merchant on the transaction', async () => {
+            const ownTransaction = await createTransaction();
+            const otherTransaction = await createTransaction(otherApiKey);
+
+            expect((await repository.findById(ownTransaction.id))!.merchantId).toBe(TEST_MERCHANT_ID);
+            expect((await repository.findById(otherTransaction.id))!.merchantId).toBe(otherMerchant.id);
+        });
+
+        it('should return 404 for another merchant\'s transaction', async () => {
+            const transaction = await createTransaction(otherApiKey, { captureMode: 'manual' });
+
+            const urls = [
+                ['GET', `/transactions/${transaction.id}`],
+                ['GET', `/transactions/${transaction.id}/events`],
+                ['GET', `/transactions/${transaction.id}/refunds`],
+                ['GET', `/transactions/${transaction.id}/notifications`],
+                ['POST', `/transactions/${transaction.id}/capture`],
+                ['POST', `/transactions/${transaction.id}/void`],
+                ['POST', `/transactions/${transaction.id}/refunds`],
+            ] as const;
+            for (const [method, url] of urls) {
+                const response = await app.inject({ method, url, ...(method === 'POST' && { payload: {} }) });
+                expect({ method, url, statusCode: response.statusCode }).toEqual({ method, url, statusCode: 404 });
+            }
+
+            expect((await repository.findById(transaction.id))!.status).toBe('AUTHORIZED');
+        });
+
+        it('should not find another merchant\'s refunds or events when scoped to a merchant', async () => {
+            const transaction = await createTransaction(otherApiKey);
+            const refundResponse = await app.inject({
+                method: 'POST',
+                url: `/transactions/${transaction.id}/refunds`,
+                headers: { authorization: `Bearer ${otherApiKey}` },
+                payload: { amount: 400 },
+            });
+            expect(refundResponse.statusCode).toBe(202);
+            const refundId = refundResponse.json().id;
+
+            expect(await repository.findRefundById(refundId, TEST_MERCHANT_ID)).toBeNull();
+            expect(await repository.findRefundsByTransactionId(transaction.id, TEST_MERCHANT_ID)).toEqual([]);
+            expect(await repository.findEventsByTransactionId(transaction.id, TEST_MERCHANT_ID)).toEqual([]);
+            expect(await repository.findNotificationsByTransactionId(transaction.id, TEST_MERCHANT_ID)).toEqual([]);
+            expect(await repository.findByPspTransactionId(transaction.pspTransactionId, TEST_MERCHANT_ID)).toBeNull();
+
+            expect((await repository.findRefundById(refundId, otherMerchant.id))!.transactionId).toBe(transaction.id);
+            expect(await repository.findRefundsByTransactionId(transaction.id, otherMerchant.id)).toHaveLength(1);
+            expect((await repository.findEventsByTransactionId(transaction.id, otherMerchant.id)).length).toBeGreaterThan(1);
+            expect((await repository.findByPspTransactionId(transaction.pspTransactionId, otherMerchant.id))!.id).toBe(transaction.id);
+        });
+
+        it('should only list the merchant\'s own transactions', async () => {
+            const ownTransaction = await createTransaction();
+            await createTransaction(otherApiKey);
+
+            const response = await app.inject({ method: 'GET', url: '/transactions' });
+
+            expect(response.json().items.map((item: { id: string }) => item.id)).toEqual([ownTransaction.id]);
+        });
+
+        it('should scope idempotency keys to the merchant', async () => {
+            const headers = { 'idempotency-key': 'key_shared' };
+            const ownResponse = await app.inject({ method: 'POST', url: '/transactions', headers, payload: validPayload });
+            const otherResponse = await app.inject({
+                method: 'POST',
+                url: '/transactions',
+                headers: { ...headers, authorization: `Bearer ${otherApiKey}` },
+                payload: validPayload,
+            });
+
+            expect(ownResponse.statusCode).toBe(200);
+            expect(otherResponse.statusCode).toBe(200);
+            expect(otherResponse.json().id).not.toBe(ownResponse.json().id);
+        });
+    });
+
+    describe('notifications', () => {
+        it('should send events to the merchant\'s callback URL, signed with its own secret', async () => {
+            const transaction = await createTransaction(otherApiKey);
+
+            for (let attempt = 0; attempt < 100 && receivedRequests.length === 0; attempt++) {
+                await new Promise((resolve) => setTimeout(resolve, 10));
+            }
+
+            expect(receivedRequests).toHaveLength(1);
+            const [request] = receivedRequests;
+            expect(JSON.parse(request.body).data.id).toBe(transaction.id);
+            const verify = (secret: string) => verifyWebhookSignature({
+                rawBody: request.body,
+                timestampHeader: request.headers[MERCHANT_TIMESTAMP_HEADER] as string,
+                signatureHeader: request.headers[MERCHANT_SIGNATURE_HEADER] as string,
+                secrets: [secret],
+                toleranceSeconds: 300,
+            }).valid;
+            expect(verify(otherMerchant.webhookSecret!)).toBe(true);
+            expect(verify(config.merchantWebhookSecret)).toBe(false);
+        });
+
+        it('should not redeliver another merchant\'s notification', async () => {
+            const transaction = await createTransaction(otherApiKey);
+            const [notification] = await repository.findNotificationsByTransactionId(transaction.id);
+
+            const response = await app.inject({ method: 'POST', url: `/notifications/${notification.id}/redeliver` });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+});
@@ -0,0 +1,205 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { STATUSES } from '../../src/enums/transactionStatus';
+import { EVENT_SOURCES } from '../../src/enums/transactionEventSource';
+import { TransactionConflictError } from '../../src/domain/optimisticConcurrency';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
+import { PaymentProvider } from '../../src/providers/paymentProvider';
+
+/**
+ * Tests for version-checked updates: a writer that read an older copy of a transaction
+ * must reload it and run the state machine again instead of overwriting newer state.
+ */
+describe('Optimistic concurrency', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const webhookEvent = { source: EVENT_SOURCES.WEBHOOK, actor: 'psp' };
+
+    function paymentPayload(cardNumber: string, captureMode: 'automatic' | 'manual' = 'automatic') {
+        return {
+            amount: 1000,
+            currency: 'EUR',
+            cardNumber,
+            cardExpiry: '12/30',
+            cvv: '123',
+            orderId: `order_${Date.now()}`,
+            captureMode,
+        };
+    }
+
+    async function createStoredTransaction(pspTransactionId: string) {
+        const transaction = await repository.create({
+            id: 'cccccccc-bbbb-cccc-dddd-eeeeeeeeeeee',
+            orderId: 'order_concurrency',
+            amount: 1000,
+            currency: 'EUR',
+            ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
+            status: STATUSES.CREATED,
+        });
+        return repository.updateStatus(transaction.id, STATUSES.PENDING_3DS, { pspTransactionId });
+    }
+
+    /**
+     * Lets `write` run when the PSP has answered the create request, before the answer is applied,
+     * the way a webhook can be applied while the create response is still on its way.
+     */
+    function interleaveWithCreateResponse(write: (pspTransactionId: string) => Promise<unknown>) {
+        const provider = app.providerRouter.get('psp') as PaymentProvider;
+        const createPayment = provider.createPayment.bind(provider);
+        jest.spyOn(provider, 'createPayment').mockImplementationOnce(async (request) => {
+            const response = await createPayment(request);
+            await write(response.transactionId);
+            return response;
+        });
+    }
+
+    /**
+     * Lets `write` run right after the next locked read, so the locked update works on a stale copy.
+     */
+    function interleaveWithLockedRead(write: () => Promise<unknown>) {
+        const withTransaction = repository.withTransaction.bind(repository);
+        jest.spyOn(repository, 'withTransaction').mockImplementationOnce((key, work) => withTransaction(key, async (unit) => {
+            await write();
+            return work(unit);
+        }));
+    }
+
+    async function createdTransactionId(): Promise<string> {
+        const page = await repository.list({ limit: 1, sortBy: 'createdAt', sortOrder: 'desc' });
+        return page.items[0].id;
+    }
+
+    it('should bump the version on every update', async () => {
+        const transaction = await createStoredTransaction('tx_version');
+
+        const updated = await repository.updateStatus(transaction.id, STATUSES.SUCCESS, {}, undefined, transaction.version);
+
+        expect(transaction.version).toBe(2);
+        expect(updated.version).toBe(3);
+    });
+
+    it('should reject an update made with a stale version', async () => {
+        const transaction = await createStoredTransaction('tx_stale');
+        await repository.updateStatus(transaction.id, STATUSES.FAILED, {}, webhookEvent, transaction.version);
+
+        await expect(
+            repository.updateStatus(transaction.id, STATUSES.SUCCESS, {}, undefined, transaction.version),
+        ).rejects.toThrow(TransactionConflictError);
+        expect((await repository.findById(transaction.id))!.status).toBe(STATUSES.FAILED);
+    });
+
+    it('should keep a webhook outcome that landed before the create response', async () => {
+        // The customer abandons 3DS and the PSP reports the failure before we applied 3DS_REQUIRED
+        interleaveWithCreateResponse(async (pspTransactionId) => {
+            const transactionId = await createdTransactionId();
+            await repository.updateStatus(transactionId, STATUSES.FAILED, {
+                pspTransactionId,
+                declineCode: 'authentication_expired',
+            }, webhookEvent);
+        });
+
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: paymentPayload('4111111111111111') });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toMatchObject({ status: 'FAILED', declineCode: 'authentication_expired' });
+        const events = await repository.findEventsByTransactionId(response.json().id);
+        expect(events.map((event) => [event.fromStatus, event.toStatus])).toEqual([
+            [null, 'CREATED'],
+            ['CREATED', 'FAILED'],
+        ]);
+        expect((await repository.findPspOutboxEntryByTransactionId(response.json().id))!.status).toBe('SENT');
+    });
+
+    it('should not record the same outcome twice when the webhook wins the race', async () => {
+        interleaveWithCreateResponse(async (pspTransactionId) => {
+            const transactionId = await createdTransactionId();
+            await repository.updateStatus(transactionId, STATUSES.SUCCESS, { pspTransactionId, finalAmount: 1000 }, webhookEvent);
+        });
+
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: paymentPayload('5555111111111111') });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().status).toBe('SUCCESS');
+        const events = await repository.findEventsByTransactionId(response.json().id);
+        expect(events.map((event) => event.source)).toEqual([EVENT_SOURCES.API, EVENT_SOURCES.WEBHOOK]);
+    });
+
+    it('should reapply the create response when the other writer left the status alone', async () => {
+        interleaveWithCreateResponse(async () => {
+            const transactionId = await createdTransactionId();
+            await repository.updateStatus(transactionId, STATUSES.CREATED);
+        });
+
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: paymentPayload('5555111111111111') });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toMatchObject({ status: 'SUCCESS', pspTransactionId: expect.stringMatching(/^tx_/) });
+    });
+
+    it('should run the state machine again when a webhook conflicts with another writer', async () => {
+        const transaction = await createStoredTransaction('tx_webhook_race');
+        interleaveWithLockedRead(() => repository.updateStatus(transaction.id, STATUSES.FAILED, {}, webhookEvent));
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: 'tx_webhook_race', final_amount: 1000, status: 'SUCCESS' }),
+        });
+
+        expect(response.statusCode).toBe(409);
+        expect((await repository.findById(transaction.id))!.status).toBe(STATUSES.FAILED);
+    });
+
+    it('should apply a webhook on the reloaded transaction after a conflict', async () => {
+        const transaction = await createStoredTransaction('tx_webhook_retry');
+        interleaveWithLockedRead(() => repository.updateStatus(transaction.id, STATUSES.PENDING_3DS, {
+            threeDsRedirectUrl: 'http://localhost:3000/psp/3ds/tx_webhook_retry',
+        }));
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: 'tx_webhook_retry', final_amount: 1000, status: 'SUCCESS' }),
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(await repository.findById(transaction.id)).toMatchObject({ status: STATUSES.SUCCESS, finalAmount: 1000 });
+    });
+
+    it('should reject a capture when the transaction was voided concurrently', async () => {
+        const created = await app.inject({ method: 'POST', url: '/transactions', payload: paymentPayload('5555111111111111', 'manual') });
+        const transactionId = created.json().id;
+        interleaveWithLockedRead(() => repository.updateStatus(transactionId, STATUSES.VOIDED));
+
+        const response = await app.inject({ method: 'POST', url: `/transactions/${transactionId}/capture`, payload: {} });
+
+        expect(response.statusCode).toBe(409);
+        expect((await repository.findById(transactionId))!.status).toBe(STATUSES.VOIDED);
+    });
+});
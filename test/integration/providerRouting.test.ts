@@ -0,0 +1,141 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { THREE_DS_OTP } from '../../src/psp-simulator/pspService';
+
+describe('Payment provider routing', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp({
+            // A second simulator instance that challenges every Mastercard the default one approves
+            pspSimulatorInstances: [{ name: 'psp-eu', cardPrefixRules: [{ prefix: '5555', status: '3DS_REQUIRED' }] }],
+            paymentProviders: [
+                { name: 'psp', baseUrl: '/psp' },
+                { name: 'psp-eu', baseUrl: '/psp-eu' },
+            ],
+            providerRoutingRules: [{ provider: 'psp-eu', currencies: ['GBP'] }],
+            defaultProvider: 'psp',
+        });
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function createTransaction(currency: string) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency,
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: `order_${currency.toLowerCase()}`,
+            },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    /**
+     * Helper: waits until a transaction reaches the given status.
+     */
+    async function waitForStatus(transactionId: string, status: string) {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const transaction = await repository.findById(transactionId);
+            if (transaction?.status === status) {
+                return transaction;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        throw new Error(`Transaction ${transactionId} never reached ${status}`);
+    }
+
+    it('should send transactions matching no rule to the default provider', async () => {
+        const transaction = await createTransaction('EUR');
+
+        expect(transaction).toMatchObject({ provider: 'psp', status: 'SUCCESS' });
+
+        const stored = await repository.findById(transaction.id);
+        expect(stored!.provider).toBe('psp');
+    });
+
+    it('should route by rule to another simulator instance with its own behaviour', async () => {
+        const transaction = await createTransaction('GBP');
+
+        expect(transaction).toMatchObject({ provider: 'psp-eu', status: 'PENDING_3DS' });
+        expect(transaction.threeDsRedirectUrl).toContain(`/psp-eu/3ds/${transaction.pspTransactionId}`);
+
+        const getResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}` });
+        expect(getResponse.json().provider).toBe('psp-eu');
+    });
+
+    it('should keep each instance\'s payments to itself', async () => {
+        const transaction = await createTransaction('GBP');
+
+        const ownResponse = await app.inject({ method: 'GET', url: `/psp-eu/transactions/${transaction.pspTransactionId}` });
+        const otherResponse = await app.inject({ method: 'GET', url: `/psp/transactions/${transaction.pspTransactionId}` });
+
+        expect(ownResponse.statusCode).toBe(200);
+        expect(otherResponse.statusCode).toBe(404);
+    });
+
+    it('should apply webhooks received from the provider handling the transaction', async () => {
+        const transaction = await createTransaction('GBP');
+
+        const completeResponse = await app.inject({
+            method: 'POST',
+            url: `/psp-eu/3ds/${transaction.pspTransactionId}/complete`,
+            payload: { action: 'approve', otp: THREE_DS_OTP },
+        });
+        expect(completeResponse.statusCode).toBe(200);
+
+        await waitForStatus(transaction.id, 'SUCCESS');
+
+        const eventsResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/events` });
+        const successEvent = eventsResponse.json().find((event: { toStatus: string }) => event.toStatus === 'SUCCESS');
+        expect(successEvent).toMatchObject({ source: 'WEBHOOK', actor: 'psp-eu' });
+    });
+
+    it('should reject a webhook from a provider that does not handle the transaction', async () => {
+        const transaction = await createTransaction('GBP');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: transaction.pspTransactionId, final_amount: 1000, status: 'SUCCESS' }),
+        });
+
+        expect(response.statusCode).toBe(404);
+        const stored = await repository.findById(transaction.id);
+        expect(stored!.status).toBe('PENDING_3DS');
+    });
+
+    it('should return 404 for webhooks of an unknown provider', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/acme',
+            ...signedWebhook({ transactionId: 'tx_unknown', status: 'SUCCESS' }),
+        });
+
+        expect(response.statusCode).toBe(404);
+        expect(response.json().error).toBe('Unknown payment provider: acme');
+    });
+});
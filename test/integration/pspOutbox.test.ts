@@ -0,0 +1,259 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_ADMIN_API_KEY } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+import { DEFAULT_SIMULATOR_INSTANCE, stopOutage } from '../../src/psp-simulator/pspService';
+import { decryptCardDetails } from '../../src/domain/cardEncryption';
+import config from '../../src/config';
+
+jest.mock('../../src/config', () => {
+    const actualConfig = jest.requireActual('../../src/config').default;
+    return {
+        __esModule: true,
+        // One PSP call per outbox attempt, short backoff, and a breaker that never opens
+        default: {
+            ...actualConfig,
+            pspRetryAttempts: 1,
+            circuitBreakerFailureThreshold: 1000,
+            pspOutboxMaxAttempts: 3,
+            pspOutboxRetryBaseDelayMs: 20,
+        },
+    };
+});
+
+/**
+ * Tests for the PSP outbox: payment requests stored with their transaction, retried
+ * in the background while the PSP is down, and resent without charging twice.
+ */
+describe('PSP outbox', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let simulatorStore: InMemorySimulatorStore;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        simulatorStore = testApp.simulatorStore;
+        await app.ready();
+    });
+
+    afterEach(async () => {
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        await app.close();
+        jest.restoreAllMocks();
+    });
+
+    const validPayload = {
+        amount: 1000,
+        currency: 'EUR',
+        cardNumber: '5555111111111111',
+        cardExpiry: '12/30',
+        cvv: '123',
+        orderId: 'order_outbox',
+    };
+
+    async function forceOutage() {
+        const response = await app.inject({ method: 'POST', url: '/psp/outage', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` }, payload: {} });
+        expect(response.statusCode).toBe(201);
+    }
+
+    async function waitForStatus(transactionId: string, status: string) {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const transaction = await repository.findById(transactionId);
+            if (transaction?.status === status) {
+                return transaction;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        throw new Error(`Transaction ${transactionId} never reached ${status}`);
+    }
+
+    async function pspTransactionsFor(orderId: string) {
+        const all = await simulatorStore.listPspTransactions(new Date(0), new Date(Date.now() + 1000));
+        return all.filter((transaction) => transaction.orderId === orderId);
+    }
+
+    it('should store the request with the transaction and send it right away', async () => {
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().status).toBe('SUCCESS');
+        const entry = await repository.findPspOutboxEntryByTransactionId(response.json().id);
+        expect(entry).toMatchObject({ status: 'SENT', attempts: 1, lastError: null, encryptedCard: null });
+        expect(entry!.request).toEqual({ amount: 1000, currency: 'EUR', orderId: 'order_outbox', captureMode: 'automatic' });
+    });
+
+    it('should return 202 while the PSP is down and complete the payment once it is back', async () => {
+        await forceOutage();
+
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+
+        expect(response.statusCode).toBe(202);
+        const body = response.json();
+        expect(body).toMatchObject({ status: 'CREATED', pspTransactionId: null });
+        expect(response.headers.location).toBe(`/transactions/${body.id}`);
+
+        const pollResponse = await app.inject({ method: 'GET', url: response.headers.location as string });
+        expect(pollResponse.json()).toMatchObject({ status: 'CREATED', pspTransactionId: null });
+
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        const transaction = await waitForStatus(body.id, 'SUCCESS');
+
+        expect(transaction.pspTransactionId).toMatch(/^tx_/);
+        expect(await repository.findPspOutboxEntryByTransactionId(body.id)).toMatchObject({
+            status: 'SENT',
+            encryptedCard: null,
+        });
+        expect(await pspTransactionsFor('order_outbox')).toHaveLength(1);
+    });
+
+    it('should keep the card details encrypted while the request waits', async () => {
+        await forceOutage();
+
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+
+        const entry = await repository.findPspOutboxEntryByTransactionId(response.json().id);
+        expect(entry).toMatchObject({ status: 'PENDING', attempts: 1, lastError: expect.stringContaining('503') });
+        expect(JSON.stringify(entry!.request)).not.toContain(validPayload.cardNumber);
+        expect(entry!.encryptedCard).not.toContain(validPayload.cardNumber);
+        expect(decryptCardDetails(entry!.encryptedCard!, config.cardEncryptionKey)).toEqual({
+            cardNumber: validPayload.cardNumber,
+            cardExpiry: validPayload.cardExpiry,
+            cvv: validPayload.cvv,
+        });
+    });
+
+    it('should fail the payment as provider_unavailable after the last attempt', async () => {
+        await forceOutage();
+
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        const transaction = await waitForStatus(response.json().id, 'FAILED');
+
+        expect(transaction).toMatchObject({ declineCode: 'provider_unavailable', pspTransactionId: null });
+        expect(await repository.findPspOutboxEntryByTransactionId(transaction.id)).toMatchObject({
+            status: 'FAILED',
+            attempts: 3,
+            encryptedCard: null,
+        });
+    });
+
+    it('should fail the payment as internal_error when its card details are gone', async () => {
+        await forceOutage();
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        app.pspOutboxService.stop();
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        const entry = (await repository.findPspOutboxEntryByTransactionId(response.json().id))!;
+        await repository.updatePspOutboxEntry(entry.id, { encryptedCard: null });
+
+        expect(await app.pspOutboxService.dispatch(entry.id)).toMatchObject({ status: 'FAILED', declineCode: 'internal_error' });
+
+        const pollResponse = await app.inject({ method: 'GET', url: `/transactions/${entry.transactionId}` });
+        expect(pollResponse.json()).toMatchObject({ declineCode: 'internal_error', declineRetryable: false });
+        expect(await pspTransactionsFor('order_outbox')).toHaveLength(0);
+    });
+
+    it('should replay a 202 response for a repeated Idempotency-Key', async () => {
+        await forceOutage();
+        const headers = { 'idempotency-key': 'key_outbox' };
+
+        const first = await app.inject({ method: 'POST', url: '/transactions', headers, payload: validPayload });
+        const replay = await app.inject({ method: 'POST', url: '/transactions', headers, payload: validPayload });
+
+        expect(replay.statusCode).toBe(202);
+        expect(replay.json()).toEqual(first.json());
+    });
+
+    it('should not charge twice when resending a request whose answer was lost', async () => {
+        await forceOutage();
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        const transactionId = response.json().id;
+        // Take over from the background retries to control when the request is resent
+        app.pspOutboxService.stop();
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        const entry = (await repository.findPspOutboxEntryByTransactionId(transactionId))!;
+
+        // The PSP took the payment, but its answer never reached us
+        const lostResponse = await app.inject({
+            method: 'POST',
+            url: '/psp/transactions',
+            headers: { 'idempotency-key': entry.id },
+            payload: { ...validPayload, callbackUrl: 'http://127.0.0.1:1/webhooks/psp' },
+        });
+        expect(lostResponse.statusCode).toBe(200);
+
+        await app.pspOutboxService.resumePendingRequests();
+        const transaction = await waitForStatus(transactionId, 'SUCCESS');
+
+        expect(transaction.pspTransactionId).toBe(lostResponse.json().transactionId);
+        expect(await pspTransactionsFor('order_outbox')).toHaveLength(1);
+        expect((await repository.findPspOutboxEntry(entry.id))!.status).toBe('SENT');
+    });
+
+    it('should only mark the entry sent if the answer was applied before a crash', async () => {
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        const entry = (await repository.findPspOutboxEntryByTransactionId(response.json().id))!;
+        await repository.updatePspOutboxEntry(entry.id, { status: 'PENDING' });
+
+        await app.pspOutboxService.resumePendingRequests();
+        for (let attempt = 0; attempt < 100; attempt++) {
+            if ((await repository.findPspOutboxEntry(entry.id))!.status === 'SENT') {
+                break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+
+        expect((await repository.findPspOutboxEntry(entry.id))!.status).toBe('SENT');
+        expect(await pspTransactionsFor('order_outbox')).toHaveLength(1);
+    });
+
+    it('should send a request only once when two workers dispatch it at the same time', async () => {
+        await forceOutage();
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        app.pspOutboxService.stop();
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        const entry = (await repository.findPspOutboxEntryByTransactionId(response.json().id))!;
+        const fetchSpy = jest.spyOn(global, 'fetch');
+
+        await Promise.all([app.pspOutboxService.dispatch(entry.id), app.pspOutboxService.dispatch(entry.id)]);
+
+        const paymentRequests = fetchSpy.mock.calls.filter(([input]) => String(input).endsWith('/psp/transactions'));
+        expect(paymentRequests).toHaveLength(1);
+        expect((await repository.findById(entry.transactionId))!.status).toBe('SUCCESS');
+    });
+
+    it('should resend a request left in flight by a worker that died once its lease has expired', async () => {
+        await forceOutage();
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        app.pspOutboxService.stop();
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        const entry = (await repository.findPspOutboxEntryByTransactionId(response.json().id))!;
+
+        // Another worker claimed the entry and never finished
+        expect(await repository.claimPspOutboxEntry(entry.id, 50)).toMatchObject({ status: 'IN_FLIGHT' });
+        expect(await app.pspOutboxService.dispatch(entry.id)).toMatchObject({ status: 'CREATED' });
+
+        await app.pspOutboxService.resumePendingRequests();
+        await waitForStatus(entry.transactionId, 'SUCCESS');
+
+        expect(await repository.findPspOutboxEntry(entry.id)).toMatchObject({ status: 'SENT', leaseExpiresAt: null });
+        expect(await pspTransactionsFor('order_outbox')).toHaveLength(1);
+    });
+
+    it('should try a request held by another worker again once its lease has expired', async () => {
+        await forceOutage();
+        const response = await app.inject({ method: 'POST', url: '/transactions', payload: validPayload });
+        app.pspOutboxService.stop();
+        stopOutage(DEFAULT_SIMULATOR_INSTANCE);
+        const entry = (await repository.findPspOutboxEntryByTransactionId(response.json().id))!;
+
+        expect(await repository.claimPspOutboxEntry(entry.id, 50)).toMatchObject({ status: 'IN_FLIGHT' });
+        expect(await app.pspOutboxService.dispatch(entry.id)).toMatchObject({ status: 'CREATED' });
+
+        await waitForStatus(entry.transactionId, 'SUCCESS');
+        expect(await pspTransactionsFor('order_outbox')).toHaveLength(1);
+    });
+});
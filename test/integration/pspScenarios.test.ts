@@ -0,0 +1,240 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_ADMIN_API_KEY } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { clearScenarios } from '../../src/psp-simulator/scenarioRegistry';
+import { THREE_DS_OTP } from '../../src/psp-simulator/pspService';
+import { listWebhookDeliveries } from '../../src/psp-simulator/webhookOutbox';
+
+describe('PSP Simulator scenarios', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        baseUrl = testApp.baseUrl;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        clearScenarios();
+        jest.restoreAllMocks();
+    });
+
+    async function registerScenario(scenario: Record<string, unknown>) {
+        const response = await app.inject({ method: 'POST', url: '/psp/scenarios', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` }, payload: scenario });
+        expect(response.statusCode).toBe(201);
+        return response.json();
+    }
+
+    function pspTransactionPayload(overrides: Record<string, unknown> = {}) {
+        return {
+            amount: 1000,
+            currency: 'EUR',
+            cardNumber: '5555111111111111',
+            cardExpiry: '12/30',
+            cvv: '123',
+            orderId: 'order_scenario',
+            callbackUrl: `${baseUrl}/webhooks/psp`,
+            failureUrl: `${baseUrl}/failure/psp`,
+            ...overrides,
+        };
+    }
+
+    async function createTransaction(overrides: Record<string, unknown> = {}) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: 'order_scenario',
+                ...overrides,
+            },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    /**
+     * Helper: waits until the simulator has no pending webhooks for a PSP transaction.
+     */
+    async function waitForWebhooks(pspTransactionId: string) {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const deliveries = await listWebhookDeliveries({ transactionId: pspTransactionId });
+            if (deliveries.length > 0 && deliveries.every((delivery) => delivery.status !== 'PENDING')) {
+                return deliveries;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        throw new Error(`Webhooks for ${pspTransactionId} never settled`);
+    }
+
+    describe('POST/GET/DELETE /psp/scenarios', () => {
+        it('should register, list and delete scenarios', async () => {
+            const scenario = await registerScenario({
+                name: 'Slow declines',
+                match: { cardPrefix: '4242' },
+                declineCode: 'do_not_honor',
+                latencyMs: 100,
+            });
+
+            expect(scenario.id).toMatch(/^sc_/);
+            expect(scenario).toMatchObject({ name: 'Slow declines', match: { cardPrefix: '4242' }, declineCode: 'do_not_honor' });
+
+            const listResponse = await app.inject({ method: 'GET', url: '/psp/scenarios' });
+            expect(listResponse.json().map((listed: { id: string }) => listed.id)).toEqual([scenario.id]);
+
+            const deleteResponse = await app.inject({ method: 'DELETE', url: `/psp/scenarios/${scenario.id}`, headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` } });
+            expect(deleteResponse.statusCode).toBe(204);
+
+            const secondDeleteResponse = await app.inject({ method: 'DELETE', url: `/psp/scenarios/${scenario.id}`, headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` } });
+            expect(secondDeleteResponse.statusCode).toBe(404);
+        });
+
+        it('should remove every scenario', async () => {
+            await registerScenario({ match: { amount: 100 }, outcome: 'FAILED' });
+            await registerScenario({ match: { amount: 200 }, outcome: 'FAILED' });
+
+            const deleteResponse = await app.inject({ method: 'DELETE', url: '/psp/scenarios', headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` } });
+            const listResponse = await app.inject({ method: 'GET', url: '/psp/scenarios' });
+
+            expect(deleteResponse.statusCode).toBe(204);
+            expect(listResponse.json()).toEqual([]);
+        });
+
+        it('should reject a scenario without match criteria', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/psp/scenarios',
+                headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+                payload: { match: {}, outcome: 'FAILED' },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+
+        it('should reject a non-5xx httpStatus', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/psp/scenarios',
+                headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+                payload: { match: { cardPrefix: '5555' }, httpStatus: 404 },
+            });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('matching', () => {
+        it('should require every given criterion to match', async () => {
+            await registerScenario({ match: { cardPrefix: '5555', amount: 2000 }, outcome: 'FAILED' });
+
+            const response = await app.inject({ method: 'POST', url: '/psp/transactions', payload: pspTransactionPayload() });
+
+            expect(response.json().status).toBe('SUCCESS');
+        });
+
+        it('should prefer the most recently registered scenario', async () => {
+            await registerScenario({ match: { cardPrefix: '5555' }, declineCode: 'card_expired' });
+            await registerScenario({ match: { orderId: 'order_scenario' }, declineCode: 'insufficient_funds' });
+
+            const response = await app.inject({ method: 'POST', url: '/psp/transactions', payload: pspTransactionPayload() });
+
+            expect(response.json()).toMatchObject({ status: 'FAILED', declineCode: 'insufficient_funds' });
+        });
+    });
+
+    describe('behaviours', () => {
+        it('should decline with the decline code in the response and the webhook', async () => {
+            await registerScenario({ match: { amount: 99900 }, declineCode: 'insufficient_funds' });
+
+            const transaction = await createTransaction({ amount: 99900 });
+            expect(transaction.status).toBe('FAILED');
+
+            const [delivery] = await waitForWebhooks(transaction.pspTransactionId);
+            expect(delivery.payload).toMatchObject({ status: 'FAILED', declineCode: 'insufficient_funds' });
+
+            const eventsResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/events` });
+            const failedEvent = eventsResponse.json().find((event: { toStatus: string }) => event.toStatus === 'FAILED');
+            expect(failedEvent.payload.declineCode).toBe('insufficient_funds');
+        });
+
+        it('should respond with the configured 5xx status', async () => {
+            await registerScenario({ match: { cardPrefix: '5555' }, httpStatus: 503 });
+
+            const response = await app.inject({ method: 'POST', url: '/psp/transactions', payload: pspTransactionPayload() });
+
+            expect(response.statusCode).toBe(503);
+            expect(response.json().error).toBe('Simulated PSP error');
+        });
+
+        it('should delay the response by the configured latency', async () => {
+            await registerScenario({ match: { orderId: 'order_scenario' }, latencyMs: 200 });
+
+            const startedAt = Date.now();
+            const response = await app.inject({ method: 'POST', url: '/psp/transactions', payload: pspTransactionPayload() });
+
+            expect(response.statusCode).toBe(200);
+            expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+        });
+
+        it('should delay the webhook by the configured webhook delay', async () => {
+            await registerScenario({ match: { cardPrefix: '5555' }, webhookDelayMs: 60000 });
+
+            const response = await app.inject({ method: 'POST', url: '/psp/transactions', payload: pspTransactionPayload() });
+            const [delivery] = await listWebhookDeliveries({ transactionId: response.json().transactionId });
+
+            expect(delivery.status).toBe('PENDING');
+            expect(delivery.nextAttemptAt!.getTime() - delivery.createdAt.getTime()).toBe(60000);
+        });
+
+        it('should report a final_amount different from the requested amount', async () => {
+            await registerScenario({ match: { cardPrefix: '4111' }, finalAmount: 900, webhookDelayMs: 0 });
+
+            const transaction = await createTransaction({ cardNumber: '4111111111111111' });
+            expect(transaction.status).toBe('PENDING_3DS');
+
+            await app.inject({
+                method: 'POST',
+                url: `/psp/3ds/${transaction.pspTransactionId}/complete`,
+                payload: { action: 'approve', otp: THREE_DS_OTP },
+            });
+            await waitForWebhooks(transaction.pspTransactionId);
+
+            const stored = await repository.findById(transaction.id);
+            expect(stored!.status).toBe('SUCCESS');
+            expect(stored!.finalAmount).toBe(900);
+        });
+
+        it('should send duplicated and out-of-order webhooks that leave the transaction unchanged', async () => {
+            await registerScenario({ match: { cardPrefix: '5555' }, duplicateWebhook: true, outOfOrderWebhooks: true });
+
+            const transaction = await createTransaction();
+            const deliveries = await waitForWebhooks(transaction.pspTransactionId);
+
+            expect(deliveries.map((delivery) => delivery.payload.status)).toEqual(['SUCCESS', 'SUCCESS', 'AUTHORIZED', 'AUTHORIZED']);
+            expect(deliveries.every((delivery) => delivery.status === 'DELIVERED')).toBe(true);
+
+            const stored = await repository.findById(transaction.id);
+            expect(stored!.status).toBe('SUCCESS');
+
+            const eventsResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/events` });
+            expect(eventsResponse.json().map((event: { toStatus: string }) => event.toStatus)).toEqual(['CREATED', 'SUCCESS']);
+        });
+    });
+});
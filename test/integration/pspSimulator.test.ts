@@ -1,15 +1,20 @@
 import { FastifyInstance } from 'fastify';
-import { buildTestApp } from '../helpers/buildApp';
+import { buildTestApp, TEST_ADMIN_API_KEY } from '../helpers/buildApp';
 import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+import { THREE_DS_OTP } from '../../src/psp-simulator/pspService';
+import { listWebhookDeliveries } from '../../src/psp-simulator/webhookOutbox';
 
 describe('PSP Simulator', () => {
     let app: FastifyInstance;
     let repository: InMemoryTransactionRepository;
+    let simulatorStore: InMemorySimulatorStore;
 
     beforeAll(async () => {
-        const testApp = await buildTestApp();
+        const testApp = await buildTestApp({ pspSimulatorInstances: [{ name: 'psp-eu' }] });
         app = testApp.app;
         repository = testApp.repository;
+        simulatorStore = testApp.simulatorStore;
         await app.ready();
     });
 
@@ -17,6 +22,26 @@ describe('PSP Simulator', () => {
         await app.close();
     });
 
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Helper: makes the next `count` calls of a store read wait a little before answering,
+     * so concurrent requests all read before any of them writes.
+     */
+    function delayReads(method: 'findPspTransactionByIdempotencyKey' | 'findPending3dsSession', count: number) {
+        const read = simulatorStore[method].bind(simulatorStore) as (...args: unknown[]) => Promise<unknown>;
+        const spy = jest.spyOn(simulatorStore, method);
+        for (let call = 0; call < count; call++) {
+            spy.mockImplementationOnce((async (...args: unknown[]) => {
+                const result = await read(...args);
+                await new Promise((resolve) => setTimeout(resolve, 20));
+                return result;
+            }) as never);
+        }
+    }
+
     describe('POST /psp/transactions', () => {
         it('should return SUCCESS for card prefix 5555', async () => {
             const response = await app.inject({
@@ -26,7 +51,7 @@ describe('PSP Simulator', () => {
                     amount: 1000,
                     currency: 'EUR',
                     cardNumber: '5555111111111111',
-                    cardExpiry: '12/25',
+                    cardExpiry: '12/30',
                     cvv: '123',
                     orderId: 'order_psp_success',
                     callbackUrl: 'http://localhost:3000/webhooks/psp',
@@ -48,8 +73,8 @@ describe('PSP Simulator', () => {
                 payload: {
                     amount: 1000,
                     currency: 'EUR',
-                    cardNumber: '4000111111111111',
-                    cardExpiry: '12/25',
+                    cardNumber: '4000111111111115',
+                    cardExpiry: '12/30',
                     cvv: '123',
                     orderId: 'order_psp_failed',
                     callbackUrl: 'http://localhost:3000/webhooks/psp',
@@ -71,7 +96,7 @@ describe('PSP Simulator', () => {
                     amount: 1000,
                     currency: 'EUR',
                     cardNumber: '4111111111111111',
-                    cardExpiry: '12/25',
+                    cardExpiry: '12/30',
                     cvv: '123',
                     orderId: 'order_psp_3ds',
                     callbackUrl: 'http://localhost:3000/webhooks/psp',
@@ -94,7 +119,7 @@ describe('PSP Simulator', () => {
                     amount: 1000,
                     currency: 'EUR',
                     cardNumber: '9999111111111111',
-                    cardExpiry: '12/25',
+                    cardExpiry: '12/30',
                     cvv: '123',
                     orderId: 'order_psp_unknown',
                     callbackUrl: 'http://localhost:3000/webhooks/psp',
@@ -106,20 +131,36 @@ describe('PSP Simulator', () => {
             const body = response.json();
             expect(body.status).toBe('FAILED');
         });
-    });
 
-    describe('GET /psp/3ds/:transactionId', () => {
-        it('should return 404 for non-existent 3DS transaction', async () => {
-            const response = await app.inject({
-                method: 'GET',
-                url: '/psp/3ds/tx_nonexistent',
-            });
+        it('should create one payment for concurrent requests with the same Idempotency-Key', async () => {
+            const request = {
+                method: 'POST' as const,
+                url: '/psp/transactions',
+                headers: { 'idempotency-key': 'psp_concurrent_key' },
+                payload: {
+                    amount: 1000,
+                    currency: 'EUR',
+                    cardNumber: '5555111111111111',
+                    cardExpiry: '12/30',
+                    cvv: '123',
+                    orderId: 'order_psp_concurrent_key',
+                    callbackUrl: 'http://localhost:3000/webhooks/psp',
+                },
+            };
 
-            expect(response.statusCode).toBe(404);
+            delayReads('findPspTransactionByIdempotencyKey', 2);
+            const [first, second] = await Promise.all([app.inject(request), app.inject(request)]);
+
+            expect(second.json().transactionId).toBe(first.json().transactionId);
+            expect(await listWebhookDeliveries({ transactionId: first.json().transactionId })).toHaveLength(1);
         });
+    });
 
-        it('should return HTML confirmation page for valid 3DS transaction', async () => {
-            // First create a 3DS transaction
+    describe('3DS challenge', () => {
+        /**
+         * Helper: creates a 3DS transaction in the simulator and returns its PSP transaction ID.
+         */
+        async function create3dsTransaction(orderId: string, redirectUrls: Record<string, string> = {}): Promise<string> {
             const createResponse = await app.inject({
                 method: 'POST',
                 url: '/psp/transactions',
@@ -127,18 +168,38 @@ describe('PSP Simulator', () => {
                     amount: 1000,
                     currency: 'EUR',
                     cardNumber: '4111111111111111',
-                    cardExpiry: '12/25',
+                    cardExpiry: '12/30',
                     cvv: '123',
-                    orderId: 'order_3ds_page',
+                    orderId,
                     callbackUrl: 'http://localhost:3000/webhooks/psp',
-                    failureUrl: 'http://localhost:3000/failure/psp',
+                    ...redirectUrls,
                 },
             });
 
             const { threeDsRedirectUrl } = createResponse.json();
-            const pspTransactionId = threeDsRedirectUrl.split('/psp/3ds/')[1];
+            return threeDsRedirectUrl.split('/psp/3ds/')[1];
+        }
+
+        function completeChallenge(pspTransactionId: string, payload: Record<string, string>) {
+            return app.inject({
+                method: 'POST',
+                url: `/psp/3ds/${pspTransactionId}/complete`,
+                payload,
+            });
+        }
+
+        it('should return 404 for non-existent 3DS transaction', async () => {
+            const response = await app.inject({
+                method: 'GET',
+                url: '/psp/3ds/tx_nonexistent',
+            });
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should return an HTML challenge page with an OTP form', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_page');
 
-            // Access the 3DS page
             const threeDsResponse = await app.inject({
                 method: 'GET',
                 url: `/psp/3ds/${pspTransactionId}`,
@@ -146,43 +207,331 @@ describe('PSP Simulator', () => {
 
             expect(threeDsResponse.statusCode).toBe(200);
             expect(threeDsResponse.headers['content-type']).toContain('text/html');
-            expect(threeDsResponse.body).toContain('3DS Verification Complete');
-            expect(threeDsResponse.body).toContain(pspTransactionId);
+            expect(threeDsResponse.body).toContain(`action="/psp/3ds/${pspTransactionId}/complete"`);
+            expect(threeDsResponse.body).toContain('name="otp"');
+            expect(threeDsResponse.body).toContain('value="approve"');
+            expect(threeDsResponse.body).toContain('value="deny"');
+        });
+
+        it('should not resolve the transaction when the page is only opened', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_opened');
+
+            await app.inject({ method: 'GET', url: `/psp/3ds/${pspTransactionId}` });
+
+            expect(await listWebhookDeliveries({ transactionId: pspTransactionId })).toEqual([]);
         });
 
-        it('should return 404 when accessing same 3DS transaction twice', async () => {
-            // Create a 3DS transaction
+        it('should redirect to returnUrl and send SUCCESS after approval with the right OTP', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_approve', {
+                returnUrl: 'https://merchant.example.com/checkout/complete?cart=42',
+                failureUrl: 'https://merchant.example.com/checkout/failed',
+            });
+
+            const response = await completeChallenge(pspTransactionId, { action: 'approve', otp: THREE_DS_OTP });
+
+            expect(response.statusCode).toBe(303);
+            const location = new URL(response.headers.location as string);
+            expect(location.origin + location.pathname).toBe('https://merchant.example.com/checkout/complete');
+            expect(location.searchParams.get('cart')).toBe('42');
+            expect(location.searchParams.get('transactionId')).toBe(pspTransactionId);
+            expect(location.searchParams.get('status')).toBe('SUCCESS');
+
+            const [delivery] = await listWebhookDeliveries({ transactionId: pspTransactionId });
+            expect(delivery.payload.status).toBe('SUCCESS');
+        });
+
+        it('should accept a submitted HTML form', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_form');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/psp/3ds/${pspTransactionId}/complete`,
+                headers: { 'content-type': 'application/x-www-form-urlencoded' },
+                payload: `otp=${THREE_DS_OTP}&action=approve`,
+            });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.body).toContain('3DS Verification Complete');
+        });
+
+        it('should redirect to failureUrl and send FAILED when the cardholder denies', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_deny', {
+                returnUrl: 'https://merchant.example.com/checkout/complete',
+                failureUrl: 'https://merchant.example.com/checkout/failed',
+            });
+
+            const response = await completeChallenge(pspTransactionId, { action: 'deny' });
+
+            expect(response.statusCode).toBe(303);
+            expect(response.headers.location).toBe(
+                `https://merchant.example.com/checkout/failed?transactionId=${pspTransactionId}&status=FAILED`,
+            );
+
+            const [delivery] = await listWebhookDeliveries({ transactionId: pspTransactionId });
+            expect(delivery.payload).toMatchObject({ status: 'FAILED', declineCode: 'authentication_rejected' });
+        });
+
+        it('should re-render the challenge after a wrong OTP and fail after the last attempt', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_wrong_otp', {
+                returnUrl: 'https://merchant.example.com/checkout/complete',
+            });
+
+            const firstResponse = await completeChallenge(pspTransactionId, { action: 'approve', otp: '000000' });
+            expect(firstResponse.statusCode).toBe(200);
+            expect(firstResponse.body).toContain('2 attempt(s) left');
+
+            await completeChallenge(pspTransactionId, { action: 'approve', otp: '000000' });
+            const lastResponse = await completeChallenge(pspTransactionId, { action: 'approve', otp: '000000' });
+
+            // Without a failureUrl the browser goes back to returnUrl
+            expect(lastResponse.statusCode).toBe(303);
+            expect(lastResponse.headers.location).toContain('status=FAILED');
+
+            const [delivery] = await listWebhookDeliveries({ transactionId: pspTransactionId });
+            expect(delivery.payload).toMatchObject({ status: 'FAILED', declineCode: 'authentication_failed' });
+        });
+
+        it('should give concurrent wrong OTPs no more attempts than the challenge allows', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_concurrent_otp', {
+                returnUrl: 'https://merchant.example.com/checkout/complete',
+            });
+
+            delayReads('findPending3dsSession', 4);
+            const responses = await Promise.all([1, 2, 3, 4].map(() =>
+                completeChallenge(pspTransactionId, { action: 'approve', otp: '000000' })));
+
+            expect(responses.map((response) => response.statusCode).sort()).toEqual([200, 200, 303, 404]);
+            const [delivery] = await listWebhookDeliveries({ transactionId: pspTransactionId });
+            expect(delivery.payload).toMatchObject({ status: 'FAILED', declineCode: 'authentication_failed' });
+        });
+
+        it('should not render or complete a challenge of another instance', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_other_instance');
+
+            const pageResponse = await app.inject({ method: 'GET', url: `/psp-eu/3ds/${pspTransactionId}` });
+            const completeResponse = await app.inject({
+                method: 'POST',
+                url: `/psp-eu/3ds/${pspTransactionId}/complete`,
+                payload: { action: 'approve', otp: THREE_DS_OTP },
+            });
+
+            expect(pageResponse.statusCode).toBe(404);
+            expect(completeResponse.statusCode).toBe(404);
+            expect(await listWebhookDeliveries({ transactionId: pspTransactionId })).toEqual([]);
+        });
+
+        it('should return 404 when completing the same 3DS transaction twice', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_double');
+
+            // First completion — should succeed
+            await completeChallenge(pspTransactionId, { action: 'approve', otp: THREE_DS_OTP });
+
+            // Second completion and the page itself — should return 404 (already consumed)
+            const secondResponse = await completeChallenge(pspTransactionId, { action: 'approve', otp: THREE_DS_OTP });
+            const pageResponse = await app.inject({ method: 'GET', url: `/psp/3ds/${pspTransactionId}` });
+
+            expect(secondResponse.statusCode).toBe(404);
+            expect(pageResponse.statusCode).toBe(404);
+        });
+
+        it('should reject an unknown action', async () => {
+            const pspTransactionId = await create3dsTransaction('order_3ds_bad_action');
+
+            const response = await completeChallenge(pspTransactionId, { action: 'skip' });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    async function createPayment(orderId: string, captureMode: 'automatic' | 'manual'): Promise<string> {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/psp/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId,
+                callbackUrl: 'http://localhost:3000/webhooks/psp',
+                failureUrl: 'http://localhost:3000/failure/psp',
+                captureMode,
+            },
+        });
+
+        const body = response.json();
+        expect(body.status).toBe(captureMode === 'manual' ? 'AUTHORIZED' : 'SUCCESS');
+        return body.transactionId;
+    }
+
+    describe('POST /psp/transactions/:transactionId/capture and /void', () => {
+        const createAuthorization = (orderId: string) => createPayment(orderId, 'manual');
+
+        it('should capture part of an authorization exactly once', async () => {
+            const pspTransactionId = await createAuthorization('order_psp_capture');
+
+            const captureResponse = await app.inject({
+                method: 'POST',
+                url: `/psp/transactions/${pspTransactionId}/capture`,
+                payload: { amount: 600 },
+            });
+
+            expect(captureResponse.statusCode).toBe(200);
+            expect(captureResponse.json()).toEqual({
+                transactionId: pspTransactionId,
+                status: 'SUCCESS',
+                capturedAmount: 600,
+            });
+
+            const secondCapture = await app.inject({
+                method: 'POST',
+                url: `/psp/transactions/${pspTransactionId}/capture`,
+                payload: {},
+            });
+            expect(secondCapture.statusCode).toBe(200);
+            expect(secondCapture.json()).toEqual(captureResponse.json());
+        });
+
+        it('should reject capturing more than was authorized', async () => {
+            const pspTransactionId = await createAuthorization('order_psp_over_capture');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: `/psp/transactions/${pspTransactionId}/capture`,
+                payload: { amount: 1001 },
+            });
+
+            expect(response.statusCode).toBe(422);
+        });
+
+        it('should void an authorization so it can no longer be captured', async () => {
+            const pspTransactionId = await createAuthorization('order_psp_void');
+
+            const voidResponse = await app.inject({
+                method: 'POST',
+                url: `/psp/transactions/${pspTransactionId}/void`,
+            });
+            expect(voidResponse.statusCode).toBe(200);
+            expect(voidResponse.json().status).toBe('VOIDED');
+
+            const captureResponse = await app.inject({
+                method: 'POST',
+                url: `/psp/transactions/${pspTransactionId}/capture`,
+                payload: {},
+            });
+            expect(captureResponse.statusCode).toBe(404);
+        });
+
+        it('should not capture or void an authorization made through another instance', async () => {
+            const pspTransactionId = await createAuthorization('order_psp_other_instance');
+
+            const captureResponse = await app.inject({
+                method: 'POST',
+                url: `/psp-eu/transactions/${pspTransactionId}/capture`,
+                payload: {},
+            });
+            const voidResponse = await app.inject({
+                method: 'POST',
+                url: `/psp-eu/transactions/${pspTransactionId}/void`,
+            });
+
+            expect(captureResponse.statusCode).toBe(404);
+            expect(voidResponse.statusCode).toBe(404);
+        });
+    });
+
+    describe('POST /psp/refunds', () => {
+        function refund(pspTransactionId: string, amount: number, prefix: string = '/psp') {
+            return app.inject({
+                method: 'POST',
+                url: `${prefix}/refunds`,
+                payload: {
+                    transactionId: pspTransactionId,
+                    amount,
+                    reference: `ref_${amount}`,
+                    callbackUrl: 'http://localhost:3000/webhooks/psp',
+                },
+            });
+        }
+
+        it('should accept refunds up to the final amount minus earlier refunds', async () => {
+            const pspTransactionId = await createPayment('order_psp_refund', 'automatic');
+
+            const firstRefund = await refund(pspTransactionId, 600);
+            const secondRefund = await refund(pspTransactionId, 401);
+            const lastRefund = await refund(pspTransactionId, 400);
+
+            expect(firstRefund.statusCode).toBe(200);
+            expect(firstRefund.json()).toEqual({ refundId: expect.stringMatching(/^rf_/), status: 'PENDING' });
+            expect(secondRefund.statusCode).toBe(422);
+            expect(secondRefund.json().error).toBe('Refund amount 401 exceeds refundable amount 400');
+            expect(lastRefund.statusCode).toBe(200);
+        });
+
+        it('should return 404 for an unknown transaction', async () => {
+            const response = await refund('tx_unknown', 100);
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should return 404 for a transaction of another instance', async () => {
+            const pspTransactionId = await createPayment('order_psp_refund_other_instance', 'automatic');
+
+            const response = await refund(pspTransactionId, 100, '/psp-eu');
+
+            expect(response.statusCode).toBe(404);
+        });
+
+        it('should reject refunds of a payment that was not captured', async () => {
+            const pspTransactionId = await createPayment('order_psp_refund_authorized', 'manual');
+
+            const response = await refund(pspTransactionId, 100);
+
+            expect(response.statusCode).toBe(422);
+            expect(response.json().error).toContain("cannot be refunded in status 'AUTHORIZED'");
+        });
+    });
+
+    describe('Webhook deliveries', () => {
+        it('should list queued webhook deliveries filtered by transaction', async () => {
             const createResponse = await app.inject({
                 method: 'POST',
                 url: '/psp/transactions',
                 payload: {
                     amount: 1000,
                     currency: 'EUR',
-                    cardNumber: '4111111111111111',
-                    cardExpiry: '12/25',
+                    cardNumber: '5555111111111111',
+                    cardExpiry: '12/30',
                     cvv: '123',
-                    orderId: 'order_3ds_double',
+                    orderId: 'order_psp_deliveries',
                     callbackUrl: 'http://localhost:3000/webhooks/psp',
                     failureUrl: 'http://localhost:3000/failure/psp',
                 },
             });
+            const { transactionId } = createResponse.json();
 
-            const { threeDsRedirectUrl } = createResponse.json();
-            const pspTransactionId = threeDsRedirectUrl.split('/psp/3ds/')[1];
-
-            // First access — should succeed
-            await app.inject({
+            const response = await app.inject({
                 method: 'GET',
-                url: `/psp/3ds/${pspTransactionId}`,
+                url: `/psp/webhooks/deliveries?transactionId=${transactionId}`,
             });
 
-            // Second access — should return 404 (already consumed)
-            const secondResponse = await app.inject({
-                method: 'GET',
-                url: `/psp/3ds/${pspTransactionId}`,
+            expect(response.statusCode).toBe(200);
+            const deliveries = response.json();
+            expect(deliveries).toHaveLength(1);
+            expect(deliveries[0].id).toMatch(/^wh_/);
+            expect(deliveries[0].payload).toEqual({ transactionId, final_amount: 1000, status: 'SUCCESS' });
+        });
+
+        it('should return 404 when redelivering an unknown delivery', async () => {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/psp/webhooks/deliveries/wh_nonexistent/redeliver',
+                headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
             });
 
-            expect(secondResponse.statusCode).toBe(404);
+            expect(response.statusCode).toBe(404);
         });
     });
 });
+
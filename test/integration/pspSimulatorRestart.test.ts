@@ -0,0 +1,122 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp } from '../helpers/buildApp';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+import { Pending3dsSession, PspTransactionRecord, PspTransactionStatus } from '../../src/psp-simulator/simulatorStore';
+import { listWebhookDeliveries } from '../../src/psp-simulator/webhookOutbox';
+
+/**
+ * Tests that pending 3DS sessions and webhook deliveries left in the simulator store
+ * by a previous process are picked up again on startup.
+ */
+describe('PSP Simulator restart', () => {
+    let app: FastifyInstance;
+    let simulatorStore: InMemorySimulatorStore;
+
+    function pendingSession(pspTransactionId: string, expiresAt: Date): Pending3dsSession {
+        return {
+            pspTransactionId,
+            // Nothing listens here: the expiry webhook itself is what we look for
+            callbackUrl: 'http://127.0.0.1:1/webhooks/psp',
+            amount: 1000,
+            captureMode: 'automatic',
+            returnUrl: null,
+            failureUrl: null,
+            otpAttemptsRemaining: 3,
+            scenario: null,
+            expiresAt,
+            createdAt: new Date(expiresAt.getTime() - 5 * 60 * 1000),
+        };
+    }
+
+    function pspTransaction(pspTransactionId: string, status: PspTransactionStatus): PspTransactionRecord {
+        return {
+            pspTransactionId,
+            instance: 'psp',
+            orderId: `order_${pspTransactionId}`,
+            amount: 1000,
+            currency: 'EUR',
+            status,
+            finalAmount: 1000,
+            refundedAmount: 0,
+            declineCode: null,
+            idempotencyKey: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+    }
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        // State written before the "restart": one session expired while the simulator was down
+        simulatorStore = new InMemorySimulatorStore();
+        await simulatorStore.savePending3dsSession(pendingSession('tx_expired', new Date(Date.now() - 1000)));
+        await simulatorStore.savePending3dsSession(pendingSession('tx_pending', new Date(Date.now() + 60 * 1000)));
+        await simulatorStore.savePspTransaction(pspTransaction('tx_pending', '3DS_REQUIRED'));
+        await simulatorStore.savePspTransaction(pspTransaction('tx_authorized', 'AUTHORIZED'));
+        await simulatorStore.saveAuthorization({ pspTransactionId: 'tx_authorized', amount: 1000, createdAt: new Date() });
+        await simulatorStore.saveWebhookDelivery({
+            id: 'wh_undelivered',
+            callbackUrl: 'http://127.0.0.1:1/webhooks/psp',
+            payload: { transactionId: 'tx_undelivered', final_amount: 1000, status: 'SUCCESS' },
+            status: 'PENDING',
+            attempts: [],
+            nextAttemptAt: new Date(Date.now() - 1000),
+            createdAt: new Date(Date.now() - 2000),
+            updatedAt: new Date(Date.now() - 2000),
+        });
+
+        const testApp = await buildTestApp({ simulatorStore });
+        app = testApp.app;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+        jest.restoreAllMocks();
+    });
+
+    it('should send a FAILED webhook for sessions that expired while the simulator was down', async () => {
+        for (let attempt = 0; attempt < 50 && (await listWebhookDeliveries({ transactionId: 'tx_expired' })).length === 0; attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+
+        const [delivery] = await listWebhookDeliveries({ transactionId: 'tx_expired' });
+        expect(delivery.payload).toMatchObject({
+            status: 'FAILED',
+            reason: '3DS_EXPIRED',
+            final_amount: 1000,
+            declineCode: 'authentication_expired',
+        });
+        expect(await simulatorStore.findPending3dsSession('tx_expired')).toBeNull();
+    });
+
+    it('should retry webhook deliveries left pending by the previous process', async () => {
+        for (let attempt = 0; attempt < 50 && (await simulatorStore.findWebhookDelivery('wh_undelivered'))!.attempts.length === 0; attempt++) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+
+        const delivery = await simulatorStore.findWebhookDelivery('wh_undelivered');
+        expect(delivery!.attempts).toHaveLength(1);
+        expect(delivery!.attempts[0]).toMatchObject({ trigger: 'automatic', statusCode: null });
+    });
+
+    it('should keep serving the challenge for sessions that have not expired', async () => {
+        const response = await app.inject({ method: 'GET', url: '/psp/3ds/tx_pending' });
+
+        expect(response.statusCode).toBe(200);
+        expect(await listWebhookDeliveries({ transactionId: 'tx_pending' })).toEqual([]);
+    });
+
+    it('should still capture authorizations made before the restart', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/psp/transactions/tx_authorized/capture',
+            payload: {},
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toMatchObject({ status: 'SUCCESS', capturedAmount: 1000 });
+    });
+});
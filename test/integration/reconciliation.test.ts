@@ -0,0 +1,252 @@
+import { FastifyInstance } from 'fastify';
+import { v4 as uuidv4 } from 'uuid';
+import { buildTestApp, TEST_ADMIN_API_KEY, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { clearScenarios } from '../../src/psp-simulator/scenarioRegistry';
+import { THREE_DS_OTP } from '../../src/psp-simulator/pspService';
+import { STATUSES } from '../../src/enums/transactionStatus';
+import { CreateTransactionData } from '../../src/types/transaction';
+
+jest.mock('../../src/config', () => {
+    const actualConfig = jest.requireActual('../../src/config').default;
+    return {
+        __esModule: true,
+        // Every CREATED/PENDING_3DS transaction is stale; runs are triggered by the tests only
+        default: { ...actualConfig, reconciliationThresholdMs: 0, reconciliationIntervalMs: 0, reconciliationBatchSize: 2 },
+    };
+});
+
+/**
+ * Tests for the reconciliation of transactions whose PSP webhook never arrived.
+ * Webhooks are "lost" by delaying them far beyond the test with a simulator scenario.
+ */
+describe('Reconciliation', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(async () => {
+        repository.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'info').mockImplementation(() => undefined);
+        await app.inject({
+            method: 'POST',
+            url: '/psp/scenarios',
+            headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+            payload: { match: { cardPrefix: '4111' }, webhookDelayMs: 3600000 },
+        });
+    });
+
+    afterEach(() => {
+        clearScenarios();
+        jest.restoreAllMocks();
+    });
+
+    async function createPending3dsTransaction() {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '4111111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: `order_${uuidv4()}`,
+            },
+        });
+        expect(response.json().status).toBe('PENDING_3DS');
+        return response.json();
+    }
+
+    async function completeChallenge(pspTransactionId: string, payload: Record<string, unknown>) {
+        const response = await app.inject({ method: 'POST', url: `/psp/3ds/${pspTransactionId}/complete`, payload });
+        expect(response.statusCode).toBe(200);
+    }
+
+    const transactionData: Omit<CreateTransactionData, 'id' | 'orderId'> = {
+        amount: 1000,
+        currency: 'EUR',
+        cardToken: 'tok_test',
+        cardBin: '555511',
+        cardLast4: '1111',
+        cardBrand: 'MASTERCARD',
+        maskedCardNumber: '555511******1111',
+        merchantId: TEST_MERCHANT_ID,
+        notificationUrl: null,
+        provider: 'psp',
+        status: STATUSES.CREATED,
+    };
+
+    /**
+     * Stores a PENDING_3DS transaction whose PSP ID the PSP has never heard of.
+     */
+    async function createUnknownToPspTransaction(orderId: string) {
+        const transaction = await repository.create({ ...transactionData, id: uuidv4(), orderId });
+        return repository.updateStatus(transaction.id, STATUSES.PENDING_3DS, { pspTransactionId: `psp_${orderId}` });
+    }
+
+    async function runReconciliation() {
+        // Let the threshold of 0 ms pass for transactions touched in this millisecond
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const response = await app.inject({
+            method: 'POST',
+            url: '/reconciliation/run',
+            headers: { authorization: `Bearer ${TEST_ADMIN_API_KEY}` },
+        });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    describe('GET /psp/transactions/:transactionId', () => {
+        it('should return the PSP status of a transaction', async () => {
+            const transaction = await createPending3dsTransaction();
+
+            const pendingResponse = await app.inject({ method: 'GET', url: `/psp/transactions/${transaction.pspTransactionId}` });
+            expect(pendingResponse.statusCode).toBe(200);
+            expect(pendingResponse.json()).toMatchObject({
+                transactionId: transaction.pspTransactionId,
+                status: '3DS_REQUIRED',
+                amount: 1000,
+                currency: 'EUR',
+            });
+
+            await completeChallenge(transaction.pspTransactionId, { action: 'approve', otp: THREE_DS_OTP });
+
+            const completedResponse = await app.inject({ method: 'GET', url: `/psp/transactions/${transaction.pspTransactionId}` });
+            expect(completedResponse.json()).toMatchObject({ status: 'SUCCESS', finalAmount: 1000 });
+        });
+
+        it('should return 404 for an unknown PSP transaction', async () => {
+            const response = await app.inject({ method: 'GET', url: '/psp/transactions/psp_unknown' });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+
+    describe('POST /reconciliation/run', () => {
+        it('should apply a SUCCESS whose webhook was lost and record it as a reconciliation event', async () => {
+            const transaction = await createPending3dsTransaction();
+            await completeChallenge(transaction.pspTransactionId, { action: 'approve', otp: THREE_DS_OTP });
+
+            const report = await runReconciliation();
+
+            expect(report).toMatchObject({ checked: 1, fixed: 1, stillPending: 0, inconsistent: 0 });
+            expect(report.results[0]).toMatchObject({
+                transactionId: transaction.id,
+                previousStatus: 'PENDING_3DS',
+                status: 'SUCCESS',
+                pspStatus: 'SUCCESS',
+                outcome: 'FIXED',
+            });
+
+            const stored = await repository.findById(transaction.id);
+            expect(stored!.status).toBe('SUCCESS');
+            expect(stored!.finalAmount).toBe(1000);
+
+            const eventsResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/events` });
+            const successEvent = eventsResponse.json().find((event: { toStatus: string }) => event.toStatus === 'SUCCESS');
+            expect(successEvent).toMatchObject({ source: 'RECONCILIATION', actor: 'reconciler' });
+        });
+
+        it('should apply a lost FAILED with its decline code', async () => {
+            const transaction = await createPending3dsTransaction();
+            await completeChallenge(transaction.pspTransactionId, { action: 'deny' });
+
+            const report = await runReconciliation();
+
+            expect(report.results[0]).toMatchObject({ status: 'FAILED', outcome: 'FIXED' });
+            const eventsResponse = await app.inject({ method: 'GET', url: `/transactions/${transaction.id}/events` });
+            const failedEvent = eventsResponse.json().find((event: { toStatus: string }) => event.toStatus === 'FAILED');
+            expect(failedEvent.payload.declineCode).toBe('authentication_rejected');
+        });
+
+        it('should leave a transaction alone while the PSP is still waiting for 3DS', async () => {
+            const transaction = await createPending3dsTransaction();
+
+            const report = await runReconciliation();
+
+            expect(report).toMatchObject({ checked: 1, fixed: 0, stillPending: 1 });
+            expect((await repository.findById(transaction.id))!.status).toBe('PENDING_3DS');
+        });
+
+        it('should report transactions the PSP cannot account for as inconsistent', async () => {
+            const unknownToPsp = await createUnknownToPspTransaction('order_unknown');
+
+            const report = await runReconciliation();
+
+            expect(report).toMatchObject({ checked: 1, fixed: 0, inconsistent: 1 });
+            expect(report.results[0]).toMatchObject({ transactionId: unknownToPsp.id, outcome: 'INCONSISTENT' });
+            expect(report.results[0].message).toContain('Unknown to the PSP');
+            expect((await repository.findById(unknownToPsp.id))!.status).toBe('PENDING_3DS');
+        });
+
+        it('should fail a payment whose PSP request will never be sent', async () => {
+            const neverSent = await repository.create({ ...transactionData, id: uuidv4(), orderId: 'order_never_sent' });
+
+            const report = await runReconciliation();
+
+            expect(report).toMatchObject({ checked: 1, fixed: 1, inconsistent: 0 });
+            expect(report.results[0]).toMatchObject({ transactionId: neverSent.id, status: 'FAILED', outcome: 'FIXED' });
+            expect(await repository.findById(neverSent.id)).toMatchObject({
+                status: 'FAILED',
+                declineCode: 'provider_unavailable',
+            });
+            const events = await repository.findEventsByTransactionId(neverSent.id);
+            expect(events[events.length - 1]).toMatchObject({ toStatus: 'FAILED', source: 'RECONCILIATION', actor: 'reconciler' });
+        });
+
+        it('should send a PSP request still waiting in the outbox', async () => {
+            const transactionId = uuidv4();
+            await repository.create(
+                { ...transactionData, id: transactionId, orderId: 'order_waiting' },
+                undefined,
+                app.pspOutboxService.prepare(uuidv4(), {
+                    amount: 1000,
+                    currency: 'EUR',
+                    orderId: 'order_waiting',
+                    captureMode: 'automatic',
+                }, { cardNumber: '5555111111111111', cardExpiry: '12/30', cvv: '123' }),
+            );
+
+            const report = await runReconciliation();
+
+            expect(report.results[0]).toMatchObject({ transactionId, status: 'SUCCESS', outcome: 'FIXED' });
+            expect(await repository.findPspOutboxEntryByTransactionId(transactionId)).toMatchObject({ status: 'SENT' });
+        });
+
+        it('should check the transactions it could not resolve after the others', async () => {
+            const first = await createUnknownToPspTransaction('order_first');
+            const second = await createUnknownToPspTransaction('order_second');
+            const third = await createUnknownToPspTransaction('order_third');
+            const checkedIds = (report: { results: { transactionId: string }[] }) =>
+                report.results.map((result) => result.transactionId);
+
+            const firstRun = await runReconciliation();
+            const secondRun = await runReconciliation();
+
+            expect(checkedIds(firstRun)).toEqual([first.id, second.id]);
+            expect(checkedIds(secondRun)).toEqual([third.id, first.id]);
+        });
+
+        it('should not pick up transactions that are already final', async () => {
+            const transaction = await createPending3dsTransaction();
+            await completeChallenge(transaction.pspTransactionId, { action: 'approve', otp: THREE_DS_OTP });
+            await runReconciliation();
+
+            const report = await runReconciliation();
+
+            expect(report.checked).toBe(0);
+        });
+    });
+});
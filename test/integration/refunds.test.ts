@@ -0,0 +1,313 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { STATUSES, TransactionStatus } from '../../src/enums/transactionStatus';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+
+describe('POST /transactions/:id/refunds', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let simulatorStore: InMemorySimulatorStore;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        simulatorStore = testApp.simulatorStore;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const TRANSACTION_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+
+    /**
+     * Helper: creates a transaction in the repository with the given status, PSP ID and final amount,
+     * and the payment the simulator settled for it.
+     */
+    async function createTestTransaction(
+        status: TransactionStatus,
+        pspTransactionId: string,
+        finalAmount: number = 1000,
+    ): Promise<string> {
+        await repository.create({
+            id: TRANSACTION_ID,
+            orderId: 'order_refund',
+            amount: 1000,
+            currency: 'EUR',
+            ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
+            status,
+        });
+        await repository.updateStatus(TRANSACTION_ID, status, { pspTransactionId, finalAmount });
+        await simulatorStore.savePspTransaction({
+            pspTransactionId,
+            instance: 'psp',
+            orderId: 'order_refund',
+            amount: 1000,
+            currency: 'EUR',
+            status: 'SUCCESS',
+            finalAmount,
+            refundedAmount: 0,
+            declineCode: null,
+            idempotencyKey: null,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        });
+        return TRANSACTION_ID;
+    }
+
+    /**
+     * Helper: polls until the transaction reaches the expected status (refund webhooks are async).
+     */
+    async function waitForStatus(transactionId: string, expectedStatus: TransactionStatus): Promise<void> {
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const transaction = await repository.findById(transactionId);
+            if (transaction?.status === expectedStatus) {
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        throw new Error(`Transaction ${transactionId} never reached ${expectedStatus}`);
+    }
+
+    it('should accept a partial refund and settle it via webhook', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_partial');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 400 },
+        });
+
+        expect(response.statusCode).toBe(202);
+        const body = response.json();
+        expect(body.transactionId).toBe(transactionId);
+        expect(body.amount).toBe(400);
+        expect(body.pspRefundId).toMatch(/^rf_/);
+
+        await waitForStatus(transactionId, STATUSES.PARTIALLY_REFUNDED);
+        const refund = await repository.findRefundById(body.id);
+        expect(refund!.status).toBe('SUCCESS');
+    });
+
+    it('should move to REFUNDED once partial refunds cover the final amount', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_multi');
+
+        await app.inject({ method: 'POST', url: `/transactions/${transactionId}/refunds`, payload: { amount: 600 } });
+        await waitForStatus(transactionId, STATUSES.PARTIALLY_REFUNDED);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 400 },
+        });
+        expect(response.statusCode).toBe(202);
+        await waitForStatus(transactionId, STATUSES.REFUNDED);
+
+        const listResponse = await app.inject({ method: 'GET', url: `/transactions/${transactionId}/refunds` });
+        expect(listResponse.statusCode).toBe(200);
+        expect(listResponse.json()).toHaveLength(2);
+    });
+
+    it('should refund the remaining balance when amount is omitted', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_full', 750);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: {},
+        });
+
+        expect(response.statusCode).toBe(202);
+        expect(response.json().amount).toBe(750);
+        await waitForStatus(transactionId, STATUSES.REFUNDED);
+    });
+
+    it('should reject a refund above the final amount', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_over', 500);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 501 },
+        });
+
+        expect(response.statusCode).toBe(422);
+        expect(response.json().error).toContain('exceeds refundable balance');
+    });
+
+    it('should count pending refunds against the refundable balance', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_pending');
+
+        const [first, second] = await Promise.all([
+            app.inject({ method: 'POST', url: `/transactions/${transactionId}/refunds`, payload: { amount: 700 } }),
+            app.inject({ method: 'POST', url: `/transactions/${transactionId}/refunds`, payload: { amount: 700 } }),
+        ]);
+
+        const statusCodes = [first.statusCode, second.statusCode].sort();
+        expect(statusCodes).toEqual([202, 422]);
+    });
+
+    it('should reject refunds for transactions that have not succeeded', async () => {
+        const transactionId = await createTestTransaction(STATUSES.PENDING_3DS, 'tx_refund_pending_3ds');
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 100 },
+        });
+
+        expect(response.statusCode).toBe(409);
+    });
+
+    it('should return 404 for a non-existent transaction', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions/00000000-0000-0000-0000-000000000000/refunds',
+            payload: { amount: 100 },
+        });
+
+        expect(response.statusCode).toBe(404);
+    });
+
+    it('should ignore duplicate refund webhooks', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_duplicate');
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 300 },
+        });
+        const refund = response.json();
+        await waitForStatus(transactionId, STATUSES.PARTIALLY_REFUNDED);
+
+        const webhookResponse = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({
+                type: 'refund',
+                transactionId: 'tx_refund_duplicate',
+                refundId: refund.pspRefundId,
+                reference: refund.id,
+                final_amount: 300,
+                status: 'SUCCESS',
+            }),
+        });
+
+        expect(webhookResponse.statusCode).toBe(200);
+        expect(webhookResponse.json().message).toBe('Duplicate webhook ignored');
+    });
+
+    it('should ignore a late payment SUCCESS webhook for a refunded transaction', async () => {
+        await createTestTransaction(STATUSES.PARTIALLY_REFUNDED, 'tx_refund_late_payment');
+
+        const webhookResponse = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({
+                transactionId: 'tx_refund_late_payment',
+                final_amount: 1000,
+                status: 'SUCCESS',
+            }),
+        });
+
+        expect(webhookResponse.statusCode).toBe(200);
+        expect(webhookResponse.json().message).toBe('Duplicate webhook ignored');
+    });
+
+    it('should keep a refund PENDING when the PSP responses are lost and refund it only once', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_lost_response');
+        const send = global.fetch;
+        const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+            const response = await send(input, init);
+            if (String(input).endsWith('/psp/refunds')) {
+                throw new TypeError('fetch failed');
+            }
+            return response;
+        });
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 400 },
+        });
+
+        expect(response.statusCode).toBe(202);
+        expect(response.json()).toMatchObject({ status: 'PENDING', pspRefundId: null });
+
+        await waitForStatus(transactionId, STATUSES.PARTIALLY_REFUNDED);
+        expect((await repository.findRefundById(response.json().id))!.status).toBe('SUCCESS');
+        const refundWebhooks = fetchSpy.mock.calls.filter(([input, init]) =>
+            String(input).endsWith('/webhooks/psp') && String(init?.body).includes('tx_refund_lost_response'));
+        expect(refundWebhooks).toHaveLength(1);
+    });
+
+    it('should refund only once when a refund whose PSP response was lost is sent again', async () => {
+        const transactionId = await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_resent');
+        const send = global.fetch;
+        let loseResponses = true;
+        const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+            const response = await send(input, init);
+            if (loseResponses && String(input).endsWith('/psp/refunds')) {
+                throw new TypeError('fetch failed');
+            }
+            return response;
+        });
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transactionId}/refunds`,
+            payload: { amount: 400 },
+        });
+        expect(response.json()).toMatchObject({ status: 'PENDING', pspRefundId: null });
+
+        loseResponses = false;
+        const resent = await app.transactionService.resendRefund((await repository.findRefundById(response.json().id))!);
+        expect(resent.pspRefundId).toMatch(/^rf_/);
+
+        await waitForStatus(transactionId, STATUSES.PARTIALLY_REFUNDED);
+        const refund = await repository.findRefundById(response.json().id);
+        expect(refund).toMatchObject({ status: 'SUCCESS', pspRefundId: resent.pspRefundId });
+        const refundWebhooks = fetchSpy.mock.calls.filter(([input, init]) =>
+            String(input).endsWith('/webhooks/psp') && String(init?.body).includes('tx_refund_resent'));
+        expect(refundWebhooks).toHaveLength(1);
+        expect((await simulatorStore.findPspTransaction('tx_refund_resent'))!.refundedAmount).toBe(400);
+    });
+
+    it('should answer a refund repeating an Idempotency-Key with the refund accepted the first time', async () => {
+        await createTestTransaction(STATUSES.SUCCESS, 'tx_refund_psp_retry');
+        const request = {
+            method: 'POST' as const,
+            url: '/psp/refunds',
+            headers: { 'idempotency-key': 'refund-retry-key' },
+            payload: {
+                transactionId: 'tx_refund_psp_retry',
+                amount: 1000,
+                reference: 'refund-retry-key',
+                callbackUrl: 'http://localhost/unused',
+            },
+        };
+
+        const first = await app.inject(request);
+        const second = await app.inject(request);
+
+        expect(first.statusCode).toBe(200);
+        expect(second.statusCode).toBe(200);
+        expect(second.json().refundId).toBe(first.json().refundId);
+        expect((await simulatorStore.findPspTransaction('tx_refund_psp_retry'))!.refundedAmount).toBe(1000);
+    });
+});
@@ -0,0 +1,186 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { InMemorySimulatorStore } from '../../src/psp-simulator/inMemorySimulatorStore';
+import { SettlementError, SettlementService } from '../../src/services/settlementService';
+import { parseSettlementFile } from '../../src/domain/settlementFile';
+import { SettlementFile } from '../../src/types/transaction';
+import { listWebhookDeliveries } from '../../src/psp-simulator/webhookOutbox';
+
+describe('Settlement files', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+    let simulatorStore: InMemorySimulatorStore;
+    let settlementService: SettlementService;
+    const today = new Date().toISOString().slice(0, 10);
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        simulatorStore = testApp.simulatorStore;
+        settlementService = new SettlementService(repository);
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+        simulatorStore.clear();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Helper: waits until the simulator has no pending webhooks for a PSP transaction,
+     * so no webhook changes the transaction while a test compares it.
+     */
+    async function waitForWebhooks(pspTransactionId: string) {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const deliveries = await listWebhookDeliveries({ transactionId: pspTransactionId });
+            if (deliveries.length > 0 && deliveries.every((delivery) => delivery.status !== 'PENDING')) {
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        throw new Error(`Webhooks for ${pspTransactionId} never settled`);
+    }
+
+    async function createTransaction(cardNumber: string, amount = 1000) {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount,
+                currency: 'EUR',
+                cardNumber,
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: `order_${cardNumber}_${amount}`,
+            },
+        });
+        const transaction = response.json();
+        if (transaction.status !== 'PENDING_3DS') {
+            await waitForWebhooks(transaction.pspTransactionId);
+        }
+        return transaction;
+    }
+
+    async function downloadSettlementFile(format: 'csv' | 'json'): Promise<string> {
+        const response = await app.inject({ method: 'GET', url: `/psp/settlements/${today}?format=${format}` });
+        expect(response.statusCode).toBe(200);
+        return response.body;
+    }
+
+    describe('GET /psp/settlements/:date', () => {
+        it('should list final payments with fees only for settled ones', async () => {
+            const settled = await createTransaction('5555111111111111');
+            const declined = await createTransaction('4000111111111115', 500);
+            await createTransaction('4111111111111111');
+
+            const response = await app.inject({ method: 'GET', url: `/psp/settlements/${today}` });
+
+            expect(response.statusCode).toBe(200);
+            expect(response.headers['content-disposition']).toBe(`attachment; filename="settlement-${today}.json"`);
+            expect(response.json()).toEqual({
+                date: today,
+                records: [
+                    { pspTransactionId: settled.pspTransactionId, status: 'SUCCESS', amount: 1000, finalAmount: 1000, fee: 39, currency: 'EUR' },
+                    { pspTransactionId: declined.pspTransactionId, status: 'FAILED', amount: 500, finalAmount: 0, fee: 0, currency: 'EUR' },
+                ],
+            });
+        });
+
+        it('should serve the same records as CSV', async () => {
+            const settled = await createTransaction('5555111111111111');
+
+            const response = await app.inject({ method: 'GET', url: `/psp/settlements/${today}?format=csv` });
+
+            expect(response.headers['content-type']).toContain('text/csv');
+            expect(response.body.split('\n')[1]).toBe(`${today},${settled.pspTransactionId},SUCCESS,1000,1000,39,EUR`);
+        });
+
+        it('should reject an impossible date', async () => {
+            const response = await app.inject({ method: 'GET', url: '/psp/settlements/2026-02-30' });
+
+            expect(response.statusCode).toBe(400);
+        });
+    });
+
+    describe('SettlementService', () => {
+        it('should match a clean settlement file in either format', async () => {
+            await createTransaction('5555111111111111');
+            await createTransaction('4000111111111115');
+
+            for (const format of ['csv', 'json'] as const) {
+                const report = await settlementService.reconcileFile(await downloadSettlementFile(format));
+
+                expect(report).toEqual({
+                    date: today,
+                    records: 2,
+                    matched: 2,
+                    missing: [],
+                    extra: [],
+                    amountMismatches: [],
+                    statusMismatches: [],
+                });
+            }
+        });
+
+        it('should report missing, extra, amount-mismatched and status-mismatched records', async () => {
+            const dropped = await createTransaction('5555111111111111', 1000);
+            const reduced = await createTransaction('5555111111111111', 2000);
+            const disputed = await createTransaction('5555111111111111', 3000);
+            const file: SettlementFile = parseSettlementFile(await downloadSettlementFile('json'));
+
+            const records = file.records.filter((record) => record.pspTransactionId !== dropped.pspTransactionId);
+            const reducedRecord = records.find((record) => record.pspTransactionId === reduced.pspTransactionId)!;
+            reducedRecord.finalAmount = 1500;
+            const disputedRecord = records.find((record) => record.pspTransactionId === disputed.pspTransactionId)!;
+            disputedRecord.status = 'FAILED';
+            records.push({ pspTransactionId: 'tx_unknown', status: 'SUCCESS', amount: 700, finalAmount: 700, fee: 35, currency: 'EUR' });
+
+            const report = await settlementService.reconcile({ date: file.date, records });
+
+            expect(report.matched).toBe(0);
+            expect(report.missing).toEqual([{ transactionId: dropped.id, pspTransactionId: dropped.pspTransactionId, status: 'SUCCESS' }]);
+            expect(report.extra.map((record) => record.pspTransactionId)).toEqual(['tx_unknown']);
+            expect(report.amountMismatches).toEqual([{
+                transactionId: reduced.id,
+                pspTransactionId: reduced.pspTransactionId,
+                field: 'finalAmount',
+                expected: 2000,
+                actual: 1500,
+            }]);
+            expect(report.statusMismatches).toEqual([{
+                transactionId: disputed.id,
+                pspTransactionId: disputed.pspTransactionId,
+                status: 'SUCCESS',
+                pspStatus: 'FAILED',
+            }]);
+        });
+
+        it('should flag a payment the PSP settled while we still wait for its webhook', async () => {
+            const pending = await createTransaction('4111111111111111');
+            await app.inject({
+                method: 'POST',
+                url: `/psp/3ds/${pending.pspTransactionId}/complete`,
+                payload: { action: 'deny' },
+            });
+
+            const report = await settlementService.reconcileFile(await downloadSettlementFile('csv'));
+
+            expect(report.statusMismatches).toEqual([expect.objectContaining({ status: 'PENDING_3DS', pspStatus: 'FAILED' })]);
+        });
+
+        it('should reject an unreadable file', async () => {
+            await expect(settlementService.reconcileFile('not a settlement file')).rejects.toThrow(SettlementError);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { STATUSES } from '../../src/enums/transactionStatus';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
+
+describe('GET /transactions/:id/events', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    const TRANSACTION_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+
+    /**
+     * Helper: creates a PENDING_3DS transaction in the repository with the given PSP ID.
+     */
+    async function createPending3dsTransaction(pspTransactionId: string): Promise<void> {
+        await repository.create({
+            id: TRANSACTION_ID,
+            orderId: 'order_events',
+            amount: 1000,
+            currency: 'EUR',
+            ...tokenizeCard('4111111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
+            status: STATUSES.CREATED,
+        });
+        await repository.updateStatus(TRANSACTION_ID, STATUSES.PENDING_3DS, { pspTransactionId });
+    }
+
+    async function getEvents(transactionId: string) {
+        const response = await app.inject({ method: 'GET', url: `/transactions/${transactionId}/events` });
+        expect(response.statusCode).toBe(200);
+        return response.json();
+    }
+
+    it('should record creation and the PSP outcome for an API request', async () => {
+        const createResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: 'order_events_api',
+                callbackUrl: 'http://localhost:3000/webhooks/psp',
+            },
+        });
+
+        const events = await getEvents(createResponse.json().id);
+
+        expect(events).toHaveLength(2);
+        expect(events[0]).toMatchObject({ fromStatus: null, toStatus: 'CREATED', source: 'API', actor: 'api' });
+        expect(events[1]).toMatchObject({ fromStatus: 'CREATED', toStatus: 'SUCCESS', source: 'API', actor: 'api' });
+        expect(events[1].payload.status).toBe('SUCCESS');
+    });
+
+    it('should never record card data in event payloads', async () => {
+        const createResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '987',
+                orderId: 'order_events_card',
+                callbackUrl: 'http://localhost:3000/webhooks/psp',
+            },
+        });
+
+        const events = await getEvents(createResponse.json().id);
+
+        expect(events[0].payload.orderId).toBe('order_events_card');
+        expect(JSON.stringify(events)).not.toContain('5555111111111111');
+        expect(events[0].payload).not.toHaveProperty('cvv');
+    });
+
+    it('should record capture of a manual authorization', async () => {
+        const createResponse = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                amount: 1000,
+                currency: 'EUR',
+                cardNumber: '5555111111111111',
+                cardExpiry: '12/30',
+                cvv: '123',
+                orderId: 'order_events_capture',
+                callbackUrl: 'http://localhost:3000/webhooks/psp',
+                captureMode: 'manual',
+            },
+        });
+        const transactionId = createResponse.json().id;
+        await app.inject({ method: 'POST', url: `/transactions/${transactionId}/capture`, payload: { amount: 600 } });
+
+        const events = await getEvents(transactionId);
+
+        expect(events.map((event: { toStatus: string }) => event.toStatus)).toEqual(['CREATED', 'AUTHORIZED', 'SUCCESS']);
+        expect(events[2]).toMatchObject({ fromStatus: 'AUTHORIZED', source: 'API' });
+        expect(events[2].payload.capturedAmount).toBe(600);
+    });
+
+    it('should record webhook transitions with the webhook payload', async () => {
+        await createPending3dsTransaction('tx_events_webhook');
+
+        await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: 'tx_events_webhook', final_amount: 1000, status: 'SUCCESS' }),
+        });
+
+        const events = await getEvents(TRANSACTION_ID);
+        const lastEvent = events[events.length - 1];
+
+        expect(lastEvent).toMatchObject({
+            fromStatus: 'PENDING_3DS',
+            toStatus: 'SUCCESS',
+            source: 'WEBHOOK',
+            actor: 'psp',
+            payload: { transactionId: 'tx_events_webhook', final_amount: 1000, status: 'SUCCESS' },
+        });
+    });
+
+    it('should attribute 3DS expiry to the expiry job', async () => {
+        await createPending3dsTransaction('tx_events_expired');
+
+        await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: 'tx_events_expired', final_amount: 1000, status: 'FAILED', reason: '3DS_EXPIRED' }),
+        });
+
+        const events = await getEvents(TRANSACTION_ID);
+        expect(events[events.length - 1]).toMatchObject({ toStatus: 'FAILED', source: 'EXPIRY_JOB' });
+    });
+
+    it('should not record an event for a duplicate webhook', async () => {
+        await createPending3dsTransaction('tx_events_duplicate');
+        const webhook = { transactionId: 'tx_events_duplicate', final_amount: 1000, status: 'SUCCESS' };
+
+        await app.inject({ method: 'POST', url: '/webhooks/psp', ...signedWebhook(webhook) });
+        const eventCount = (await getEvents(TRANSACTION_ID)).length;
+        await app.inject({ method: 'POST', url: '/webhooks/psp', ...signedWebhook(webhook) });
+
+        expect(await getEvents(TRANSACTION_ID)).toHaveLength(eventCount);
+    });
+
+    it('should return 404 for a non-existent transaction', async () => {
+        const response = await app.inject({
+            method: 'GET',
+            url: '/transactions/00000000-0000-0000-0000-000000000000/events',
+        });
+
+        expect(response.statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,170 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { STATUSES, TransactionStatus } from '../../src/enums/transactionStatus';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
+
+describe('GET /transactions', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp();
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    let sequence = 0;
+
+    /**
+     * Helper: stores a transaction directly in the repository.
+     */
+    async function seedTransaction(fields: {
+        amount?: number;
+        currency?: string;
+        status?: TransactionStatus;
+        orderId?: string;
+    } = {}): Promise<string> {
+        sequence++;
+        const id = `00000000-0000-0000-0000-${String(sequence).padStart(12, '0')}`;
+        const status = fields.status ?? STATUSES.SUCCESS;
+        await repository.create({
+            id,
+            orderId: fields.orderId ?? `order_${sequence}`,
+            amount: fields.amount ?? 1000,
+            currency: fields.currency ?? 'EUR',
+            ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
+            status,
+        });
+        await repository.updateStatus(id, status, { pspTransactionId: `tx_list_${sequence}` });
+        return id;
+    }
+
+    it('should return an empty page when there are no transactions', async () => {
+        const response = await app.inject({ method: 'GET', url: '/transactions' });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json()).toEqual({ items: [], nextCursor: null });
+    });
+
+    it('should filter by status, currency and orderId', async () => {
+        await seedTransaction({ status: STATUSES.SUCCESS, currency: 'EUR' });
+        const failedId = await seedTransaction({ status: STATUSES.FAILED, currency: 'EUR' });
+        await seedTransaction({ status: STATUSES.FAILED, currency: 'USD' });
+        const orderId = await seedTransaction({ orderId: 'order_lookup' });
+
+        const byStatus = await app.inject({ method: 'GET', url: '/transactions?status=FAILED&currency=EUR' });
+        expect(byStatus.json().items.map((item: { id: string }) => item.id)).toEqual([failedId]);
+
+        const byOrder = await app.inject({ method: 'GET', url: '/transactions?orderId=order_lookup' });
+        expect(byOrder.json().items.map((item: { id: string }) => item.id)).toEqual([orderId]);
+    });
+
+    it('should filter by PSP transaction ID', async () => {
+        await seedTransaction();
+        const targetId = await seedTransaction();
+        const target = await repository.findById(targetId);
+
+        const response = await app.inject({
+            method: 'GET',
+            url: `/transactions?pspTransactionId=${target!.pspTransactionId}`,
+        });
+
+        expect(response.json().items).toHaveLength(1);
+        expect(response.json().items[0].id).toBe(targetId);
+    });
+
+    it('should filter by createdAt range', async () => {
+        await seedTransaction();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const rangeStart = new Date().toISOString();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const recentId = await seedTransaction();
+
+        const response = await app.inject({
+            method: 'GET',
+            url: `/transactions?createdFrom=${encodeURIComponent(rangeStart)}`,
+        });
+        expect(response.json().items.map((item: { id: string }) => item.id)).toEqual([recentId]);
+
+        const beforeResponse = await app.inject({
+            method: 'GET',
+            url: `/transactions?createdTo=${encodeURIComponent(rangeStart)}`,
+        });
+        expect(beforeResponse.json().items).toHaveLength(1);
+        expect(beforeResponse.json().items[0].id).not.toBe(recentId);
+    });
+
+    it('should page through results with a cursor without overlap', async () => {
+        const amounts = [500, 100, 300, 300, 200];
+        for (const amount of amounts) {
+            await seedTransaction({ amount });
+        }
+
+        const seenAmounts: number[] = [];
+        const seenIds = new Set<string>();
+        let cursor: string | null = null;
+        let pages = 0;
+
+        do {
+            const query: string = `sortBy=amount&sortOrder=asc&limit=2${cursor ? `&cursor=${cursor}` : ''}`;
+            const response = await app.inject({ method: 'GET', url: `/transactions?${query}` });
+            expect(response.statusCode).toBe(200);
+
+            const body = response.json();
+            for (const item of body.items) {
+                seenAmounts.push(item.amount);
+                seenIds.add(item.id);
+            }
+            cursor = body.nextCursor;
+            pages++;
+        } while (cursor);
+
+        expect(pages).toBe(3);
+        expect(seenAmounts).toEqual([100, 200, 300, 300, 500]);
+        expect(seenIds.size).toBe(5);
+    });
+
+    it('should sort by amount descending', async () => {
+        await seedTransaction({ amount: 100 });
+        await seedTransaction({ amount: 900 });
+        await seedTransaction({ amount: 500 });
+
+        const response = await app.inject({ method: 'GET', url: '/transactions?sortBy=amount&sortOrder=desc' });
+
+        expect(response.json().items.map((item: { amount: number }) => item.amount)).toEqual([900, 500, 100]);
+    });
+
+    it('should reject a cursor used with a different sort', async () => {
+        await seedTransaction();
+        await seedTransaction();
+        const firstPage = await app.inject({ method: 'GET', url: '/transactions?limit=1' });
+
+        const response = await app.inject({
+            method: 'GET',
+            url: `/transactions?limit=1&sortOrder=asc&cursor=${firstPage.json().nextCursor}`,
+        });
+
+        expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject invalid query parameters', async () => {
+        const badStatus = await app.inject({ method: 'GET', url: '/transactions?status=UNKNOWN' });
+        expect(badStatus.statusCode).toBe(400);
+
+        const badLimit = await app.inject({ method: 'GET', url: '/transactions?limit=500' });
+        expect(badLimit.statusCode).toBe(400);
+    });
+});
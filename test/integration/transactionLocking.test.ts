@@ -0,0 +1,231 @@
+import { FastifyInstance } from 'fastify';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
+import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { STATUSES, TransactionStatus } from '../../src/enums/transactionStatus';
+import { TransactionLockTimeoutError, TransactionUnitTimeoutError } from '../../src/domain/transactionLocking';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
+
+/**
+ * Tests for the locked unit of work: one writer per transaction at a time, a bounded wait
+ * for the lock, and a lock that is released however the work ends.
+ */
+describe('Transaction locking', () => {
+    let app: FastifyInstance;
+    let repository: InMemoryTransactionRepository;
+
+    beforeAll(async () => {
+        const testApp = await buildTestApp({ repository: new InMemoryTransactionRepository({ lockTimeoutMs: 50 }) });
+        app = testApp.app;
+        repository = testApp.repository;
+        await app.ready();
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    beforeEach(() => {
+        repository.clear();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    async function createStoredTransaction(pspTransactionId: string, status: TransactionStatus = STATUSES.PENDING_3DS) {
+        const transaction = await repository.create({
+            id: 'dddddddd-bbbb-cccc-dddd-eeeeeeeeeeee',
+            orderId: 'order_locking',
+            amount: 1000,
+            currency: 'EUR',
+            ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
+            status: STATUSES.CREATED,
+        });
+        return repository.updateStatus(transaction.id, status, { pspTransactionId });
+    }
+
+    /**
+     * Holds the transaction's lock until the returned function is called.
+     */
+    async function holdLock(transactionId: string): Promise<() => void> {
+        let release!: () => void;
+        let locked!: () => void;
+        const isLocked = new Promise<void>((resolve) => {
+            locked = resolve;
+        });
+        void repository.withTransaction({ id: transactionId }, () => {
+            locked();
+            return new Promise<void>((resolve) => {
+                release = resolve;
+            });
+        });
+        await isLocked;
+        return release;
+    }
+
+    it('should find the transaction by ID or PSP ID', async () => {
+        const transaction = await createStoredTransaction('tx_lock_keys');
+
+        const byId = await repository.withTransaction({ id: transaction.id }, async (unit) => unit.transaction);
+        const byPspId = await repository.withTransaction({ pspTransactionId: 'tx_lock_keys' }, async (unit) => unit.transaction);
+        const missing = await repository.withTransaction({ pspTransactionId: 'tx_unknown' }, async (unit) => unit.transaction);
+
+        expect(byId).toMatchObject({ id: transaction.id });
+        expect(byPspId).toMatchObject({ id: transaction.id });
+        expect(missing).toBeNull();
+    });
+
+    it('should run units of work on the same transaction one after the other', async () => {
+        const transaction = await createStoredTransaction('tx_lock_serial');
+        const steps: string[] = [];
+        const work = (name: string) => async () => {
+            steps.push(`${name} start`);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            steps.push(`${name} end`);
+        };
+
+        await Promise.all([
+            repository.withTransaction({ id: transaction.id }, work('first')),
+            repository.withTransaction({ pspTransactionId: 'tx_lock_serial' }, work('second')),
+        ]);
+
+        expect(steps).toEqual(['first start', 'first end', 'second start', 'second end']);
+    });
+
+    it('should time out when another unit of work keeps the lock', async () => {
+        const transaction = await createStoredTransaction('tx_lock_timeout');
+        const release = await holdLock(transaction.id);
+
+        await expect(
+            repository.withTransaction({ pspTransactionId: 'tx_lock_timeout' }, async () => undefined),
+        ).rejects.toThrow(TransactionLockTimeoutError);
+        release();
+    });
+
+    it('should release the lock when the work throws', async () => {
+        const transaction = await createStoredTransaction('tx_lock_throw');
+
+        await expect(repository.withTransaction({ id: transaction.id }, async () => {
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+
+        await expect(repository.withTransaction({ id: transaction.id }, async () => 'next')).resolves.toBe('next');
+    });
+
+    it('should roll back what the work wrote when it throws', async () => {
+        const transaction = await createStoredTransaction('tx_lock_rollback', STATUSES.SUCCESS);
+        const eventsBefore = await repository.findEventsByTransactionId(transaction.id);
+
+        await expect(repository.withTransaction({ id: transaction.id }, async (unit) => {
+            await unit.createRefund({ id: 'eeeeeeee-bbbb-cccc-dddd-eeeeeeeeeeee', transactionId: transaction.id, amount: 1000, status: 'PENDING' });
+            await unit.updateStatus(STATUSES.REFUNDED);
+            throw new Error('PSP refund failed');
+        })).rejects.toThrow('PSP refund failed');
+
+        expect(await repository.findById(transaction.id)).toEqual(transaction);
+        expect(await repository.findRefundsByTransactionId(transaction.id)).toEqual([]);
+        expect(await repository.findEventsByTransactionId(transaction.id)).toEqual(eventsBefore);
+    });
+
+    it('should keep a write made outside the lock when rolling back', async () => {
+        const transaction = await createStoredTransaction('tx_lock_outside_write', STATUSES.AUTHORIZED);
+
+        await expect(repository.withTransaction({ id: transaction.id }, async (unit) => {
+            await unit.updateStatus(STATUSES.SUCCESS, { finalAmount: 1000 });
+            await repository.updateStatus(transaction.id, STATUSES.REFUNDED);
+            throw new Error('PSP capture failed');
+        })).rejects.toThrow('PSP capture failed');
+
+        expect((await repository.findById(transaction.id))!.status).toBe(STATUSES.REFUNDED);
+    });
+
+    it('should roll back a unit of work that outlives the unit timeout and release its lock', async () => {
+        const timeoutRepository = new InMemoryTransactionRepository({ unitTimeoutMs: 20 });
+        const stored = await timeoutRepository.create({
+            id: 'dddddddd-bbbb-cccc-dddd-ffffffffffff',
+            orderId: 'order_unit_timeout',
+            amount: 1000,
+            currency: 'EUR',
+            ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
+            status: STATUSES.CREATED,
+        });
+        let continueWork!: () => void;
+
+        const hungUnit = timeoutRepository.withTransaction({ id: stored.id }, async (unit) => {
+            await unit.updateStatus(STATUSES.FAILED);
+            await new Promise<void>((resolve) => {
+                continueWork = resolve;
+            });
+            return unit.updateStatus(STATUSES.SUCCESS);
+        });
+
+        await expect(hungUnit).rejects.toThrow(TransactionUnitTimeoutError);
+        expect(await timeoutRepository.findById(stored.id)).toEqual(stored);
+        await expect(timeoutRepository.withTransaction({ id: stored.id }, async () => 'next')).resolves.toBe('next');
+
+        // The unit cannot write once it has been rolled back
+        continueWork();
+        await new Promise((resolve) => setImmediate(resolve));
+        expect(await timeoutRepository.findById(stored.id)).toEqual(stored);
+    });
+
+    it('should refuse to create a refund of another transaction than the locked one', async () => {
+        const transaction = await createStoredTransaction('tx_lock_refund', STATUSES.SUCCESS);
+
+        await expect(repository.withTransaction({ id: transaction.id }, (unit) => unit.createRefund({
+            id: 'ffffffff-bbbb-cccc-dddd-eeeeeeeeeeee',
+            transactionId: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+            amount: 1000,
+            status: 'PENDING',
+        }))).rejects.toThrow('another transaction');
+    });
+
+    it('should keep the unit on the version it wrote', async () => {
+        const transaction = await createStoredTransaction('tx_lock_version');
+
+        const updated = await repository.withTransaction({ id: transaction.id }, async (unit) => {
+            await unit.updateStatus(STATUSES.AUTHORIZED);
+            return unit.updateStatus(STATUSES.SUCCESS, { finalAmount: 1000 });
+        });
+
+        expect(updated).toMatchObject({ status: STATUSES.SUCCESS, version: transaction.version + 2 });
+    });
+
+    it('should answer 503 to a webhook while the transaction stays locked', async () => {
+        const transaction = await createStoredTransaction('tx_lock_webhook');
+        const release = await holdLock(transaction.id);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: '/webhooks/psp',
+            ...signedWebhook({ transactionId: 'tx_lock_webhook', final_amount: 1000, status: 'SUCCESS' }),
+        });
+        release();
+
+        expect(response.statusCode).toBe(503);
+        expect((await repository.findById(transaction.id))!.status).toBe(STATUSES.PENDING_3DS);
+    });
+
+    it('should answer 409 to a capture while the transaction stays locked', async () => {
+        const transaction = await createStoredTransaction('tx_lock_capture', STATUSES.AUTHORIZED);
+        const release = await holdLock(transaction.id);
+
+        const response = await app.inject({
+            method: 'POST',
+            url: `/transactions/${transaction.id}/capture`,
+            payload: {},
+        });
+        release();
+
+        expect(response.statusCode).toBe(409);
+        expect(response.json().error).toContain('try again');
+        expect((await repository.findById(transaction.id))!.status).toBe(STATUSES.AUTHORIZED);
+    });
+});
@@ -25,7 +25,7 @@ describe('POST /transactions', () => {
         amount: 1000,
         currency: 'EUR',
         cardNumber,
-        cardExpiry: '12/25',
+        cardExpiry: '12/30',
         cvv: '123',
         orderId: `order_${Date.now()}`,
         callbackUrl: 'http://localhost:3000/webhooks/psp',
@@ -51,7 +51,7 @@ describe('POST /transactions', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/transactions',
-            payload: buildValidPayload('4000111111111111'),
+            payload: buildValidPayload('4000111111111115'),
         });
 
         expect(response.statusCode).toBe(200);
@@ -74,6 +74,30 @@ describe('POST /transactions', () => {
         expect(body.threeDsRedirectUrl).toContain('/psp/3ds/');
     });
 
+    it('should forward returnUrl and failureUrl to the 3DS challenge', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                ...buildValidPayload('4111111111111111'),
+                returnUrl: 'https://merchant.example.com/checkout/complete',
+                failureUrl: 'https://merchant.example.com/checkout/failed',
+            },
+        });
+        const { pspTransactionId } = response.json();
+
+        const denyResponse = await app.inject({
+            method: 'POST',
+            url: `/psp/3ds/${pspTransactionId}/complete`,
+            payload: { action: 'deny' },
+        });
+
+        expect(denyResponse.statusCode).toBe(303);
+        expect(denyResponse.headers.location).toBe(
+            `https://merchant.example.com/checkout/failed?transactionId=${pspTransactionId}&status=FAILED`,
+        );
+    });
+
     it('should reject requests with missing required fields', async () => {
         const response = await app.inject({
             method: 'POST',
@@ -113,6 +137,77 @@ describe('POST /transactions', () => {
         expect(response.statusCode).toBe(400);
     });
 
+    it('should reject invalid cards with field errors before storing or charging anything', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: {
+                ...buildValidPayload('5555111111111112'),
+                cardExpiry: '01/20',
+            },
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.json()).toEqual({
+            error: 'Invalid card details',
+            fieldErrors: [
+                { field: 'cardNumber', code: 'failed_luhn_check', message: 'Card number is invalid' },
+                { field: 'cardExpiry', code: 'card_expired', message: 'Card has expired' },
+            ],
+        });
+        expect((await repository.list({ sortBy: 'createdAt', sortOrder: 'desc', limit: 10 })).items).toHaveLength(0);
+    });
+
+    it('should require a 4-digit CVV for Amex cards', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: buildValidPayload('378282246310005'),
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(response.json().fieldErrors).toEqual([
+            { field: 'cvv', code: 'invalid_cvv_length', message: 'CVV must be 4 digits for this card' },
+        ]);
+    });
+
+    it('should reject unsupported currencies before storing or charging anything', async () => {
+        for (const currency of ['XYZ', 'eur']) {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/transactions',
+                payload: {
+                    ...buildValidPayload('5555111111111111'),
+                    currency,
+                },
+            });
+
+            expect(response.statusCode).toBe(400);
+            expect(response.json().error).toBe(`Unsupported currency '${currency}': expected an ISO 4217 code such as EUR`);
+        }
+        expect((await repository.list({ sortBy: 'createdAt', sortOrder: 'desc', limit: 10 })).items).toHaveLength(0);
+    });
+
+    it('should format the amount in the currency\'s major unit', async () => {
+        const formattedAmounts: Record<string, string> = {};
+        for (const currency of ['EUR', 'JPY', 'KWD']) {
+            const response = await app.inject({
+                method: 'POST',
+                url: '/transactions',
+                payload: {
+                    ...buildValidPayload('5555111111111111'),
+                    amount: 2500,
+                    currency,
+                },
+            });
+
+            expect(response.statusCode).toBe(200);
+            formattedAmounts[currency] = response.json().formattedAmount;
+        }
+
+        expect(formattedAmounts).toEqual({ EUR: '25.00', JPY: '2500', KWD: '2.500' });
+    });
+
     it('should reject requests with invalid card expiry format', async () => {
         const response = await app.inject({
             method: 'POST',
@@ -139,6 +234,24 @@ describe('POST /transactions', () => {
         expect(storedTransaction!.status).toBe('SUCCESS');
         expect(storedTransaction!.pspTransactionId).toBeDefined();
     });
+
+    it('should store the card tokenized, never the raw PAN or CVV', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/transactions',
+            payload: buildValidPayload('5555111111111111'),
+        });
+
+        expect(response.json().maskedCardNumber).toBe('555511******1111');
+        expect(response.json().cardBrand).toBe('MASTERCARD');
+
+        const storedTransaction = await repository.findById(response.json().id);
+        expect(storedTransaction!.cardToken).toMatch(/^tok_[0-9a-f]{32}$/);
+        expect(storedTransaction!.cardBin).toBe('555511');
+        expect(storedTransaction!.cardLast4).toBe('1111');
+        expect(JSON.stringify(storedTransaction)).not.toContain('5555111111111111');
+        expect(JSON.stringify(storedTransaction)).not.toContain('"cvv"');
+    });
 });
 
 describe('GET /transactions/:id', () => {
@@ -180,7 +293,7 @@ describe('GET /transactions/:id', () => {
                 amount: 2000,
                 currency: 'USD',
                 cardNumber: '5555111111111111',
-                cardExpiry: '12/25',
+                cardExpiry: '12/30',
                 cvv: '456',
                 orderId: 'order_get_test',
                 callbackUrl: 'http://localhost:3000/webhooks/psp',
@@ -200,6 +313,11 @@ describe('GET /transactions/:id', () => {
         expect(body.id).toBe(createdTransaction.id);
         expect(body.amount).toBe(2000);
         expect(body.currency).toBe('USD');
+        expect(body.formattedAmount).toBe('20.00');
+        expect(body.formattedFinalAmount).toBe(body.finalAmount === null ? null : '20.00');
         expect(body.status).toBe('SUCCESS');
+        expect(body.maskedCardNumber).toBe('555511******1111');
+        expect(body).not.toHaveProperty('cardNumber');
+        expect(body).not.toHaveProperty('cardToken');
     });
 });
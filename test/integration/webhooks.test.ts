@@ -1,7 +1,9 @@
 import { FastifyInstance } from 'fastify';
-import { buildTestApp } from '../helpers/buildApp';
+import { buildTestApp, TEST_MERCHANT_ID } from '../helpers/buildApp';
+import { signedWebhook } from '../helpers/signWebhook';
 import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
 import { STATUSES } from '../../src/enums/transactionStatus';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
 
 describe('POST /webhooks/psp', () => {
     let app: FastifyInstance;
@@ -34,7 +36,10 @@ describe('POST /webhooks/psp', () => {
             orderId: 'order_test',
             amount: 1000,
             currency: 'EUR',
-            cardNumber: '5555111111111111',
+            ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+            merchantId: TEST_MERCHANT_ID,
+            notificationUrl: null,
+            provider: 'psp',
             status: status as any,
         });
 
@@ -51,11 +56,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_webhook_success',
                 final_amount: 1000,
                 status: 'SUCCESS',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(200);
@@ -75,11 +80,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_webhook_failed',
                 final_amount: 0,
                 status: 'FAILED',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(200);
@@ -94,11 +99,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_duplicate',
                 final_amount: 1000,
                 status: 'SUCCESS',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(200);
@@ -113,11 +118,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_duplicate_failed',
                 final_amount: 0,
                 status: 'FAILED',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(200);
@@ -131,11 +136,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_invalid_transition',
                 final_amount: 1000,
                 status: 'FAILED',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(409);
@@ -147,11 +152,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_nonexistent',
                 final_amount: 1000,
                 status: 'SUCCESS',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(404);
@@ -165,11 +170,11 @@ describe('POST /webhooks/psp', () => {
         const response = await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_3ds_complete',
                 final_amount: 1000,
                 status: 'SUCCESS',
-            },
+            }),
         });
 
         expect(response.statusCode).toBe(200);
@@ -183,14 +188,77 @@ describe('POST /webhooks/psp', () => {
         await app.inject({
             method: 'POST',
             url: '/webhooks/psp',
-            payload: {
+            ...signedWebhook({
                 transactionId: 'tx_final_amount',
                 final_amount: 23,
                 status: 'SUCCESS',
-            },
+            }),
         });
 
         const updatedTransaction = await repository.findById('aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee');
         expect(updatedTransaction!.finalAmount).toBe(23);
     });
+
+    describe('signature verification', () => {
+        const webhookBody = {
+            transactionId: 'tx_signed',
+            final_amount: 1000,
+            status: 'SUCCESS',
+        };
+
+        it('should reject webhooks without signature headers', async () => {
+            await createTestTransaction(STATUSES.CREATED, 'tx_signed');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/webhooks/psp',
+                payload: webhookBody,
+            });
+
+            expect(response.statusCode).toBe(401);
+            const storedTransaction = await repository.findById('aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee');
+            expect(storedTransaction!.status).toBe('CREATED');
+        });
+
+        it('should reject webhooks signed with an unknown secret', async () => {
+            await createTestTransaction(STATUSES.CREATED, 'tx_signed');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/webhooks/psp',
+                ...signedWebhook(webhookBody, { secret: 'whsec_forged' }),
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(response.json().error).toContain('signature mismatch');
+        });
+
+        it('should reject webhooks whose body was altered after signing', async () => {
+            await createTestTransaction(STATUSES.CREATED, 'tx_signed');
+            const signed = signedWebhook({ ...webhookBody, status: 'FAILED' });
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/webhooks/psp',
+                headers: signed.headers,
+                payload: JSON.stringify(webhookBody),
+            });
+
+            expect(response.statusCode).toBe(401);
+        });
+
+        it('should reject replayed webhooks with a stale timestamp', async () => {
+            await createTestTransaction(STATUSES.CREATED, 'tx_signed');
+
+            const response = await app.inject({
+                method: 'POST',
+                url: '/webhooks/psp',
+                ...signedWebhook(webhookBody, { now: Date.now() - 10 * 60 * 1000 }),
+            });
+
+            expect(response.statusCode).toBe(401);
+            expect(response.json().error).toContain('tolerance');
+        });
+    });
 });
+
@@ -0,0 +1,25 @@
+import { generateApiKey, generateWebhookSecret, hashApiKey, parseBearerToken } from '../../src/domain/apiKeys';
+
+describe('API keys', () => {
+    it('should generate distinct prefixed keys and secrets', () => {
+        const apiKey = generateApiKey();
+
+        expect(apiKey).toMatch(/^sk_[0-9a-f]{48}$/);
+        expect(generateApiKey()).not.toBe(apiKey);
+        expect(generateWebhookSecret()).toMatch(/^whsec_[0-9a-f]{48}$/);
+    });
+
+    it('should hash keys deterministically', () => {
+        expect(hashApiKey('sk_test')).toBe(hashApiKey('sk_test'));
+        expect(hashApiKey('sk_test')).toMatch(/^[0-9a-f]{64}$/);
+        expect(hashApiKey('sk_test')).not.toBe(hashApiKey('sk_other'));
+    });
+
+    it('should extract the key from a Bearer authorization header', () => {
+        expect(parseBearerToken('Bearer sk_test')).toBe('sk_test');
+        expect(parseBearerToken('bearer   sk_test ')).toBe('sk_test');
+        expect(parseBearerToken('Basic c2tfdGVzdDo=')).toBeNull();
+        expect(parseBearerToken('Bearer')).toBeNull();
+        expect(parseBearerToken(undefined)).toBeNull();
+    });
+});
@@ -0,0 +1,42 @@
+import { decryptCardDetails, encryptCardDetails } from '../../src/domain/cardEncryption';
+
+describe('Card Encryption', () => {
+    const card = { cardNumber: '5555111111111111', cardExpiry: '12/30', cvv: '123' };
+
+    it('should decrypt what it encrypted', () => {
+        const encrypted = encryptCardDetails(card, 'secret');
+
+        expect(decryptCardDetails(encrypted, 'secret')).toEqual(card);
+    });
+
+    it('should not expose the card details', () => {
+        const encrypted = encryptCardDetails(card, 'secret');
+
+        expect(encrypted).toMatch(/^v1\.[\w-]+\.[\w-]+\.[\w-]+$/);
+        expect(encrypted).not.toContain(card.cardNumber);
+        expect(encrypted).not.toContain(card.cvv);
+    });
+
+    it('should use a fresh IV every time', () => {
+        expect(encryptCardDetails(card, 'secret')).not.toBe(encryptCardDetails(card, 'secret'));
+    });
+
+    it('should reject another secret', () => {
+        const encrypted = encryptCardDetails(card, 'secret');
+
+        expect(() => decryptCardDetails(encrypted, 'other-secret')).toThrow();
+    });
+
+    it('should reject tampered ciphertexts', () => {
+        const [version, iv, authTag, ciphertext] = encryptCardDetails(card, 'secret').split('.');
+        const flipped = Buffer.from(ciphertext, 'base64url');
+        flipped[0] ^= 1;
+
+        expect(() => decryptCardDetails([version, iv, authTag, flipped.toString('base64url')].join('.'), 'secret')).toThrow();
+    });
+
+    it('should reject malformed values', () => {
+        expect(() => decryptCardDetails('not-encrypted', 'secret')).toThrow('Malformed encrypted card details');
+        expect(() => decryptCardDetails('v2.a.b.c', 'secret')).toThrow('Malformed encrypted card details');
+    });
+});
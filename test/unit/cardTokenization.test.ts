@@ -0,0 +1,62 @@
+import { detectCardBrand, maskCardNumber, replaceCardWithToken, tokenizeCard } from '../../src/domain/cardTokenization';
+
+describe('Card Tokenization', () => {
+    describe('detectCardBrand', () => {
+        it.each([
+            ['4111111111111111', 'VISA'],
+            ['5555111111111111', 'MASTERCARD'],
+            ['2221000000000009', 'MASTERCARD'],
+            ['378282246310005', 'AMEX'],
+            ['6011111111111117', 'DISCOVER'],
+            ['3530111333300000', 'JCB'],
+            ['30569309025904', 'DINERS'],
+            ['6200000000000005', 'UNIONPAY'],
+            ['9999111111111111', 'UNKNOWN'],
+        ])('should detect the brand of %s as %s', (cardNumber, brand) => {
+            expect(detectCardBrand(cardNumber)).toBe(brand);
+        });
+    });
+
+    describe('maskCardNumber', () => {
+        it('should keep only the BIN and last four digits', () => {
+            expect(maskCardNumber('5555111111111111')).toBe('555511******1111');
+            expect(maskCardNumber('378282246310005')).toBe('378282*****0005');
+        });
+    });
+
+    describe('tokenizeCard', () => {
+        it('should return the card details without the PAN', () => {
+            const card = tokenizeCard('4111111111111111', 'secret');
+
+            expect(card).toEqual({
+                cardToken: expect.stringMatching(/^tok_[0-9a-f]{32}$/),
+                cardBin: '411111',
+                cardLast4: '1111',
+                cardBrand: 'VISA',
+                maskedCardNumber: '411111******1111',
+            });
+            expect(card.cardToken).not.toContain('4111111111111111');
+        });
+
+        it('should return the same token for the same card and secret', () => {
+            expect(tokenizeCard('4111111111111111', 'secret').cardToken)
+                .toBe(tokenizeCard('4111111111111111', 'secret').cardToken);
+        });
+
+        it('should return different tokens for different secrets', () => {
+            expect(tokenizeCard('4111111111111111', 'secret').cardToken)
+                .not.toBe(tokenizeCard('4111111111111111', 'other-secret').cardToken);
+        });
+    });
+
+    describe('replaceCardWithToken', () => {
+        it('should replace the PAN with its token and drop the CVV', () => {
+            const payload = { amount: 1000, cardNumber: '4111111111111111', cvv: '123' };
+
+            expect(replaceCardWithToken(payload, 'secret')).toEqual({
+                amount: 1000,
+                cardToken: tokenizeCard('4111111111111111', 'secret').cardToken,
+            });
+        });
+    });
+});
@@ -0,0 +1,75 @@
+import { passesLuhnCheck, validateCard } from '../../src/domain/cardValidation';
+
+describe('Card Validation', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const validCard = { cardNumber: '4111111111111111', cardExpiry: '12/30', cvv: '123' };
+
+    describe('passesLuhnCheck', () => {
+        it.each([
+            '4111111111111111',
+            '5555111111111111',
+            '378282246310005',
+            '30569309025904',
+            '6011111111111117',
+        ])('should accept %s', (cardNumber) => {
+            expect(passesLuhnCheck(cardNumber)).toBe(true);
+        });
+
+        it.each([
+            '4111111111111112',
+            '4000111111111111',
+            '378282246310006',
+        ])('should reject %s', (cardNumber) => {
+            expect(passesLuhnCheck(cardNumber)).toBe(false);
+        });
+    });
+
+    describe('validateCard', () => {
+        it('should accept a valid card', () => {
+            expect(validateCard(validCard, now)).toEqual([]);
+        });
+
+        it('should reject card numbers failing the Luhn check or containing non-digits', () => {
+            expect(validateCard({ ...validCard, cardNumber: '4111111111111112' }, now)).toEqual([
+                { field: 'cardNumber', code: 'failed_luhn_check', message: 'Card number is invalid' },
+            ]);
+            expect(validateCard({ ...validCard, cardNumber: '4111-1111-1111-1111' }, now)[0].code).toBe('invalid_format');
+        });
+
+        it('should accept cards until the end of their expiry month', () => {
+            expect(validateCard({ ...validCard, cardExpiry: '10/26' }, now)).toEqual([]);
+            expect(validateCard({ ...validCard, cardExpiry: '09/26' }, now)).toEqual([
+                { field: 'cardExpiry', code: 'card_expired', message: 'Card has expired' },
+            ]);
+        });
+
+        it('should reject expiries more than 20 years ahead', () => {
+            expect(validateCard({ ...validCard, cardExpiry: '10/46' }, now)).toEqual([]);
+            expect(validateCard({ ...validCard, cardExpiry: '11/46' }, now)[0].code).toBe('expiry_too_far');
+        });
+
+        it('should reject impossible months', () => {
+            expect(validateCard({ ...validCard, cardExpiry: '13/30' }, now)[0].code).toBe('invalid_format');
+            expect(validateCard({ ...validCard, cardExpiry: '00/30' }, now)[0].code).toBe('invalid_format');
+        });
+
+        it('should require the CVV length of the card brand', () => {
+            expect(validateCard({ ...validCard, cvv: '1234' }, now)).toEqual([
+                { field: 'cvv', code: 'invalid_cvv_length', message: 'CVV must be 3 digits for this card' },
+            ]);
+            expect(validateCard({ cardNumber: '378282246310005', cardExpiry: '12/30', cvv: '1234' }, now)).toEqual([]);
+            expect(validateCard({ cardNumber: '378282246310005', cardExpiry: '12/30', cvv: '123' }, now)[0].message)
+                .toBe('CVV must be 4 digits for this card');
+        });
+
+        it('should report every invalid field at once', () => {
+            const errors = validateCard({ cardNumber: '4111111111111112', cardExpiry: '01/20', cvv: '12a' }, now);
+
+            expect(errors.map((error) => [error.field, error.code])).toEqual([
+                ['cardNumber', 'failed_luhn_check'],
+                ['cardExpiry', 'card_expired'],
+                ['cvv', 'invalid_format'],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import { CircuitBreaker, CircuitOpenError } from '../../src/providers/circuitBreaker';
+
+describe('CircuitBreaker', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    const fail = () => breaker.execute(async () => {
+        throw new Error('unavailable');
+    });
+    const succeed = () => breaker.execute(async () => 'ok');
+
+    beforeEach(() => {
+        now = 1_000_000;
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'info').mockImplementation(() => undefined);
+        breaker = new CircuitBreaker({
+            name: 'psp',
+            failureThreshold: 3,
+            resetTimeoutMs: 1000,
+            isFailure: (error) => !(error instanceof Error && error.message === 'bad request'),
+            now: () => now,
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should stay closed below the failure threshold', async () => {
+        await expect(fail()).rejects.toThrow('unavailable');
+        await expect(fail()).rejects.toThrow('unavailable');
+
+        expect(breaker.snapshot()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 2 });
+    });
+
+    it('should reset the failure count on success', async () => {
+        await expect(fail()).rejects.toThrow();
+        await expect(fail()).rejects.toThrow();
+        await succeed();
+        await expect(fail()).rejects.toThrow();
+
+        expect(breaker.snapshot()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 1 });
+    });
+
+    it('should not count errors that are not failures', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await expect(breaker.execute(async () => {
+                throw new Error('bad request');
+            })).rejects.toThrow('bad request');
+        }
+
+        expect(breaker.snapshot()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 0 });
+    });
+
+    it('should open at the threshold and reject calls without running them', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await expect(fail()).rejects.toThrow();
+        }
+        const call = jest.fn(async () => 'ok');
+
+        await expect(breaker.execute(call)).rejects.toThrow(CircuitOpenError);
+        expect(call).not.toHaveBeenCalled();
+        expect(breaker.snapshot()).toEqual({
+            state: 'OPEN',
+            consecutiveFailures: 3,
+            openedAt: new Date(1_000_000),
+            retryAt: new Date(1_001_000),
+        });
+    });
+
+    it('should let a single trial call through once the reset timeout has elapsed', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await expect(fail()).rejects.toThrow();
+        }
+        now += 1000;
+        expect(breaker.snapshot().state).toBe('HALF_OPEN');
+
+        let finishTrial: (value: string) => void = () => undefined;
+        const trial = breaker.execute(() => new Promise<string>((resolve) => {
+            finishTrial = resolve;
+        }));
+
+        await expect(succeed()).rejects.toThrow(CircuitOpenError);
+
+        finishTrial('ok');
+        await expect(trial).resolves.toBe('ok');
+        expect(breaker.snapshot()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 0, openedAt: null });
+    });
+
+    it('should reopen when the trial call fails', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            await expect(fail()).rejects.toThrow();
+        }
+        now += 1000;
+
+        await expect(fail()).rejects.toThrow('unavailable');
+
+        expect(breaker.snapshot()).toMatchObject({ state: 'OPEN', consecutiveFailures: 4, openedAt: new Date(now) });
+    });
+});
@@ -0,0 +1,45 @@
+import type { AppConfig } from '../../src/config';
+
+describe('Configuration', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        process.env = { ...originalEnv };
+        delete process.env.ADMIN_API_KEY;
+        delete process.env.CARD_TOKEN_SECRET;
+        delete process.env.CARD_ENCRYPTION_KEY;
+    });
+
+    afterEach(() => {
+        process.env = originalEnv;
+    });
+
+    function loadConfig(): AppConfig {
+        let config: AppConfig | undefined;
+        jest.isolateModules(() => {
+            config = jest.requireActual('../../src/config').default;
+        });
+        return config!;
+    }
+
+    it('should fall back to the development secrets outside production', () => {
+        process.env.NODE_ENV = 'development';
+
+        expect(loadConfig()).toMatchObject({
+            adminApiKey: 'sk_admin_local_development',
+            cardTokenSecret: 'tok_local_development',
+            cardEncryptionKey: 'enc_local_development',
+        });
+    });
+
+    it('should refuse to start in production without the secrets', () => {
+        process.env.NODE_ENV = 'production';
+        process.env.CARD_TOKEN_SECRET = 'tok_production';
+        process.env.CARD_ENCRYPTION_KEY = 'enc_production';
+
+        expect(() => loadConfig()).toThrow('ADMIN_API_KEY must be set when NODE_ENV is production');
+
+        process.env.ADMIN_API_KEY = 'sk_admin_production';
+        expect(loadConfig()).toMatchObject({ adminApiKey: 'sk_admin_production', cardTokenSecret: 'tok_production' });
+    });
+});
@@ -0,0 +1,36 @@
+import { formatAmount, getMinorUnitExponent, isSupportedCurrency } from '../../src/domain/currencies';
+
+describe('Currencies', () => {
+    it('should only support uppercase ISO 4217 codes', () => {
+        expect(isSupportedCurrency('EUR')).toBe(true);
+        expect(isSupportedCurrency('JPY')).toBe(true);
+        expect(isSupportedCurrency('eur')).toBe(false);
+        expect(isSupportedCurrency('XYZ')).toBe(false);
+        expect(isSupportedCurrency('XAU')).toBe(false);
+    });
+
+    it('should know each currency\'s minor unit exponent', () => {
+        expect(getMinorUnitExponent('EUR')).toBe(2);
+        expect(getMinorUnitExponent('USD')).toBe(2);
+        expect(getMinorUnitExponent('JPY')).toBe(0);
+        expect(getMinorUnitExponent('KRW')).toBe(0);
+        expect(getMinorUnitExponent('KWD')).toBe(3);
+        expect(getMinorUnitExponent('CLF')).toBe(4);
+        expect(() => getMinorUnitExponent('XYZ')).toThrow('Unsupported currency: XYZ');
+    });
+
+    it('should format minor units in the major unit', () => {
+        expect(formatAmount(2500, 'EUR')).toBe('25.00');
+        expect(formatAmount(2500, 'JPY')).toBe('2500');
+        expect(formatAmount(2500, 'KWD')).toBe('2.500');
+        expect(formatAmount(5, 'EUR')).toBe('0.05');
+        expect(formatAmount(0, 'EUR')).toBe('0.00');
+        expect(formatAmount(-150, 'EUR')).toBe('-1.50');
+        expect(formatAmount(12345, 'CLF')).toBe('1.2345');
+    });
+
+    it('should format large amounts without floating-point errors', () => {
+        expect(formatAmount(Number.MAX_SAFE_INTEGER, 'EUR')).toBe('90071992547409.91');
+        expect(formatAmount(1_000_000_001, 'KWD')).toBe('1000000.001');
+    });
+});
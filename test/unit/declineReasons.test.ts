@@ -0,0 +1,31 @@
+import { declineFields, describeDecline, isDeclineCode, isRetryableDecline } from '../../src/domain/declineReasons';
+
+describe('Decline reasons', () => {
+    it('should recognise catalogue codes only', () => {
+        expect(isDeclineCode('insufficient_funds')).toBe(true);
+        expect(isDeclineCode('authentication_rejected')).toBe(true);
+        expect(isDeclineCode('INSUFFICIENT_FUNDS')).toBe(false);
+        expect(isDeclineCode('toString')).toBe(false);
+    });
+
+    it('should tell soft declines from hard ones', () => {
+        expect(describeDecline('insufficient_funds')).toEqual({ message: 'The card has insufficient funds', retryable: true });
+        expect(describeDecline('provider_unavailable').retryable).toBe(true);
+        expect(describeDecline('suspected_fraud').retryable).toBe(false);
+        expect(describeDecline('stolen_card').retryable).toBe(false);
+    });
+
+    it('should treat unknown codes as hard declines', () => {
+        expect(describeDecline('issuer_said_no')).toEqual({ message: 'The payment was declined', retryable: false });
+        expect(isRetryableDecline('issuer_said_no')).toBe(false);
+        expect(isRetryableDecline(null)).toBeNull();
+    });
+
+    it('should keep the provider\'s message and fall back to the catalogue\'s', () => {
+        expect(declineFields({ declineCode: 'do_not_honor', declineMessage: 'Call issuer' }))
+            .toEqual({ declineCode: 'do_not_honor', declineMessage: 'Call issuer' });
+        expect(declineFields({ declineCode: 'lost_card' }))
+            .toEqual({ declineCode: 'lost_card', declineMessage: 'The card has been reported lost' });
+        expect(declineFields({})).toEqual({});
+    });
+});
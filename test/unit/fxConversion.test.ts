@@ -0,0 +1,68 @@
+import {
+    convertFromSettlement,
+    convertToSettlement,
+    isValidFxRate,
+    reconcileSettlementAmount,
+} from '../../src/domain/fxConversion';
+import { TableFxRateProvider } from '../../src/providers/fxRateProvider';
+
+describe('FX conversion', () => {
+    const eurToUsd = { currency: 'EUR', settlementCurrency: 'USD', rate: '1.0852' };
+
+    it('should accept only positive decimal rates', () => {
+        expect(isValidFxRate('1.0852')).toBe(true);
+        expect(isValidFxRate('160')).toBe(true);
+        expect(isValidFxRate('0')).toBe(false);
+        expect(isValidFxRate('0.000')).toBe(false);
+        expect(isValidFxRate('-1.2')).toBe(false);
+        expect(isValidFxRate('1e3')).toBe(false);
+    });
+
+    it('should convert minor units, rounding half up', () => {
+        expect(convertToSettlement(2500, eurToUsd)).toBe(2713);
+        expect(convertToSettlement(1000, eurToUsd)).toBe(1085);
+        expect(convertToSettlement(50, { ...eurToUsd, rate: '1.01' })).toBe(51);
+        expect(convertFromSettlement(2000, eurToUsd)).toBe(1843);
+    });
+
+    it('should account for the minor unit of each currency', () => {
+        expect(convertToSettlement(2500, { currency: 'EUR', settlementCurrency: 'JPY', rate: '160.47' })).toBe(4012);
+        expect(convertToSettlement(4012, { currency: 'JPY', settlementCurrency: 'KWD', rate: '0.002' })).toBe(8024);
+        expect(convertFromSettlement(4012, { currency: 'EUR', settlementCurrency: 'JPY', rate: '160.47' })).toBe(2500);
+    });
+
+    it('should stay exact on large amounts', () => {
+        expect(convertToSettlement(123_456_789_012, { ...eurToUsd, rate: '1.000000000001' })).toBe(123_456_789_012);
+        expect(convertToSettlement(999_999_999, { ...eurToUsd, rate: '0.3' })).toBe(300_000_000);
+    });
+
+    it('should map the amount sent to the PSP back to the original amount', () => {
+        const rate = { currency: 'EUR', settlementCurrency: 'JPY', rate: '160.47' };
+
+        expect(reconcileSettlementAmount(2, { amount: 1, settlementAmount: 2 }, rate)).toBe(1);
+        expect(convertFromSettlement(2, rate)).toBe(1);
+        expect(reconcileSettlementAmount(1605, { amount: 1000, settlementAmount: 1605 }, rate)).toBe(1000);
+        expect(reconcileSettlementAmount(1000, { amount: 1000, settlementAmount: 1605 }, rate)).toBe(623);
+    });
+});
+
+describe('TableFxRateProvider', () => {
+    it('should return configured rates in their direction only', async () => {
+        const loadedAt = new Date('2026-10-19T00:00:00.000Z');
+        const provider = new TableFxRateProvider([
+            { from: 'EUR', to: 'USD', rate: '1.0852' },
+            { from: 'EUR', to: 'GBP', rate: '0.8561', timestamp: '2026-10-18T16:00:00.000Z' },
+        ], loadedAt);
+
+        expect(await provider.getRate('EUR', 'USD')).toEqual({ from: 'EUR', to: 'USD', rate: '1.0852', timestamp: loadedAt });
+        expect((await provider.getRate('EUR', 'GBP'))!.timestamp).toEqual(new Date('2026-10-18T16:00:00.000Z'));
+        expect(await provider.getRate('USD', 'EUR')).toBeNull();
+    });
+
+    it('should reject invalid table entries', () => {
+        expect(() => new TableFxRateProvider([{ from: 'EUR', to: 'XYZ', rate: '1' }])).toThrow('Unsupported currency');
+        expect(() => new TableFxRateProvider([{ from: 'EUR', to: 'USD', rate: 'abc' }])).toThrow('Invalid FX rate');
+        expect(() => new TableFxRateProvider([{ from: 'EUR', to: 'USD', rate: '1.1', timestamp: 'yesterday' }]))
+            .toThrow('Invalid FX rate timestamp');
+    });
+});
@@ -0,0 +1,67 @@
+import { KeyedMutex } from '../../src/repositories/keyedMutex';
+
+describe('KeyedMutex', () => {
+    let mutex: KeyedMutex;
+
+    beforeEach(() => {
+        mutex = new KeyedMutex();
+    });
+
+    it('should grant a free key immediately', async () => {
+        const release = await mutex.acquire('tx_1', 100);
+
+        expect(release).toEqual(expect.any(Function));
+    });
+
+    it('should not block other keys', async () => {
+        await mutex.acquire('tx_1', 100);
+
+        expect(await mutex.acquire('tx_2', 10)).not.toBeNull();
+    });
+
+    it('should hand a released key to waiters in arrival order', async () => {
+        const order: string[] = [];
+        const release = (await mutex.acquire('tx_1', 100))!;
+        const first = mutex.acquire('tx_1', 1000).then((releaseFirst) => {
+            order.push('first');
+            releaseFirst!();
+        });
+        const second = mutex.acquire('tx_1', 1000).then((releaseSecond) => {
+            order.push('second');
+            releaseSecond!();
+        });
+
+        release();
+        await Promise.all([first, second]);
+
+        expect(order).toEqual(['first', 'second']);
+        expect(await mutex.acquire('tx_1', 10)).not.toBeNull();
+    });
+
+    it('should give up when the key is not released within the timeout', async () => {
+        await mutex.acquire('tx_1', 100);
+
+        expect(await mutex.acquire('tx_1', 10)).toBeNull();
+    });
+
+    it('should skip a waiter that timed out', async () => {
+        const release = (await mutex.acquire('tx_1', 100))!;
+        const timedOut = await mutex.acquire('tx_1', 10);
+        const waiting = mutex.acquire('tx_1', 1000);
+
+        release();
+
+        expect(timedOut).toBeNull();
+        expect(await waiting).not.toBeNull();
+    });
+
+    it('should ignore a second release', async () => {
+        const release = (await mutex.acquire('tx_1', 100))!;
+        release();
+        await mutex.acquire('tx_1', 100);
+
+        release();
+
+        expect(await mutex.acquire('tx_1', 10)).toBeNull();
+    });
+});
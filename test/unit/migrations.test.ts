@@ -0,0 +1,211 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { checksumMigration, collectMigrations, compareMigrations } from '../../src/domain/migrations';
+import { MigrationError, MigrationService } from '../../src/services/migrationService';
+import { AppliedMigration, IMigrationRepository, Migration } from '../../src/types/migration';
+
+/**
+ * Migration repository keeping the applied migrations in memory and logging every call.
+ */
+class FakeMigrationRepository implements IMigrationRepository {
+    applied: AppliedMigration[] = [];
+    calls: string[] = [];
+    failOn: string | null = null;
+
+    async ensureMigrationsTable(): Promise<void> {
+        this.calls.push('ensureMigrationsTable');
+    }
+
+    async acquireLock(): Promise<void> {
+        this.calls.push('acquireLock');
+    }
+
+    async releaseLock(): Promise<void> {
+        this.calls.push('releaseLock');
+    }
+
+    async listApplied(): Promise<AppliedMigration[]> {
+        return [...this.applied];
+    }
+
+    async apply(migration: Migration): Promise<void> {
+        this.calls.push(`apply ${migration.version}`);
+        if (this.failOn === migration.version) {
+            throw new Error('syntax error');
+        }
+        this.applied.push({ version: migration.version, name: migration.name, checksum: migration.checksum, appliedAt: new Date() });
+    }
+
+    async revert(migration: Migration): Promise<void> {
+        this.calls.push(`revert ${migration.version}`);
+        this.applied = this.applied.filter((applied) => applied.version !== migration.version);
+    }
+}
+
+describe('Migrations', () => {
+    const files = [
+        { fileName: '002_create_refunds.sql', content: 'CREATE TABLE refunds ();' },
+        { fileName: '001_create_transactions.sql', content: 'CREATE TABLE transactions ();' },
+        { fileName: '001_create_transactions.down.sql', content: 'DROP TABLE transactions;' },
+        { fileName: '002_create_refunds.down.sql', content: 'DROP TABLE refunds;' },
+        { fileName: '010_add_index.sql', content: 'CREATE INDEX idx ON refunds (id);' },
+        { fileName: 'README.md', content: 'not a migration' },
+    ];
+
+    describe('collectMigrations', () => {
+        it('should pair up and down files and sort them by version', () => {
+            const migrations = collectMigrations(files);
+
+            expect(migrations.map((migration) => migration.version)).toEqual(['001', '002', '010']);
+            expect(migrations[0]).toEqual({
+                version: '001',
+                name: 'create_transactions',
+                upSql: 'CREATE TABLE transactions ();',
+                downSql: 'DROP TABLE transactions;',
+                checksum: checksumMigration('CREATE TABLE transactions ();'),
+            });
+            expect(migrations[2].downSql).toBeNull();
+        });
+
+        it('should reject duplicate versions', () => {
+            expect(() => collectMigrations([...files, { fileName: '002_other.sql', content: '' }]))
+                .toThrow('Duplicate migration version 002');
+        });
+
+        it('should reject a down file without its up file', () => {
+            expect(() => collectMigrations([...files, { fileName: '003_orphan.down.sql', content: '' }]))
+                .toThrow('has no matching up migration');
+        });
+
+        it('should reject SQL files that do not follow the naming scheme', () => {
+            expect(() => collectMigrations([{ fileName: 'create_things.sql', content: '' }]))
+                .toThrow('Invalid migration file name');
+        });
+
+        it('should read every migration in the repository with its down file', () => {
+            const directory = path.resolve(__dirname, '../../migrations');
+            const migrations = collectMigrations(fs.readdirSync(directory).map((fileName) => ({
+                fileName,
+                content: fs.readFileSync(path.join(directory, fileName), 'utf-8'),
+            })));
+
+            expect(migrations.length).toBeGreaterThan(0);
+            expect(migrations.filter((migration) => migration.downSql === null)).toEqual([]);
+        });
+    });
+
+    describe('compareMigrations', () => {
+        it('should report applied, pending, changed and missing migrations', () => {
+            const migrations = collectMigrations(files);
+            const appliedAt = new Date('2026-10-19T08:00:00Z');
+            const applied: AppliedMigration[] = [
+                { version: '001', name: 'create_transactions', checksum: migrations[0].checksum, appliedAt },
+                { version: '002', name: 'create_refunds', checksum: checksumMigration('edited'), appliedAt },
+                { version: '005', name: 'removed', checksum: checksumMigration('removed'), appliedAt },
+            ];
+
+            expect(compareMigrations(migrations, applied)).toEqual([
+                { version: '001', name: 'create_transactions', state: 'applied', appliedAt },
+                { version: '002', name: 'create_refunds', state: 'changed', appliedAt },
+                { version: '005', name: 'removed', state: 'missing', appliedAt },
+                { version: '010', name: 'add_index', state: 'pending', appliedAt: null },
+            ]);
+        });
+    });
+
+    describe('MigrationService', () => {
+        let repository: FakeMigrationRepository;
+        let service: MigrationService;
+
+        beforeEach(() => {
+            repository = new FakeMigrationRepository();
+            service = new MigrationService(repository, collectMigrations(files));
+        });
+
+        it('should apply pending migrations in order under the lock', async () => {
+            const applied = await service.migrate();
+
+            expect(applied.map((migration) => migration.version)).toEqual(['001', '002', '010']);
+            expect(repository.calls).toEqual([
+                'acquireLock', 'ensureMigrationsTable', 'apply 001', 'apply 002', 'apply 010', 'releaseLock',
+            ]);
+        });
+
+        it('should only apply migrations that were not applied yet', async () => {
+            await service.migrate();
+            repository.calls = [];
+
+            expect(await service.migrate()).toEqual([]);
+            expect(repository.calls).toEqual(['acquireLock', 'ensureMigrationsTable', 'releaseLock']);
+        });
+
+        it('should stop at a failing migration and release the lock', async () => {
+            repository.failOn = '002';
+
+            await expect(service.migrate()).rejects.toThrow('syntax error');
+
+            expect(repository.applied.map((migration) => migration.version)).toEqual(['001']);
+            expect(repository.calls[repository.calls.length - 1]).toBe('releaseLock');
+        });
+
+        it('should refuse to run when an applied migration was edited', async () => {
+            await service.migrate();
+            const editedFiles = files.map((file) => (file.fileName === '001_create_transactions.sql'
+                ? { ...file, content: 'CREATE TABLE transactions (id UUID);' }
+                : file));
+            const editedService = new MigrationService(repository, collectMigrations([
+                ...editedFiles,
+                { fileName: '011_new.sql', content: 'SELECT 1;' },
+            ]));
+            repository.calls = [];
+
+            await expect(editedService.migrate()).rejects.toThrow(MigrationError);
+            await expect(editedService.migrate()).rejects.toThrow('001_create_transactions (edited after it was applied)');
+            expect(repository.calls).not.toContain('apply 011');
+        });
+
+        it('should refuse to run when an applied migration file is missing', async () => {
+            await service.migrate();
+            const trimmedService = new MigrationService(repository, collectMigrations(
+                files.filter((file) => !file.fileName.startsWith('001_')),
+            ));
+
+            await expect(trimmedService.migrate()).rejects.toThrow('001_create_transactions (file missing)');
+        });
+
+        it('should roll back the last applied migrations, newest first', async () => {
+            repository.failOn = '010';
+            await expect(service.migrate()).rejects.toThrow();
+            repository.calls = [];
+
+            const reverted = await service.rollback(2);
+
+            expect(reverted.map((migration) => migration.version)).toEqual(['002', '001']);
+            expect(repository.calls).toEqual([
+                'acquireLock', 'ensureMigrationsTable', 'revert 002', 'revert 001', 'releaseLock',
+            ]);
+            expect(repository.applied).toEqual([]);
+        });
+
+        it('should roll back nothing if one of the migrations has no down file', async () => {
+            await service.migrate();
+
+            await expect(service.rollback(2)).rejects.toThrow('Migration 010_add_index has no down migration');
+            expect(repository.calls.filter((call) => call.startsWith('revert'))).toEqual([]);
+            expect(repository.applied).toHaveLength(3);
+        });
+
+        it('should reject invalid rollback steps', async () => {
+            await expect(service.rollback(0)).rejects.toThrow('Rollback steps must be a positive integer');
+            await expect(service.rollback(Number('abc'))).rejects.toThrow(MigrationError);
+        });
+
+        it('should report the status of every migration', async () => {
+            await service.migrate();
+
+            const status = await service.status();
+
+            expect(status.map((entry) => entry.state)).toEqual(['applied', 'applied', 'applied']);
+        });
+    });
+});
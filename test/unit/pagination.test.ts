@@ -0,0 +1,65 @@
+import { decodeCursor, encodeCursor, getSortValue } from '../../src/domain/pagination';
+import { STATUSES } from '../../src/enums/transactionStatus';
+import { TransactionRecord } from '../../src/types/transaction';
+import { tokenizeCard } from '../../src/domain/cardTokenization';
+
+describe('Pagination Cursor', () => {
+    const record: TransactionRecord = {
+        id: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+        orderId: 'order_cursor',
+        amount: 1500,
+        currency: 'EUR',
+        ...tokenizeCard('5555111111111111', 'test-card-token-secret'),
+        merchantId: 'merchant_cursor',
+        notificationUrl: null,
+        provider: 'psp',
+        status: STATUSES.SUCCESS,
+        pspTransactionId: 'tx_cursor',
+        finalAmount: 1500,
+        settlementCurrency: null,
+        settlementAmount: null,
+        fxRate: null,
+        fxRateTimestamp: null,
+        finalSettlementAmount: null,
+        declineCode: null,
+        declineMessage: null,
+        threeDsRedirectUrl: null,
+        version: 1,
+        createdAt: new Date('2025-01-01T10:00:00.123Z'),
+        updatedAt: new Date('2025-01-01T10:05:00.000Z'),
+    };
+
+    it('should round-trip a createdAt cursor', () => {
+        const cursor = encodeCursor(record, 'createdAt', 'desc');
+        expect(decodeCursor(cursor, 'createdAt', 'desc')).toEqual({
+            value: '2025-01-01T10:00:00.123Z',
+            id: record.id,
+        });
+    });
+
+    it('should round-trip an amount cursor', () => {
+        const cursor = encodeCursor(record, 'amount', 'asc');
+        expect(decodeCursor(cursor, 'amount', 'asc')).toEqual({ value: 1500, id: record.id });
+    });
+
+    it('should produce URL-safe cursors', () => {
+        expect(encodeCursor(record, 'createdAt', 'desc')).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('should reject a cursor issued for a different sort', () => {
+        const cursor = encodeCursor(record, 'createdAt', 'desc');
+        expect(decodeCursor(cursor, 'createdAt', 'asc')).toBeNull();
+        expect(decodeCursor(cursor, 'amount', 'desc')).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+        expect(decodeCursor('not-a-cursor', 'createdAt', 'desc')).toBeNull();
+        const wrongValueType = Buffer.from(JSON.stringify({ sortBy: 'amount', sortOrder: 'asc', value: 'x', id: 'a' })).toString('base64url');
+        expect(decodeCursor(wrongValueType, 'amount', 'asc')).toBeNull();
+    });
+
+    it('should return the sort value for each field', () => {
+        expect(getSortValue(record, 'amount')).toBe(1500);
+        expect(getSortValue(record, 'updatedAt')).toBe('2025-01-01T10:05:00.000Z');
+    });
+});
@@ -0,0 +1,61 @@
+import { ProviderRouter } from '../../src/providers/providerRouter';
+import { PspSimulatorProvider } from '../../src/providers/pspSimulatorProvider';
+
+describe('ProviderRouter', () => {
+    const buildProvider = (name: string) => new PspSimulatorProvider({
+        name,
+        baseUrl: `http://localhost/${name}`,
+        appBaseUrl: 'http://localhost',
+        webhookSecrets: ['test-webhook-secret'],
+    });
+
+    const providers = [buildProvider('psp'), buildProvider('psp-eu'), buildProvider('psp-high')];
+
+    const router = new ProviderRouter(providers, {
+        rules: [
+            { provider: 'psp-high', minAmount: 100000 },
+            { provider: 'psp-eu', currencies: ['GBP', 'CHF'], cardBrands: ['VISA', 'MASTERCARD'] },
+        ],
+        defaultProvider: 'psp',
+    });
+
+    it('should pick the first matching rule', () => {
+        expect(router.select({ currency: 'GBP', cardBrand: 'VISA', amount: 1000 }).name).toBe('psp-eu');
+        expect(router.select({ currency: 'GBP', cardBrand: 'VISA', amount: 250000 }).name).toBe('psp-high');
+    });
+
+    it('should require every criterion of a rule to match', () => {
+        expect(router.select({ currency: 'GBP', cardBrand: 'AMEX', amount: 1000 }).name).toBe('psp');
+    });
+
+    it('should fall back to the default provider', () => {
+        expect(router.select({ currency: 'EUR', cardBrand: 'VISA', amount: 1000 }).name).toBe('psp');
+    });
+
+    it('should default to the first provider when no default is given', () => {
+        expect(new ProviderRouter(providers).select({ currency: 'EUR', cardBrand: 'VISA', amount: 1000 }).name).toBe('psp');
+    });
+
+    it('should look providers up by name', () => {
+        expect(router.get('psp-eu')).toBe(providers[1]);
+        expect(router.get('acme')).toBeNull();
+    });
+
+    it('should reject routing configuration naming an unknown provider', () => {
+        expect(() => new ProviderRouter(providers, { rules: [{ provider: 'acme', currencies: ['EUR'] }] }))
+            .toThrow('Unknown payment provider in routing configuration: acme');
+        expect(() => new ProviderRouter(providers, { defaultProvider: 'acme' }))
+            .toThrow('Unknown payment provider in routing configuration: acme');
+    });
+
+    it('should resolve failover providers and reject invalid ones', () => {
+        const failoverRouter = new ProviderRouter(providers, { failover: { psp: 'psp-eu' } });
+
+        expect(failoverRouter.failoverFor('psp')).toBe(providers[1]);
+        expect(failoverRouter.failoverFor('psp-eu')).toBeNull();
+        expect(() => new ProviderRouter(providers, { failover: { psp: 'acme' } }))
+            .toThrow('Unknown payment provider in routing configuration: acme');
+        expect(() => new ProviderRouter(providers, { failover: { psp: 'psp' } }))
+            .toThrow('Payment provider psp cannot fail over to itself');
+    });
+});
@@ -0,0 +1,31 @@
+import { canonicalJson, fingerprintRequest } from '../../src/domain/requestFingerprint';
+
+describe('Request Fingerprint', () => {
+    describe('canonicalJson', () => {
+        it('should sort object keys at every level', () => {
+            expect(canonicalJson({ b: 1, a: { d: 2, c: [3, { f: 4, e: 5 }] } })).toBe(
+                '{"a":{"c":[3,{"e":5,"f":4}],"d":2},"b":1}',
+            );
+        });
+
+        it('should omit undefined properties', () => {
+            expect(canonicalJson({ a: 1, b: undefined })).toBe('{"a":1}');
+        });
+    });
+
+    describe('fingerprintRequest', () => {
+        it('should return the same fingerprint regardless of key order', () => {
+            expect(fingerprintRequest({ amount: 1000, currency: 'EUR' })).toBe(
+                fingerprintRequest({ currency: 'EUR', amount: 1000 }),
+            );
+        });
+
+        it('should return different fingerprints for different bodies', () => {
+            expect(fingerprintRequest({ amount: 1000 })).not.toBe(fingerprintRequest({ amount: 1001 }));
+        });
+
+        it('should return a hex-encoded SHA-256 digest', () => {
+            expect(fingerprintRequest({})).toMatch(/^[0-9a-f]{64}$/);
+        });
+    });
+});
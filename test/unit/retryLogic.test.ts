@@ -1,5 +1,9 @@
 import { TransactionService } from '../../src/services/transactionService';
+import { PspOutboxService } from '../../src/services/pspOutboxService';
 import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTransactionRepository';
+import { PspSimulatorProvider } from '../../src/providers/pspSimulatorProvider';
+import { ProviderRouter } from '../../src/providers/providerRouter';
+import { TableFxRateProvider } from '../../src/providers/fxRateProvider';
 
 /**
  * Tests for PSP call retry logic with exponential backoff.
@@ -7,28 +11,49 @@ import { InMemoryTransactionRepository } from '../../src/repositories/inMemoryTr
  */
 describe('TransactionService - PSP Retry Logic', () => {
     let service: TransactionService;
+    let pspOutboxService: PspOutboxService;
     let repository: InMemoryTransactionRepository;
+    let provider: PspSimulatorProvider;
     const originalFetch = global.fetch;
 
     beforeEach(() => {
         repository = new InMemoryTransactionRepository();
-        service = new TransactionService(repository, {
-            pspBaseUrl: 'http://mock-psp',
+        provider = new PspSimulatorProvider({
+            name: 'psp',
+            baseUrl: 'http://mock-psp',
             appBaseUrl: 'http://mock-app',
+            webhookSecrets: ['test-webhook-secret'],
             retryAttempts: 3,
             retryDelayMs: 10, // Short delay for fast tests
+            logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        });
+        const providerRouter = new ProviderRouter([provider]);
+        pspOutboxService = new PspOutboxService(repository, {
+            providerRouter,
+            cardEncryptionKey: 'test-card-encryption-key',
         });
+        service = new TransactionService(repository, {
+            providerRouter,
+            cardTokenSecret: 'test-card-token-secret',
+            fxRateProvider: new TableFxRateProvider([]),
+            pspOutboxService,
+        });
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
     });
 
     afterEach(() => {
+        pspOutboxService.stop();
         global.fetch = originalFetch;
+        jest.restoreAllMocks();
     });
 
+    const MERCHANT_ID = 'merchant_retry_test';
+
     const validPayload = {
         amount: 1000,
         currency: 'EUR',
         cardNumber: '5555111111111111',
-        cardExpiry: '12/25',
+        cardExpiry: '12/30',
         cvv: '123',
         orderId: 'order_retry_test',
     };
@@ -43,7 +68,7 @@ describe('TransactionService - PSP Retry Logic', () => {
             );
         });
 
-        const result = await service.createTransaction(validPayload);
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
         expect(result.status).toBe('SUCCESS');
         expect(callCount).toBe(1);
     });
@@ -61,7 +86,7 @@ describe('TransactionService - PSP Retry Logic', () => {
             );
         });
 
-        const result = await service.createTransaction(validPayload);
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
         expect(result.status).toBe('SUCCESS');
         expect(callCount).toBe(3);
     });
@@ -79,21 +104,24 @@ describe('TransactionService - PSP Retry Logic', () => {
             );
         });
 
-        const result = await service.createTransaction(validPayload);
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
         expect(result.status).toBe('SUCCESS');
         expect(callCount).toBe(2);
     });
 
-    it('should throw after exhausting all retry attempts on 5xx', async () => {
+    it('should leave the payment queued after exhausting all retry attempts on 5xx', async () => {
         let callCount = 0;
         global.fetch = jest.fn(async () => {
             callCount++;
             return new Response('Service Unavailable', { status: 503 });
         });
 
-        await expect(service.createTransaction(validPayload)).rejects.toThrow(
-            'PSP request failed after 3 attempts',
-        );
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
+        expect(result.status).toBe('CREATED');
+        expect(await repository.findPspOutboxEntryByTransactionId(result.id)).toMatchObject({
+            status: 'PENDING',
+            lastError: expect.stringContaining('PSP request failed after 3 attempts'),
+        });
         expect(callCount).toBe(3);
     });
 
@@ -104,22 +132,75 @@ describe('TransactionService - PSP Retry Logic', () => {
             return new Response('Bad Request', { status: 400 });
         });
 
-        await expect(service.createTransaction(validPayload)).rejects.toThrow(
-            'PSP request failed with status 400',
-        );
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
+        expect(result).toMatchObject({ status: 'FAILED', declineCode: 'provider_rejected', declineRetryable: false });
+        expect(await repository.findPspOutboxEntryByTransactionId(result.id)).toMatchObject({
+            status: 'FAILED',
+            lastError: expect.stringContaining('PSP request failed with status 400'),
+        });
         expect(callCount).toBe(1);
     });
 
-    it('should throw after exhausting all retry attempts on network errors', async () => {
+    it('should fail the payment when the PSP answers with an unknown status', async () => {
+        global.fetch = jest.fn(async () => new Response(
+            JSON.stringify({ transactionId: 'tx_unknown_status', status: 'ON_HOLD' }),
+            { status: 200, headers: { 'Content-Type': 'application/json' } },
+        ));
+
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
+        expect(result).toMatchObject({ status: 'FAILED', declineCode: 'provider_rejected' });
+    });
+
+    it('should leave the payment queued after exhausting all retry attempts on network errors', async () => {
         let callCount = 0;
         global.fetch = jest.fn(async () => {
             callCount++;
             throw new TypeError('fetch failed');
         });
 
-        await expect(service.createTransaction(validPayload)).rejects.toThrow(
-            'PSP request failed after 3 attempts',
-        );
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
+        expect(result.status).toBe('CREATED');
+        expect(await repository.findPspOutboxEntryByTransactionId(result.id)).toMatchObject({
+            status: 'PENDING',
+            lastError: expect.stringContaining('PSP request failed after 3 attempts'),
+        });
         expect(callCount).toBe(3);
     });
+
+    it('should retry a request that timed out and succeed when PSP recovers', async () => {
+        let callCount = 0;
+        global.fetch = jest.fn(async () => {
+            callCount++;
+            if (callCount < 2) {
+                throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+            }
+            return new Response(
+                JSON.stringify({ transactionId: 'tx_timeout_ok', status: 'SUCCESS' }),
+                { status: 200, headers: { 'Content-Type': 'application/json' } },
+            );
+        });
+
+        const result = await service.createTransaction(MERCHANT_ID, validPayload);
+        expect(result.status).toBe('SUCCESS');
+        expect(callCount).toBe(2);
+    });
+
+    it('should not open the circuit on rejected refunds', async () => {
+        global.fetch = jest.fn(async () => new Response('Refund exceeds captured amount', { status: 422 }));
+
+        for (let i = 0; i < 6; i++) {
+            await expect(provider.refundPayment({ transactionId: 'tx_refund', amount: 100, reference: `ref_${i}` }))
+                .rejects.toThrow('PSP request failed with status 422');
+        }
+        expect(provider.circuitState()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 0 });
+    });
+
+    it('should count requests that kept timing out against the circuit', async () => {
+        global.fetch = jest.fn(async () => {
+            throw new DOMException('The operation was aborted due to timeout', 'TimeoutError');
+        });
+
+        await expect(provider.capturePayment('tx_capture', 100)).rejects.toThrow('PSP request failed after 3 attempts');
+        expect(provider.circuitState()).toMatchObject({ state: 'CLOSED', consecutiveFailures: 1 });
+    });
 });
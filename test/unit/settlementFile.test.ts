@@ -0,0 +1,54 @@
+import { formatSettlementFile, parseSettlementFile, settlementDayRange } from '../../src/domain/settlementFile';
+import { SettlementFile } from '../../src/types/transaction';
+
+describe('Settlement File', () => {
+    const file: SettlementFile = {
+        date: '2026-10-19',
+        records: [
+            { pspTransactionId: 'tx_settled', status: 'SUCCESS', amount: 1000, finalAmount: 900, fee: 38, currency: 'EUR' },
+            { pspTransactionId: 'tx_declined', status: 'FAILED', amount: 500, finalAmount: 0, fee: 0, currency: 'USD' },
+        ],
+    };
+
+    it('should write a CSV with a header and one row per record', () => {
+        expect(formatSettlementFile(file, 'csv')).toBe([
+            'settlement_date,psp_transaction_id,status,amount,final_amount,fee,currency',
+            '2026-10-19,tx_settled,SUCCESS,1000,900,38,EUR',
+            '2026-10-19,tx_declined,FAILED,500,0,0,USD',
+            '',
+        ].join('\n'));
+    });
+
+    it('should round-trip both formats', () => {
+        expect(parseSettlementFile(formatSettlementFile(file, 'csv'))).toEqual(file);
+        expect(parseSettlementFile(formatSettlementFile(file, 'json'))).toEqual(file);
+    });
+
+    it('should take the date of a CSV without rows from the caller', () => {
+        const emptyCsv = formatSettlementFile({ date: '2026-10-19', records: [] }, 'csv');
+
+        expect(parseSettlementFile(emptyCsv, '2026-10-19')).toEqual({ date: '2026-10-19', records: [] });
+        expect(() => parseSettlementFile(emptyCsv)).toThrow('date is unknown');
+    });
+
+    it('should reject malformed files', () => {
+        expect(() => parseSettlementFile('id,amount\ntx_1,100')).toThrow('header');
+        expect(() => parseSettlementFile(
+            'settlement_date,psp_transaction_id,status,amount,final_amount,fee,currency\n2026-10-19,tx_1,SUCCESS,ten,10,0,EUR',
+        )).toThrow('Invalid amount on line 2');
+        expect(() => parseSettlementFile(
+            'settlement_date,psp_transaction_id,status,amount,final_amount,fee,currency\n'
+            + '2026-10-19,tx_1,SUCCESS,10,10,0,EUR\n2026-10-20,tx_2,SUCCESS,10,10,0,EUR',
+        )).toThrow('mixes several dates');
+        expect(() => parseSettlementFile('{"date":"2026-10-19","records":[{"pspTransactionId":"tx_1"}]}')).toThrow('Missing status on record 1');
+        expect(() => parseSettlementFile('{"date":"2026-13-01","records":[]}')).toThrow('Invalid settlement date');
+    });
+
+    it('should compute the UTC range of a day and reject impossible dates', () => {
+        expect(settlementDayRange('2026-10-19')).toEqual({
+            from: new Date('2026-10-19T00:00:00.000Z'),
+            to: new Date('2026-10-20T00:00:00.000Z'),
+        });
+        expect(() => settlementDayRange('2026-02-30')).toThrow('Invalid settlement date');
+    });
+});
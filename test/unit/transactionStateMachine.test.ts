@@ -1,4 +1,4 @@
-import { canTransition, assertTransition, isTerminalStatus } from '../../src/domain/transactionStateMachine';
+import { canTransition, assertTransition, isTerminalStatus, isRefundable } from '../../src/domain/transactionStateMachine';
 import { STATUSES, TransactionStatus } from '../../src/enums/transactionStatus';
 
 describe('Transaction State Machine', () => {
@@ -25,8 +25,46 @@ describe('Transaction State Machine', () => {
             expect(canTransition(STATUSES.PENDING_3DS, STATUSES.FAILED)).toBe(true);
         });
 
+        // Authorization & capture transitions
+        it('should allow transition from CREATED and PENDING_3DS to AUTHORIZED', () => {
+            expect(canTransition(STATUSES.CREATED, STATUSES.AUTHORIZED)).toBe(true);
+            expect(canTransition(STATUSES.PENDING_3DS, STATUSES.AUTHORIZED)).toBe(true);
+        });
+
+        it('should allow capturing or voiding an AUTHORIZED transaction', () => {
+            expect(canTransition(STATUSES.AUTHORIZED, STATUSES.SUCCESS)).toBe(true);
+            expect(canTransition(STATUSES.AUTHORIZED, STATUSES.VOIDED)).toBe(true);
+        });
+
+        it('should reject refunding an AUTHORIZED transaction directly', () => {
+            expect(canTransition(STATUSES.AUTHORIZED, STATUSES.REFUNDED)).toBe(false);
+            expect(canTransition(STATUSES.AUTHORIZED, STATUSES.PARTIALLY_REFUNDED)).toBe(false);
+        });
+
+        it('should reject transition from VOIDED to any state', () => {
+            expect(canTransition(STATUSES.VOIDED, STATUSES.AUTHORIZED)).toBe(false);
+            expect(canTransition(STATUSES.VOIDED, STATUSES.SUCCESS)).toBe(false);
+        });
+
+        // Refund transitions
+        it('should allow transition from SUCCESS to PARTIALLY_REFUNDED and REFUNDED', () => {
+            expect(canTransition(STATUSES.SUCCESS, STATUSES.PARTIALLY_REFUNDED)).toBe(true);
+            expect(canTransition(STATUSES.SUCCESS, STATUSES.REFUNDED)).toBe(true);
+        });
+
+        it('should allow further partial refunds from PARTIALLY_REFUNDED', () => {
+            expect(canTransition(STATUSES.PARTIALLY_REFUNDED, STATUSES.PARTIALLY_REFUNDED)).toBe(true);
+            expect(canTransition(STATUSES.PARTIALLY_REFUNDED, STATUSES.REFUNDED)).toBe(true);
+        });
+
+        it('should reject refund transitions from non-successful states', () => {
+            expect(canTransition(STATUSES.CREATED, STATUSES.REFUNDED)).toBe(false);
+            expect(canTransition(STATUSES.PENDING_3DS, STATUSES.PARTIALLY_REFUNDED)).toBe(false);
+            expect(canTransition(STATUSES.FAILED, STATUSES.REFUNDED)).toBe(false);
+        });
+
         // Invalid transitions from terminal states
-        it('should reject transition from SUCCESS to any state', () => {
+        it('should reject transition from SUCCESS to any non-refund state', () => {
             expect(canTransition(STATUSES.SUCCESS, STATUSES.CREATED)).toBe(false);
             expect(canTransition(STATUSES.SUCCESS, STATUSES.PENDING_3DS)).toBe(false);
             expect(canTransition(STATUSES.SUCCESS, STATUSES.FAILED)).toBe(false);
@@ -38,6 +76,11 @@ describe('Transaction State Machine', () => {
             expect(canTransition(STATUSES.FAILED, STATUSES.SUCCESS)).toBe(false);
         });
 
+        it('should reject transition from REFUNDED to any state', () => {
+            expect(canTransition(STATUSES.REFUNDED, STATUSES.SUCCESS)).toBe(false);
+            expect(canTransition(STATUSES.REFUNDED, STATUSES.PARTIALLY_REFUNDED)).toBe(false);
+        });
+
         // Invalid backward transitions
         it('should reject transition from PENDING_3DS back to CREATED', () => {
             expect(canTransition(STATUSES.PENDING_3DS, STATUSES.CREATED)).toBe(false);
@@ -68,14 +111,30 @@ describe('Transaction State Machine', () => {
     });
 
     describe('isTerminalStatus', () => {
-        it('should return true for SUCCESS', () => {
-            expect(isTerminalStatus(STATUSES.SUCCESS)).toBe(true);
+        it('should return false for SUCCESS (it can still be refunded)', () => {
+            expect(isTerminalStatus(STATUSES.SUCCESS)).toBe(false);
         });
 
         it('should return true for FAILED', () => {
             expect(isTerminalStatus(STATUSES.FAILED)).toBe(true);
         });
 
+        it('should return true for REFUNDED', () => {
+            expect(isTerminalStatus(STATUSES.REFUNDED)).toBe(true);
+        });
+
+        it('should return true for VOIDED', () => {
+            expect(isTerminalStatus(STATUSES.VOIDED)).toBe(true);
+        });
+
+        it('should return false for AUTHORIZED', () => {
+            expect(isTerminalStatus(STATUSES.AUTHORIZED)).toBe(false);
+        });
+
+        it('should return false for PARTIALLY_REFUNDED', () => {
+            expect(isTerminalStatus(STATUSES.PARTIALLY_REFUNDED)).toBe(false);
+        });
+
         it('should return false for CREATED', () => {
             expect(isTerminalStatus(STATUSES.CREATED)).toBe(false);
         });
@@ -84,4 +143,20 @@ describe('Transaction State Machine', () => {
             expect(isTerminalStatus(STATUSES.PENDING_3DS)).toBe(false);
         });
     });
+
+    describe('isRefundable', () => {
+        it('should return true for SUCCESS and PARTIALLY_REFUNDED', () => {
+            expect(isRefundable(STATUSES.SUCCESS)).toBe(true);
+            expect(isRefundable(STATUSES.PARTIALLY_REFUNDED)).toBe(true);
+        });
+
+        it('should return false for all other statuses', () => {
+            expect(isRefundable(STATUSES.CREATED)).toBe(false);
+            expect(isRefundable(STATUSES.AUTHORIZED)).toBe(false);
+            expect(isRefundable(STATUSES.VOIDED)).toBe(false);
+            expect(isRefundable(STATUSES.PENDING_3DS)).toBe(false);
+            expect(isRefundable(STATUSES.FAILED)).toBe(false);
+            expect(isRefundable(STATUSES.REFUNDED)).toBe(false);
+        });
+    });
 });
@@ -0,0 +1,161 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+    enqueueWebhook,
+    listWebhookDeliveries,
+    redeliverWebhook,
+    stopWebhookDeliveries,
+} from '../../src/psp-simulator/webhookOutbox';
+import { WebhookDelivery } from '../../src/psp-simulator/simulatorStore';
+import { WEBHOOK_SIGNATURE_HEADER } from '../../src/domain/webhookSignature';
+import { computeRetryDelay } from '../../src/domain/retryBackoff';
+
+jest.mock('../../src/config', () => {
+    const actualConfig = jest.requireActual('../../src/config').default;
+    return {
+        __esModule: true,
+        default: { ...actualConfig, pspWebhookMaxAttempts: 3, pspWebhookRetryBaseDelayMs: 5 },
+    };
+});
+
+/**
+ * Tests for the PSP simulator's durable webhook outbox.
+ * Uses a local HTTP receiver whose responses are scripted per test.
+ */
+describe('PSP Simulator - Webhook Outbox', () => {
+    let server: http.Server;
+    let receiverUrl: string;
+    let responseCodes: number[];
+    let receivedRequests: { headers: http.IncomingHttpHeaders; body: string }[];
+
+    beforeAll(async () => {
+        server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', (chunk) => { body += chunk; });
+            request.on('end', () => {
+                receivedRequests.push({ headers: request.headers, body });
+                response.statusCode = responseCodes.shift() ?? 200;
+                response.end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/psp`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        responseCodes = [];
+        receivedRequests = [];
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    /**
+     * Helper: polls the outbox until the delivery leaves PENDING.
+     */
+    async function waitForSettled(deliveryId: string): Promise<WebhookDelivery> {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            const delivery = (await listWebhookDeliveries()).find((candidate) => candidate.id === deliveryId);
+            if (delivery && delivery.status !== 'PENDING') {
+                return delivery;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        throw new Error(`Delivery ${deliveryId} never settled`);
+    }
+
+    const payload = { transactionId: 'tx_outbox', final_amount: 1000, status: 'SUCCESS' };
+
+    it('should deliver a signed webhook on the first attempt', async () => {
+        const delivery = await enqueueWebhook(receiverUrl, payload);
+        const settled = await waitForSettled(delivery.id);
+
+        expect(settled.status).toBe('DELIVERED');
+        expect(settled.attempts).toHaveLength(1);
+        expect(settled.attempts[0].statusCode).toBe(200);
+        expect(JSON.parse(receivedRequests[0].body)).toEqual(payload);
+        expect(receivedRequests[0].headers[WEBHOOK_SIGNATURE_HEADER]).toMatch(/^v1=[0-9a-f]{64}$/);
+    });
+
+    it('should retry non-2xx responses until the receiver recovers', async () => {
+        responseCodes = [500, 503];
+
+        const delivery = await enqueueWebhook(receiverUrl, payload);
+        const settled = await waitForSettled(delivery.id);
+
+        expect(settled.status).toBe('DELIVERED');
+        expect(settled.attempts.map((attempt) => attempt.statusCode)).toEqual([500, 503, 200]);
+        expect(settled.attempts[0].error).toBe('Received HTTP 500');
+    });
+
+    it('should give up after the maximum number of attempts', async () => {
+        responseCodes = [500, 500, 500, 500];
+
+        const delivery = await enqueueWebhook(receiverUrl, payload);
+        const settled = await waitForSettled(delivery.id);
+
+        expect(settled.status).toBe('FAILED');
+        expect(settled.attempts).toHaveLength(3);
+        expect(settled.nextAttemptAt).toBeNull();
+    });
+
+    it('should record network errors as failed attempts', async () => {
+        const delivery = await enqueueWebhook('http://127.0.0.1:1/webhooks/psp', payload);
+        const settled = await waitForSettled(delivery.id);
+
+        expect(settled.status).toBe('FAILED');
+        expect(settled.attempts).toHaveLength(3);
+        expect(settled.attempts[0].statusCode).toBeNull();
+        expect(settled.attempts[0].error).toBeTruthy();
+    });
+
+    it('should redeliver a failed webhook on demand', async () => {
+        responseCodes = [500, 500, 500];
+        const delivery = await enqueueWebhook(receiverUrl, payload);
+        await waitForSettled(delivery.id);
+
+        const redelivered = await redeliverWebhook(delivery.id);
+
+        expect(redelivered!.status).toBe('DELIVERED');
+        expect(redelivered!.attempts).toHaveLength(4);
+        expect(redelivered!.attempts[3].trigger).toBe('manual');
+    });
+
+    it('should not attempt deliveries once stopped', async () => {
+        const delivery = await enqueueWebhook(receiverUrl, payload, 20);
+
+        stopWebhookDeliveries();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const [stopped] = await listWebhookDeliveries({ transactionId: payload.transactionId, status: 'PENDING' });
+        expect(stopped).toMatchObject({ id: delivery.id, attempts: [] });
+        expect(receivedRequests).toEqual([]);
+    });
+
+    it('should return null when redelivering an unknown delivery', async () => {
+        expect(await redeliverWebhook('wh_unknown')).toBeNull();
+    });
+
+    describe('computeRetryDelay', () => {
+        it('should double the backoff after each failure', () => {
+            expect(computeRetryDelay(1, 1000, () => 1)).toBe(1000);
+            expect(computeRetryDelay(2, 1000, () => 1)).toBe(2000);
+            expect(computeRetryDelay(3, 1000, () => 1)).toBe(4000);
+        });
+
+        it('should keep at least half of the backoff when applying jitter', () => {
+            expect(computeRetryDelay(3, 1000, () => 0)).toBe(2000);
+        });
+
+        it('should cap the backoff', () => {
+            expect(computeRetryDelay(30, 1000, () => 1)).toBe(5 * 60 * 1000);
+        });
+    });
+});
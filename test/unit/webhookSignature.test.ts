@@ -0,0 +1,75 @@
+import {
+    buildWebhookSignatureHeaders,
+    computeWebhookSignature,
+    verifyWebhookSignature,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+} from '../../src/domain/webhookSignature';
+
+describe('Webhook Signature', () => {
+    const rawBody = JSON.stringify({ transactionId: 'tx_abc', final_amount: 1000, status: 'SUCCESS' });
+    const now = 1_735_689_600_000;
+
+    function verify(headers: Record<string, string>, secrets: string[], verifyAt: number = now) {
+        return verifyWebhookSignature({
+            rawBody,
+            timestampHeader: headers[WEBHOOK_TIMESTAMP_HEADER],
+            signatureHeader: headers[WEBHOOK_SIGNATURE_HEADER],
+            secrets,
+            toleranceSeconds: 300,
+            now: verifyAt,
+        });
+    }
+
+    it('should accept a webhook signed with the current secret', () => {
+        const headers = buildWebhookSignatureHeaders('current', rawBody, now);
+        expect(verify(headers, ['current'])).toEqual({ valid: true });
+    });
+
+    it('should accept a webhook signed with the previous secret during rotation', () => {
+        const headers = buildWebhookSignatureHeaders('previous', rawBody, now);
+        expect(verify(headers, ['current', 'previous'])).toEqual({ valid: true });
+    });
+
+    it('should accept a header carrying several signatures if one matches', () => {
+        const timestamp = Math.floor(now / 1000);
+        const headers = {
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_SIGNATURE_HEADER]: `v1=${computeWebhookSignature('retired', timestamp, rawBody)}, v1=${computeWebhookSignature('current', timestamp, rawBody)}`,
+        };
+        expect(verify(headers, ['current'])).toEqual({ valid: true });
+    });
+
+    it('should reject a webhook signed with a retired secret', () => {
+        const headers = buildWebhookSignatureHeaders('retired', rawBody, now);
+        expect(verify(headers, ['current', 'previous'])).toEqual({ valid: false, reason: 'signature mismatch' });
+    });
+
+    it('should reject missing headers', () => {
+        expect(verify({}, ['current'])).toEqual({ valid: false, reason: 'missing signature headers' });
+    });
+
+    it('should reject a malformed timestamp', () => {
+        const headers = { ...buildWebhookSignatureHeaders('current', rawBody, now), [WEBHOOK_TIMESTAMP_HEADER]: 'yesterday' };
+        expect(verify(headers, ['current'])).toEqual({ valid: false, reason: 'malformed timestamp' });
+    });
+
+    it('should reject timestamps older than the tolerance window', () => {
+        const headers = buildWebhookSignatureHeaders('current', rawBody, now);
+        expect(verify(headers, ['current'], now + 301_000).valid).toBe(false);
+        expect(verify(headers, ['current'], now + 299_000).valid).toBe(true);
+    });
+
+    it('should reject timestamps too far in the future', () => {
+        const headers = buildWebhookSignatureHeaders('current', rawBody, now + 301_000);
+        expect(verify(headers, ['current']).valid).toBe(false);
+    });
+
+    it('should reject a timestamp that was changed after signing', () => {
+        const headers = {
+            ...buildWebhookSignatureHeaders('current', rawBody, now),
+            [WEBHOOK_TIMESTAMP_HEADER]: String(Math.floor(now / 1000) + 1),
+        };
+        expect(verify(headers, ['current'])).toEqual({ valid: false, reason: 'signature mismatch' });
+    });
+});